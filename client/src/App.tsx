@@ -1,6 +1,5 @@
 import { useState, useCallback, useEffect, useRef, Suspense, lazy } from 'react';
 import { useSocket } from './hooks/useSocket';
-import type { SwarmSnapshot } from './hooks/useSocket';
 import { useIsMobile } from './hooks/useMediaQuery';
 import { useI18n } from './lib/i18n';
 import { StatsHeader } from './components/StatsHeader';
@@ -11,6 +10,7 @@ import { EventLog } from './components/EventLog';
 import { MissionPanel } from './components/MissionPanel';
 import { ReplayBar } from './components/ReplayBar';
 import { RobotFeedGrid } from './components/RobotFeedGrid';
+import type { MiniViewMode } from './components/RobotMiniView';
 import { ConsensusPanel } from './components/ConsensusPanel';
 import { NetworkTopology } from './components/NetworkTopology';
 import { MissionHistory } from './components/MissionHistory';
@@ -29,12 +29,11 @@ const SwarmMap3D = lazy(() => import('./components/SwarmMap3D').then(m => ({ def
 type ViewMode = '2d' | '3d';
 
 export default function App() {
-  const { connected, snapshot, events, terrain, emit } = useSocket();
+  const { connected, snapshot, events, terrain, role, protocolError, sessionError, emit, setHdcRobots } = useSocket();
   const { locale, t, setLocale } = useI18n();
   const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [feedMode, setFeedMode] = useState<MiniViewMode>('radar');
   const [viewMode, setViewMode] = useState<ViewMode>('2d');
-  const [isReplaying, setIsReplaying] = useState(false);
-  const [replaySnapshot, setReplaySnapshot] = useState<SwarmSnapshot | null>(null);
   const [muted, setMuted] = useState(isMuted());
   const [showHelp, setShowHelp] = useState(false);
   const [serialMode, setSerialMode] = useState<'SIM' | 'HARDWARE'>('SIM');
@@ -43,8 +42,8 @@ export default function App() {
   const prevEventsLen = useRef(0);
   const isMobile = useIsMobile();
 
-  // Use replay snapshot when replaying, otherwise live data
-  const activeSnapshot = isReplaying ? replaySnapshot : snapshot;
+  // Server-side replay: the session streams recorded frames instead of live ones
+  const isReplaying = snapshot?.replay !== undefined;
 
   // Audio triggers based on events
   useEffect(() => {
@@ -107,7 +106,14 @@ export default function App() {
     return () => window.removeEventListener('keydown', handler);
   }, [emit, selectedId, snapshot]);
 
-  const selectedRobot = activeSnapshot?.robots.find(r => r.id === selectedId) ?? null;
+  const selectedRobot = snapshot?.robots.find(r => r.id === selectedId) ?? null;
+
+  // Binary stream: full HDC vectors only for robots on screen (FFT feed = all)
+  const robotCount = snapshot?.robots.length ?? 0;
+  useEffect(() => {
+    if (feedMode === 'spectrum') setHdcRobots(Array.from({ length: robotCount }, (_, i) => i));
+    else setHdcRobots(selectedId !== null ? [selectedId] : []);
+  }, [feedMode, selectedId, robotCount, setHdcRobots]);
 
   const handleMapClick = useCallback((x: number, y: number) => {
     if (selectedId !== null && !isReplaying) {
@@ -121,9 +127,6 @@ export default function App() {
     }
   }, [selectedId, emit, isReplaying]);
 
-  const handleReplayFrame = useCallback((frame: SwarmSnapshot | null) => {
-    setReplaySnapshot(frame);
-  }, []);
 
   // Touch-friendly min height for interactive elements on mobile
   const touchMinHeight = isMobile ? 44 : undefined;
@@ -212,8 +215,26 @@ export default function App() {
 
       <KeyboardHelp visible={showHelp} onClose={() => setShowHelp(false)} />
 
+      {protocolError && (
+        <div role="alert" style={{
+          background: '#3d1d1d', border: '1px solid #f85149', borderRadius: 6,
+          color: '#f85149', fontSize: 11, padding: '4px 10px', margin: '0 0 8px',
+        }}>
+          <strong>{t('app.protocol')}:</strong> {protocolError}
+        </div>
+      )}
+
+      {sessionError && (
+        <div role="alert" style={{
+          background: '#3d1d1d', border: '1px solid #f85149', borderRadius: 6,
+          color: '#f85149', fontSize: 11, padding: '4px 10px', margin: '0 0 8px',
+        }}>
+          <strong>{t('app.session')}:</strong> {sessionError}
+        </div>
+      )}
+
       <div role="status" aria-label="Swarm statistics">
-        <StatsHeader stats={activeSnapshot?.stats ?? null} connected={connected} />
+        <StatsHeader stats={snapshot?.stats ?? null} solar={snapshot?.solar ?? null} wind={snapshot?.wind ?? null} connected={connected} />
       </div>
 
       <div style={{
@@ -278,7 +299,7 @@ export default function App() {
           {/* Map view */}
           {viewMode === '2d' ? (
             <SwarmMap
-              snapshot={activeSnapshot}
+              snapshot={snapshot}
               selectedId={selectedId}
               onSelect={setSelectedId}
               onMapClick={handleMapClick}
@@ -297,7 +318,7 @@ export default function App() {
               </div>
             }>
               <SwarmMap3D
-                snapshot={activeSnapshot}
+                snapshot={snapshot}
                 selectedId={selectedId}
                 onSelect={setSelectedId}
                 onMapClick={handleMapClick}
@@ -308,11 +329,7 @@ export default function App() {
 
           {/* Replay bar */}
           <div style={{ marginTop: 6 }}>
-            <ReplayBar
-              onReplayFrame={handleReplayFrame}
-              isReplaying={isReplaying}
-              setIsReplaying={setIsReplaying}
-            />
+            <ReplayBar replay={snapshot?.replay} emit={emit} />
           </div>
 
           {!isMobile && (
@@ -339,17 +356,17 @@ export default function App() {
         >
           {/* 1. Commands — collapsible */}
           <CollapsiblePanel title={t('panel.commands')} color="#58a6ff" defaultOpen={false} storageKey="commands">
-            <CommandBar emit={emit} formation={activeSnapshot?.formation ?? 'scatter'} nestingStats={activeSnapshot?.stats?.nestingStats} />
+            <CommandBar emit={emit} formation={snapshot?.formation ?? 'scatter'} nestingStats={snapshot?.stats?.nestingStats} clock={snapshot?.clock} canInject={role === null || role === 'instructor'} />
           </CollapsiblePanel>
 
           {/* 2. Mission — collapsible */}
           <CollapsiblePanel
-            title={activeSnapshot?.mission?.active ? t('panel.mission.active') : t('panel.mission')}
-            color={(activeSnapshot?.mission?.active) ? '#3fb950' : '#58a6ff'}
+            title={snapshot?.mission?.active ? t('panel.mission.active') : t('panel.mission')}
+            color={(snapshot?.mission?.active) ? '#3fb950' : '#58a6ff'}
             defaultOpen={panelDefaultOpen}
             storageKey="mission"
           >
-            <MissionPanel mission={activeSnapshot?.mission} emit={emit} />
+            <MissionPanel mission={snapshot?.mission} emit={emit} />
           </CollapsiblePanel>
 
           {/* 3. Fleet — tabs */}
@@ -360,14 +377,15 @@ export default function App() {
                 id: 'feed',
                 label: t('panel.fleet'),
                 color: '#58a6ff',
-                content: activeSnapshot && activeSnapshot.robots.length > 0 ? (
+                content: snapshot && snapshot.robots.length > 0 ? (
                   <RobotFeedGrid
-                    robots={activeSnapshot.robots}
+                    robots={snapshot.robots}
                     selectedId={selectedId}
                     onSelect={setSelectedId}
-                    bleLinks={activeSnapshot.bleLinks}
+                    bleLinks={snapshot.bleLinks}
                     terrain={terrain}
-                    targets={activeSnapshot.mission?.targets}
+                    targets={snapshot.mission?.targets}
+                    onViewModeChange={setFeedMode}
                   />
                 ) : (
                   <div style={{ fontSize: 10, color: '#484f58', textAlign: 'center', padding: 8 }}>
@@ -381,7 +399,7 @@ export default function App() {
                 color: '#58a6ff',
                 content: (
                   <NetworkTopology
-                    snapshot={activeSnapshot}
+                    snapshot={snapshot}
                     selectedId={selectedId}
                     onSelect={setSelectedId}
                   />
@@ -398,13 +416,13 @@ export default function App() {
                 id: 'consensus',
                 label: t('panel.consensus'),
                 color: '#a371f7',
-                content: <ConsensusPanel snapshot={activeSnapshot} />,
+                content: <ConsensusPanel snapshot={snapshot} />,
               },
               {
                 id: 'hdc-stats',
                 label: t('panel.hdcStats'),
                 color: '#f0883e',
-                content: <HdcStatsPanel hdcStats={activeSnapshot?.stats.hdcStats} />,
+                content: <HdcStatsPanel hdcStats={snapshot?.stats.hdcStats} />,
               },
               {
                 id: 'history',
@@ -426,8 +444,8 @@ export default function App() {
               <RobotPanel
                 robot={selectedRobot}
                 onPowerMode={handlePowerMode}
-                bleLinks={activeSnapshot?.bleLinks}
-                allRobots={activeSnapshot?.robots}
+                bleLinks={snapshot?.bleLinks}
+                allRobots={snapshot?.robots}
                 emit={emit}
               />
               <div style={{ borderTop: '1px solid #30363d', paddingTop: 8, marginTop: 8 }}>
@@ -1,14 +1,19 @@
-import type { NestingStats } from '../hooks/useSocket';
+import type { NestingStats, SimClock } from '../hooks/useSocket';
 
 interface Props {
   emit: (event: string, data?: unknown) => void;
   formation: string;
   nestingStats?: NestingStats;
+  clock?: SimClock;
+  canInject?: boolean;       // adversarial injections are instructor-only
 }
 
 const FORMATIONS = ['scatter', 'grid', 'ring', 'wedge', 'cluster'];
+const SPEEDS = [0.25, 0.5, 1, 2, 5, 10];
 
-export function CommandBar({ emit, formation, nestingStats }: Props) {
+export function CommandBar({ emit, formation, nestingStats, clock, canInject = true }: Props) {
+  const paused = clock?.paused ?? false;
+  const speed = clock?.speed ?? 1;
   const deployed = nestingStats?.deployed ?? 0;
   const nested = nestingStats?.nested ?? 0;
   const total = deployed + nested + 1; // +1 for hub
@@ -48,15 +53,52 @@ export function CommandBar({ emit, formation, nestingStats }: Props) {
         ))}
       </div>
 
-      {/* Adversarial */}
-      <div style={{ fontSize: 10, color: '#f85149', fontWeight: 'bold', marginTop: 4 }}>Inject Scenario</div>
+      {/* Time control */}
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: 4 }}>
+        <span style={{ fontSize: 10, color: '#58a6ff', fontWeight: 'bold' }}>Time</span>
+        {clock && (
+          <span style={{ fontSize: 9, color: '#8b949e' }}>
+            sim {(clock.simTimeMs / 1000).toFixed(1)}s · wall {(clock.wallTimeMs / 1000).toFixed(0)}s
+          </span>
+        )}
+      </div>
       <div style={{ display: 'flex', gap: 4, flexWrap: 'wrap' }}>
-        <CmdBtn label="RF Jamming" ariaLabel="Inject RF jamming scenario" color="#f85149" small onClick={() => emit('cmd:inject:jamming')} />
-        <CmdBtn label="Clear Jam" ariaLabel="Clear RF jamming" color="#8b949e" small onClick={() => emit('cmd:inject:clear-jamming')} />
-        <CmdBtn label="Node Fail" ariaLabel="Inject node failure scenario" color="#f0883e" small onClick={() => emit('cmd:inject:node-failure')} />
-        <CmdBtn label="Byzantine" ariaLabel="Inject byzantine fault scenario" color="#a371f7" small onClick={() => emit('cmd:inject:byzantine')} />
-        <CmdBtn label="Clear All" ariaLabel="Clear all injected scenarios" color="#8b949e" small onClick={() => emit('cmd:inject:clear-byzantine')} />
+        {paused ? (
+          <CmdBtn label="Resume" ariaLabel="Resume simulation" color="#3fb950" small onClick={() => emit('cmd:resume')} />
+        ) : (
+          <CmdBtn label="Pause" ariaLabel="Pause simulation" color="#d29922" small onClick={() => emit('cmd:pause')} />
+        )}
+        {paused && (
+          <CmdBtn label="Step" ariaLabel="Advance simulation one tick" color="#58a6ff" small onClick={() => emit('cmd:step', 1)} />
+        )}
+        {SPEEDS.map(s => (
+          <button
+            key={s}
+            onClick={() => emit('cmd:speed', s)}
+            aria-label={`Set simulation speed to ${s}x`}
+            style={{
+              padding: '3px 6px', border: '1px solid #30363d', borderRadius: 4,
+              background: speed === s ? '#58a6ff20' : '#0d1117',
+              color: speed === s ? '#58a6ff' : '#8b949e',
+              fontSize: 9, cursor: 'pointer',
+            }}
+          >{s}×</button>
+        ))}
       </div>
+
+      {/* Adversarial */}
+      {canInject && (
+        <>
+          <div style={{ fontSize: 10, color: '#f85149', fontWeight: 'bold', marginTop: 4 }}>Inject Scenario</div>
+          <div style={{ display: 'flex', gap: 4, flexWrap: 'wrap' }}>
+            <CmdBtn label="RF Jamming" ariaLabel="Inject RF jamming scenario" color="#f85149" small onClick={() => emit('cmd:inject:jamming')} />
+            <CmdBtn label="Clear Jam" ariaLabel="Clear RF jamming" color="#8b949e" small onClick={() => emit('cmd:inject:clear-jamming')} />
+            <CmdBtn label="Node Fail" ariaLabel="Inject node failure scenario" color="#f0883e" small onClick={() => emit('cmd:inject:node-failure')} />
+            <CmdBtn label="Byzantine" ariaLabel="Inject byzantine fault scenario" color="#a371f7" small onClick={() => emit('cmd:inject:byzantine')} />
+            <CmdBtn label="Clear All" ariaLabel="Clear all injected scenarios" color="#8b949e" small onClick={() => emit('cmd:inject:clear-byzantine')} />
+          </div>
+        </>
+      )}
     </div>
   );
 }
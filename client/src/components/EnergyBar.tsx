@@ -12,6 +12,10 @@ interface EnergyBarProps {
   wptMw?: number;
   supercapSoc?: number;
   sizeClass?: string;
+  voltage?: number;
+  currentA?: number;
+  tempC?: number;
+  drawMw?: number;
 }
 
 function MiniBar({ value, color, label }: { value: number; color: string; label: string }) {
@@ -26,7 +30,10 @@ function MiniBar({ value, color, label }: { value: number; color: string; label:
   );
 }
 
-export function EnergyBar({ soc, solarMw, mode, minutes, windMw = 0, regenMw = 0, wptMw = 0, supercapSoc, sizeClass }: EnergyBarProps) {
+export function EnergyBar({
+  soc, solarMw, mode, minutes, windMw = 0, regenMw = 0, wptMw = 0, supercapSoc, sizeClass,
+  voltage, currentA, tempC, drawMw,
+}: EnergyBarProps) {
   const batColor = soc > 50 ? '#3fb950' : soc > 20 ? '#d29922' : '#f85149';
   const showSupercap = sizeClass === 'small' && supercapSoc !== undefined;
 
@@ -44,6 +51,14 @@ export function EnergyBar({ soc, solarMw, mode, minutes, windMw = 0, regenMw = 0
         <span style={{ marginLeft: 'auto', color: MODE_COLORS[mode] ?? '#8b949e' }}>{mode}</span>
         <span>~{minutes}m</span>
       </div>
+      {voltage !== undefined && (
+        <div style={{ display: 'flex', gap: 6, fontSize: 9, color: '#8b949e' }}>
+          <span>{voltage.toFixed(2)}V</span>
+          {currentA !== undefined && <span>{currentA.toFixed(2)}A</span>}
+          {tempC !== undefined && <span style={{ color: tempC < 0 || tempC > 45 ? '#f85149' : '#8b949e' }}>{tempC.toFixed(1)}°C</span>}
+          {drawMw !== undefined && <span style={{ marginLeft: 'auto' }}>{(drawMw / 1000).toFixed(1)}W draw</span>}
+        </div>
+      )}
     </div>
   );
 }
@@ -12,6 +12,7 @@ const TYPE_COLORS: Record<string, string> = {
   node_fail: '#f85149',
   byzantine: '#f0883e',
   recovery: '#3fb950',
+  overrun: '#d29922',
   info: '#8b949e',
 };
 
@@ -1,6 +1,7 @@
 import { useState, useRef, useEffect } from 'react';
-import { exportSnapshotJson, exportTelemetryCsv, exportMissionReport, exportEventsCsv } from '../lib/export';
+import { exportSnapshotJson, exportTelemetryCsv, exportMissionReport, exportEventsCsv, exportAuditCsv } from '../lib/export';
 import type { SwarmSnapshot, SwarmEvent } from '../hooks/useSocket';
+import { api } from '../lib/api';
 
 interface Props {
   snapshot: SwarmSnapshot | null;
@@ -27,9 +28,15 @@ export function ExportMenu({ snapshot, events }: Props) {
     { label: 'Events CSV', action: () => exportEventsCsv(events) },
     { label: 'Mission Report', action: async () => {
       try {
-        const res = await fetch('/mission/history');
-        const history = await res.json();
-        exportMissionReport(history, snapshot?.stats?.hdcStats);
+        const { items } = await api.missionHistory<{ score: number }>({ limit: 1000 });
+        exportMissionReport(items, snapshot?.stats?.hdcStats);
+      } catch {
+        /* ignore fetch errors */
+      }
+    }},
+    { label: 'Audit CSV', action: async () => {
+      try {
+        exportAuditCsv(await api.auditExport({ format: 'csv' }));
       } catch {
         /* ignore fetch errors */
       }
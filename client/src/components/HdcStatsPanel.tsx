@@ -3,10 +3,10 @@
  */
 
 import { useState, useEffect, useRef } from 'react';
-import type { HdcStatsData } from '../hooks/useSocket';
+import type { HdcStats } from '../hooks/useSocket';
 
 interface Props {
-  hdcStats: HdcStatsData | undefined;
+  hdcStats: HdcStats | undefined;
 }
 
 const SPECIES_COLORS = [
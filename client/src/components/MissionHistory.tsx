@@ -3,6 +3,7 @@
  */
 
 import { useState, useEffect } from 'react';
+import { api } from '../lib/api';
 
 interface MissionResult {
   type: string;
@@ -24,14 +25,11 @@ const TYPE_COLORS: Record<string, string> = {
 export function MissionHistory() {
   const [history, setHistory] = useState<MissionResult[]>([]);
 
-  // Poll for history every 5 seconds
+  // Poll the 20 most recent missions (server returns newest first) every 5 seconds
   useEffect(() => {
     const fetchHistory = () => {
-      fetch('/mission/history')
-        .then(r => r.json())
-        .then(data => {
-          if (Array.isArray(data)) setHistory(data);
-        })
+      api.missionHistory<MissionResult>({ limit: 20 })
+        .then(page => setHistory(page.items))
         .catch(() => {});
     };
     fetchHistory();
@@ -73,7 +71,7 @@ export function MissionHistory() {
       </div>
 
       <div style={{ maxHeight: 140, overflow: 'auto' }}>
-        {[...history].reverse().map((m, i) => {
+        {history.map((m, i) => {
           const isHigh = m.score === highScore && m.score > 0;
           return (
             <div key={i} style={{
@@ -1,16 +1,16 @@
 /**
- * ReplayBar.tsx — Replay controls for recorded swarm snapshots
+ * ReplayBar.tsx — Replay controls for the session's recording
  *
- * Fetches recorded frames from server and replays them locally.
+ * Playback runs on the server: it pauses the live simulation and streams
+ * recorded frames to every console in the session, so one operator can
+ * brief a room. The bar sends cmd:replay:* and follows `snapshot.replay`.
+ * "Fork" branches a new session from the shown tick and opens it in a
+ * second window, so both timelines can be driven side by side.
  */
 
-import { useState, useCallback, useRef, useEffect } from 'react';
-import type { SwarmSnapshot } from '../hooks/useSocket';
-
-interface RecordedFrame {
-  tick: number;
-  snapshot: SwarmSnapshot;
-}
+import { useState, useCallback, useEffect } from 'react';
+import type { ReplayState } from '../hooks/useSocket';
+import { api } from '../lib/api';
 
 interface ReplayInfo {
   totalRecorded: number;
@@ -20,25 +20,19 @@ interface ReplayInfo {
 }
 
 interface Props {
-  onReplayFrame: (snapshot: SwarmSnapshot | null) => void;
-  isReplaying: boolean;
-  setIsReplaying: (v: boolean) => void;
+  replay: ReplayState | undefined;
+  emit: (event: string, data?: unknown) => void;
 }
 
-export function ReplayBar({ onReplayFrame, isReplaying, setIsReplaying }: Props) {
+export function ReplayBar({ replay, emit }: Props) {
   const [info, setInfo] = useState<ReplayInfo | null>(null);
-  const [frames, setFrames] = useState<RecordedFrame[]>([]);
-  const [playIndex, setPlayIndex] = useState(0);
-  const [playSpeed, setPlaySpeed] = useState(1);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Slider position while dragging; seeks are sent as it moves
+  const [scrubTick, setScrubTick] = useState<number | null>(null);
 
   // Fetch replay info
   const fetchInfo = useCallback(async () => {
     try {
-      const res = await fetch('/replay/info');
-      const data = await res.json();
-      setInfo(data);
+      setInfo(await api.replayInfo<ReplayInfo>());
     } catch {
       // ignore
     }
@@ -50,62 +44,26 @@ export function ReplayBar({ onReplayFrame, isReplaying, setIsReplaying }: Props)
     return () => clearInterval(timer);
   }, [fetchInfo]);
 
-  // Load replay frames
-  const loadReplay = useCallback(async () => {
-    if (!info || info.bufferedFrames === 0) return;
-    try {
-      const res = await fetch(`/replay/${info.oldestTick}/${info.newestTick}`);
-      const data: RecordedFrame[] = await res.json();
-      setFrames(data);
-      setPlayIndex(0);
-      setIsReplaying(true);
-      setIsPlaying(false);
-      if (data.length > 0) {
-        onReplayFrame(data[0].snapshot);
-      }
-    } catch {
-      // ignore
-    }
-  }, [info, onReplayFrame, setIsReplaying]);
-
-  // Exit replay
-  const exitReplay = useCallback(() => {
-    setIsReplaying(false);
-    setIsPlaying(false);
-    onReplayFrame(null);
-    if (intervalRef.current) clearInterval(intervalRef.current);
-  }, [setIsReplaying, onReplayFrame]);
-
-  // Play/Pause
-  useEffect(() => {
-    if (intervalRef.current) clearInterval(intervalRef.current);
-    if (!isPlaying || frames.length === 0) return;
-
-    intervalRef.current = setInterval(() => {
-      setPlayIndex(prev => {
-        const next = prev + 1;
-        if (next >= frames.length) {
-          setIsPlaying(false);
-          return prev;
-        }
-        onReplayFrame(frames[next].snapshot);
-        return next;
-      });
-    }, 100 / playSpeed);
-
-    return () => { if (intervalRef.current) clearInterval(intervalRef.current); };
-  }, [isPlaying, frames, playSpeed, onReplayFrame]);
-
   // Scrub
   const handleScrub = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const idx = parseInt(e.target.value, 10);
-    setPlayIndex(idx);
-    if (frames[idx]) {
-      onReplayFrame(frames[idx].snapshot);
+    const tick = parseInt(e.target.value, 10);
+    setScrubTick(tick);
+    emit('cmd:replay:seek', tick);
+  }, [emit]);
+
+  const [forkError, setForkError] = useState<string | null>(null);
+  const handleFork = useCallback(async (tick: number) => {
+    try {
+      const { session } = await api.fork<{ session: { id: string } }>({ tick });
+      setForkError(null);
+      window.open(`?session=${encodeURIComponent(session.id)}`, '_blank');
+    } catch (err) {
+      setForkError(err instanceof Error ? err.message : String(err));
     }
-  }, [frames, onReplayFrame]);
+  }, []);
 
-  if (!isReplaying) {
+  if (!replay) {
+    const frames = info ? info.newestTick - info.oldestTick + 1 : 0;
     return (
       <div style={{
         display: 'flex', gap: 6, alignItems: 'center',
@@ -113,10 +71,10 @@ export function ReplayBar({ onReplayFrame, isReplaying, setIsReplaying }: Props)
         borderRadius: 6, padding: '4px 8px',
       }}>
         <span style={{ color: '#8b949e', fontSize: 10 }}>
-          Replay: {info ? `${info.bufferedFrames} frames` : 'loading...'}
+          Replay: {info ? `${info.bufferedFrames ? frames : 0} frames` : 'loading...'}
         </span>
         <button
-          onClick={loadReplay}
+          onClick={() => emit('cmd:replay:start')}
           disabled={!info || info.bufferedFrames === 0}
           style={{
             padding: '2px 8px', fontSize: 10, fontWeight: 600,
@@ -140,32 +98,56 @@ export function ReplayBar({ onReplayFrame, isReplaying, setIsReplaying }: Props)
       <div style={{ display: 'flex', gap: 6, alignItems: 'center', marginBottom: 4 }}>
         <span style={{ color: '#f0883e', fontSize: 10, fontWeight: 600 }}>REPLAY</span>
         <button
-          onClick={() => setIsPlaying(!isPlaying)}
+          onClick={() => emit(replay.playing ? 'cmd:replay:pause' : 'cmd:replay:resume')}
           style={{
             padding: '2px 8px', fontSize: 10, fontWeight: 600,
             border: '1px solid #30363d', borderRadius: 4,
             cursor: 'pointer', background: '#21262d', color: '#e6edf3',
           }}
         >
-          {isPlaying ? 'Pause' : 'Play'}
+          {replay.playing ? 'Pause' : 'Play'}
         </button>
         {([1, 2, 4] as const).map(s => (
           <button
             key={s}
-            onClick={() => setPlaySpeed(s)}
+            onClick={() => emit('cmd:replay:speed', s)}
             style={{
               padding: '2px 6px', fontSize: 9, fontWeight: 600,
               border: '1px solid #30363d', borderRadius: 3,
               cursor: 'pointer',
-              background: playSpeed === s ? '#1f6feb' : '#21262d',
-              color: playSpeed === s ? '#fff' : '#8b949e',
+              background: replay.speed === s ? '#1f6feb' : '#21262d',
+              color: replay.speed === s ? '#fff' : '#8b949e',
             }}
           >
             {s}x
           </button>
         ))}
         <button
-          onClick={exitReplay}
+          onClick={() => emit('cmd:replay:loop', !replay.loop)}
+          aria-pressed={replay.loop}
+          style={{
+            padding: '2px 6px', fontSize: 9, fontWeight: 600,
+            border: '1px solid #30363d', borderRadius: 3,
+            cursor: 'pointer',
+            background: replay.loop ? '#1f6feb' : '#21262d',
+            color: replay.loop ? '#fff' : '#8b949e',
+          }}
+        >
+          Loop
+        </button>
+        <button
+          onClick={() => handleFork(replay.tick)}
+          title={forkError ?? `New session from tick ${replay.tick}`}
+          style={{
+            padding: '2px 6px', fontSize: 9, fontWeight: 600,
+            border: `1px solid ${forkError ? '#f85149' : '#30363d'}`, borderRadius: 3,
+            cursor: 'pointer', background: '#21262d', color: '#3fb950',
+          }}
+        >
+          Fork
+        </button>
+        <button
+          onClick={() => emit('cmd:replay:stop')}
           style={{
             marginLeft: 'auto', padding: '2px 8px', fontSize: 10, fontWeight: 600,
             border: '1px solid #f85149', borderRadius: 4,
@@ -178,18 +160,20 @@ export function ReplayBar({ onReplayFrame, isReplaying, setIsReplaying }: Props)
 
       <div style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
         <span style={{ color: '#8b949e', fontSize: 9, minWidth: 40 }}>
-          {playIndex}/{frames.length - 1}
+          {replay.fromTick}
         </span>
         <input
           type="range"
-          min={0}
-          max={frames.length - 1}
-          value={playIndex}
+          min={replay.fromTick}
+          max={replay.toTick}
+          value={scrubTick ?? replay.tick}
           onChange={handleScrub}
+          onPointerUp={() => setScrubTick(null)}
+          onKeyUp={() => setScrubTick(null)}
           style={{ flex: 1 }}
         />
         <span style={{ color: '#8b949e', fontSize: 9, minWidth: 50 }}>
-          tick {frames[playIndex]?.tick ?? 0}
+          tick {replay.tick}/{replay.toTick}
         </span>
       </div>
     </div>
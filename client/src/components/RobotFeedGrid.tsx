@@ -4,7 +4,7 @@
  */
 
 import { useState } from 'react';
-import type { RobotState, BleLink, TerrainData, MissionTarget } from '../hooks/useSocket';
+import type { RobotState, BleLink, TerrainData, MissionTargetState } from '../hooks/useSocket';
 import { RobotMiniView, type MiniViewMode } from './RobotMiniView';
 
 interface Props {
@@ -13,7 +13,8 @@ interface Props {
   onSelect: (id: number) => void;
   bleLinks?: BleLink[];
   terrain?: TerrainData | null;
-  targets?: MissionTarget[];
+  targets?: MissionTargetState[];
+  onViewModeChange?: (mode: MiniViewMode) => void;
 }
 
 const STATUS_COLORS: Record<string, string> = {
@@ -39,7 +40,7 @@ function RobotCard({ robot, isSelected, onSelect, viewMode, allRobots, bleLinks,
   allRobots: RobotState[];
   bleLinks: BleLink[];
   terrain: TerrainData | null;
-  targets: MissionTarget[];
+  targets: MissionTargetState[];
 }) {
   const status = getStatus(robot);
 
@@ -126,7 +127,7 @@ const VIEW_MODES: { id: MiniViewMode; label: string; color: string }[] = [
   { id: 'spectrum', label: 'FFT', color: '#f0883e' },
 ];
 
-export function RobotFeedGrid({ robots, selectedId, onSelect, bleLinks, terrain, targets }: Props) {
+export function RobotFeedGrid({ robots, selectedId, onSelect, bleLinks, terrain, targets, onViewModeChange }: Props) {
   const [viewMode, setViewMode] = useState<MiniViewMode>('radar');
 
   return (
@@ -142,7 +143,7 @@ export function RobotFeedGrid({ robots, selectedId, onSelect, bleLinks, terrain,
           {VIEW_MODES.map(m => (
             <button
               key={m.id}
-              onClick={(e) => { e.stopPropagation(); setViewMode(m.id); }}
+              onClick={(e) => { e.stopPropagation(); setViewMode(m.id); onViewModeChange?.(m.id); }}
               style={{
                 padding: '1px 5px', fontSize: 8, fontWeight: 600,
                 border: `1px solid ${viewMode === m.id ? m.color : '#30363d'}`,
@@ -6,7 +6,7 @@
  */
 
 import { useRef, useEffect } from 'react';
-import type { RobotState, BleLink, TerrainData, MissionTarget } from '../hooks/useSocket';
+import type { RobotState, BleLink, TerrainData, MissionTargetState } from '../hooks/useSocket';
 
 export type MiniViewMode = 'radar' | 'camera' | 'spectrum';
 
@@ -15,7 +15,7 @@ interface Props {
   allRobots: RobotState[];
   bleLinks: BleLink[];
   terrain: TerrainData | null;
-  targets?: MissionTarget[];
+  targets?: MissionTargetState[];
   viewMode: MiniViewMode;
   size?: number;
 }
@@ -97,7 +97,7 @@ function drawRadar(
   allRobots: RobotState[],
   bleLinks: BleLink[],
   terrain: TerrainData | null,
-  targets: MissionTarget[] | undefined,
+  targets: MissionTargetState[] | undefined,
   size: number,
 ) {
   if (!canvas) return;
@@ -239,7 +239,7 @@ function drawCamera(
   robot: RobotState,
   allRobots: RobotState[],
   terrain: TerrainData | null,
-  targets: MissionTarget[] | undefined,
+  targets: MissionTargetState[] | undefined,
   size: number,
 ) {
   const ctx = canvas.getContext('2d');
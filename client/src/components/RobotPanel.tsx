@@ -102,13 +102,13 @@ export function RobotPanel({ robot, onPowerMode, bleLinks, allRobots, emit }: Pr
           <ActionBtn
             label={robot.isByzantine ? 'Clear BYZ' : 'Mark BYZ'}
             color="#f0883e"
-            onClick={() => emit(robot.isByzantine ? 'cmd:clearByzantine' : 'cmd:byzantine', { robotId: robot.id })}
+            onClick={() => emit(robot.isByzantine ? 'cmd:inject:clear-byzantine' : 'cmd:inject:byzantine', { robotId: robot.id })}
           />
           {!robot.isOnline && (
             <ActionBtn
               label="Recover"
               color="#3fb950"
-              onClick={() => emit('cmd:recover', { robotId: robot.id })}
+              onClick={() => emit('cmd:inject:recover', { robotId: robot.id })}
             />
           )}
         </div>
@@ -125,6 +125,10 @@ export function RobotPanel({ robot, onPowerMode, bleLinks, allRobots, emit }: Pr
         wptMw={robot.wptReceiveMw}
         supercapSoc={robot.supercapSoc}
         sizeClass={robot.sizeClass}
+        voltage={robot.batteryVoltage}
+        currentA={robot.batteryCurrentA}
+        tempC={robot.batteryTempC}
+        drawMw={robot.powerDrawMw}
       />
 
       {/* Power mode selector */}
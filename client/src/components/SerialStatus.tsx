@@ -2,11 +2,13 @@
  * SerialStatus.tsx — Serial connection indicator + SIM/HARDWARE mode switch
  */
 import { useState, useCallback, useRef, useEffect } from 'react';
+import { reportSerialCommand } from '../lib/audit';
 
 type Mode = 'SIM' | 'HARDWARE';
 
 interface SerialBridgeLike {
   onFrame: ((frame: { cmd: number; payload: Uint8Array }) => void) | null;
+  onSend: ((frame: { cmd: number; payload: Uint8Array }) => void) | null;
   connect(): Promise<void>;
   disconnect(): Promise<void>;
 }
@@ -43,6 +45,7 @@ export function SerialStatus({ onModeChange, onFrame }: Props) {
       }
       const bridge: SerialBridgeLike = new BridgeClass();
       bridge.onFrame = (frame) => onFrame?.(frame);
+      bridge.onSend = (frame) => reportSerialCommand(mod.CMD_NAMES[frame.cmd] ?? `cmd_${frame.cmd.toString(16)}`, frame.payload);
       await bridge.connect();
       bridgeRef.current = bridge;
       setConnected(true);
@@ -1,10 +1,26 @@
-import type { SwarmStats } from '../hooks/useSocket';
+import type { SwarmStats, SolarState, WindState } from '../hooks/useSocket';
 
 const WIND_COLORS: Record<string, string> = {
   CALM: '#3fb950', LIGHT: '#58a6ff', MODERATE: '#f0883e', STRONG: '#f85149',
 };
 
-export function StatsHeader({ stats, connected }: { stats: SwarmStats | null; connected: boolean }) {
+/** Solar clock as HH:MM */
+function formatHour(hour: number): string {
+  const minutes = Math.floor(hour * 60) % 1440;
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/** Where the base wind comes from: "log 42%" while replaying, "2 probes" from serial reports */
+function windSourceLabel(wind: WindState | null): string {
+  if (!wind || wind.source === 'synthetic') return 'Wind';
+  if (wind.source === 'serial') return `Wind · ${wind.stations} probe${wind.stations === 1 ? '' : 's'}`;
+  const p = wind.playback;
+  return p && p.durationS > 0 ? `Wind · log ${Math.round(p.positionS / p.durationS * 100)}%` : 'Wind · log';
+}
+
+export function StatsHeader({ stats, solar, wind, connected }: {
+  stats: SwarmStats | null; solar: SolarState | null; wind: WindState | null; connected: boolean;
+}) {
   const s = stats;
   return (
     <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', justifyContent: 'center', padding: '10px 0' }}>
@@ -14,10 +30,24 @@ export function StatsHeader({ stats, connected }: { stats: SwarmStats | null; co
         <Stat label="Charging" value={`${s.chargingRobots}`} color="#d29922" />
       )}
       <Stat label="Battery" value={s ? `${s.avgBatterySoc.toFixed(0)}%` : '-'} color={s && s.avgBatterySoc < 20 ? '#f85149' : '#58a6ff'} />
-      <Stat label="Wind" value={s?.windClass ?? '-'} color={s ? WIND_COLORS[s.windClass] ?? '#58a6ff' : '#58a6ff'} />
+      <Stat label={windSourceLabel(wind)} value={s?.windClass ?? '-'} color={s ? WIND_COLORS[s.windClass] ?? '#58a6ff' : '#58a6ff'} />
+      {solar && (
+        <Stat
+          label={`Sun · ${Math.round(solar.cloudCover * 100)}% cloud`}
+          value={solar.irradianceWm2 > 0 ? `${formatHour(solar.hour)} · ${solar.irradianceWm2.toFixed(0)} W/m²` : `${formatHour(solar.hour)} · night`}
+          color={solar.irradianceWm2 > 0 ? '#d29922' : '#8b949e'}
+        />
+      )}
       <Stat label="Formation" value={s?.formation ?? '-'} />
       <Stat label="Coordinator" value={s ? `R${s.coordinatorId}` : '-'} />
       <Stat label="Uptime" value={s ? `${s.uptimeSeconds.toFixed(0)}s` : '-'} />
+      {s?.scheduler && (
+        <Stat
+          label={s.scheduler.shedLevel > 0 ? `Tick rate · shed L${s.scheduler.shedLevel}` : 'Tick rate'}
+          value={`${s.scheduler.tickRateHz.toFixed(1)} Hz`}
+          color={s.scheduler.tickRateHz < s.scheduler.targetHz * 0.9 ? '#f85149' : s.scheduler.shedLevel > 0 ? '#d29922' : '#58a6ff'}
+        />
+      )}
     </div>
   );
 }
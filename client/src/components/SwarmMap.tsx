@@ -407,10 +407,11 @@ export function SwarmMap({ snapshot, selectedId, onSelect, onMapClick, terrain,
         ctx.fillRect(0, 0, cw, ch);
       }
 
-      // Gust zone
-      if (snapshot.wind.gustActive && snapshot.wind.gustRadius > 0) {
-        const { cx, cy } = toCanvas(snapshot.wind.gustCenter.x, snapshot.wind.gustCenter.y, cw, ch);
-        const r = (snapshot.wind.gustRadius / MAP_W) * cw;
+      // Gust zones
+      for (const gust of snapshot.wind.gusts) {
+        if (gust.radius <= 0) continue;
+        const { cx, cy } = toCanvas(gust.center.x, gust.center.y, cw, ch);
+        const r = (gust.radius / MAP_W) * cw;
         const grad = ctx.createRadialGradient(cx, cy, 0, cx, cy, r);
         grad.addColorStop(0, '#f8514930');
         grad.addColorStop(1, '#f8514900');
@@ -360,15 +360,13 @@ export function SwarmMap3D({ snapshot, selectedId, onSelect, onMapClick, terrain
           {/* BLE Arcs — terrain-aware neon TubeGeometry with bloom */}
           {snapshot && <BleArcs links={snapshot.bleLinks} robots={snapshot.robots} terrain={terrain} />}
 
-          {/* Wind Field — dual-layer particles + gust zone dome */}
+          {/* Wind Field — dual-layer particles + gust zone domes */}
           {snapshot?.wind && (
             <WindField
               direction={snapshot.wind.baseDirection}
               speed={snapshot.wind.baseSpeed}
               windClass={snapshot.wind.windClass}
-              gustActive={snapshot.wind.gustActive}
-              gustCenter={snapshot.wind.gustCenter}
-              gustRadius={snapshot.wind.gustRadius}
+              gusts={snapshot.wind.gusts}
               terrain={terrain}
             />
           )}
@@ -7,11 +7,11 @@ import { useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { Text, Sparkles } from '@react-three/drei';
 import * as THREE from 'three';
-import type { MissionTarget, TerrainData } from '../../hooks/useSocket';
+import type { MissionTargetState, TerrainData } from '../../hooks/useSocket';
 import { TARGET_STATUS_COLORS, SPECIES_COLORS, toWorld, getTerrainHeight } from './constants';
 
 interface Props {
-  targets: MissionTarget[];
+  targets: MissionTargetState[];
   terrain?: TerrainData | null;
 }
 
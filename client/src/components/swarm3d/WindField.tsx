@@ -1,12 +1,12 @@
 /**
- * WindField.tsx — Circular wind particles (two layers) + gust zone dome
+ * WindField.tsx — Circular wind particles (two layers) + a dome per gust
  */
 
 import { useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { PointMaterial, Sparkles } from '@react-three/drei';
 import * as THREE from 'three';
-import type { TerrainData } from '../../hooks/useSocket';
+import type { TerrainData, GustState } from '../../hooks/useSocket';
 import { MAP_W, MAP_H, HALF_W, HALF_H, toWorld, getTerrainHeight } from './constants';
 
 /* ─── Wind Particles ───────────────────────────────────────────── */
@@ -114,14 +114,13 @@ function WindArrow({ direction, speed, windClass }: { direction: number; speed:
 /* ─── Gust Zone Dome ───────────────────────────────────────────── */
 
 interface GustZoneProps {
-  gustActive: boolean;
   gustCenter: { x: number; y: number };
   gustRadius: number;
   terrain?: TerrainData | null;
 }
 
-function GustZone({ gustActive, gustCenter, gustRadius, terrain }: GustZoneProps) {
-  if (!gustActive || gustRadius <= 0) return null;
+function GustZone({ gustCenter, gustRadius, terrain }: GustZoneProps) {
+  if (gustRadius <= 0) return null;
 
   const terrainH = getTerrainHeight(terrain, gustCenter.x, gustCenter.y);
   const [cx, , cz] = toWorld(gustCenter.x, gustCenter.y);
@@ -173,13 +172,11 @@ interface WindFieldProps {
   direction: number;
   speed: number;
   windClass: string;
-  gustActive: boolean;
-  gustCenter: { x: number; y: number };
-  gustRadius: number;
+  gusts: GustState[];
   terrain?: TerrainData | null;
 }
 
-export function WindField({ direction, speed, windClass, gustActive, gustCenter, gustRadius, terrain }: WindFieldProps) {
+export function WindField({ direction, speed, windClass, gusts, terrain }: WindFieldProps) {
   const color = windClass === 'STRONG' ? '#f85149'
     : windClass === 'MODERATE' ? '#f0883e'
     : windClass === 'LIGHT' ? '#58a6ff'
@@ -209,8 +206,10 @@ export function WindField({ direction, speed, windClass, gustActive, gustCenter,
       />
       {/* Wind arrow indicator */}
       <WindArrow direction={direction} speed={speed} windClass={windClass} />
-      {/* Gust zone dome */}
-      <GustZone gustActive={gustActive} gustCenter={gustCenter} gustRadius={gustRadius} terrain={terrain} />
+      {/* Gust zone domes */}
+      {gusts.map(g => (
+        <GustZone key={g.id} gustCenter={g.center} gustRadius={g.radius} terrain={terrain} />
+      ))}
     </>
   );
 }
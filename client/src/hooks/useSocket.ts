@@ -1,173 +1,22 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
-
-export interface MissionTarget {
-  id: number;
-  position: { x: number; y: number };
-  speciesIndex: number;
-  speciesName: string;
-  detectionRadius: number;
-  status: 'active' | 'detected' | 'classified' | 'expired';
-  detectedBy: number[];
-  classifiedBy: number[];
-}
-
-export interface MissionInfo {
-  active: boolean;
-  type: string;
-  targets: MissionTarget[];
-  score: number;
-  totalTargets: number;
-  classified: number;
-  expired: number;
-  timeRemainingMs: number;
-}
-
-export interface EnergyFlowLink {
-  fromId: number;
-  toId: number;
-  powerMw: number;
-  type: 'wpt' | 'solar' | 'wind';
-}
-
-export interface SwarmSnapshot {
-  tick: number;
-  timeMs: number;
-  formation: string;
-  robots: RobotState[];
-  wind: WindState;
-  bleLinks: BleLink[];
-  events: SwarmEvent[];
-  stats: SwarmStats;
-  mission?: MissionInfo;
-  paths?: { robotId: number; waypoints: { x: number; y: number }[] }[];
-  energyFlows?: EnergyFlowLink[];
-}
-
-export interface RobotState {
-  id: number;
-  name: string;
-  sizeClass: string;
-  phase: string;
-  position: { x: number; y: number };
-  velocity: { x: number; y: number };
-  heading: number;
-  speed: number;
-  targetPosition: { x: number; y: number } | null;
-  batterySoc: number;
-  solarHarvestMw: number;
-  powerMode: string;
-  estimatedMinutes: number;
-  localWindClass: string;
-  localWindSpeed: number;
-  localWindDirection: number;
-  hdc: HdcState;
-  isCoordinator: boolean;
-  zoneId: number;
-  bleRangeM: number;
-  // Nesting (套娃 hierarchy)
-  parentId: number | null;
-  childIds: number[];
-  isNested: boolean;
-  // Three-source energy
-  windHarvestMw: number;
-  regenHarvestMw: number;
-  wptReceiveMw: number;
-  wptOutputMw: number;
-  supercapSoc: number;
-  // Status
-  isOnline: boolean;
-  isJammed: boolean;
-  isByzantine: boolean;
-  tickCount: number;
-}
-
-export interface HdcState {
-  melFeatures: number[];
-  hiddenActivations: number[];
-  hdVector: number[];
-  classSimilarities: number[];
-  predictedClass: number;
-  predictedName: string;
-  confidence: number;
-}
-
-export interface WindState {
-  baseDirection: number;
-  baseSpeed: number;
-  gustActive: boolean;
-  gustCenter: { x: number; y: number };
-  gustRadius: number;
-  gustSpeed: number;
-  windClass: string;
-}
-
-export interface BleLink {
-  fromId: number;
-  toId: number;
-  rssi: number;
-  quality: string;
-}
-
-export interface SwarmEvent {
-  tick: number;
-  timeMs: number;
-  type: string;
-  message: string;
-  robotId?: number;
-}
-
-export interface SwarmConsensus {
-  species: string;
-  speciesIndex: number;
-  confidence: number;
-  voters: number;
-  totalOnline: number;
-}
-
-export interface HdcStatsData {
-  totalInferences: number;
-  correctClassifications: number;
-  runningAccuracy: number;
-  perSpecies: { species: string; correct: number; total: number }[];
-}
-
-export interface NestingStats {
-  deployed: number;
-  nested: number;
-  wptCharging: number;
-}
-
-export interface SwarmStats {
-  totalRobots: number;
-  onlineRobots: number;
-  chargingRobots: number;
-  avgBatterySoc: number;
-  windClass: string;
-  formation: string;
-  coordinatorId: number;
-  uptimeSeconds: number;
-  consensus?: SwarmConsensus;
-  hdcStats?: HdcStatsData;
-  nestingStats?: NestingStats;
-}
-
-export interface TerrainObstacle {
-  x: number;
-  z: number;
-  width: number;
-  depth: number;
-  height: number;
-  type: 'building' | 'tree' | 'rock';
-}
-
-export interface TerrainData {
-  heightMap: number[][];
-  rows: number;
-  cols: number;
-  maxHeight: number;
-  obstacles: TerrainObstacle[];
-}
+import {
+  StateDecoder, STATE_CODEC_VERSION, PROTOCOL_VERSION,
+  protocolMismatch, swarmSnapshotSchema, streamFrameSchema,
+  type SwarmSnapshot, type SwarmEvent, type TerrainData, type StreamFrame,
+  type StreamSubscription, type CommandAck,
+} from '@swarm/shared';
+import { SESSION_ID } from '../lib/session';
+import { AUTH_TOKEN, type Role } from '../lib/auth';
+
+export type {
+  Vec2, SizeClass, RobotPhase, PowerMode, WindClass, Formation,
+  MissionTargetState, MissionInfo, EnergyFlowLink, SimClock, SwarmSnapshot,
+  RobotState, HdcState, WindState, BleLink, SwarmEvent, SwarmConsensus,
+  HdcStats, NestingStats, SwarmStats, TerrainObstacle, TerrainData,
+  CommandAck, StreamSubscription, RobotSummary, StreamFrame, ReplayState, SolarState,
+  GustState, WindSolver, WindSource, WindPlayback,
+} from '@swarm/shared';
 
 export function useSocket() {
   const socketRef = useRef<Socket | null>(null);
@@ -175,23 +24,100 @@ export function useSocket() {
   const [snapshot, setSnapshot] = useState<SwarmSnapshot | null>(null);
   const [events, setEvents] = useState<SwarmEvent[]>([]);
   const [terrain, setTerrain] = useState<TerrainData | null>(null);
+  const [frame, setFrame] = useState<StreamFrame | null>(null);
+  const [role, setRole] = useState<Role | null>(null);
+  // Server speaks another protocol version, or a payload failed validation
+  const [protocolError, setProtocolError] = useState<string | null>(null);
+  // ?session= names no session, or the session was deleted under us
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const hdcRobotsRef = useRef<number[]>([]);
+  const subscriptionRef = useRef<StreamSubscription | null>(null);
 
   useEffect(() => {
-    const socket = io(window.location.origin, { transports: ['websocket', 'polling'] });
+    const socket = io(window.location.origin, {
+      transports: ['websocket', 'polling'],
+      query: SESSION_ID ? { session: SESSION_ID } : undefined,
+      auth: AUTH_TOKEN ? { token: AUTH_TOKEN } : undefined,
+    });
     socketRef.current = socket;
-
-    socket.on('connect', () => setConnected(true));
+    const decoder = new StateDecoder();
+    // The first snapshot and frame of each connection are validated
+    let snapshotChecked = false;
+    let frameChecked = false;
+
+    socket.on('connect', () => {
+      setConnected(true);
+      decoder.reset();
+      snapshotChecked = frameChecked = false;
+      const subscription = subscriptionRef.current;
+      // Topic subscribers get projected JSON frames — no binary negotiation
+      if (subscription?.topics) {
+        socket.emit('stream:subscribe', subscription);
+        return;
+      }
+      // Negotiate the binary delta stream; servers that decline keep sending JSON
+      socket.emit('stream:encoding', { encoding: 'binary', version: STATE_CODEC_VERSION }, (res: { ok: boolean }) => {
+        if (res?.ok) socket.emit('stream:hdc', hdcRobotsRef.current);
+      });
+      if (subscription) socket.emit('stream:subscribe', subscription);
+    });
     socket.on('disconnect', () => setConnected(false));
+    socket.on('connect_error', (err: Error) => {
+      if (err.message === 'unauthorized') console.warn('[WS] Rejected: open the console with ?token=<token>');
+      else if (err.message.startsWith('Session not found')) setSessionError(`${err.message} — check the ?session= link`);
+    });
+    // The session was deleted; its commands are refused until another one is joined
+    socket.on('session:ended', ({ sessionId }: { sessionId: string }) => {
+      setSessionError(`Session ${sessionId} has ended — open another session to continue`);
+    });
+    socket.on('auth:principal', (principal: { name: string; role: Role }) => setRole(principal.role));
+    socket.on('protocol:version', ({ version }: { version: number }) => {
+      if (version !== PROTOCOL_VERSION) {
+        setProtocolError(`Server protocol v${version}, console v${PROTOCOL_VERSION} — reload or rebuild the console`);
+      }
+    });
+
+    const check = (kind: string, schema: typeof swarmSnapshotSchema | typeof streamFrameSchema, payload: unknown) => {
+      const mismatch = protocolMismatch(schema, payload);
+      if (!mismatch) return;
+      console.warn(`[WS] ${kind} does not match protocol v${PROTOCOL_VERSION}: ${mismatch}`);
+      setProtocolError(prev => prev ?? `${kind} does not match this console (${mismatch})`);
+    };
 
     socket.on('swarm:terrain', (data: TerrainData) => {
       setTerrain(data);
     });
 
-    socket.on('swarm:state', (data: SwarmSnapshot) => {
+    const applySnapshot = (data: SwarmSnapshot) => {
+      if (!snapshotChecked) {
+        snapshotChecked = true;
+        check('swarm:state', swarmSnapshotSchema, data);
+      }
       setSnapshot(data);
-      if (data.events.length > 0) {
+      // Replayed frames carry past events; the log keeps the live history
+      if (data.events.length > 0 && !data.replay) {
         setEvents(prev => [...prev, ...data.events].slice(-100));
       }
+    };
+
+    socket.on('swarm:state', applySnapshot);
+
+    socket.on('swarm:state:bin', (data: ArrayBuffer) => {
+      const decoded = decoder.decode(data);
+      if (decoded) applySnapshot(decoded);
+      else socket.emit('stream:resync');
+    });
+
+    socket.on('swarm:frame', (data: StreamFrame) => {
+      if (!frameChecked) {
+        frameChecked = true;
+        check('swarm:frame', streamFrameSchema, data);
+      }
+      setFrame(data);
+      if (data.events && data.events.length > 0 && !data.replay) {
+        const newEvents = data.events;
+        setEvents(prev => [...prev, ...newEvents].slice(-100));
+      }
     });
 
     socket.on('swarm:history', (history: SwarmEvent[]) => {
@@ -201,9 +127,36 @@ export function useSocket() {
     return () => { socket.disconnect(); };
   }, []);
 
+  /** Emit an event; cmd:* commands are acknowledged and rejections logged */
   const emit = useCallback((event: string, data?: unknown) => {
-    socketRef.current?.emit(event, data);
+    const socket = socketRef.current;
+    if (!socket) return;
+    if (!event.startsWith('cmd:')) {
+      socket.emit(event, data);
+      return;
+    }
+    socket.emit(event, data, (ack: CommandAck) => {
+      if (!ack.ok) console.warn(`[WS] ${event} rejected: ${ack.error}`, ack.details ?? '');
+    });
+  }, []);
+
+  /** Robots whose full HDC internals the binary stream should carry */
+  const setHdcRobots = useCallback((robotIds: number[]) => {
+    hdcRobotsRef.current = robotIds;
+    socketRef.current?.emit('stream:hdc', robotIds);
+  }, []);
+
+  /**
+   * Narrow the state stream to topics and/or a lower rate (null = full
+   * snapshot every tick). Topic frames arrive as `frame`, not `snapshot`.
+   */
+  const subscribe = useCallback((subscription: StreamSubscription | null) => {
+    subscriptionRef.current = subscription;
+    const socket = socketRef.current;
+    if (!socket?.connected) return;
+    if (subscription) socket.emit('stream:subscribe', subscription);
+    else socket.emit('stream:unsubscribe');
   }, []);
 
-  return { connected, snapshot, events, terrain, emit };
+  return { connected, snapshot, frame, events, terrain, role, protocolError, sessionError, emit, setHdcRobots, subscribe };
 }
@@ -0,0 +1,13 @@
+/**
+ * api.ts — The console's REST client
+ *
+ * A same-origin SwarmClient (sdk/) carrying the access token and the
+ * active session, so components call typed methods instead of building
+ * fetch URLs.
+ */
+
+import { SwarmClient } from '../../../sdk/src';
+import { AUTH_TOKEN } from './auth';
+import { SESSION_ID } from './session';
+
+export const api = new SwarmClient({ token: AUTH_TOKEN, session: SESSION_ID });
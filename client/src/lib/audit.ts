@@ -0,0 +1,15 @@
+/**
+ * audit.ts — Report hardware commands to the server audit trail
+ *
+ * Socket and REST commands are audited server-side; frames the console
+ * writes to the WebSerial bridge never pass through the server, so they
+ * are reported here (channel "serial").
+ */
+
+import { api } from './api';
+
+/** Fire-and-forget: a failed report must never block the hardware link */
+export function reportSerialCommand(command: string, payload: Uint8Array): void {
+  const params = payload.length > 0 ? { payload: Array.from(payload, b => b.toString(16).padStart(2, '0')).join('') } : undefined;
+  api.reportSerial({ command, params }).catch(() => { /* server unreachable — nothing to record */ });
+}
@@ -0,0 +1,25 @@
+/**
+ * auth.ts — Access token for servers started with AUTH_TOKENS
+ *
+ * Open the console once with ?token=<token>; the token is remembered in
+ * localStorage and sent as a Bearer header on REST calls and in the
+ * Socket.io handshake. Without one, servers that have auth disabled (the
+ * default) accept every client.
+ */
+
+const STORAGE_KEY = 'auth:token';
+
+function loadToken(): string | null {
+  const fromUrl = new URLSearchParams(window.location.search).get('token');
+  try {
+    if (fromUrl) localStorage.setItem(STORAGE_KEY, fromUrl);
+    return fromUrl ?? localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return fromUrl; /* localStorage unavailable */
+  }
+}
+
+export const AUTH_TOKEN: string | null = loadToken();
+
+export type Role = 'viewer' | 'operator' | 'instructor';
+
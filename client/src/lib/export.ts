@@ -86,6 +86,11 @@ export function exportMissionReport(history: Array<{ score: number }>, hdcStats:
   downloadFile(json, `mission-report-${timestamp()}.json`, 'application/json');
 }
 
+/** Save the server's audit trail export (already CSV) */
+export function exportAuditCsv(csv: string) {
+  downloadFile(csv, `swarm-audit-${timestamp()}.csv`, 'text/csv');
+}
+
 /** Export events as CSV */
 export function exportEventsCsv(events: SwarmEvent[]) {
   const headers = ['tick', 'time_ms', 'type', 'message', 'robot_id'];
@@ -13,6 +13,8 @@
  *   const state = engine.predictToHdcState(features);
  */
 
+import type { HdcState } from '@swarm/shared';
+
 /* ─── Types ────────────────────────────────────────────────────── */
 
 /** Raw prediction result from WASM inference */
@@ -22,16 +24,8 @@ export interface PredictionResult {
   similarities: number[];
 }
 
-/** Full HDC state compatible with the web console's visualization */
-export interface HdcState {
-  melFeatures: number[];        // 32 bins (from feature extraction or synthetic)
-  hiddenActivations: number[];  // hidden_dim floats (16 for size_champion)
-  hdVector: number[];           // hd_dim floats, bipolar {-1, +1} (64)
-  classSimilarities: number[];  // n_classes floats (6)
-  predictedClass: number;
-  predictedName: string;
-  confidence: number;
-}
+/** Full HDC state — the same shape the server streams per robot */
+export type { HdcState };
 
 /** Model metadata */
 export interface ModelInfo {
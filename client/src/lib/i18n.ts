@@ -15,6 +15,8 @@ const translations: Record<Locale, Record<string, string>> = {
     'app.sfx': 'SFX ON',
     'app.keys': '? KEYS',
     'app.replay': 'REPLAY MODE',
+    'app.protocol': 'Protocol mismatch',
+    'app.session': 'Session unavailable',
 
     // View modes
     'view.2d': '2D',
@@ -104,6 +106,8 @@ const translations: Record<Locale, Record<string, string>> = {
     'app.sfx': '音效开',
     'app.keys': '? 快捷键',
     'app.replay': '回放模式',
+    'app.protocol': '协议不匹配',
+    'app.session': '会话不可用',
 
     'view.2d': '2D',
     'view.3d': '3D',
@@ -0,0 +1,10 @@
+/**
+ * session.ts — Which simulator session this console drives
+ *
+ * Open the console with ?session=<id> to join a workshop session; without
+ * it the default swarm is used. The REST client (api.ts) sends
+ * session-scoped calls to /sessions/<id>/... on the server.
+ */
+
+export const SESSION_ID: string | null = new URLSearchParams(window.location.search).get('session');
+
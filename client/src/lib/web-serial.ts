@@ -39,6 +39,17 @@ export const CMD_MOVE = 0x05;
 export const CMD_DEPLOY = 0x06;
 export const CMD_RECALL = 0x07;
 
+/** Command names reported to the server audit trail */
+export const CMD_NAMES: Record<number, string> = {
+  [CMD_PING]: 'ping',
+  [CMD_STATUS]: 'status',
+  [CMD_CONFIG]: 'config',
+  [CMD_HDC_RESULT]: 'hdc_result',
+  [CMD_MOVE]: 'move',
+  [CMD_DEPLOY]: 'deploy',
+  [CMD_RECALL]: 'recall',
+};
+
 /* ─── Types ──────────────────────────────────────────────────── */
 
 export interface DecodedFrame {
@@ -233,6 +244,9 @@ export class SerialBridge {
   /** Callback invoked when a valid frame is received. */
   onFrame: ((frame: DecodedFrame) => void) | null = null;
 
+  /** Callback invoked after a frame has been written (audit reporting). */
+  onSend: ((frame: DecodedFrame) => void) | null = null;
+
   /* ─── Connection lifecycle ───────────────────────────────── */
 
   /** Check whether the WebSerial API is available in this browser. */
@@ -312,6 +326,7 @@ export class SerialBridge {
     }
     const frame = encodeFrame(cmd, payload);
     await this.writer.write(frame);
+    this.onSend?.({ cmd, payload });
   }
 
   /* ─── Command helpers ────────────────────────────────────── */
@@ -75,4 +75,16 @@ describe('StatsHeader', () => {
     render(<StatsHeader stats={makeStats({ uptimeSeconds: 123.7 })} connected={true} />);
     expect(screen.getByText('124s')).toBeInTheDocument();
   });
+
+  it('renders the effective tick rate and shed level when scheduled in real time', () => {
+    const scheduler = { tickRateHz: 7.04, targetHz: 10, overruns: 12, droppedTicks: 3, shedLevel: 2, meshIntervalTicks: 5 };
+    render(<StatsHeader stats={makeStats({ scheduler })} connected={true} />);
+    expect(screen.getByText('7.0 Hz')).toBeInTheDocument();
+    expect(screen.getByText('Tick rate · shed L2')).toBeInTheDocument();
+  });
+
+  it('omits the tick rate for headless stats', () => {
+    render(<StatsHeader stats={makeStats()} connected={true} />);
+    expect(screen.queryByText('Tick rate')).not.toBeInTheDocument();
+  });
 });
@@ -13,7 +13,7 @@ import * as path from 'node:path';
 // Inline snapshot of ALL keys that the i18n module defines.
 const EXPECTED_KEYS = [
   'app.title', 'app.subtitle', 'app.subtitle.mobile', 'app.muted', 'app.sfx',
-  'app.keys', 'app.replay',
+  'app.keys', 'app.replay', 'app.protocol', 'app.session',
   'view.2d', 'view.3d', 'view.heat',
   'panel.commands', 'panel.mission', 'panel.mission.active', 'panel.fleet',
   'panel.network', 'panel.consensus', 'panel.hdcStats', 'panel.history',
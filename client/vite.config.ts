@@ -1,11 +1,18 @@
 /// <reference types="vitest/config" />
-import { defineConfig } from 'vite'
+import { defineConfig, searchForWorkspaceRoot } from 'vite'
 import react from '@vitejs/plugin-react'
+import { fileURLToPath } from 'node:url'
 
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // Wire types and validators shared with the server, consumed as source
+    alias: { '@swarm/shared': fileURLToPath(new URL('../shared/src', import.meta.url)) },
+  },
   server: {
     port: 5173,
+    // The REST client lives in ../sdk, the protocol types in ../shared
+    fs: { allow: [searchForWorkspaceRoot(process.cwd()), '../sdk', '../shared'] },
     proxy: {
       '/socket.io': { target: 'http://localhost:9754', ws: true },
       '/cmd': { target: 'http://localhost:9754' },
@@ -0,0 +1,296 @@
+/**
+ * swarm-console-sdk — Typed client for the swarm console REST API
+ *
+ * Request types are generated from the server's zod schemas
+ * (types.gen.ts, `npm run sdk` in server/); the same schemas describe
+ * GET /openapi.json for non-TypeScript tooling. Uses the global fetch
+ * (Node ≥ 18, browsers).
+ *
+ *   const api = new SwarmClient({ baseUrl: 'http://localhost:9754', token });
+ *   await api.command('move', { robotId: 3, x: 60, y: 40 });
+ *   const { items, total } = await api.events({ type: 'node_fail', limit: 50 });
+ */
+
+import type {
+  AuditQuery,
+  CheckpointRequest,
+  CommandInputs,
+  CommandName,
+  CompareQuery,
+  FleetSpec,
+  ForkRequest,
+  HistoryQuery,
+  RunFramesQuery,
+  SessionCreate,
+  SerialAuditReport,
+  WindLogQuery,
+} from './types.gen';
+
+export type * from './types.gen';
+
+export interface SwarmClientOptions {
+  /** Server origin; '' for same-origin requests from the console */
+  baseUrl?: string;
+  /** AUTH_TOKENS bearer token (omit when auth is disabled) */
+  token?: string | null;
+  /** Session for session-scoped routes; the default session when omitted */
+  session?: string | null;
+  fetch?: typeof fetch;
+}
+
+/** Query values as callers write them; the server parses the strings */
+export type QueryInput<T> = { [K in keyof T]?: T[K] | number };
+
+export type CommandAck = { ok: true } & Record<string, unknown>;
+
+/** A paged list endpoint: items plus the X-Total-Count header */
+export interface Page<T> {
+  items: T[];
+  total: number;
+}
+
+type Json = Record<string, unknown>;
+
+/** Request body sent as-is instead of JSON */
+class RawBody {
+  readonly data: Blob | ArrayBuffer | Uint8Array<ArrayBuffer> | string;
+  readonly type: string;
+
+  constructor(data: Blob | ArrayBuffer | Uint8Array<ArrayBuffer> | string, type = 'application/octet-stream') {
+    this.data = data;
+    this.type = type;
+  }
+}
+
+/** Non-2xx response; `body` is the server's { ok: false, error, details? } */
+export class SwarmApiError extends Error {
+  readonly status: number;
+  readonly body: unknown;
+
+  constructor(status: number, body: unknown) {
+    const message = typeof body === 'object' && body !== null && 'error' in body
+      ? String((body as { error: unknown }).error)
+      : `HTTP ${status}`;
+    super(message);
+    this.name = 'SwarmApiError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export class SwarmClient {
+  private readonly baseUrl: string;
+  private readonly token: string | null;
+  private readonly session: string | null;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: SwarmClientOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? '').replace(/\/$/, '');
+    this.token = options.token ?? null;
+    this.session = options.session ?? null;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  /** Same client bound to another session */
+  forSession(session: string | null): SwarmClient {
+    return new SwarmClient({ baseUrl: this.baseUrl, token: this.token, session, fetch: this.fetchImpl });
+  }
+
+  // ── Commands (POST /cmd/<name>) ─────────────────────────────
+
+  command<K extends CommandName>(name: K, ...input: {} extends CommandInputs[K] ? [CommandInputs[K]?] : [CommandInputs[K]]): Promise<CommandAck> {
+    return this.request('POST', this.sessionPath(`/cmd/${name}`), { body: input[0] ?? {} });
+  }
+
+  // ── Session-scoped state ───────────────────────────────────
+
+  clock<T = Json>(): Promise<T> {
+    return this.request('GET', this.sessionPath('/clock'));
+  }
+
+  mission<T = Json>(): Promise<T> {
+    return this.request('GET', this.sessionPath('/mission'));
+  }
+
+  manifest<T = Json>(): Promise<T> {
+    return this.request('GET', this.sessionPath('/manifest'));
+  }
+
+  replayInfo<T = Json>(): Promise<T> {
+    return this.request('GET', this.sessionPath('/replay/info'));
+  }
+
+  replay<T = Json>(from: number, to: number): Promise<T[]> {
+    return this.request('GET', this.sessionPath(`/replay/${from}/${to}`));
+  }
+
+  fleet<T = Json>(): Promise<T> {
+    return this.request('GET', this.sessionPath('/fleet'));
+  }
+
+  loadFleet(spec: FleetSpec): Promise<Json> {
+    return this.request('POST', this.sessionPath('/fleet'), { body: spec });
+  }
+
+  archiveRun(): Promise<Json> {
+    return this.request('POST', this.sessionPath('/runs/archive'));
+  }
+
+  checkpoint(request: CheckpointRequest = {}): Promise<Json> {
+    return this.request('POST', this.sessionPath('/checkpoint'), { body: request });
+  }
+
+  restore(checkpointId: string): Promise<Json> {
+    return this.request('POST', this.sessionPath(`/restore/${encodeURIComponent(checkpointId)}`));
+  }
+
+  /** New session branched from a recorded tick of this one (paused unless paused: false) */
+  fork<T = Json>(request: ForkRequest): Promise<T> {
+    return this.request('POST', this.sessionPath('/fork'), { body: request });
+  }
+
+  /** This session against another at their latest common recorded tick (or ?tick) */
+  compare<T = Json>(otherSessionId: string, query: QueryInput<CompareQuery> = {}): Promise<T> {
+    return this.request('GET', this.sessionPath(`/compare/${encodeURIComponent(otherSessionId)}${queryString(query)}`));
+  }
+
+  reportSerial(report: SerialAuditReport): Promise<Json> {
+    return this.request('POST', this.sessionPath('/audit'), { body: report });
+  }
+
+  /** Relay serial WindReport frames (10 bytes each, back to back) */
+  relayWindReports(frames: ArrayBuffer | Uint8Array<ArrayBuffer>): Promise<Json> {
+    return this.request('POST', this.sessionPath('/wind/reports'), { body: new RawBody(frames) });
+  }
+
+  // ── Sessions ───────────────────────────────────────────────
+
+  sessions<T = Json>(): Promise<T[]> {
+    return this.request('GET', '/sessions');
+  }
+
+  createSession(request: SessionCreate = {}): Promise<Json> {
+    return this.request('POST', '/sessions', { body: request });
+  }
+
+  deleteSession(id: string): Promise<Json> {
+    return this.request('DELETE', `/sessions/${encodeURIComponent(id)}`);
+  }
+
+  // ── Store-wide history ─────────────────────────────────────
+
+  missionHistory<T = Json>(query: QueryInput<HistoryQuery> = {}): Promise<Page<T>> {
+    return this.page('/mission/history', query);
+  }
+
+  events<T = Json>(query: QueryInput<HistoryQuery> = {}): Promise<Page<T>> {
+    return this.page('/events', query);
+  }
+
+  runs<T = Json>(query: QueryInput<HistoryQuery> = {}): Promise<Page<T>> {
+    return this.page('/runs', query);
+  }
+
+  /** Run summary and one page of frames; continue from the returned nextTick */
+  run<T = Json>(runId: string, query: QueryInput<RunFramesQuery> = {}): Promise<T> {
+    return this.request('GET', `/runs/${encodeURIComponent(runId)}${queryString(query)}`);
+  }
+
+  /** Run file (gzip JSONL: header line, then one recorded frame per line) */
+  async runFile(runId: string): Promise<ArrayBuffer> {
+    const res = await this.send('GET', `/runs/${encodeURIComponent(runId)}/file`);
+    return res.arrayBuffer();
+  }
+
+  /** Upload a run file as downloaded by runFile(), gzip or plain JSONL */
+  importRun(file: Blob | ArrayBuffer | Uint8Array<ArrayBuffer>): Promise<Json> {
+    return this.request('POST', '/runs/import', { body: new RawBody(file) });
+  }
+
+  windLogs<T = Json>(): Promise<T[]> {
+    return this.request('GET', '/wind/logs');
+  }
+
+  /** Import an anemometer CSV log; replay it with command('wind/play', { logId }) */
+  importWindLog(csv: string, query: WindLogQuery = {}): Promise<Json> {
+    return this.request('POST', `/wind/logs${queryString(query)}`, { body: new RawBody(csv, 'text/csv') });
+  }
+
+  checkpoints<T = Json>(query: QueryInput<HistoryQuery> = {}): Promise<Page<T>> {
+    return this.page('/checkpoints', query);
+  }
+
+  audit<T = Json>(query: QueryInput<Omit<AuditQuery, 'format'>> = {}): Promise<Page<T>> {
+    return this.page('/audit', query);
+  }
+
+  /** Audit export as text (csv / jsonl) or the JSON array */
+  async auditExport(query: QueryInput<AuditQuery> = {}): Promise<string> {
+    const res = await this.send('GET', `/audit/export${queryString(query)}`);
+    return res.text();
+  }
+
+  // ── Server ─────────────────────────────────────────────────
+
+  health<T = Json>(): Promise<T> {
+    return this.request('GET', '/health');
+  }
+
+  me(): Promise<{ name: string; role: string; authEnabled: boolean }> {
+    return this.request('GET', '/auth/me');
+  }
+
+  openApi(): Promise<Json> {
+    return this.request('GET', '/openapi.json');
+  }
+
+  // ── Transport ──────────────────────────────────────────────
+
+  private sessionPath(path: string): string {
+    return this.session ? `/sessions/${encodeURIComponent(this.session)}${path}` : path;
+  }
+
+  private async page<T>(path: string, query: object): Promise<Page<T>> {
+    const res = await this.send('GET', `${path}${queryString(query)}`);
+    const items = await res.json() as T[];
+    return { items, total: Number(res.headers.get('X-Total-Count') ?? items.length) };
+  }
+
+  private async request<T>(method: string, path: string, options: { body?: unknown } = {}): Promise<T> {
+    const res = await this.send(method, path, options.body);
+    return await res.json() as T;
+  }
+
+  private async send(method: string, path: string, body?: unknown): Promise<Response> {
+    const headers: Record<string, string> = {};
+    if (this.token) headers.Authorization = `Bearer ${this.token}`;
+    let payload: BodyInit | undefined;
+    if (body instanceof RawBody) {
+      headers['Content-Type'] = body.type;
+      payload = body.data;
+    } else if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      payload = JSON.stringify(body);
+    }
+    const res = await this.fetchImpl(`${this.baseUrl}${path}`, { method, headers, body: payload });
+    if (!res.ok) {
+      let payload: unknown = null;
+      try {
+        payload = await res.json();
+      } catch {
+        /* non-JSON error body */
+      }
+      throw new SwarmApiError(res.status, payload);
+    }
+    return res;
+  }
+}
+
+function queryString(query: object): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null) params.set(key, String(value));
+  }
+  const qs = params.toString();
+  return qs ? `?${qs}` : '';
+}
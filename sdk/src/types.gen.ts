@@ -0,0 +1,419 @@
+/* types.gen.ts — GENERATED by server/src/sdk-gen.ts (npm run sdk); do not edit */
+
+export type HistoryQuery = {
+  limit?: string;
+  offset?: string;
+  from?: string;
+  to?: string;
+  runId?: string;
+  type?: string;
+  order?: "asc" | "desc";
+};
+
+export type RunFramesQuery = {
+  fromTick?: string;
+  toTick?: string;
+  limit?: string;
+};
+
+export type AuditQuery = {
+  limit?: string;
+  offset?: string;
+  from?: string;
+  to?: string;
+  runId?: string;
+  order?: "asc" | "desc";
+  actor?: string;
+  channel?: "rest" | "socket" | "serial";
+  command?: string;
+  result?: "ok" | "rejected" | "denied" | "error";
+  sessionId?: string;
+  format?: "json" | "csv" | "jsonl";
+};
+
+export type FleetSpec = {
+  name?: string;
+  robots: Array<{
+    size: "small" | "medium" | "large" | "hub";
+    parent: number | null;
+    zone?: number;
+  }>;
+  sizeParams?: {
+    small?: {
+      bleRange?: number;
+      maxSpeed?: number;
+      solarPeakMw?: number;
+      radius?: number;
+      capacityMah?: number;
+      cellsInSeries?: number;
+      internalResistanceMohm?: number;
+      maxChargeC?: number;
+      maxDischargeC?: number;
+      hoverPowerMw?: number;
+      dragPowerMwPerMps2?: number;
+      radioMw?: number;
+      mcuMw?: number;
+      hdcMw?: number;
+      windTurbineEff?: number;
+      regenPropEff?: number;
+      wptOutputMw?: number;
+      wptRangeM?: number;
+      maxChildren?: number;
+      supercapMah?: number;
+    };
+    medium?: {
+      bleRange?: number;
+      maxSpeed?: number;
+      solarPeakMw?: number;
+      radius?: number;
+      capacityMah?: number;
+      cellsInSeries?: number;
+      internalResistanceMohm?: number;
+      maxChargeC?: number;
+      maxDischargeC?: number;
+      hoverPowerMw?: number;
+      dragPowerMwPerMps2?: number;
+      radioMw?: number;
+      mcuMw?: number;
+      hdcMw?: number;
+      windTurbineEff?: number;
+      regenPropEff?: number;
+      wptOutputMw?: number;
+      wptRangeM?: number;
+      maxChildren?: number;
+      supercapMah?: number;
+    };
+    large?: {
+      bleRange?: number;
+      maxSpeed?: number;
+      solarPeakMw?: number;
+      radius?: number;
+      capacityMah?: number;
+      cellsInSeries?: number;
+      internalResistanceMohm?: number;
+      maxChargeC?: number;
+      maxDischargeC?: number;
+      hoverPowerMw?: number;
+      dragPowerMwPerMps2?: number;
+      radioMw?: number;
+      mcuMw?: number;
+      hdcMw?: number;
+      windTurbineEff?: number;
+      regenPropEff?: number;
+      wptOutputMw?: number;
+      wptRangeM?: number;
+      maxChildren?: number;
+      supercapMah?: number;
+    };
+    hub?: {
+      bleRange?: number;
+      maxSpeed?: number;
+      solarPeakMw?: number;
+      radius?: number;
+      capacityMah?: number;
+      cellsInSeries?: number;
+      internalResistanceMohm?: number;
+      maxChargeC?: number;
+      maxDischargeC?: number;
+      hoverPowerMw?: number;
+      dragPowerMwPerMps2?: number;
+      radioMw?: number;
+      mcuMw?: number;
+      hdcMw?: number;
+      windTurbineEff?: number;
+      regenPropEff?: number;
+      wptOutputMw?: number;
+      wptRangeM?: number;
+      maxChildren?: number;
+      supercapMah?: number;
+    };
+  };
+};
+
+export type CheckpointRequest = {
+  label?: string;
+};
+
+export type SessionCreate = {
+  name?: string;
+  seed?: number;
+  fleet?: {
+    name?: string;
+    robots: Array<{
+      size: "small" | "medium" | "large" | "hub";
+      parent: number | null;
+      zone?: number;
+    }>;
+    sizeParams?: {
+      small?: {
+        bleRange?: number;
+        maxSpeed?: number;
+        solarPeakMw?: number;
+        radius?: number;
+        capacityMah?: number;
+        cellsInSeries?: number;
+        internalResistanceMohm?: number;
+        maxChargeC?: number;
+        maxDischargeC?: number;
+        hoverPowerMw?: number;
+        dragPowerMwPerMps2?: number;
+        radioMw?: number;
+        mcuMw?: number;
+        hdcMw?: number;
+        windTurbineEff?: number;
+        regenPropEff?: number;
+        wptOutputMw?: number;
+        wptRangeM?: number;
+        maxChildren?: number;
+        supercapMah?: number;
+      };
+      medium?: {
+        bleRange?: number;
+        maxSpeed?: number;
+        solarPeakMw?: number;
+        radius?: number;
+        capacityMah?: number;
+        cellsInSeries?: number;
+        internalResistanceMohm?: number;
+        maxChargeC?: number;
+        maxDischargeC?: number;
+        hoverPowerMw?: number;
+        dragPowerMwPerMps2?: number;
+        radioMw?: number;
+        mcuMw?: number;
+        hdcMw?: number;
+        windTurbineEff?: number;
+        regenPropEff?: number;
+        wptOutputMw?: number;
+        wptRangeM?: number;
+        maxChildren?: number;
+        supercapMah?: number;
+      };
+      large?: {
+        bleRange?: number;
+        maxSpeed?: number;
+        solarPeakMw?: number;
+        radius?: number;
+        capacityMah?: number;
+        cellsInSeries?: number;
+        internalResistanceMohm?: number;
+        maxChargeC?: number;
+        maxDischargeC?: number;
+        hoverPowerMw?: number;
+        dragPowerMwPerMps2?: number;
+        radioMw?: number;
+        mcuMw?: number;
+        hdcMw?: number;
+        windTurbineEff?: number;
+        regenPropEff?: number;
+        wptOutputMw?: number;
+        wptRangeM?: number;
+        maxChildren?: number;
+        supercapMah?: number;
+      };
+      hub?: {
+        bleRange?: number;
+        maxSpeed?: number;
+        solarPeakMw?: number;
+        radius?: number;
+        capacityMah?: number;
+        cellsInSeries?: number;
+        internalResistanceMohm?: number;
+        maxChargeC?: number;
+        maxDischargeC?: number;
+        hoverPowerMw?: number;
+        dragPowerMwPerMps2?: number;
+        radioMw?: number;
+        mcuMw?: number;
+        hdcMw?: number;
+        windTurbineEff?: number;
+        regenPropEff?: number;
+        wptOutputMw?: number;
+        wptRangeM?: number;
+        maxChildren?: number;
+        supercapMah?: number;
+      };
+    };
+  };
+  ambientTempC?: number;
+  solar?: {
+    latitudeDeg?: number;
+    dayOfYear?: number;
+    startHour?: number;
+    cloudCover?: number;
+  };
+  windSolver?: "wake" | "potential";
+  pathCost?: "distance" | "energy";
+};
+
+export type SerialAuditReport = {
+  command: string;
+  params?: Record<string, number | string | boolean>;
+  result?: "ok" | "error";
+  error?: string;
+};
+
+export type ForkRequest = {
+  tick: number;
+  name?: string;
+  paused?: boolean;
+};
+
+export type CompareQuery = {
+  tick?: string;
+};
+
+export type WindLogQuery = {
+  name?: string;
+};
+
+export type DeployCommand = Record<string, never>;
+
+export type RecallCommand = Record<string, never>;
+
+export type FormationCommand = {
+  type: "scatter" | "grid" | "ring" | "wedge" | "cluster";
+};
+
+export type GustCommand = {
+  center?: {
+    x: number;
+    y: number;
+  };
+  peakSpeed?: number;
+  radius?: number;
+  durationTicks?: number;
+};
+
+export type GustClearCommand = {
+  id?: number;
+};
+
+export type WindPlayCommand = {
+  logId: string;
+  timeScale?: number;
+  loop?: boolean;
+  offsetS?: number;
+};
+
+export type WindStopCommand = Record<string, never>;
+
+export type WindReportCommand = {
+  robotId: number;
+  windSpeed: number;
+  windDir: number;
+  gustLevel?: number;
+};
+
+export type SolarCommand = {
+  hour?: number;
+  cloudCover?: number;
+};
+
+export type MoveCommand = {
+  robotId: number;
+  x: number;
+  y: number;
+};
+
+export type PowerCommand = {
+  robotId: number;
+  mode: "FULL" | "NORMAL" | "ECO" | "CRITICAL";
+};
+
+export type InjectJammingCommand = Record<string, never>;
+
+export type InjectClearJammingCommand = Record<string, never>;
+
+export type InjectNodeFailureCommand = {
+  robotId?: number;
+};
+
+export type InjectRecoverCommand = {
+  robotId: number;
+};
+
+export type InjectByzantineCommand = {
+  robotId?: number;
+};
+
+export type InjectClearByzantineCommand = Record<string, never>;
+
+export type StartMissionCommand = {
+  type: "intercept" | "survey" | "search_classify" | "perimeter";
+};
+
+export type StopMissionCommand = Record<string, never>;
+
+export type PauseCommand = Record<string, never>;
+
+export type ResumeCommand = Record<string, never>;
+
+export type StepCommand = {
+  ticks?: number;
+};
+
+export type SpeedCommand = {
+  speed: number;
+};
+
+export type ReplayStartCommand = {
+  from?: number;
+  to?: number;
+  speed?: number;
+  loop?: boolean;
+};
+
+export type ReplayPauseCommand = Record<string, never>;
+
+export type ReplayResumeCommand = Record<string, never>;
+
+export type ReplaySeekCommand = {
+  tick: number;
+};
+
+export type ReplaySpeedCommand = {
+  speed: number;
+};
+
+export type ReplayLoopCommand = {
+  loop: boolean;
+};
+
+export type ReplayStopCommand = Record<string, never>;
+
+/** Input of every POST /cmd/<name> (and socket cmd:<name>) */
+export interface CommandInputs {
+  "deploy": DeployCommand;
+  "recall": RecallCommand;
+  "formation": FormationCommand;
+  "gust": GustCommand;
+  "gust/clear": GustClearCommand;
+  "wind/play": WindPlayCommand;
+  "wind/stop": WindStopCommand;
+  "wind/report": WindReportCommand;
+  "solar": SolarCommand;
+  "move": MoveCommand;
+  "power": PowerCommand;
+  "inject/jamming": InjectJammingCommand;
+  "inject/clear-jamming": InjectClearJammingCommand;
+  "inject/node-failure": InjectNodeFailureCommand;
+  "inject/recover": InjectRecoverCommand;
+  "inject/byzantine": InjectByzantineCommand;
+  "inject/clear-byzantine": InjectClearByzantineCommand;
+  "start-mission": StartMissionCommand;
+  "stop-mission": StopMissionCommand;
+  "pause": PauseCommand;
+  "resume": ResumeCommand;
+  "step": StepCommand;
+  "speed": SpeedCommand;
+  "replay/start": ReplayStartCommand;
+  "replay/pause": ReplayPauseCommand;
+  "replay/resume": ReplayResumeCommand;
+  "replay/seek": ReplaySeekCommand;
+  "replay/speed": ReplaySpeedCommand;
+  "replay/loop": ReplayLoopCommand;
+  "replay/stop": ReplayStopCommand;
+}
+
+export type CommandName = keyof CommandInputs;
@@ -0,0 +1,125 @@
+/**
+ * audit.ts — Audit trail of operator commands
+ *
+ * Every command — REST request, socket cmd:* event or a serial-bridge
+ * frame reported by the console — is recorded with who issued it, on
+ * which channel, the validated params and the outcome. SwarmEvents cover
+ * what the swarm did; the audit trail covers what operators asked for, so
+ * after-action reviews can tell the two apart. Entries live in the Store
+ * (audit.jsonl for the JSONL backend).
+ */
+
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import type { StoreQuery } from './store';
+
+export type AuditChannel = 'rest' | 'socket' | 'serial';
+
+/** ok; rejected = failed validation/preconditions; denied = auth; error = threw */
+export type AuditResult = 'ok' | 'rejected' | 'denied' | 'error';
+
+export interface AuditEntry {
+  timestamp: number;         // wall clock, epoch ms
+  runId: string;             // run the command targeted ('' when none)
+  sessionId?: string;
+  tick?: number;
+  actor: string;             // principal name ('unauthenticated' on 401)
+  role?: string;
+  socketId?: string;
+  channel: AuditChannel;
+  command: string;           // "POST /cmd/move", "cmd:move", "serial:move"
+  params?: unknown;
+  result: AuditResult;
+  error?: string;
+}
+
+export interface AuditQuery extends StoreQuery {
+  actor?: string;
+  channel?: AuditChannel;
+  command?: string;          // substring match
+  result?: AuditResult;
+  sessionId?: string;
+}
+
+/** Fields filterAudit looks at (the JSONL store indexes just these) */
+export type AuditKeys = Pick<AuditEntry, 'timestamp' | 'runId' | 'sessionId' | 'actor' | 'channel' | 'command' | 'result'>;
+
+/** Audit-specific filters; run/time range and paging are left to paginate() */
+export function filterAudit<T extends AuditKeys>(entries: T[], query: AuditQuery): T[] {
+  return entries.filter(e => {
+    if (query.actor !== undefined && e.actor !== query.actor) return false;
+    if (query.channel !== undefined && e.channel !== query.channel) return false;
+    if (query.command !== undefined && !e.command.includes(query.command)) return false;
+    if (query.result !== undefined && e.result !== query.result) return false;
+    if (query.sessionId !== undefined && e.sessionId !== query.sessionId) return false;
+    return true;
+  });
+}
+
+export function resultForStatus(status: number): AuditResult {
+  if (status === 401 || status === 403) return 'denied';
+  if (status >= 500) return 'error';
+  if (status >= 400) return 'rejected';
+  return 'ok';
+}
+
+function isEmpty(body: unknown): boolean {
+  return body === undefined || (typeof body === 'object' && body !== null && Object.keys(body).length === 0);
+}
+
+/** Run/session context of a finished request (resolved by the session router) */
+export type AuditContext = (res: Response) => { runId: string; sessionId?: string; tick?: number };
+
+/**
+ * Records every mutating REST request once its response is sent, so the
+ * entry carries the validated body (validateBody replaces req.body), the
+ * authenticated principal and the outcome.
+ */
+export function auditRequests(record: (entry: AuditEntry) => void, context: AuditContext): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    // Serial reports to POST /audit are recorded by that route as serial entries
+    if (req.method === 'GET' || req.method === 'HEAD' || req.method === 'OPTIONS' || req.path.endsWith('/audit')) {
+      next();
+      return;
+    }
+    const command = `${req.method} ${req.path}`;
+    // Error responses are { ok: false, error } — keep the message for the entry
+    let error: string | undefined;
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      if (body && typeof body === 'object' && 'error' in body) error = String((body as { error: unknown }).error);
+      return json(body);
+    };
+    res.on('finish', () => {
+      const principal = res.locals.principal as { name: string; role: string } | undefined;
+      record({
+        timestamp: Date.now(),
+        ...context(res),
+        actor: principal?.name ?? 'unauthenticated',
+        role: principal?.role,
+        channel: 'rest',
+        command,
+        params: isEmpty(req.body) ? undefined : req.body,
+        result: resultForStatus(res.statusCode),
+        error,
+      });
+    });
+    next();
+  };
+}
+
+const CSV_COLUMNS = ['timestamp', 'runId', 'sessionId', 'tick', 'actor', 'role', 'socketId', 'channel', 'command', 'params', 'result', 'error'] as const;
+
+/** Quote a CSV cell; text starting like a formula gets a leading ' so spreadsheets show it as text (CSV injection) */
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  let s = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (typeof value !== 'number' && /^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function auditToCsv(entries: AuditEntry[]): string {
+  const rows = entries.map(e => CSV_COLUMNS.map(col =>
+    csvCell(col === 'timestamp' ? new Date(e.timestamp).toISOString() : e[col]),
+  ).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
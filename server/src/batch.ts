@@ -0,0 +1,182 @@
+/**
+ * batch.ts — Headless Monte-Carlo mission evaluation
+ *
+ * Runs SwarmSimulator without Express/Socket.io, stepping as fast as the
+ * CPU allows, for N seeds of one MissionType, and aggregates the
+ * MissionResult + HDC accuracy of every run.
+ *
+ * Usage:
+ *   npm run batch -- --mission perimeter --runs 20 [--seed 1] [--fleet fleets/bench.json] [--json]
+ */
+
+import { SwarmSimulator } from './simulator';
+import { hdcEngine } from './hdc-engine';
+import { loadFleetFile, type FleetSpec } from './fleet';
+import { missionTypeSchema } from './validation';
+import { parseArgs } from './cli-args';
+import type { MissionType, MissionResult } from './mission';
+
+export interface BatchOptions {
+  mission: MissionType;
+  runs: number;
+  baseSeed: number;          // run i uses seed baseSeed + i
+  deployTicks: number;       // ticks to let the cascade deploy before the mission starts
+  fleet?: FleetSpec;
+}
+
+export interface RunOutcome {
+  seed: number;
+  result: MissionResult;
+  hdcAccuracy: number;
+  hdcInferences: number;
+  ticks: number;
+}
+
+export interface SummaryStat {
+  mean: number;
+  stddev: number;
+  min: number;
+  max: number;
+}
+
+export interface BatchSummary {
+  mission: MissionType;
+  runs: number;
+  baseSeed: number;
+  score: SummaryStat;
+  classified: SummaryStat;
+  expired: SummaryStat;
+  hdcAccuracy: SummaryStat;
+  outcomes: RunOutcome[];
+}
+
+/** Safety cap: mission duration is 600 ticks, so this only trips on a stuck mission */
+const MAX_MISSION_TICKS = 2000;
+
+/** Run one seeded mission to completion */
+export function runMission(options: BatchOptions, seed: number): RunOutcome {
+  const sim = new SwarmSimulator({ seed, fleet: options.fleet });
+  sim.deploy();
+  for (let i = 0; i < options.deployTicks; i++) sim.step();
+
+  sim.startMission(options.mission);
+  let ticks = 0;
+  while (sim.getMissionState().active && ticks < MAX_MISSION_TICKS) {
+    sim.step();
+    ticks++;
+  }
+  if (sim.getMissionState().active) sim.stopMission();
+
+  const history = sim.getMissionHistory();
+  const hdc = sim.getHdcStats();
+  return {
+    seed,
+    result: history[history.length - 1],
+    hdcAccuracy: hdc.runningAccuracy,
+    hdcInferences: hdc.totalInferences,
+    ticks,
+  };
+}
+
+export function summarize(values: number[]): SummaryStat {
+  if (values.length === 0) return { mean: 0, stddev: 0, min: 0, max: 0 };
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  const variance = values.reduce((s, v) => s + (v - mean) ** 2, 0) / values.length;
+  return {
+    mean,
+    stddev: Math.sqrt(variance),
+    min: Math.min(...values),
+    max: Math.max(...values),
+  };
+}
+
+export function runBatch(options: BatchOptions, onRun?: (outcome: RunOutcome, index: number) => void): BatchSummary {
+  const outcomes: RunOutcome[] = [];
+  for (let i = 0; i < options.runs; i++) {
+    const outcome = runMission(options, options.baseSeed + i);
+    outcomes.push(outcome);
+    onRun?.(outcome, i);
+  }
+  return {
+    mission: options.mission,
+    runs: options.runs,
+    baseSeed: options.baseSeed,
+    score: summarize(outcomes.map(o => o.result.score)),
+    classified: summarize(outcomes.map(o => o.result.classified)),
+    expired: summarize(outcomes.map(o => o.result.expired)),
+    hdcAccuracy: summarize(outcomes.map(o => o.hdcAccuracy)),
+    outcomes,
+  };
+}
+
+/* ─── CLI ──────────────────────────────────────────────────────── */
+
+function fmt(stat: SummaryStat, digits = 1): string {
+  return `${stat.mean.toFixed(digits)} ± ${stat.stddev.toFixed(digits)}  (min ${stat.min.toFixed(digits)}, max ${stat.max.toFixed(digits)})`;
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2)).flags;
+
+  const mission = missionTypeSchema.safeParse(args.mission ?? 'search_classify');
+  if (!mission.success) {
+    console.error(`Unknown mission type: ${args.mission} (expected ${missionTypeSchema.options.join(', ')})`);
+    process.exit(1);
+  }
+  const runs = parseInt(args.runs ?? '10', 10);
+  const baseSeed = parseInt(args.seed ?? '1', 10);
+  const deployTicks = parseInt(args['deploy-ticks'] ?? '60', 10);
+  if (![runs, baseSeed, deployTicks].every(Number.isFinite) || runs < 1) {
+    console.error('--runs, --seed and --deploy-ticks must be integers (runs ≥ 1)');
+    process.exit(1);
+  }
+  const json = args.json === 'true';
+
+  try {
+    await hdcEngine.init();
+  } catch {
+    if (!json) console.warn('[HDC] WASM init failed, using fallback simulation');
+  }
+
+  const options: BatchOptions = {
+    mission: mission.data,
+    runs,
+    baseSeed,
+    deployTicks,
+    fleet: args.fleet ? loadFleetFile(args.fleet) : undefined,
+  };
+
+  const started = Date.now();
+  const summary = runBatch(options, (o, i) => {
+    if (!json) {
+      console.log(`  run ${String(i + 1).padStart(3)}  seed ${o.seed}  score ${o.result.score}  ` +
+        `classified ${o.result.classified}/${o.result.totalTargets}  expired ${o.result.expired}  ` +
+        `hdc ${(o.hdcAccuracy * 100).toFixed(1)}%`);
+    }
+  });
+
+  if (json) {
+    console.log(JSON.stringify(summary, null, 2));
+    return;
+  }
+
+  console.log(`\n  Batch: ${summary.mission} × ${summary.runs} runs (seeds ${baseSeed}–${baseSeed + runs - 1})`);
+  console.log(`  ──────────────────────`);
+  console.log(`  Score:        ${fmt(summary.score)}`);
+  console.log(`  Classified:   ${fmt(summary.classified)}`);
+  console.log(`  Expired:      ${fmt(summary.expired)}`);
+  console.log(`  HDC accuracy: ${fmt({
+    mean: summary.hdcAccuracy.mean * 100,
+    stddev: summary.hdcAccuracy.stddev * 100,
+    min: summary.hdcAccuracy.min * 100,
+    max: summary.hdcAccuracy.max * 100,
+  })} %`);
+  console.log(`  Wall time:    ${((Date.now() - started) / 1000).toFixed(1)} s\n`);
+}
+
+if (require.main === module) {
+  main().catch(err => {
+    console.error('Batch run failed:', err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,259 @@
+/**
+ * battery.ts — Physically based battery pack and power budget
+ *
+ * Every size class carries a Li-ion/LiPo pack (capacity, series cells,
+ * internal resistance, C-rate limits) and separate power consumers: the
+ * motors (hover power plus a term in airspeed²), the BLE radio, the MCU
+ * and HDC inference. Each tick the net power — loads minus harvest —
+ * is turned into pack current through the SoC–OCV curve and the
+ * internal resistance, clamped to the C-rate limits and integrated as
+ * charge in mAh. I²R losses warm the pack, which cools toward ambient.
+ *
+ * Cold derates the pack: resistance rises, and part of the charge can no
+ * longer be drawn before the cells hit cut-off. `soc` is what a fuel gauge
+ * reports — the share of the charge usable at the current temperature —
+ * so robots turn home earlier on a cold day. Charging is refused below
+ * 0 °C and above 45 °C, halved below 10 °C and tapers above 90 % SoC.
+ */
+
+import type { PowerMode, SizeClassParams } from './types';
+
+export const DEFAULT_AMBIENT_C = 20;
+
+/** Parse an ambient temperature (°C) from an env var; undefined if absent/invalid */
+export function parseAmbientTemp(raw: string | undefined): number | undefined {
+  if (raw === undefined || raw.trim() === '') return undefined;
+  const t = Number(raw);
+  return Number.isFinite(t) && t >= -40 && t <= 60 ? t : undefined;
+}
+
+/** Open-circuit voltage of one Li-ion cell by state of charge (%) */
+const OCV_CURVE: readonly [number, number][] = [
+  [0, 3.0], [5, 3.3], [10, 3.45], [20, 3.55], [30, 3.62], [40, 3.67],
+  [50, 3.72], [60, 3.78], [70, 3.85], [80, 3.94], [90, 4.05], [100, 4.2],
+];
+
+/** Share of the rated capacity usable at a cell temperature (°C) */
+const CAPACITY_DERATE: readonly [number, number][] = [
+  [-20, 0.6], [-10, 0.72], [0, 0.85], [10, 0.94], [25, 1.0], [45, 1.0], [60, 0.95],
+];
+
+const NOMINAL_CELL_V = 3.7;
+const RESISTANCE_TEMP_COEFF = 0.03;   // R(T) = R25 · e^(k·(25 − T)): ~2× at 0 °C
+const HEAT_CAPACITY_J_PER_K_WH = 5;   // ~200 Wh/kg cells at ~1 J/(g·K)
+const TAPER_START_SOC = 90;           // CC → CV: charge current tapers above this
+const ESTIMATE_SMOOTHING = 0.02;      // EMA weight of the newest net power sample
+const MAX_ESTIMATE_MINUTES = 999;
+const WPT_TX_EFFICIENCY = 0.75;       // coil driver: input power per mW transmitted
+
+/** Share of the radio / HDC duty cycle kept in each power mode */
+const MODE_DUTY: Record<PowerMode, { radio: number; hdc: number }> = {
+  FULL: { radio: 1, hdc: 1 },
+  NORMAL: { radio: 1, hdc: 0.5 },
+  ECO: { radio: 0.5, hdc: 0.25 },
+  CRITICAL: { radio: 0.2, hdc: 0 },
+};
+
+/** Power drawn by each consumer (mW) */
+export interface PowerLoads {
+  motorMw: number;
+  radioMw: number;
+  mcuMw: number;
+  hdcMw: number;
+  wptTxMw: number;   // WPT transmitter input (carriers only)
+}
+
+/** Full pack state (see checkpoint.ts) */
+export interface BatteryCheckpoint {
+  chargeMah: number;
+  tempC: number;
+  voltage: number;
+  currentA: number;
+  avgNetMw: number;
+}
+
+/** Motor power to fly at `airspeedMps` (hover plus induced/profile drag) */
+export function motorPowerMw(params: SizeClassParams, airspeedMps: number): number {
+  return params.hoverPowerMw + params.dragPowerMwPerMps2 * airspeedMps * airspeedMps;
+}
+
+/** Consumer loads for one tick; motors only draw while airborne */
+export function powerLoads(
+  params: SizeClassParams, airborne: boolean, airspeedMps: number, mode: PowerMode, wptOutputMw: number,
+): PowerLoads {
+  const duty = MODE_DUTY[mode];
+  return {
+    motorMw: airborne ? motorPowerMw(params, airspeedMps) : 0,
+    radioMw: params.radioMw * duty.radio,
+    mcuMw: params.mcuMw,
+    hdcMw: params.hdcMw * duty.hdc,
+    wptTxMw: wptOutputMw / WPT_TX_EFFICIENCY,
+  };
+}
+
+export function totalLoadMw(loads: PowerLoads): number {
+  return loads.motorMw + loads.radioMw + loads.mcuMw + loads.hdcMw + loads.wptTxMw;
+}
+
+export class Battery {
+  private chargeMah: number;
+  private tempC: number;
+  private voltageV: number;
+  private currentAmps = 0;
+  private avgNetMw = 0;
+
+  constructor(private readonly params: SizeClassParams, ambientC = DEFAULT_AMBIENT_C) {
+    this.chargeMah = params.capacityMah;
+    this.tempC = ambientC;
+    this.voltageV = this.openCircuitV();
+  }
+
+  /** Usable state of charge at the current temperature, 0-100 % */
+  get soc(): number {
+    const trapped = this.trappedMah();
+    return clamp((this.chargeMah - trapped) / (this.params.capacityMah - trapped), 0, 1) * 100;
+  }
+
+  set soc(pct: number) {
+    const trapped = this.trappedMah();
+    this.chargeMah = trapped + clamp(pct, 0, 100) / 100 * (this.params.capacityMah - trapped);
+  }
+
+  /** Terminal voltage under the last tick's load (V) */
+  get voltage(): number {
+    return this.voltageV;
+  }
+
+  /** Pack current, positive while discharging (A) */
+  get currentA(): number {
+    return this.currentAmps;
+  }
+
+  get temperatureC(): number {
+    return this.tempC;
+  }
+
+  /**
+   * Advance one tick: draw `loadMw` while `supplyMw` (harvest, dock
+   * charger) flows in. Returns the power the pack actually delivered
+   * (negative while charging), which falls short of the net demand once
+   * the pack is empty or the C-rate limit is hit.
+   */
+  step(loadMw: number, supplyMw: number, dt: number, ambientC: number): number {
+    const netW = (loadMw - supplyMw) / 1000;
+    const ocv = this.openCircuitV();
+    const r = this.resistanceOhm();
+
+    let current: number;
+    if (netW >= 0) {
+      // P = (OCV − I·R)·I; past the maximum power point the pack sags to OCV / 2R
+      const disc = ocv * ocv - 4 * r * netW;
+      current = disc > 0 ? (ocv - Math.sqrt(disc)) / (2 * r) : ocv / (2 * r);
+      current = Math.min(current, this.params.maxDischargeC * this.capacityAh());
+      if (this.soc <= 0) current = 0;
+    } else {
+      // P = (OCV + I·R)·I while charging
+      const charge = Math.min((-ocv + Math.sqrt(ocv * ocv + 4 * r * -netW)) / (2 * r), this.chargeLimitA());
+      current = charge > 0 ? -charge : 0;
+    }
+
+    const maxMah = this.params.capacityMah;
+    this.chargeMah = clamp(this.chargeMah - current * 1000 * dt / 3600, 0, maxMah);
+    this.currentAmps = current;
+    this.voltageV = ocv - current * r;
+
+    // Lumped thermal model: I²R heating, convective cooling toward ambient
+    const heatW = current * current * r;
+    const capacityWh = this.capacityAh() * this.params.cellsInSeries * NOMINAL_CELL_V;
+    const heatCapacity = HEAT_CAPACITY_J_PER_K_WH * capacityWh;
+    const thermalResistance = 8 / Math.sqrt(capacityWh);   // K/W, smaller packs shed heat worse
+    this.tempC += (heatW - (this.tempC - ambientC) / thermalResistance) * dt / heatCapacity;
+
+    this.avgNetMw += (netW * 1000 - this.avgNetMw) * ESTIMATE_SMOOTHING;
+    return this.voltageV * current * 1000;
+  }
+
+  /**
+   * Charge from an external source (WPT) on top of this tick's
+   * step, within the charge-current headroom. Returns the mW absorbed.
+   */
+  absorb(powerMw: number, dt: number): number {
+    const headroomA = Math.max(0, this.chargeLimitA() + Math.min(0, this.currentAmps));
+    const currentA = Math.min(powerMw / 1000 / this.openCircuitV(), headroomA);
+    this.chargeMah = Math.min(this.params.capacityMah, this.chargeMah + currentA * 1000 * dt / 3600);
+    return currentA * this.openCircuitV() * 1000;
+  }
+
+  /** Add charge directly (supercap transfer) */
+  addCharge(mah: number): void {
+    this.chargeMah = clamp(this.chargeMah + mah, 0, this.params.capacityMah);
+  }
+
+  /** Minutes until empty at the smoothed net draw (999 while charging or idle) */
+  minutesRemaining(): number {
+    if (this.avgNetMw <= 0) return MAX_ESTIMATE_MINUTES;
+    const usableWh = (this.chargeMah - this.trappedMah()) / 1000 * this.params.cellsInSeries * NOMINAL_CELL_V;
+    const minutes = Math.max(0, usableWh) / (this.avgNetMw / 1000) * 60;
+    return Math.min(MAX_ESTIMATE_MINUTES, Math.round(minutes));
+  }
+
+  toCheckpoint(): BatteryCheckpoint {
+    return {
+      chargeMah: this.chargeMah,
+      tempC: this.tempC,
+      voltage: this.voltageV,
+      currentA: this.currentAmps,
+      avgNetMw: this.avgNetMw,
+    };
+  }
+
+  restoreCheckpoint(cp: BatteryCheckpoint): void {
+    this.chargeMah = cp.chargeMah;
+    this.tempC = cp.tempC;
+    this.voltageV = cp.voltage;
+    this.currentAmps = cp.currentA;
+    this.avgNetMw = cp.avgNetMw;
+  }
+
+  private capacityAh(): number {
+    return this.params.capacityMah / 1000;
+  }
+
+  private openCircuitV(): number {
+    return this.params.cellsInSeries * interpolate(OCV_CURVE, this.chargeMah / this.params.capacityMah * 100);
+  }
+
+  private resistanceOhm(): number {
+    return this.params.internalResistanceMohm / 1000 * Math.exp(RESISTANCE_TEMP_COEFF * (25 - this.tempC));
+  }
+
+  /** Charge stranded below cut-off at the current temperature */
+  private trappedMah(): number {
+    return this.params.capacityMah * (1 - interpolate(CAPACITY_DERATE, this.tempC));
+  }
+
+  private chargeLimitA(): number {
+    if (this.tempC < 0 || this.tempC > 45) return 0;
+    const nominalSoc = this.chargeMah / this.params.capacityMah * 100;
+    const cold = this.tempC < 10 ? 0.5 : 1;
+    const taper = nominalSoc > TAPER_START_SOC ? (100 - nominalSoc) / (100 - TAPER_START_SOC) : 1;
+    return this.params.maxChargeC * this.capacityAh() * cold * Math.max(0.05, taper);
+  }
+}
+
+/** Piecewise-linear lookup, clamped to the table ends */
+function interpolate(table: readonly [number, number][], x: number): number {
+  if (x <= table[0][0]) return table[0][1];
+  for (let i = 1; i < table.length; i++) {
+    const [x1, y1] = table[i];
+    if (x <= x1) {
+      const [x0, y0] = table[i - 1];
+      return y0 + (y1 - y0) * (x - x0) / (x1 - x0);
+    }
+  }
+  return table[table.length - 1][1];
+}
+
+function clamp(v: number, lo: number, hi: number): number {
+  return Math.max(lo, Math.min(hi, v));
+}
@@ -0,0 +1,76 @@
+/**
+ * checkpoint.ts — Complete, resumable SwarmSimulator state
+ *
+ * Recorder frames hold SwarmSnapshot projections and cannot resume a run
+ * on their own; every FORK_POINT_INTERVAL ticks (and after each command)
+ * a frame also carries a checkpoint, so forks can branch from any
+ * recorded tick. A checkpoint captures every mutable field: each Robot (patrol
+ * waypoints, cached A* target, HDC accumulator, …), the WindField gusts
+ * and grid direction, the day clock and clouds, MissionManager state, the
+ * wind log playback position and live wind reports, the shared Prng, the simulator's own
+ * deploy/recall stage machines and its load-shedding mesh cadence. SwarmSimulator.fromCheckpoint() rebuilds
+ * the fleet from `fleet` and overwrites it with this state, so the
+ * restored run continues tick-for-tick.
+ */
+
+import type { Formation, BleLink, SwarmEvent, RunManifest } from './types';
+import type { FleetSpec } from './fleet';
+import type { RobotCheckpoint } from './robot';
+import type { WindCheckpoint, WindObservation } from './wind';
+import type { WindPlaybackCheckpoint } from './wind-log';
+import type { SolarCheckpoint } from './solar';
+import type { MissionCheckpoint } from './mission';
+
+/** Bump when the layout changes; older checkpoints are rejected on restore */
+export const CHECKPOINT_VERSION = 6;
+
+export interface SimulatorCheckpointState {
+  tick: number;
+  speed: number;
+  paused: boolean;
+  formation: Formation;
+  deployed: boolean;
+  deployStage: number;
+  deployTriggerTick: number;
+  recallStage: number;
+  eventHistory: SwarmEvent[];
+  hdcTotalInferences: number;
+  hdcCorrectClassifications: number;
+  hdcPerSpecies: { correct: number; total: number }[];
+  /** Load-shedding state: ticks between BLE recomputes and the links reused in between */
+  meshInterval: number;
+  lastBleLinks: BleLink[];
+  /** Overrun notes not yet drained into the event stream */
+  schedulerNotes: string[];
+}
+
+/** Measured wind feeding the WindField; the log itself stays in the Store */
+export interface WindFeedCheckpoint {
+  playback: WindPlaybackCheckpoint | null;
+  reports: { robotId: number; tick: number; observation: WindObservation }[];
+}
+
+export interface CheckpointSummary {
+  id: string;
+  label?: string;
+  createdAt: string;         // ISO timestamp (wall clock)
+  runId: string;             // run the checkpoint was taken from
+  tick: number;
+}
+
+export interface SimCheckpoint extends CheckpointSummary {
+  version: number;
+  manifest: RunManifest;
+  fleet: FleetSpec;
+  rngState: number;
+  simulator: SimulatorCheckpointState;
+  robots: RobotCheckpoint[];
+  wind: WindCheckpoint;
+  solar: SolarCheckpoint;
+  mission: MissionCheckpoint;
+  windFeed: WindFeedCheckpoint;
+}
+
+export function checkpointSummary(cp: SimCheckpoint): CheckpointSummary {
+  return { id: cp.id, label: cp.label, createdAt: cp.createdAt, runId: cp.runId, tick: cp.tick };
+}
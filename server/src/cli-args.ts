@@ -0,0 +1,28 @@
+/* cli-args.ts — Minimal argv parser shared by the headless CLIs (batch, scenario) */
+
+export interface ParsedArgs {
+  flags: Record<string, string>;
+  positionals: string[];
+}
+
+/** Parse `--key value` / `--key=value` / `--flag` arguments; anything else is positional */
+export function parseArgs(argv: string[]): ParsedArgs {
+  const flags: Record<string, string> = {};
+  const positionals: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf('=');
+    if (eq > 0) {
+      flags[arg.slice(2, eq)] = arg.slice(eq + 1);
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      flags[arg.slice(2)] = argv[++i];
+    } else {
+      flags[arg.slice(2)] = 'true';
+    }
+  }
+  return { flags, positionals };
+}
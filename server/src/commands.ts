@@ -0,0 +1,308 @@
+/**
+ * commands.ts — One registry for every operator command
+ *
+ * Each command declares its zod schema, its handler and the payload it
+ * acknowledges with; the REST routes (POST /cmd/<name>) and the socket
+ * events (cmd:<name>, `/` → `:`) are both generated from this table, so
+ * the two transports validate and answer identically. A future serial
+ * transport only needs to map its frames onto `runCommand`.
+ *
+ * Commands with a `param` also take that field as a bare socket payload
+ * (emit('cmd:formation', 'ring')); string params can be given as the last
+ * REST path segment too (/cmd/formation/ring).
+ *
+ * While a session replays its recording only replay/* commands are
+ * accepted; the live simulator is paused until replay/stop.
+ */
+
+import { z } from 'zod';
+import type { CommandAck } from './types';
+import type { Role } from './security';
+import type { Session } from './sessions';
+import type { SwarmSimulator } from './simulator';
+import type { ReplayPlayer } from './replay';
+import {
+  moveSchema,
+  powerSchema,
+  robotIdSchema,
+  formationSchema,
+  missionTypeSchema,
+  speedSchema,
+  stepSchema,
+  replayStartSchema,
+  replaySeekSchema,
+  replayLoopSchema,
+  solarSchema,
+  gustSchema,
+  gustClearSchema,
+  windPlaySchema,
+  windReportSchema,
+} from './validation';
+
+export interface CommandOutcome {
+  status: number;            // HTTP status; sockets only see the ack
+  ack: CommandAck;
+  input?: unknown;           // validated input (for the audit trail)
+}
+
+type HandlerResult = Record<string, unknown> | CommandOutcome | void;
+
+export interface CommandDefinition<T> {
+  name: string;              // "move", "inject/node-failure"
+  schema: z.ZodType<T>;
+  /** Field a bare (non-object) socket payload fills */
+  param?: string;
+  /** Also route POST /cmd/<name>/:<param> (string params only) */
+  pathParam?: boolean;
+  /** Least role allowed to send it over either transport (default operator) */
+  role?: Role;
+  /** Apply the command; return extra ack fields, or a rejection via reject() */
+  handler: (session: Session, input: T) => HandlerResult;
+}
+
+/** Input that passed a command's schema, bound to its handler */
+type PreparedCommand =
+  | { success: false; issues: z.core.$ZodIssue[] }
+  | { success: true; input: unknown; apply: (session: Session) => HandlerResult };
+
+/**
+ * A registered command. define() hides the input type: prepare() parses
+ * and closes over the typed handler, so the table needs no `any`.
+ */
+export interface Command extends Omit<CommandDefinition<unknown>, 'handler'> {
+  prepare: (input: unknown) => PreparedCommand;
+}
+
+const emptySchema = z.object({});
+
+const optionalRobotSchema = robotIdSchema.partial();
+
+export function reject(status: number, error: string): CommandOutcome {
+  return { status, ack: { ok: false, error } };
+}
+
+function isOutcome(value: unknown): value is CommandOutcome {
+  return typeof value === 'object' && value !== null && 'status' in value && 'ack' in value;
+}
+
+/** 409 for replay controls while no replay runs */
+function replaying(replay: ReplayPlayer): CommandOutcome | undefined {
+  return replay.active ? undefined : reject(409, 'No replay in progress');
+}
+
+/** 404 for ids that pass the schema but are not in this session's fleet */
+function missingRobot(sim: SwarmSimulator, robotId: number | undefined): CommandOutcome | undefined {
+  if (robotId === undefined || sim.robots.some(r => r.id === robotId)) return undefined;
+  return reject(404, `Robot not found: ${robotId}`);
+}
+
+function define<T>({ handler, ...definition }: CommandDefinition<T>): Command {
+  return {
+    ...definition,
+    prepare: input => {
+      const parsed = definition.schema.safeParse(input);
+      if (!parsed.success) return { success: false, issues: parsed.error.issues };
+      return { success: true, input: parsed.data, apply: session => handler(session, parsed.data) };
+    },
+  };
+}
+
+export const COMMANDS: readonly Command[] = [
+  define({
+    name: 'deploy', schema: emptySchema,
+    handler: ({ sim }) => { sim.deploy(); return { msg: 'Fleet deployed' }; },
+  }),
+  define({
+    name: 'recall', schema: emptySchema,
+    handler: ({ sim }) => { sim.recall(); return { msg: 'Fleet recalled' }; },
+  }),
+  define({
+    name: 'formation', schema: z.object({ type: formationSchema }), param: 'type', pathParam: true,
+    handler: ({ sim }, { type }) => { sim.setFormation(type); return { msg: `Formation → ${type}` }; },
+  }),
+  define({
+    name: 'gust', schema: gustSchema,
+    handler: ({ sim }, spec) => ({ msg: 'Gust triggered', gust: sim.triggerGust(spec) }),
+  }),
+  define({
+    name: 'gust/clear', schema: gustClearSchema, param: 'id',
+    handler: ({ sim }, { id }) => sim.clearGusts(id) ? { msg: id === undefined ? 'Gusts calmed' : `Gust ${id} calmed` } : reject(404, `Gust not found: ${id}`),
+  }),
+  define({
+    name: 'wind/play', schema: windPlaySchema, param: 'logId', pathParam: true,
+    handler: ({ sim }, { logId, ...options }) => {
+      try {
+        return { msg: 'Wind log replaying', playback: sim.playWindLog(logId, options) };
+      } catch (err) {
+        return reject(404, (err as Error).message);
+      }
+    },
+  }),
+  define({
+    name: 'wind/stop', schema: emptySchema,
+    handler: ({ sim }) => sim.stopWindLog() ? { msg: 'Wind log stopped' } : reject(409, 'No wind log replaying'),
+  }),
+  define({
+    name: 'wind/report', schema: windReportSchema,
+    handler: ({ sim }, report) => missingRobot(sim, report.robotId) ?? sim.reportWind(report),
+  }),
+  define({
+    name: 'solar', schema: solarSchema,
+    handler: ({ sim }, { hour, cloudCover }) => { sim.setSolar(hour, cloudCover); return { solar: sim.solar.getState() }; },
+  }),
+  define({
+    name: 'move', schema: moveSchema,
+    handler: ({ sim }, { robotId, x, y }) => missingRobot(sim, robotId) ?? sim.moveRobot(robotId, { x, y }),
+  }),
+  define({
+    name: 'power', schema: powerSchema,
+    handler: ({ sim }, { robotId, mode }) => missingRobot(sim, robotId) ?? sim.setPowerMode(robotId, mode),
+  }),
+
+  // Adversarial — instructor only
+  define({
+    name: 'inject/jamming', schema: emptySchema, role: 'instructor',
+    handler: ({ sim }) => sim.injectJamming(),
+  }),
+  define({
+    name: 'inject/clear-jamming', schema: emptySchema, role: 'instructor',
+    handler: ({ sim }) => sim.clearJamming(),
+  }),
+  define({
+    name: 'inject/node-failure', schema: optionalRobotSchema, role: 'instructor',   // no robotId: random robot
+    handler: ({ sim }, { robotId }) => missingRobot(sim, robotId) ?? sim.injectNodeFailure(robotId),
+  }),
+  define({
+    name: 'inject/recover', schema: robotIdSchema, role: 'instructor',
+    handler: ({ sim }, { robotId }) => missingRobot(sim, robotId) ?? sim.recoverNode(robotId),
+  }),
+  define({
+    name: 'inject/byzantine', schema: optionalRobotSchema, role: 'instructor',
+    handler: ({ sim }, { robotId }) => missingRobot(sim, robotId) ?? sim.injectByzantine(robotId),
+  }),
+  define({
+    name: 'inject/clear-byzantine', schema: emptySchema, role: 'instructor',
+    handler: ({ sim }) => sim.clearByzantine(),
+  }),
+
+  // Mission
+  define({
+    name: 'start-mission', schema: z.object({ type: missionTypeSchema }), param: 'type', pathParam: true,
+    handler: ({ sim }, { type }) => ({ mission: sim.startMission(type) }),
+  }),
+  define({
+    name: 'stop-mission', schema: emptySchema,
+    handler: ({ sim }) => ({ mission: sim.stopMission() }),
+  }),
+
+  // Time control
+  define({
+    name: 'pause', schema: emptySchema,
+    handler: ({ sim }) => { sim.pause(); return { clock: sim.getClock() }; },
+  }),
+  define({
+    name: 'resume', schema: emptySchema,
+    handler: ({ sim }) => { sim.resume(); return { clock: sim.getClock() }; },
+  }),
+  define({
+    name: 'step', schema: stepSchema, param: 'ticks',
+    handler: (session, { ticks }) => {
+      if (!session.sim.isPaused()) return reject(409, 'Simulation must be paused to single-step');
+      const snapshot = session.loop.stepTicks(ticks);
+      return { tick: snapshot.tick, clock: snapshot.clock };
+    },
+  }),
+  define({
+    name: 'speed', schema: speedSchema, param: 'speed',
+    handler: ({ sim }, { speed }) => { sim.setSpeed(speed); return { clock: sim.getClock() }; },
+  }),
+
+  // Server-side replay to every viewer of the session (see replay.ts)
+  define({
+    name: 'replay/start', schema: replayStartSchema,
+    handler: ({ replay }, options) => {
+      try {
+        return { replay: replay.start(options) };
+      } catch (err) {
+        return reject(409, (err as Error).message);
+      }
+    },
+  }),
+  define({
+    name: 'replay/pause', schema: emptySchema,
+    handler: ({ replay }) => replaying(replay) ?? { replay: replay.pause() },
+  }),
+  define({
+    name: 'replay/resume', schema: emptySchema,
+    handler: ({ replay }) => replaying(replay) ?? { replay: replay.resume() },
+  }),
+  define({
+    name: 'replay/seek', schema: replaySeekSchema, param: 'tick',
+    handler: ({ replay }, { tick }) => replaying(replay) ?? { replay: replay.seek(tick) },
+  }),
+  define({
+    name: 'replay/speed', schema: speedSchema, param: 'speed',
+    handler: ({ replay }, { speed }) => replaying(replay) ?? { replay: replay.setSpeed(speed) },
+  }),
+  define({
+    name: 'replay/loop', schema: replayLoopSchema, param: 'loop',
+    handler: ({ replay }, { loop }) => replaying(replay) ?? { replay: replay.setLoop(loop) },
+  }),
+  define({
+    name: 'replay/stop', schema: emptySchema,
+    handler: session => {
+      session.replay.stop();
+      return { msg: 'Back to the live simulation', clock: session.sim.getClock() };
+    },
+  }),
+];
+
+const byName = new Map(COMMANDS.map(c => [c.name, c]));
+const byEvent = new Map(COMMANDS.map(c => [socketEvent(c), c]));
+
+export function getCommand(name: string): Command | undefined {
+  return byName.get(name);
+}
+
+/** Role a principal needs to run the command */
+export function commandRole(command: Command): Role {
+  return command.role ?? 'operator';
+}
+
+/** Socket event for a command: "inject/node-failure" → "cmd:inject:node-failure" */
+export function socketEvent(command: Command): string {
+  return `cmd:${command.name.replace(/\//g, ':')}`;
+}
+
+export function commandForEvent(event: string): Command | undefined {
+  return byEvent.get(event);
+}
+
+/** REST route(s) for a command: /cmd/<name>, plus /cmd/<name>/:<param> for path params */
+export function restPaths(command: Command): string[] {
+  const path = `/cmd/${command.name}`;
+  return command.pathParam ? [path, `${path}/:${command.param}`] : [path];
+}
+
+/** Turn a socket payload into command input (bare values fill the positional field) */
+export function socketInput(command: Command, data: unknown): unknown {
+  if (data === undefined || data === null) return {};
+  if (typeof data !== 'object' && command.param) return { [command.param]: data };
+  return data;
+}
+
+/** Validate and apply a command against a session; never throws for bad input */
+export function runCommand(command: Command, session: Session, input: unknown): CommandOutcome {
+  const prepared = command.prepare(input);
+  if (!prepared.success) {
+    return { status: 400, ack: { ok: false, error: 'Validation failed', details: prepared.issues } };
+  }
+  if (session.replay.active && !command.name.startsWith('replay/')) {
+    return { ...reject(409, 'Session is replaying a recording; send replay/stop first'), input: prepared.input };
+  }
+  const result = prepared.apply(session);
+  if (isOutcome(result)) return { ...result, input: prepared.input };
+  // Forks re-simulate from checkpoints; one after each command keeps them exact
+  if (!command.name.startsWith('replay/')) session.sim.markForkPoint();
+  return { status: 200, ack: { ok: true, ...result }, input: prepared.input };
+}
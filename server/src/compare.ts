@@ -0,0 +1,89 @@
+/**
+ * compare.ts — Side-by-side numbers for two timelines (a run and its fork)
+ *
+ * Both simulators record every tick, so they are compared on the same
+ * recorded tick: the latest one both have, unless one is asked for.
+ * Divergence is measured per robot id (fleets of a fork are identical).
+ */
+
+import type { SwarmSimulator } from './simulator';
+import type { SwarmSnapshot, Formation } from './types';
+
+export interface TimelineStats {
+  runId: string;
+  formation: Formation;
+  onlineRobots: number;
+  chargingRobots: number;
+  avgBatterySoc: number;
+  missionScore: number | null;      // null without an active mission
+  classified: number | null;
+  consensus: string | null;         // species the swarm agrees on
+}
+
+export interface TimelineComparison {
+  tick: number;
+  a: TimelineStats;
+  b: TimelineStats;
+  divergence: {
+    robotsCompared: number;
+    meanPositionDeltaM: number;
+    maxPositionDeltaM: number;
+    phaseDiffers: number[];         // robot ids in a different phase
+  };
+}
+
+function timelineStats(sim: SwarmSimulator, snapshot: SwarmSnapshot): TimelineStats {
+  const { stats, mission } = snapshot;
+  return {
+    runId: sim.getManifest().runId,
+    formation: snapshot.formation,
+    onlineRobots: stats.onlineRobots,
+    chargingRobots: stats.chargingRobots,
+    avgBatterySoc: stats.avgBatterySoc,
+    missionScore: mission?.active ? mission.score : null,
+    classified: mission?.active ? mission.classified : null,
+    consensus: stats.consensus?.species ?? null,
+  };
+}
+
+function frameAt(sim: SwarmSimulator, tick: number): SwarmSnapshot {
+  const frame = sim.getReplayRange(tick, tick)[0];
+  if (!frame) throw new Error(`Run ${sim.getManifest().runId} has no recorded frame at tick ${tick}`);
+  return frame.snapshot;
+}
+
+/** Compare two simulators at `tick` (default: the latest tick both recorded) */
+export function compareTimelines(a: SwarmSimulator, b: SwarmSimulator, tick?: number): TimelineComparison {
+  const infoA = a.getReplayInfo();
+  const infoB = b.getReplayInfo();
+  const newest = Math.min(infoA.newestTick, infoB.newestTick);
+  const oldest = Math.max(infoA.oldestTick, infoB.oldestTick);
+  if (infoA.bufferedFrames === 0 || infoB.bufferedFrames === 0 || oldest > newest) {
+    throw new Error('The timelines have no recorded tick in common');
+  }
+  const at = tick ?? newest;
+  const snapA = frameAt(a, at);
+  const snapB = frameAt(b, at);
+
+  const byId = new Map(snapB.robots.map(r => [r.id, r]));
+  const deltas: number[] = [];
+  const phaseDiffers: number[] = [];
+  for (const ra of snapA.robots) {
+    const rb = byId.get(ra.id);
+    if (!rb) continue;
+    deltas.push(Math.hypot(ra.position.x - rb.position.x, ra.position.y - rb.position.y));
+    if (ra.phase !== rb.phase) phaseDiffers.push(ra.id);
+  }
+
+  return {
+    tick: at,
+    a: timelineStats(a, snapA),
+    b: timelineStats(b, snapB),
+    divergence: {
+      robotsCompared: deltas.length,
+      meanPositionDeltaM: deltas.length ? deltas.reduce((s, d) => s + d, 0) / deltas.length : 0,
+      maxPositionDeltaM: deltas.length ? Math.max(...deltas) : 0,
+      phaseDiffers,
+    },
+  };
+}
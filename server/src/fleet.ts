@@ -0,0 +1,110 @@
+/**
+ * fleet.ts — Fleet composition (套娃 nesting tree) for the simulator
+ *
+ * A FleetSpec lists every robot's size class, its parent carrier and an
+ * optional patrol zone, plus optional per-size-class SIZE_PARAMS overrides.
+ * Specs load from JSON/YAML files or arrive over REST; the default spec is
+ * the original 22-robot fleet (Hub → Large → 4 Medium → 16 Small).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { SIZE_PARAMS, type SizeClass, type SizeClassParams } from './types';
+import { fleetSpecSchema, sizeClassSchema } from './validation';
+
+export interface FleetEntry {
+  size: SizeClass;
+  parent: number | null;   // index of the carrier robot (null = root hub)
+  zone?: number;           // patrol zone 0-5 (derived from the tree when omitted)
+}
+
+export interface FleetSpec {
+  name?: string;
+  robots: FleetEntry[];
+  sizeParams?: Partial<Record<SizeClass, Partial<SizeClassParams>>>;
+}
+
+// Hub(0) → Large(1) → Medium(2,3,4,5) → Small(6-21)
+export const DEFAULT_FLEET: FleetSpec = {
+  name: 'default-22',
+  robots: [
+    { size: 'hub', parent: null },
+    { size: 'large', parent: 0 },
+    ...[1, 1, 1, 1].map(parent => ({ size: 'medium' as const, parent })),
+    ...[2, 3, 4, 5].flatMap(parent =>
+      [0, 1, 2, 3].map(() => ({ size: 'small' as const, parent }))
+    ),
+  ],
+};
+
+/**
+ * Validate a fleet spec: schema first, then tree structure.
+ * Robot 0 must be the root hub and every parent must precede its child,
+ * which guarantees the nesting graph is a tree. Each child must be a
+ * smaller size class than its carrier, and no carrier may hold more than
+ * its (possibly overridden) maxChildren.
+ */
+export function parseFleetSpec(data: unknown): FleetSpec {
+  const result = fleetSpecSchema.safeParse(data);
+  if (!result.success) {
+    const first = result.error.issues[0];
+    throw new Error(`Invalid fleet spec: ${first.path.join('.')} ${first.message}`);
+  }
+  const spec = result.data as FleetSpec;
+  const params = resolveSizeParams(spec);
+  const sizeRank = (size: SizeClass) => sizeClassSchema.options.indexOf(size);
+  const childCounts = spec.robots.map(() => 0);
+
+  spec.robots.forEach((r, i) => {
+    if (i === 0) {
+      if (r.size !== 'hub' || r.parent !== null) {
+        throw new Error('Invalid fleet spec: robot 0 must be a hub with parent null');
+      }
+      return;
+    }
+    if (r.parent === null) {
+      throw new Error(`Invalid fleet spec: robot ${i} has no parent (only robot 0 may be the root)`);
+    }
+    if (r.parent >= i) {
+      throw new Error(`Invalid fleet spec: robot ${i} must come after its parent ${r.parent}`);
+    }
+    const carrier = spec.robots[r.parent];
+    if (sizeRank(r.size) >= sizeRank(carrier.size)) {
+      throw new Error(`Invalid fleet spec: robot ${i} (${r.size}) cannot nest in robot ${r.parent} (${carrier.size})`);
+    }
+    if (++childCounts[r.parent] > params[carrier.size].maxChildren) {
+      throw new Error(`Invalid fleet spec: robot ${r.parent} (${carrier.size}) carries more than ${params[carrier.size].maxChildren} children`);
+    }
+  });
+
+  return spec;
+}
+
+/** Load a fleet spec from a .json, .yaml or .yml file */
+export function loadFleetFile(filePath: string): FleetSpec {
+  const text = fs.readFileSync(filePath, 'utf-8');
+  const ext = path.extname(filePath).toLowerCase();
+  const data = ext === '.yaml' || ext === '.yml' ? parseYaml(text) : JSON.parse(text);
+  return parseFleetSpec(data);
+}
+
+/** SIZE_PARAMS with the spec's overrides applied */
+export function resolveSizeParams(spec: FleetSpec): Record<SizeClass, SizeClassParams> {
+  const o = spec.sizeParams ?? {};
+  return {
+    small: { ...SIZE_PARAMS.small, ...o.small },
+    medium: { ...SIZE_PARAMS.medium, ...o.medium },
+    large: { ...SIZE_PARAMS.large, ...o.large },
+    hub: { ...SIZE_PARAMS.hub, ...o.hub },
+  };
+}
+
+/** Nesting depth of every robot (root hub = 0) */
+export function fleetDepths(spec: FleetSpec): number[] {
+  const depths: number[] = [];
+  spec.robots.forEach((r, i) => {
+    depths[i] = r.parent === null ? 0 : depths[r.parent] + 1;
+  });
+  return depths;
+}
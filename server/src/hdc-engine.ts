@@ -11,6 +11,7 @@
 
 import type { HdcState } from './types';
 import { SPECIES_NAMES } from './types';
+import { hdcInference } from './metrics';
 import * as path from 'path';
 import * as fs from 'fs';
 
@@ -116,17 +117,25 @@ class HdcWasmEngine {
    * @param y Position Y (0-80)
    * @param tick Current simulation tick
    * @param isByzantine If true, perturb features to cause misclassification
+   *
+   * Latency (WASM or fallback) is recorded as swarm_hdc_inference_seconds.
    */
   inferHdcState(robotId: number, x: number, y: number, tick: number, isByzantine: boolean): HdcState {
-    if (!this.mod) {
-      return this.fallbackState(robotId, tick, isByzantine);
-    }
+    const started = performance.now();
+    const state = this.mod
+      ? this.infer(this.mod, robotId, x, y, tick, isByzantine)
+      : this.fallbackState(robotId, tick, isByzantine);
+    hdcInference.observe({ backend: this.mod ? 'wasm' : 'fallback' }, (performance.now() - started) / 1000);
+    return state;
+  }
 
+  /** Real v10 inference on the loaded WASM module */
+  private infer(mod: WasmModule, robotId: number, x: number, y: number, tick: number, isByzantine: boolean): HdcState {
     // Generate synthetic MFCC-like features based on spatial position
     const features = this.generateFeatures(robotId, x, y, tick, isByzantine);
 
     // Copy to WASM heap
-    this.mod.HEAPF32.set(features, this.inputPtr >> 2);
+    mod.HEAPF32.set(features, this.inputPtr >> 2);
 
     // Run real v10 inference
     this.fnPredict(this.inputPtr);
@@ -274,7 +283,8 @@ class HdcWasmEngine {
       Math.cos(t + i * 0.4 + cls * 0.5) > 0 ? 1 : -1
     );
     const sims = Array.from({ length: 6 }, (_, i) =>
-      i === cls ? 0.85 + 0.05 * Math.sin(t) : 0.2 + 0.15 * Math.random()
+      // Deterministic pseudo-noise so seeded runs reproduce even without WASM
+      i === cls ? 0.85 + 0.05 * Math.sin(t) : 0.2 + 0.15 * (0.5 + 0.5 * Math.sin(t * 7.3 + i * 2.1 + robotId))
     );
     return {
       melFeatures,
@@ -2,26 +2,73 @@
 
 import express from 'express';
 import { createServer } from 'http';
-import { Server } from 'socket.io';
+import { Server, type Socket } from 'socket.io';
 import path from 'path';
 import { SwarmSimulator } from './simulator';
+import { loadFleetFile, parseFleetSpec, DEFAULT_FLEET } from './fleet';
 import { hdcEngine } from './hdc-engine';
-import { setupSecurity, getSocketCorsConfig } from './security';
+import { createStore, type StoreQuery, type FrameRange } from './store';
+import { checkpointSummary } from './checkpoint';
+import { decodeRunFile } from './runfile';
+import { compareTimelines } from './compare';
+import { parseWindCsv, windLogSummary } from './wind-log';
+import { deserializeWindReport, WindReport_SIZE, type ProtoWindReport } from './protocol-defs';
+import { StateEncoder, STATE_CODEC_VERSION, PROTOCOL_VERSION } from '@swarm/shared';
+import { StreamClient, parseTopics } from './subscriptions';
+import { buildOpenApiDocument } from './openapi';
+import { metrics, observeTick, observeEmitted, collectSessionMetrics, METRICS_CONTENT_TYPE } from './metrics';
+import { SessionManager, DEFAULT_SESSION_ID, type Session } from './sessions';
+import { auditRequests, auditToCsv, resultForStatus, type AuditEntry, type AuditQuery, type AuditResult } from './audit';
+import {
+  COMMANDS,
+  commandForEvent,
+  commandRole,
+  getCommand,
+  reject,
+  restPaths,
+  runCommand,
+  socketEvent,
+  socketInput,
+  type CommandOutcome,
+} from './commands';
+import {
+  setupSecurity,
+  getSocketCorsConfig,
+  loadAuthConfig,
+  setupAuth,
+  requireRole,
+  socketAuth,
+  authorizeSocketCommands,
+  type Principal,
+} from './security';
+import { SIM_TICK_MS, type SwarmSnapshot, type CommandAck } from './types';
 import {
   validateBody,
   validateParams,
   validateRouteParams,
-  moveSchema,
-  powerSchema,
-  robotIdSchema,
-  formationSchema,
-  missionTypeSchema,
   replayParamsSchema,
+  fleetSpecSchema,
+  historyQuerySchema,
+  runFramesQuerySchema,
+  storeIdSchema,
+  checkpointSchema,
+  streamEncodingSchema,
+  hdcSubscriptionSchema,
+  streamSubscriptionSchema,
+  sessionCreateSchema,
+  auditQuerySchema,
+  serialAuditSchema,
+  forkSchema,
+  compareQuerySchema,
+  windLogQuerySchema,
+  windReportSchema,
+  validateQuery,
   errorHandler,
 } from './validation';
 
 const PORT = parseInt(process.env.PORT || '9754', 10);
-const TICK_INTERVAL_MS = 100; // 10Hz
+const RUN_UPLOAD_LIMIT = process.env.RUN_UPLOAD_LIMIT || '256mb';
+const WIND_LOG_UPLOAD_LIMIT = '16mb';
 
 const app = express();
 
@@ -34,121 +81,465 @@ app.use(express.json());
 const clientDist = path.join(__dirname, '../../client/dist');
 app.use(express.static(clientDist));
 
+// Audit trail — every mutating request is recorded once answered (401s included)
+app.use(auditRequests(
+  entry => store.appendAudit(entry),
+  res => auditContext(res.locals.session as Session | undefined),
+));
+
+// Token auth (AUTH_TOKENS) — everything below the static client needs a principal
+const authConfig = loadAuthConfig();
+setupAuth(app, authConfig);
+
 const httpServer = createServer(app);
 const io = new Server(httpServer, {
   cors: getSocketCorsConfig(),
 });
+io.use(socketAuth(authConfig));
+
+// Fleet composition: FLEET_FILE (JSON/YAML) or the default 22-robot fleet
+const initialFleet = process.env.FLEET_FILE ? loadFleetFile(process.env.FLEET_FILE) : DEFAULT_FLEET;
+// Persistent history: STORE_BACKEND=jsonl (default, under DATA_DIR) or memory
+const store = createStore();
+
+// Simulator sessions — "default" backs the unprefixed routes; more are
+// created per trainee over /sessions (MAX_SESSIONS caps them)
+const sessions = new SessionManager({
+  store,
+  maxSessions: process.env.MAX_SESSIONS ? parseInt(process.env.MAX_SESSIONS, 10) : undefined,
+  onSnapshot: broadcastState,
+  onTiming: (session, timing) => observeTick(session.id, timing),
+});
+sessions.create({ id: DEFAULT_SESSION_ID, name: 'Default', fleet: initialFleet });
+
+// swarm:state stream — the full JSON snapshot is broadcast to the session
+// room by default; sockets that negotiated the binary codec, subscribed to
+// topics or asked for a lower rate join STREAM_ROOM and are served one by one
+const STREAM_ROOM = 'state:custom';
+
+function broadcastState(session: Session, snapshot: SwarmSnapshot): void {
+  io.to(session.room).except(STREAM_ROOM).emit('swarm:state', snapshot);
+  // Bytes for swarm_tick_emitted_bytes; the JSON snapshot is only sized when someone receives it
+  const plain = sessionClients(session) - session.streamClients.size;
+  const bytes = { json: plain > 0 ? Buffer.byteLength(JSON.stringify(snapshot)) * plain : 0, binary: 0, frame: 0 };
+  for (const [socketId, client] of session.streamClients) {
+    const message = client.next(snapshot);
+    if (!message) continue;
+    io.to(socketId).emit(message.event, message.payload);
+    if (message.event === 'swarm:state:bin') bytes.binary += message.payload.byteLength;
+    else bytes[message.event === 'swarm:frame' ? 'frame' : 'json'] += Buffer.byteLength(JSON.stringify(message.payload));
+  }
+  observeEmitted(session.id, bytes);
+}
+
+/** Run/session/tick an audit entry refers to */
+function auditContext(session: Session | undefined): { runId: string; sessionId?: string; tick?: number } {
+  if (!session) return { runId: '' };
+  return { runId: session.sim.getManifest().runId, sessionId: session.id, tick: session.sim.getTick() };
+}
+
+function sessionClients(session: Session): number {
+  return io.sockets.adapter.rooms.get(session.room)?.size ?? 0;
+}
+
+/** Session resolved by the router below (default session for unprefixed routes) */
+function sessionOf(res: express.Response): Session {
+  return res.locals.session as Session;
+}
+
+/** Swap a session's simulator and resend the event history to its viewers */
+function replaceSimulator(session: Session, sim: SwarmSimulator): void {
+  session.replaceSimulator(sim);
+  io.to(session.room).emit('swarm:history', sim.getEventHistory());
+}
+
+// ── Sessions ─────────────────────────────────────────────────
+
+app.get('/auth/me', (_req, res) => {
+  res.json({ ...res.locals.principal, authEnabled: authConfig.enabled });
+});
+
+app.get('/sessions', (_req, res) => {
+  res.json(sessions.list().map(s => s.info(sessionClients(s))));
+});
+
+app.post('/sessions', requireRole('instructor'), validateBody(sessionCreateSchema), (req, res) => {
+  let fleet;
+  try {
+    fleet = req.body.fleet ? parseFleetSpec(req.body.fleet) : undefined;
+  } catch (err) {
+    res.status(400).json({ ok: false, error: (err as Error).message });
+    return;
+  }
+  let session;
+  try {
+    const { name, seed, ambientTempC, solar, windSolver, pathCost } = req.body;
+    session = sessions.create({ name, seed, fleet, ambientTempC, solar, windSolver, pathCost });
+  } catch (err) {
+    res.status(409).json({ ok: false, error: (err as Error).message });
+    return;
+  }
+  res.locals.session = session;
+  res.status(201).json({ ok: true, session: session.info(), manifest: session.sim.getManifest() });
+});
+
+app.get('/sessions/:sessionId', validateParams('sessionId', storeIdSchema), (req, res) => {
+  const session = sessions.get(req.params.sessionId as string);
+  if (!session) {
+    res.status(404).json({ ok: false, error: `Session not found: ${req.params.sessionId}` });
+    return;
+  }
+  res.json({ ...session.info(sessionClients(session)), manifest: session.sim.getManifest() });
+});
+
+app.delete('/sessions/:sessionId', requireRole('instructor'), validateParams('sessionId', storeIdSchema), (req, res) => {
+  const id = req.params.sessionId as string;
+  if (id === DEFAULT_SESSION_ID) {
+    res.status(409).json({ ok: false, error: 'The default session cannot be deleted' });
+    return;
+  }
+  res.locals.session = sessions.get(id);
+  if (!sessions.delete(id)) {
+    res.status(404).json({ ok: false, error: `Session not found: ${id}` });
+    return;
+  }
+  // Viewers of a deleted session are detached until they join another one
+  for (const socket of io.sockets.sockets.values()) {
+    if ((socket.data as SocketState).sessionId === id) leaveSession(socket, id);
+  }
+  metrics.forget({ session: id });
+  res.json({ ok: true, msg: `Session ${id} deleted` });
+});
 
-const sim = new SwarmSimulator();
+// Per-session routes: /sessions/:sessionId/<route>, and /<route> for the default session
+const sessionRoutes = express.Router();
+
+app.use('/sessions/:sessionId', validateParams('sessionId', storeIdSchema), (req, res, next) => {
+  const session = sessions.get(req.params.sessionId as string);
+  if (!session) {
+    res.status(404).json({ ok: false, error: `Session not found: ${req.params.sessionId}` });
+    return;
+  }
+  res.locals.session = session;
+  next();
+}, sessionRoutes);
+
+app.use((_req, res, next) => {
+  res.locals.session = sessions.defaultSession;
+  next();
+}, sessionRoutes);
 
 // ── REST endpoints for commands ──────────────────────────────
 
-app.post('/cmd/deploy', (_req, res) => {
-  sim.deploy();
-  res.json({ ok: true, msg: 'Fleet deployed' });
+// POST /cmd/<name>[/:param] for every command in the registry (commands.ts),
+// gated by the command's own role (Express matches the path case-insensitively)
+for (const command of COMMANDS) {
+  for (const route of restPaths(command)) {
+    sessionRoutes.post(route, requireRole(commandRole(command)), (req, res) => {
+      const outcome = runCommand(command, sessionOf(res), { ...req.body, ...req.params });
+      if (outcome.input !== undefined) req.body = outcome.input;   // audit the validated params
+      res.status(outcome.status).json(outcome.ack);
+    });
+  }
+}
+
+sessionRoutes.get('/clock', (_req, res) => {
+  const { sim } = sessionOf(res);
+  res.json({ tick: sim.getTick(), ...sim.getClock() });
+});
+
+sessionRoutes.get('/wind/field', (_req, res) => {
+  res.json(sessionOf(res).sim.wind.getFieldSample());
+});
+
+// Serial WindReport frames (protocol-defs.ts) relayed by the console, back to back
+sessionRoutes.post('/wind/reports', requireRole('operator'), express.raw({ type: () => true }), (req, res) => {
+  const data = req.body as unknown;
+  req.body = Buffer.isBuffer(data) ? { bytes: data.length } : undefined;
+  if (!Buffer.isBuffer(data) || data.length === 0 || data.length % WindReport_SIZE !== 0) {
+    res.status(400).json({ ok: false, error: `Expected WindReport frames of ${WindReport_SIZE} bytes each` });
+    return;
+  }
+  const session = sessionOf(res);
+  const { sim } = session;
+  const reports: ProtoWindReport[] = [];
+  for (let offset = 0; offset < data.length; offset += WindReport_SIZE) {
+    const frame = windReportSchema.safeParse(deserializeWindReport(data.buffer as ArrayBuffer, data.byteOffset + offset));
+    if (!frame.success) {
+      res.status(400).json({ ok: false, error: `Frame ${offset / WindReport_SIZE}: ${frame.error.issues[0].path.join('.')} out of range` });
+      return;
+    }
+    if (!sim.robots.some(r => r.id === frame.data.robotId)) {
+      res.status(404).json({ ok: false, error: `Robot not found: ${frame.data.robotId}` });
+      return;
+    }
+    reports.push(frame.data);
+  }
+  // Each frame goes through wind/report so replay guards and fork points match the JSON command
+  const command = getCommand('wind/report')!;
+  for (const report of reports) {
+    const outcome = runCommand(command, session, report);
+    if (outcome.status !== 200) {
+      res.status(outcome.status).json(outcome.ack);
+      return;
+    }
+  }
+  req.body = { bytes: data.length, reports: reports.length };
+  res.json({ ok: true, reports: reports.length });
+});
+
+sessionRoutes.get('/mission', (_req, res) => {
+  res.json(sessionOf(res).sim.getMissionState());
+});
+
+// Replay — /replay/info must be registered before /replay/:from/:to
+// so Express doesn't match "info" as the :from parameter.
+sessionRoutes.get('/replay/info', (_req, res) => {
+  res.json(sessionOf(res).sim.getReplayInfo());
+});
+
+sessionRoutes.get('/replay/:from/:to', validateRouteParams(replayParamsSchema), (req, res) => {
+  const from = parseInt(req.params.from as string, 10);
+  const to = parseInt(req.params.to as string, 10);
+  res.json(sessionOf(res).sim.getReplayRange(from, to));
+});
+
+sessionRoutes.post('/runs/archive', requireRole('operator'), (_req, res) => {
+  res.json({ ok: true, run: sessionOf(res).sim.archiveRun() });
 });
 
-app.post('/cmd/recall', (_req, res) => {
-  sim.recall();
-  res.json({ ok: true, msg: 'Fleet recalled' });
+// Fleet composition — POST replaces the session's simulator with the new fleet
+sessionRoutes.get('/fleet', (_req, res) => {
+  res.json(sessionOf(res).sim.fleet);
 });
 
-app.post('/cmd/formation/:type', validateParams('type', formationSchema), (req, res) => {
-  const type = req.params.type as any;
-  sim.setFormation(type);
-  res.json({ ok: true, msg: `Formation → ${type}` });
+sessionRoutes.post('/fleet', requireRole('operator'), validateBody(fleetSpecSchema), (req, res) => {
+  let fleet;
+  try {
+    fleet = parseFleetSpec(req.body);
+  } catch (err) {
+    res.status(400).json({ ok: false, error: (err as Error).message });
+    return;
+  }
+  const session = sessionOf(res);
+  const { ambientTempC, solar, windSolver, pathCost } = session.sim.getManifest();
+  replaceSimulator(session, new SwarmSimulator({ fleet, store, ambientTempC, solar, windSolver, pathCost }));
+  res.json({ ok: true, msg: `Fleet loaded: ${session.sim.robots.length} robots`, manifest: session.sim.getManifest() });
 });
 
-app.post('/cmd/gust', (_req, res) => {
-  sim.triggerGust();
-  res.json({ ok: true, msg: 'Gust triggered' });
+// Checkpoints — full resumable simulator state; restore swaps in a new simulator
+sessionRoutes.post('/checkpoint', requireRole('operator'), validateBody(checkpointSchema), (req, res) => {
+  const checkpoint = sessionOf(res).sim.toCheckpoint(req.body.label);
+  store.saveCheckpoint(checkpoint);
+  res.json({ ok: true, checkpoint: checkpointSummary(checkpoint) });
 });
 
-app.post('/cmd/move', validateBody(moveSchema), (req, res) => {
-  const { robotId, x, y } = req.body;
-  sim.moveRobot(robotId, { x, y });
-  res.json({ ok: true });
+sessionRoutes.post('/restore/:id', requireRole('operator'), validateParams('id', storeIdSchema), (req, res) => {
+  const checkpoint = store.getCheckpoint(req.params.id as string);
+  if (!checkpoint) {
+    res.status(404).json({ ok: false, error: `Checkpoint not found: ${req.params.id}` });
+    return;
+  }
+  let restored;
+  try {
+    restored = SwarmSimulator.fromCheckpoint(checkpoint, { store });
+  } catch (err) {
+    res.status(400).json({ ok: false, error: (err as Error).message });
+    return;
+  }
+  replaceSimulator(sessionOf(res), restored);
+  res.json({ ok: true, msg: `Restored ${checkpoint.id} at tick ${restored.getTick()}`, manifest: restored.getManifest() });
 });
 
-app.post('/cmd/power', validateBody(powerSchema), (req, res) => {
-  const { robotId, mode } = req.body;
-  sim.setPowerMode(robotId, mode);
-  res.json({ ok: true });
+// What-if forks — a new session branched from a recorded tick, compared side by side
+sessionRoutes.post('/fork', requireRole('operator'), validateBody(forkSchema), (req, res) => {
+  const source = sessionOf(res);
+  let fork;
+  try {
+    fork = sessions.fork(source, req.body.tick, { name: req.body.name, paused: req.body.paused });
+  } catch (err) {
+    res.status(409).json({ ok: false, error: (err as Error).message });
+    return;
+  }
+  res.status(201).json({ ok: true, session: fork.info(), manifest: fork.sim.getManifest() });
 });
 
-// Adversarial
-app.post('/cmd/inject/jamming', (_req, res) => {
-  sim.injectJamming();
-  res.json({ ok: true });
+sessionRoutes.get('/compare/:otherSessionId', validateParams('otherSessionId', storeIdSchema), validateQuery(compareQuerySchema), (req, res) => {
+  const other = sessions.get(req.params.otherSessionId as string);
+  if (!other) {
+    res.status(404).json({ ok: false, error: `Session not found: ${req.params.otherSessionId}` });
+    return;
+  }
+  try {
+    res.json(compareTimelines(sessionOf(res).sim, other.sim, (res.locals.query as { tick?: number }).tick));
+  } catch (err) {
+    res.status(409).json({ ok: false, error: (err as Error).message });
+  }
 });
 
-app.post('/cmd/inject/clear-jamming', (_req, res) => {
-  sim.clearJamming();
-  res.json({ ok: true });
+// Run manifest — seed and parameters needed to reproduce this run
+sessionRoutes.get('/manifest', (_req, res) => {
+  res.json(sessionOf(res).sim.getManifest());
 });
 
-app.post('/cmd/inject/node-failure', validateBody(robotIdSchema), (req, res) => {
-  sim.injectNodeFailure(req.body.robotId);
-  res.json({ ok: true });
+// Commands the console sent to hardware over its WebSerial bridge
+sessionRoutes.post('/audit', requireRole('operator'), validateBody(serialAuditSchema), (req, res) => {
+  const principal = res.locals.principal as Principal;
+  const entry: AuditEntry = {
+    timestamp: Date.now(),
+    ...auditContext(sessionOf(res)),
+    actor: principal.name,
+    role: principal.role,
+    channel: 'serial',
+    command: `serial:${req.body.command}`,
+    params: req.body.params,
+    result: req.body.result,
+    error: req.body.error,
+  };
+  store.appendAudit(entry);
+  res.status(201).json({ ok: true });
 });
 
-app.post('/cmd/inject/recover', validateBody(robotIdSchema), (req, res) => {
-  sim.recoverNode(req.body.robotId);
-  res.json({ ok: true });
+// ── Store-wide history (all sessions; filter with ?runId) ────
+
+// Persisted history across runs and restarts — newest first, paged.
+// ?limit&offset&from&to (epoch ms or ISO)&runId&type&order; total in X-Total-Count
+app.get('/mission/history', validateQuery(historyQuerySchema), (_req, res) => {
+  const page = store.queryMissions(res.locals.query as StoreQuery);
+  res.set('X-Total-Count', String(page.total)).json(page.items);
 });
 
-app.post('/cmd/inject/byzantine', validateBody(robotIdSchema), (req, res) => {
-  sim.injectByzantine(req.body.robotId);
-  res.json({ ok: true });
+app.get('/events', validateQuery(historyQuerySchema), (_req, res) => {
+  const page = store.queryEvents(res.locals.query as StoreQuery);
+  res.set('X-Total-Count', String(page.total)).json(page.items);
 });
 
-app.post('/cmd/inject/clear-byzantine', (_req, res) => {
-  sim.clearByzantine();
-  res.json({ ok: true });
+// Recorded runs — the replay buffer archived on fleet swap, shutdown or request
+app.get('/runs', validateQuery(historyQuerySchema), (_req, res) => {
+  const page = store.listRuns(res.locals.query as StoreQuery);
+  res.set('X-Total-Count', String(page.total)).json(page.items);
 });
 
-// Mission
-app.post('/cmd/start-mission/:type', validateParams('type', missionTypeSchema), (req, res) => {
-  const type = req.params.type as any;
-  const state = sim.startMission(type);
-  res.json({ ok: true, mission: state });
+// One page of frames (?fromTick&toTick&limit, default 600); the whole run is /runs/:runId/file
+app.get('/runs/:runId', validateParams('runId', storeIdSchema), validateQuery(runFramesQuerySchema), (req, res) => {
+  const run = store.getRun(req.params.runId as string, res.locals.query as FrameRange);
+  if (!run) {
+    res.status(404).json({ ok: false, error: `Run not found: ${req.params.runId}` });
+    return;
+  }
+  res.json(run);
 });
 
-app.post('/cmd/stop-mission', (_req, res) => {
-  const state = sim.stopMission();
-  res.json({ ok: true, mission: state });
+// Run file download (gzip JSONL, see runfile.ts) for offline analysis
+app.get('/runs/:runId/file', validateParams('runId', storeIdSchema), (req, res) => {
+  const runId = req.params.runId as string;
+  const stream = store.exportRun(runId);
+  if (!stream) {
+    res.status(404).json({ ok: false, error: `Run not found: ${runId}` });
+    return;
+  }
+  res.attachment(`${runId}.jsonl.gz`).type('application/gzip');
+  stream.on('error', err => res.destroy(err));
+  stream.pipe(res);
 });
 
-app.get('/mission', (_req, res) => {
-  res.json(sim.getMissionState());
+// Run file upload — the downloaded .jsonl.gz, or the same lines uncompressed
+app.post('/runs/import', requireRole('operator'), express.raw({ type: () => true, limit: RUN_UPLOAD_LIMIT }), (req, res) => {
+  const data = req.body as unknown;
+  req.body = Buffer.isBuffer(data) ? { bytes: data.length } : undefined;   // audit the size, not the file
+  if (!Buffer.isBuffer(data) || data.length === 0) {
+    res.status(400).json({ ok: false, error: 'Expected a run file body (application/gzip or application/x-ndjson)' });
+    return;
+  }
+  let run;
+  try {
+    run = decodeRunFile(data);
+  } catch (err) {
+    res.status(400).json({ ok: false, error: (err as Error).message });
+    return;
+  }
+  const { header, frames } = run;
+  if (!storeIdSchema.safeParse(header.runId).success) {
+    res.status(400).json({ ok: false, error: `Invalid run id: ${header.runId}` });
+    return;
+  }
+  if (store.listRuns({ runId: header.runId, limit: 1 }).total > 0) {
+    res.status(409).json({ ok: false, error: `Run already exists: ${header.runId}` });
+    return;
+  }
+  const summary = {
+    runId: header.runId,
+    manifest: header.manifest,
+    endedAt: Date.now(),
+    ticks: frames.length ? frames[frames.length - 1].tick : 0,
+    frameCount: frames.length,
+  };
+  req.body = { bytes: data.length, runId: summary.runId, frameCount: summary.frameCount };
+  store.saveRun({ ...summary, frames });
+  res.status(201).json({ ok: true, run: summary });
 });
 
-app.get('/mission/history', (_req, res) => {
-  res.json(sim.getMissionHistory());
+// Anemometer logs (CSV, see wind-log.ts), replayed into a session with cmd/wind/play
+app.get('/wind/logs', (_req, res) => {
+  res.json(store.listWindLogs());
 });
 
-// Replay — /replay/info must be registered before /replay/:from/:to
-// so Express doesn't match "info" as the :from parameter.
-app.get('/replay/info', (_req, res) => {
-  res.json(sim.getReplayInfo());
+app.post('/wind/logs', requireRole('operator'), validateQuery(windLogQuerySchema), express.text({ type: () => true, limit: WIND_LOG_UPLOAD_LIMIT }), (req, res) => {
+  const text = req.body as unknown;
+  req.body = typeof text === 'string' ? { bytes: text.length } : undefined;   // audit the size, not the log
+  if (typeof text !== 'string' || text.trim() === '') {
+    res.status(400).json({ ok: false, error: 'Expected a CSV body (text/csv)' });
+    return;
+  }
+  let log;
+  try {
+    log = parseWindCsv(text, (res.locals.query as { name?: string }).name ?? 'wind log');
+  } catch (err) {
+    res.status(400).json({ ok: false, error: (err as Error).message });
+    return;
+  }
+  store.saveWindLog(log);
+  req.body = { bytes: text.length, logId: log.id };
+  res.status(201).json({ ok: true, log: windLogSummary(log) });
 });
 
-app.get('/replay/:from/:to', validateRouteParams(replayParamsSchema), (req, res) => {
-  const from = parseInt(req.params.from as string, 10);
-  const to = parseInt(req.params.to as string, 10);
-  res.json(sim.getReplayRange(from, to));
+app.get('/checkpoints', validateQuery(historyQuerySchema), (_req, res) => {
+  const page = store.listCheckpoints(res.locals.query as StoreQuery);
+  res.set('X-Total-Count', String(page.total)).json(page.items);
+});
+
+// Audit trail — who issued which command, on which channel, with what outcome.
+// Same paging as /events plus ?actor&channel&command (substring)&result&sessionId
+app.get('/audit', requireRole('operator'), validateQuery(auditQuerySchema), (_req, res) => {
+  const page = store.queryAudit(res.locals.query as AuditQuery);
+  res.set('X-Total-Count', String(page.total)).json(page.items);
+});
+
+// Whole matching trail as a download; oldest first unless ?order=desc
+app.get('/audit/export', requireRole('operator'), validateQuery(auditQuerySchema), (_req, res) => {
+  const { format = 'csv', ...query } = res.locals.query as AuditQuery & { format?: 'json' | 'csv' | 'jsonl' };
+  const { items } = store.queryAudit({ order: 'asc', ...query, limit: query.limit ?? Number.MAX_SAFE_INTEGER });
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  res.attachment(`audit-${stamp}.${format}`);
+  if (format === 'csv') res.type('text/csv').send(auditToCsv(items));
+  else if (format === 'jsonl') res.type('application/x-ndjson').send(items.map(e => JSON.stringify(e)).join('\n') + '\n');
+  else res.json(items);
 });
 
-app.get('/events', (_req, res) => {
-  res.json(sim.getEventHistory());
+// Machine-readable API description (generated from the zod schemas, see openapi.ts)
+const openApiDocument = buildOpenApiDocument();
+app.get('/openapi.json', (_req, res) => {
+  res.json(openApiDocument);
 });
 
 // Health — enhanced with runtime diagnostics
 app.get('/health', (_req, res) => {
+  const { sim } = sessions.defaultSession;
   const replayInfo = sim.getReplayInfo();
   res.json({
     status: 'ok',
     uptime: process.uptime(),
+    sessions: sessions.size,
     robotCount: sim.robots.length,
     wasmReady: hdcEngine.isReady,
     memoryUsage: process.memoryUsage(),
@@ -156,6 +547,12 @@ app.get('/health', (_req, res) => {
   });
 });
 
+// Prometheus scrape target (text exposition format, see metrics.ts)
+metrics.onCollect(() => collectSessionMetrics(sessions.list(), sessionClients, io.engine.clientsCount));
+app.get('/metrics', (_req, res) => {
+  res.type(METRICS_CONTENT_TYPE).send(metrics.render());
+});
+
 // SPA fallback (Express v5 syntax)
 app.get('/{*path}', (_req, res) => {
   res.sendFile(path.join(clientDist, 'index.html'), (err) => {
@@ -168,93 +565,195 @@ app.use(errorHandler);
 
 // ── Socket.io ────────────────────────────────────────────────
 
-io.on('connection', (socket) => {
-  console.log(`[WS] Client connected: ${socket.id}`);
-
-  // Send terrain data on connect (once, not per-tick)
-  socket.emit('swarm:terrain', sim.terrain);
+interface SocketState {
+  principal: Principal;        // set by socketAuth
+  sessionId?: string;          // unset after its session was deleted
+  stream?: StreamClient;       // set while the socket is in STREAM_ROOM
+}
 
-  // Send event history on connect
-  socket.emit('swarm:history', sim.getEventHistory());
+/**
+ * Move a socket into a session's room (carrying its stream settings) and
+ * send that swarm's terrain and event history.
+ */
+function joinSession(socket: Socket, session: Session): void {
+  const state = socket.data as SocketState;
+  const previous = state.sessionId !== undefined ? sessions.get(state.sessionId) : undefined;
+  if (state.sessionId !== undefined) socket.leave(`session:${state.sessionId}`);
+  previous?.streamClients.delete(socket.id);
+
+  state.sessionId = session.id;
+  socket.join(session.room);
+  if (state.stream) {
+    state.stream.encoder?.requestKeyframe();
+    session.streamClients.set(socket.id, state.stream);
+  }
+  socket.emit('session:joined', session.info(sessionClients(session)));
+  // Terrain once per join (not per-tick), then the event history
+  socket.emit('swarm:terrain', session.sim.terrain);
+  socket.emit('swarm:history', session.sim.getEventHistory());
+}
 
-  // Allowed values for validated socket commands
-  const VALID_FORMATIONS = ['scatter', 'grid', 'ring', 'wedge', 'cluster'];
-  const VALID_POWER_MODES = ['FULL', 'NORMAL', 'ECO', 'CRITICAL'];
-  const VALID_MISSION_TYPES = ['intercept', 'survey', 'search_classify', 'perimeter'];
+/** Detach a socket from a deleted session; commands are refused until session:join */
+function leaveSession(socket: Socket, sessionId: string): void {
+  const state = socket.data as SocketState;
+  socket.leave(`session:${sessionId}`);
+  state.sessionId = undefined;
+  socket.emit('session:ended', { sessionId });
+}
 
-  // Command shortcuts via socket — all inputs validated
-  socket.on('cmd:deploy', () => sim.deploy());
-  socket.on('cmd:recall', () => sim.recall());
-  socket.on('cmd:gust', () => sim.triggerGust());
+// ?session=<id> picks the swarm; an unknown id is refused rather than
+// silently handing the socket the shared default fleet
+io.use((socket, next) => {
+  const requested = socket.handshake.query.session;
+  if (typeof requested === 'string' && !sessions.get(requested)) {
+    next(new Error(`Session not found: ${requested}`));
+    return;
+  }
+  next();
+});
 
-  socket.on('cmd:formation', (data: unknown) => {
-    if (typeof data !== 'string' || !VALID_FORMATIONS.includes(data)) return;
-    sim.setFormation(data as any);
+io.on('connection', (socket) => {
+  console.log(`[WS] Client connected: ${socket.id}`);
+  const state = socket.data as SocketState;
+  // Unknown cmd:* events still need an operator before they are answered below
+  const roleOf = (event: string) => {
+    const command = commandForEvent(event);
+    return command ? commandRole(command) : 'operator';
+  };
+  authorizeSocketCommands(socket, roleOf, (event, required) => audit(event, undefined, 'denied', `Requires role: ${required}`));
+  socket.emit('auth:principal', state.principal);
+  // Consoles built against another @swarm/shared version warn instead of misrendering
+  socket.emit('protocol:version', { version: PROTOCOL_VERSION });
+  const currentSession = (): Session | undefined =>
+    state.sessionId !== undefined ? sessions.get(state.sessionId) : undefined;
+
+  // ?session=<id> (checked by the middleware above) or the default swarm
+  const requested = socket.handshake.query.session;
+  joinSession(socket, (typeof requested === 'string' && sessions.get(requested)) || sessions.defaultSession);
+
+  socket.on('session:join', (data: unknown, ack?: (res: unknown) => void) => {
+    const parsed = storeIdSchema.safeParse(data);
+    const session = parsed.success ? sessions.get(parsed.data) : undefined;
+    if (!session) {
+      ack?.({ ok: false, error: `Session not found: ${String(data)}` });
+      return;
+    }
+    joinSession(socket, session);
+    ack?.({ ok: true, session: session.info(sessionClients(session)) });
   });
 
-  socket.on('cmd:move', (data: unknown) => {
-    if (!data || typeof data !== 'object') return;
-    const d = data as Record<string, unknown>;
-    const robotId = Number(d.robotId);
-    const x = Number(d.x);
-    const y = Number(d.y);
-    if (!Number.isFinite(robotId) || !Number.isFinite(x) || !Number.isFinite(y)) return;
-    sim.moveRobot(robotId, { x, y });
-  });
+  const audit = (command: string, params: unknown, result: AuditResult, error?: string): void => {
+    store.appendAudit({
+      timestamp: Date.now(),
+      ...auditContext(currentSession()),
+      actor: state.principal.name,
+      role: state.principal.role,
+      socketId: socket.id,
+      channel: 'socket',
+      command,
+      params,
+      result,
+      error,
+    });
+  };
+
+  // cmd:<name> for every command in the registry; the optional ack gets
+  // the same body the REST route would answer with
+  for (const command of COMMANDS) {
+    const event = socketEvent(command);
+    socket.on(event, (...args: unknown[]) => {
+      const ack = typeof args[args.length - 1] === 'function' ? args.pop() as (res: CommandAck) => void : undefined;
+      const data = args[0];
+      const session = currentSession();
+      let outcome: CommandOutcome;
+      try {
+        outcome = session
+          ? runCommand(command, session, socketInput(command, data))
+          : reject(409, 'Session ended; send session:join first');
+      } catch (err) {
+        console.error(`[WS] ${event} failed:`, err);
+        outcome = reject(500, (err as Error).message);
+      }
+      const error = outcome.ack.ok ? undefined : outcome.ack.error;
+      audit(event, outcome.input ?? data, resultForStatus(outcome.status), error);
+      ack?.(outcome.ack);
+    });
+  }
 
-  socket.on('cmd:power', (data: unknown) => {
-    if (!data || typeof data !== 'object') return;
-    const d = data as Record<string, unknown>;
-    const robotId = Number(d.robotId);
-    const mode = d.mode;
-    if (!Number.isFinite(robotId) || typeof mode !== 'string') return;
-    if (!VALID_POWER_MODES.includes(mode)) return;
-    sim.setPowerMode(robotId, mode);
+  // Unknown cmd:* events are answered instead of silently dropped
+  socket.onAny((event: string, ...args: unknown[]) => {
+    if (!event.startsWith('cmd:') || commandForEvent(event)) return;
+    const ack = args[args.length - 1];
+    if (typeof ack === 'function') ack({ ok: false, error: `Unknown command: ${event}` });
+    audit(event, typeof args[0] === 'function' ? undefined : args[0], 'rejected', 'Unknown command');
   });
 
-  socket.on('cmd:inject:jamming', () => sim.injectJamming());
-  socket.on('cmd:inject:clear-jamming', () => sim.clearJamming());
-
-  socket.on('cmd:inject:node-failure', (data: unknown) => {
-    if (!data || typeof data !== 'object') {
-      sim.injectNodeFailure();
+  // Per-socket stream state; sockets back on the defaults rejoin the broadcast
+  const streamClient = (): StreamClient => {
+    if (!state.stream) {
+      state.stream = new StreamClient();
+      currentSession()?.streamClients.set(socket.id, state.stream);
+      socket.join(STREAM_ROOM);
+    }
+    return state.stream;
+  };
+  const releaseIfDefault = (): void => {
+    if (!state.stream?.isDefault) return;
+    currentSession()?.streamClients.delete(socket.id);
+    state.stream = undefined;
+    socket.leave(STREAM_ROOM);
+  };
+
+  // Stream negotiation — ack reports the encoding actually in effect
+  socket.on('stream:encoding', (data: unknown, ack?: (res: unknown) => void) => {
+    const parsed = streamEncodingSchema.safeParse(data);
+    if (!parsed.success || (parsed.data.encoding === 'binary' && parsed.data.version !== STATE_CODEC_VERSION)) {
+      const encoding = state.stream?.encoder ? 'binary' : 'json';
+      ack?.({ ok: false, encoding, version: STATE_CODEC_VERSION });
       return;
     }
-    const d = data as Record<string, unknown>;
-    const robotId = d.robotId !== undefined ? Number(d.robotId) : undefined;
-    if (robotId !== undefined && !Number.isFinite(robotId)) return;
-    sim.injectNodeFailure(robotId);
+    if (parsed.data.encoding === 'binary') {
+      const client = streamClient();
+      if (!client.encoder) client.setEncoder(new StateEncoder());
+    } else {
+      state.stream?.setEncoder(null);
+      releaseIfDefault();
+    }
+    ack?.({ ok: true, encoding: parsed.data.encoding, version: STATE_CODEC_VERSION });
+  });
+
+  // Robots whose HDC internals (mel / hidden / HD vector) this binary client wants
+  socket.on('stream:hdc', (data: unknown) => {
+    const parsed = hdcSubscriptionSchema.safeParse(data);
+    if (!parsed.success) return;
+    state.stream?.encoder?.setHdcSubscription(parsed.data);
   });
 
-  socket.on('cmd:inject:recover', (data: unknown) => {
-    if (!data || typeof data !== 'object') return;
-    const d = data as Record<string, unknown>;
-    const robotId = Number(d.robotId);
-    if (!Number.isFinite(robotId)) return;
-    sim.recoverNode(robotId);
+  socket.on('stream:resync', () => {
+    state.stream?.encoder?.requestKeyframe();
   });
 
-  socket.on('cmd:inject:byzantine', (data: unknown) => {
-    if (!data || typeof data !== 'object') {
-      sim.injectByzantine();
+  // Topic subscription and/or downsampled rate; topics switch to swarm:frame
+  socket.on('stream:subscribe', (data: unknown, ack?: (res: unknown) => void) => {
+    const parsed = streamSubscriptionSchema.safeParse(data);
+    if (!parsed.success) {
+      ack?.({ ok: false, error: 'Validation failed', details: parsed.error.issues });
       return;
     }
-    const d = data as Record<string, unknown>;
-    const robotId = d.robotId !== undefined ? Number(d.robotId) : undefined;
-    if (robotId !== undefined && !Number.isFinite(robotId)) return;
-    sim.injectByzantine(robotId);
+    const topics = parsed.data.topics ? parseTopics(parsed.data.topics) : null;
+    streamClient().subscribe(topics, parsed.data.rateHz ?? null);
+    releaseIfDefault();
+    ack?.({ ok: true, topics: parsed.data.topics ?? null, rateHz: parsed.data.rateHz ?? null });
   });
 
-  socket.on('cmd:inject:clear-byzantine', () => sim.clearByzantine());
-
-  socket.on('cmd:start-mission', (data: unknown) => {
-    if (typeof data !== 'string' || !VALID_MISSION_TYPES.includes(data)) return;
-    sim.startMission(data as any);
+  // Back to the full snapshot every tick (a negotiated encoding is kept)
+  socket.on('stream:unsubscribe', () => {
+    state.stream?.subscribe(null, null);
+    releaseIfDefault();
   });
 
-  socket.on('cmd:stop-mission', () => sim.stopMission());
-
   socket.on('disconnect', () => {
+    currentSession()?.streamClients.delete(socket.id);
     console.log(`[WS] Client disconnected: ${socket.id}`);
   });
 });
@@ -270,15 +769,8 @@ async function start() {
     console.warn('  [HDC] WASM init failed, using fallback simulation:', err);
   }
 
-  // Simulation loop
-  setInterval(() => {
-    try {
-      const snapshot = sim.step();
-      io.emit('swarm:state', snapshot);
-    } catch (err) {
-      console.error('[TICK] Error in simulation step:', err);
-    }
-  }, TICK_INTERVAL_MS);
+  // Simulation loops (paced by sim speed, skip ticks while paused)
+  sessions.start();
 
   // HTTP server
   httpServer.on('error', (err: NodeJS.ErrnoException) => {
@@ -291,17 +783,36 @@ async function start() {
   });
 
   httpServer.listen(PORT, '0.0.0.0', () => {
+    const { sim } = sessions.defaultSession;
     console.log(`\n  Swarm Console Server`);
     console.log(`  ──────────────────────`);
     console.log(`  HTTP:      http://0.0.0.0:${PORT}`);
     console.log(`  WebSocket: ws://0.0.0.0:${PORT}`);
-    console.log(`  Tick rate: ${1000 / TICK_INTERVAL_MS} Hz`);
+    console.log(`  Tick rate: ${1000 / SIM_TICK_MS} Hz (×${sim.getSpeed()})`);
     console.log(`  Robots:    ${sim.robots.length}`);
+    console.log(`  Seed:      ${sim.getManifest().seed}`);
+    console.log(`  Run:       ${sim.getManifest().runId}`);
     console.log(`  HDC WASM:  ${hdcEngine.isReady ? 'ACTIVE' : 'fallback'}`);
     console.log(`  ──────────────────────\n`);
   });
 }
 
+// Archive every session's run before the container stops
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, () => {
+    for (const session of sessions.stop()) {
+      try {
+        const run = session.sim.archiveRun();
+        if (run) console.log(`  [STORE] Archived run ${run.runId} (${run.frameCount} frames)`);
+      } catch (err) {
+        console.error(`  [STORE] Failed to archive run of session ${session.id}:`, err);
+      }
+    }
+    store.flush();
+    process.exit(0);
+  });
+}
+
 start().catch(err => {
   console.error('Fatal startup error:', err);
   process.exit(1);
@@ -0,0 +1,208 @@
+/**
+ * loop.ts — Real-time driver for a SwarmSimulator
+ *
+ * Ticks are scheduled against absolute deadlines (SIM_TICK_MS / speed
+ * apart) so timer jitter and step time do not accumulate as drift; a
+ * loop that falls more than MAX_CATCH_UP_TICKS behind drops the backlog
+ * instead of bursting. Paused simulators are skipped, and single-stepping
+ * runs N ticks on demand.
+ *
+ * Each scheduled tick is measured (see metrics.ts). Ticks that exceed
+ * their budget are overruns: they are reported as `overrun` SwarmEvents
+ * (rate-limited) and, when they persist, the loop sheds load by having the
+ * simulator refresh the BLE mesh and consensus less often (SHED_INTERVALS).
+ * Scheduler health travels in SwarmStats.scheduler.
+ */
+
+import type { SwarmSimulator } from './simulator';
+import { SIM_TICK_MS, type SchedulerStats, type SwarmSnapshot } from './types';
+
+/** BLE mesh refresh interval (ticks) per load-shedding level */
+export const SHED_INTERVALS = [1, 2, 5, 10];
+
+const MAX_CATCH_UP_TICKS = 2;    // run late ticks back-to-back up to this far behind
+const OVERRUN_WINDOW = 20;       // recent ticks considered for shedding
+const SHED_THRESHOLD = 5;        // overruns in the window → shed one level more
+const RECOVER_TICKS = 100;       // ticks without an overrun → shed one level less
+const RATE_WINDOW = 20;          // ticks averaged for the effective rate
+const EVENT_COOLDOWN_MS = 10_000;
+
+/** Wall time of one scheduled tick */
+export interface TickTiming {
+  stepSeconds: number;       // sim.step()
+  totalSeconds: number;      // step + onSnapshot (broadcast)
+  budgetSeconds: number;     // SIM_TICK_MS / speed
+  lagSeconds: number;        // how late the tick started
+  failed: boolean;           // step or broadcast threw
+}
+
+export class SimLoop {
+  private sim: SwarmSimulator;
+  private readonly onSnapshot: (snapshot: SwarmSnapshot) => void;
+  private readonly onTiming?: (timing: TickTiming) => void;
+  private readonly now: () => number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  private nextDueMs = 0;
+  private recentOverruns: boolean[] = [];
+  private recentStarts: number[] = [];
+  private ticksSinceOverrun = 0;
+  private lastEventMs = -Infinity;
+  private overruns = 0;
+  private droppedTicks = 0;
+  private shedLevel = 0;
+
+  constructor(
+    sim: SwarmSimulator,
+    onSnapshot: (snapshot: SwarmSnapshot) => void,
+    onTiming?: (timing: TickTiming) => void,
+    now: () => number = () => performance.now(),
+  ) {
+    this.sim = sim;
+    this.onSnapshot = onSnapshot;
+    this.onTiming = onTiming;
+    this.now = now;
+  }
+
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.nextDueMs = this.now() + this.interval();
+    this.schedule();
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /** Swap the driven simulator (fleet reload, checkpoint restore) */
+  setSimulator(sim: SwarmSimulator): void {
+    this.sim = sim;
+    sim.setMeshInterval(SHED_INTERVALS[this.shedLevel]);
+  }
+
+  /**
+   * Advance a paused simulator by N ticks and emit one snapshot carrying
+   * the events of every intermediate tick.
+   */
+  stepTicks(ticks: number): SwarmSnapshot {
+    const events: SwarmSnapshot['events'] = [];
+    let snapshot = this.sim.step();
+    events.push(...snapshot.events);
+    for (let i = 1; i < ticks; i++) {
+      snapshot = this.sim.step();
+      events.push(...snapshot.events);
+    }
+    const merged = { ...snapshot, events };
+    this.onSnapshot(merged);
+    return merged;
+  }
+
+  /** Current scheduler health (also in SwarmStats.scheduler) */
+  getStats(): SchedulerStats {
+    const starts = this.recentStarts;
+    const span = starts.length > 1 ? starts[starts.length - 1] - starts[0] : 0;
+    return {
+      tickRateHz: span > 0 ? ((starts.length - 1) * 1000) / span : 0,
+      targetHz: 1000 / this.interval(),
+      overruns: this.overruns,
+      droppedTicks: this.droppedTicks,
+      shedLevel: this.shedLevel,
+      meshIntervalTicks: SHED_INTERVALS[this.shedLevel],
+    };
+  }
+
+  private interval(): number {
+    return SIM_TICK_MS / this.sim.getSpeed();
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(() => this.run(), Math.max(0, this.nextDueMs - this.now()));
+  }
+
+  private run(): void {
+    const budgetMs = this.interval();
+    const started = this.now();
+    const lagMs = Math.max(0, started - this.nextDueMs);
+    if (!this.sim.isPaused()) {
+      this.recentStarts.push(started);
+      if (this.recentStarts.length > RATE_WINDOW) this.recentStarts.shift();
+      this.runTick(started, budgetMs, lagMs);
+    } else {
+      this.recentStarts = []; // the rate restarts on resume
+    }
+    if (!this.timer) return; // stop() may have been called from onSnapshot
+
+    // Next deadline on the fixed grid; drop the backlog rather than burst
+    this.nextDueMs += this.interval();
+    const behind = this.now() - this.nextDueMs;
+    if (behind > MAX_CATCH_UP_TICKS * this.interval()) {
+      this.droppedTicks += Math.floor(behind / this.interval());
+      this.nextDueMs = this.now();
+    }
+    this.schedule();
+  }
+
+  private runTick(started: number, budgetMs: number, lagMs: number): void {
+    let stepped = started;
+    let failed = false;
+    try {
+      const snapshot = this.sim.step();
+      stepped = this.now();
+      this.onSnapshot(snapshot);
+    } catch (err) {
+      failed = true;
+      console.error('[TICK] Error in simulation step:', err);
+      this.sim.reportScheduler(this.getStats(), `Tick ${this.sim.getTick()} failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    const totalMs = this.now() - started;
+    this.onTiming?.({
+      stepSeconds: (stepped - started) / 1000,
+      totalSeconds: totalMs / 1000,
+      budgetSeconds: budgetMs / 1000,
+      lagSeconds: lagMs / 1000,
+      failed,
+    });
+    if (!failed) this.track(totalMs, budgetMs);
+  }
+
+  /** Count an executed tick towards overrun detection and load shedding */
+  private track(totalMs: number, budgetMs: number): void {
+    const overrun = totalMs > budgetMs;
+    this.recentOverruns.push(overrun);
+    if (this.recentOverruns.length > OVERRUN_WINDOW) this.recentOverruns.shift();
+    const inWindow = this.recentOverruns.filter(Boolean).length;
+
+    let message: string | undefined;
+    if (overrun) {
+      this.overruns++;
+      this.ticksSinceOverrun = 0;
+      if (inWindow >= SHED_THRESHOLD && this.shedLevel < SHED_INTERVALS.length - 1) {
+        message = this.setShedLevel(this.shedLevel + 1, totalMs, budgetMs, inWindow);
+      } else if (this.now() - this.lastEventMs >= EVENT_COOLDOWN_MS) {
+        message = `Tick overrun: ${totalMs.toFixed(0)} ms vs ${budgetMs.toFixed(0)} ms budget `
+          + `(${inWindow}/${this.recentOverruns.length} recent ticks)`;
+      }
+    } else if (++this.ticksSinceOverrun >= RECOVER_TICKS && this.shedLevel > 0) {
+      this.ticksSinceOverrun = 0;
+      message = this.setShedLevel(this.shedLevel - 1, totalMs, budgetMs, inWindow);
+    }
+    if (message) this.lastEventMs = this.now();
+    this.sim.reportScheduler(this.getStats(), message);
+  }
+
+  private setShedLevel(level: number, totalMs: number, budgetMs: number, inWindow: number): string {
+    const raised = level > this.shedLevel;
+    this.shedLevel = level;
+    this.recentOverruns = [];
+    this.sim.setMeshInterval(SHED_INTERVALS[level]);
+    const mode = level === 0 ? 'full fidelity restored' : `BLE mesh every ${SHED_INTERVALS[level]} ticks`;
+    return raised
+      ? `Load shedding level ${level}: ${mode} (${inWindow} overruns, last ${totalMs.toFixed(0)} ms vs ${budgetMs.toFixed(0)} ms)`
+      : `Load shedding level ${level}: ${mode}`;
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * metrics.ts — Prometheus metrics for simulator and server health
+ *
+ * A minimal registry (counters, gauges, histograms) rendered in the
+ * Prometheus text exposition format at GET /metrics. Timings and byte
+ * counts are observed as they happen (SimLoop, broadcast, HDC engine);
+ * per-robot and per-session gauges are filled at scrape time from each
+ * session's latest snapshot, so deleted sessions and robots drop out.
+ *
+ *   scrape_configs:
+ *     - job_name: swarm
+ *       scrape_interval: 5s
+ *       static_configs: [{ targets: ['localhost:9754'] }]
+ */
+
+import type { Session } from './sessions';
+import type { TickTiming } from './loop';
+
+export type Labels = Record<string, string | number>;
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels, extra?: Labels): string {
+  const all = { ...labels, ...extra };
+  const keys = Object.keys(all);
+  if (keys.length === 0) return '';
+  return `{${keys.map(k => `${k}="${escapeLabel(String(all[k]))}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/** Stable series key: labels sorted by name */
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).sort().map(k => [k, String(labels[k])]));
+}
+
+abstract class Metric<S> {
+  protected readonly series = new Map<string, { labels: Labels; state: S }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: 'counter' | 'gauge' | 'histogram',
+  ) {}
+
+  protected entry(labels: Labels, init: () => S): S {
+    const key = seriesKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: { ...labels }, state: init() };
+      this.series.set(key, entry);
+    }
+    return entry.state;
+  }
+
+  /** Drop every series carrying these label values (e.g. a deleted session) */
+  forget(match: Labels): void {
+    for (const [key, { labels }] of this.series) {
+      if (Object.entries(match).every(([k, v]) => String(labels[k]) === String(v))) this.series.delete(key);
+    }
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, state } of this.series.values()) lines.push(...this.samples(labels, state));
+    return lines;
+  }
+
+  protected abstract samples(labels: Labels, state: S): string[];
+}
+
+export class Counter extends Metric<{ value: number }> {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, by = 1): void {
+    this.entry(labels, () => ({ value: 0 })).value += by;
+  }
+
+  protected samples(labels: Labels, state: { value: number }): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(state.value)}`];
+  }
+}
+
+export class Gauge extends Metric<{ value: number }> {
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(labels: Labels, value: number): void {
+    this.entry(labels, () => ({ value: 0 })).value = value;
+  }
+
+  protected samples(labels: Labels, state: { value: number }): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(state.value)}`];
+  }
+}
+
+interface HistogramState {
+  counts: number[];          // per bucket, non-cumulative
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric<HistogramState> {
+  readonly buckets: number[];
+
+  constructor(name: string, help: string, buckets: number[]) {
+    super(name, help, 'histogram');
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const state = this.entry(labels, () => ({ counts: new Array(this.buckets.length).fill(0), sum: 0, count: 0 }));
+    const i = this.buckets.findIndex(b => value <= b);
+    if (i >= 0) state.counts[i]++;
+    state.sum += value;
+    state.count++;
+  }
+
+  protected samples(labels: Labels, state: HistogramState): string[] {
+    const lines: string[] = [];
+    let cumulative = 0;
+    this.buckets.forEach((bound, i) => {
+      cumulative += state.counts[i];
+      lines.push(`${this.name}_bucket${formatLabels(labels, { le: formatValue(bound) })} ${cumulative}`);
+    });
+    lines.push(`${this.name}_bucket${formatLabels(labels, { le: '+Inf' })} ${state.count}`);
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(state.sum)}`);
+    lines.push(`${this.name}_count${formatLabels(labels)} ${state.count}`);
+    return lines;
+  }
+}
+
+type AnyMetric = Counter | Gauge | Histogram;
+
+export class MetricsRegistry {
+  private readonly metrics: AnyMetric[] = [];
+  private readonly collectors: (() => void)[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.add(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.add(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.add(new Histogram(name, help, buckets));
+  }
+
+  /** Run before every render — for gauges read from live state */
+  onCollect(collector: () => void): void {
+    this.collectors.push(collector);
+  }
+
+  forget(match: Labels): void {
+    for (const metric of this.metrics) metric.forget(match);
+  }
+
+  render(): string {
+    for (const collect of this.collectors) collect();
+    return this.metrics.flatMap(m => m.render()).join('\n') + '\n';
+  }
+
+  private add<M extends AnyMetric>(metric: M): M {
+    if (this.metrics.some(m => m.name === metric.name)) throw new Error(`Metric already registered: ${metric.name}`);
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+// ── Server metrics ───────────────────────────────────────────
+
+export const metrics = new MetricsRegistry();
+
+// Tick budget is SIM_TICK_MS (100 ms) at ×1 and 10 ms at ×10
+const TICK_BUCKETS = [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.075, 0.1, 0.15, 0.25, 0.5, 1];
+const HDC_BUCKETS = [0.00001, 0.000025, 0.00005, 0.0001, 0.00025, 0.0005, 0.001, 0.0025, 0.005, 0.01];
+const BYTE_BUCKETS = [1_000, 5_000, 10_000, 25_000, 50_000, 100_000, 250_000, 500_000, 1_000_000, 5_000_000];
+
+export const stepDuration = metrics.histogram(
+  'swarm_step_duration_seconds', 'Wall time of SwarmSimulator.step()', TICK_BUCKETS);
+export const tickDuration = metrics.histogram(
+  'swarm_tick_duration_seconds', 'Wall time of a scheduled tick: step plus broadcast', TICK_BUCKETS);
+export const tickOverruns = metrics.counter(
+  'swarm_tick_overruns_total', 'Ticks that took longer than their budget (SIM_TICK_MS / speed)');
+export const tickLag = metrics.histogram(
+  'swarm_tick_lag_seconds', 'How late scheduled ticks started', TICK_BUCKETS);
+export const tickErrors = metrics.counter(
+  'swarm_tick_errors_total', 'Scheduled ticks whose step or broadcast threw');
+export const emittedBytes = metrics.histogram(
+  'swarm_tick_emitted_bytes', 'State stream bytes emitted per tick, all recipients', BYTE_BUCKETS);
+export const emittedBytesTotal = metrics.counter(
+  'swarm_emitted_bytes_total', 'State stream bytes emitted, by encoding (json, binary, frame)');
+export const hdcInference = metrics.histogram(
+  'swarm_hdc_inference_seconds', 'Latency of hdcEngine.inferHdcState, by backend (wasm, fallback)', HDC_BUCKETS);
+
+const socketsConnected = metrics.gauge('swarm_sockets_connected', 'Connected Socket.io clients');
+const sessionClients = metrics.gauge('swarm_session_clients', 'Sockets in a session room');
+const sessionTick = metrics.gauge('swarm_session_tick', 'Current simulator tick');
+const sessionPaused = metrics.gauge('swarm_session_paused', '1 while the session clock is paused');
+const sessionSpeed = metrics.gauge('swarm_session_speed', 'Simulation speed multiplier');
+const tickRate = metrics.gauge('swarm_tick_rate_hz', 'Effective tick rate over the last ticks');
+const tickTarget = metrics.gauge('swarm_tick_target_hz', 'Tick rate the session is paced for');
+const shedLevel = metrics.gauge('swarm_load_shed_level', 'Load-shedding level (0 = full fidelity)');
+const robotBattery = metrics.gauge('swarm_robot_battery_soc', 'Robot battery state of charge (%)');
+const robotVoltage = metrics.gauge('swarm_robot_battery_volts', 'Robot battery terminal voltage under load');
+const robotBatteryTemp = metrics.gauge('swarm_robot_battery_temp_celsius', 'Robot battery pack temperature');
+const robotPower = metrics.gauge('swarm_robot_power_draw_watts', 'Robot power draw of all consumers');
+const solarIrradiance = metrics.gauge('swarm_solar_irradiance_wm2', 'Global horizontal irradiance at the site');
+const robotPhase = metrics.gauge('swarm_robot_phase', '1 for the phase each robot is in');
+const robotOnline = metrics.gauge('swarm_robot_online', '1 while the robot is online');
+const bleLinks = metrics.gauge('swarm_ble_links', 'BLE mesh links by quality');
+const missionActive = metrics.gauge('swarm_mission_active', '1 while a mission runs');
+const missionScore = metrics.gauge('swarm_mission_score', 'Score of the running mission');
+const missionClassified = metrics.gauge('swarm_mission_classified', 'Targets classified in the running mission');
+const processMemory = metrics.gauge('process_resident_memory_bytes', 'Resident set size');
+const heapUsed = metrics.gauge('nodejs_heap_used_bytes', 'V8 heap in use');
+const uptime = metrics.gauge('process_uptime_seconds', 'Seconds since the server started');
+
+const SCRAPE_GAUGES = [
+  socketsConnected, sessionClients, sessionTick, sessionPaused, sessionSpeed,
+  tickRate, tickTarget, shedLevel, robotBattery, robotVoltage, robotBatteryTemp, robotPower,
+  solarIrradiance, robotPhase, robotOnline, bleLinks, missionActive, missionScore, missionClassified,
+];
+
+/** Record the timing of one scheduled tick of a session's loop */
+export function observeTick(sessionId: string, timing: TickTiming): void {
+  const labels = { session: sessionId };
+  stepDuration.observe(labels, timing.stepSeconds);
+  tickDuration.observe(labels, timing.totalSeconds);
+  tickLag.observe(labels, timing.lagSeconds);
+  if (timing.failed) tickErrors.inc(labels);
+  else if (timing.totalSeconds > timing.budgetSeconds) tickOverruns.inc(labels);
+}
+
+/** Record the state stream bytes of one tick, by encoding */
+export function observeEmitted(sessionId: string, bytes: Partial<Record<'json' | 'binary' | 'frame', number>>): void {
+  let total = 0;
+  for (const [encoding, count] of Object.entries(bytes)) {
+    if (!count) continue;
+    emittedBytesTotal.inc({ session: sessionId, encoding }, count);
+    total += count;
+  }
+  emittedBytes.observe({ session: sessionId }, total);
+}
+
+/** Fill the scrape-time gauges from live sessions and sockets */
+export function collectSessionMetrics(sessions: Session[], clientsOf: (session: Session) => number, sockets: number): void {
+  for (const gauge of SCRAPE_GAUGES) gauge.reset();
+  socketsConnected.set({}, sockets);
+  for (const session of sessions) {
+    const labels = { session: session.id };
+    const { sim, latest } = session;
+    sessionClients.set(labels, clientsOf(session));
+    sessionTick.set(labels, sim.getTick());
+    sessionPaused.set(labels, sim.isPaused() ? 1 : 0);
+    sessionSpeed.set(labels, sim.getSpeed());
+    const scheduler = session.loop.getStats();
+    tickRate.set(labels, scheduler.tickRateHz);
+    tickTarget.set(labels, scheduler.targetHz);
+    shedLevel.set(labels, scheduler.shedLevel);
+    if (!latest) continue;
+    solarIrradiance.set(labels, latest.solar.irradianceWm2);
+    for (const robot of latest.robots) {
+      const robotLabels = { ...labels, robot: robot.id, name: robot.name };
+      robotBattery.set(robotLabels, robot.batterySoc);
+      robotVoltage.set(robotLabels, robot.batteryVoltage);
+      robotBatteryTemp.set(robotLabels, robot.batteryTempC);
+      robotPower.set(robotLabels, robot.powerDrawMw / 1000);
+      robotOnline.set(robotLabels, robot.isOnline ? 1 : 0);
+      robotPhase.set({ ...robotLabels, phase: robot.phase }, 1);
+    }
+    for (const quality of ['strong', 'ok', 'weak'] as const) {
+      bleLinks.set({ ...labels, quality }, latest.bleLinks.filter(l => l.quality === quality).length);
+    }
+    missionActive.set(labels, latest.mission?.active ? 1 : 0);
+    missionScore.set(labels, latest.mission?.score ?? 0);
+    missionClassified.set(labels, latest.mission?.classified ?? 0);
+  }
+  const memory = process.memoryUsage();
+  processMemory.set({}, memory.rss);
+  heapUsed.set({}, memory.heapUsed);
+  uptime.set({}, process.uptime());
+}
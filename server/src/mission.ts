@@ -7,8 +7,9 @@
  * perimeter:       Targets only on map edges, requires 3-robot consensus
  */
 
-import { Vec2, SPECIES_NAMES } from './types';
+import { Vec2, SPECIES_NAMES, SIM_STEP_MS } from './types';
 import { Robot } from './robot';
+import { Prng } from './rng';
 
 /* ─── Types ────────────────────────────────────────────────── */
 
@@ -53,11 +54,20 @@ export interface MissionResult {
   timestamp: number;
 }
 
+/** MissionManager state for checkpoints; the shared Prng is saved by the simulator */
+export interface MissionCheckpoint {
+  state: MissionState;
+  history: MissionResult[];
+  nextTargetId: number;
+  lastSpawnTick: number;
+  surveyZonesUsed: number[];
+}
+
 /* ─── Constants ────────────────────────────────────────────── */
 
 const MAP_W = 120;
 const MAP_H = 80;
-const MISSION_DURATION_TICKS = 600; // 60 seconds at 10Hz
+const MISSION_DURATION_TICKS = 600; // 90 sim-seconds
 
 /* Per-type configuration */
 interface MissionTypeConfig {
@@ -119,6 +129,17 @@ const TYPE_CONFIGS: Record<MissionType, MissionTypeConfig> = {
   },
 };
 
+/** Deep copy — targets drift and collect detections in place */
+function cloneTarget(t: MissionTarget): MissionTarget {
+  return {
+    ...t,
+    position: { ...t.position },
+    drift: { ...t.drift },
+    detectedBy: [...t.detectedBy],
+    classifiedBy: [...t.classifiedBy],
+  };
+}
+
 /* ─── Mission Manager ──────────────────────────────────────── */
 
 export class MissionManager {
@@ -136,18 +157,19 @@ export class MissionManager {
   };
 
   readonly history: MissionResult[] = [];
+  private readonly resultListeners: ((result: MissionResult) => void)[] = [];
 
   private nextTargetId = 1;
   private lastSpawnTick = 0;
   private surveyZonesUsed = new Set<number>();
-  private rng: () => number;
+  private readonly prng: Prng;
 
-  constructor() {
-    let seed = 12345;
-    this.rng = () => {
-      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
-      return seed / 0x7fffffff;
-    };
+  constructor(prng: Prng = new Prng(12345)) {
+    this.prng = prng;
+  }
+
+  private rng(): number {
+    return this.prng.next();
   }
 
   private get config(): MissionTypeConfig {
@@ -165,7 +187,7 @@ export class MissionManager {
       expired: 0,
       startTick: currentTick,
       endTick: currentTick + MISSION_DURATION_TICKS,
-      timeRemainingMs: MISSION_DURATION_TICKS * 100,
+      timeRemainingMs: MISSION_DURATION_TICKS * SIM_STEP_MS,
     };
     this.nextTargetId = 1;
     this.lastSpawnTick = currentTick;
@@ -207,7 +229,7 @@ export class MissionManager {
 
     this.state = {
       ...this.state,
-      timeRemainingMs: (this.state.endTick - currentTick) * 100,
+      timeRemainingMs: (this.state.endTick - currentTick) * SIM_STEP_MS,
     };
 
     const cfg = this.config;
@@ -329,19 +351,47 @@ export class MissionManager {
     return [...this.history];
   }
 
+  toCheckpoint(): MissionCheckpoint {
+    return {
+      state: { ...this.state, targets: this.state.targets.map(cloneTarget) },
+      history: this.history.map(r => ({ ...r })),
+      nextTargetId: this.nextTargetId,
+      lastSpawnTick: this.lastSpawnTick,
+      surveyZonesUsed: [...this.surveyZonesUsed],
+    };
+  }
+
+  restoreCheckpoint(cp: MissionCheckpoint): void {
+    this.state = {
+      ...cp.state,
+      targets: cp.state.targets.map(cloneTarget),
+    };
+    this.history.splice(0, this.history.length, ...cp.history.map(r => ({ ...r })));
+    this.nextTargetId = cp.nextTargetId;
+    this.lastSpawnTick = cp.lastSpawnTick;
+    this.surveyZonesUsed = new Set(cp.surveyZonesUsed);
+  }
+
+  /** Called with every finished (completed or stopped) mission result */
+  onResult(listener: (result: MissionResult) => void): void {
+    this.resultListeners.push(listener);
+  }
+
   private recordResult(): void {
     if (!this.state.active) return;
-    this.history.push({
+    const result: MissionResult = {
       type: this.state.type,
       score: this.state.score,
       classified: this.state.classified,
       expired: this.state.expired,
       totalTargets: this.state.totalTargets,
       durationMs: this.state.timeRemainingMs > 0
-        ? (MISSION_DURATION_TICKS * 100 - this.state.timeRemainingMs)
-        : MISSION_DURATION_TICKS * 100,
+        ? (MISSION_DURATION_TICKS * SIM_STEP_MS - this.state.timeRemainingMs)
+        : MISSION_DURATION_TICKS * SIM_STEP_MS,
       timestamp: Date.now(),
-    });
+    };
+    this.history.push(result);
+    for (const listener of this.resultListeners) listener(result);
     // Keep last 20 results
     if (this.history.length > 20) {
       this.history.splice(0, this.history.length - 20);
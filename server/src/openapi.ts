@@ -0,0 +1,264 @@
+/**
+ * openapi.ts — OpenAPI 3.1 description of the REST surface
+ *
+ * Request schemas come straight from validation.ts and the command
+ * registry (z.toJSONSchema), so the document cannot drift from what the
+ * routes actually accept. Served at GET /openapi.json; sdk-gen.ts turns
+ * the same schemas into the types of the TypeScript SDK (sdk/).
+ *
+ * Routes marked `session` exist twice: unprefixed (default session) and
+ * under /sessions/{sessionId}.
+ */
+
+import { z } from 'zod';
+import { COMMANDS, commandRole, restPaths, type Command } from './commands';
+import type { Role } from './security';
+import {
+  historyQuerySchema,
+  runFramesQuerySchema,
+  auditQuerySchema,
+  replayParamsSchema,
+  MAX_REPLAY_SPAN,
+  storeIdSchema,
+  fleetSpecSchema,
+  checkpointSchema,
+  sessionCreateSchema,
+  serialAuditSchema,
+  forkSchema,
+  compareQuerySchema,
+  windLogQuerySchema,
+} from './validation';
+
+export const API_VERSION = '1.0.0';
+
+type JsonSchema = Record<string, unknown>;
+
+/** Named request schemas — components/schemas and the SDK's exported types */
+export const REQUEST_SCHEMAS: Record<string, z.ZodType> = {
+  HistoryQuery: historyQuerySchema,
+  RunFramesQuery: runFramesQuerySchema,
+  AuditQuery: auditQuerySchema,
+  FleetSpec: fleetSpecSchema,
+  CheckpointRequest: checkpointSchema,
+  SessionCreate: sessionCreateSchema,
+  SerialAuditReport: serialAuditSchema,
+  ForkRequest: forkSchema,
+  CompareQuery: compareQuerySchema,
+  WindLogQuery: windLogQuerySchema,
+};
+
+/** "inject/node-failure" → "InjectNodeFailureCommand" */
+export function commandSchemaName(command: Command): string {
+  return command.name.split(/[/-]/).map(w => w[0].toUpperCase() + w.slice(1)).join('') + 'Command';
+}
+
+interface RouteSpec {
+  method: 'get' | 'post' | 'delete';
+  path: string;              // Express style: /replay/:from/:to
+  summary: string;
+  session?: boolean;
+  role?: Role;
+  public?: boolean;
+  body?: string;             // REQUEST_SCHEMAS / command schema name
+  query?: string;
+  params?: Record<string, z.ZodType>;
+  paged?: boolean;           // X-Total-Count header
+  ack?: boolean;             // answers with a CommandAck
+  produces?: string[];       // non-JSON content types
+  consumes?: string[];       // non-JSON request bodies (file uploads)
+}
+
+const ROUTES: RouteSpec[] = [
+  { method: 'get', path: '/health', summary: 'Liveness, uptime and replay buffer fill', public: true },
+  { method: 'get', path: '/openapi.json', summary: 'This document', public: true },
+  { method: 'get', path: '/auth/me', summary: 'The authenticated principal' },
+  { method: 'get', path: '/metrics', summary: 'Prometheus metrics (text exposition format)', produces: ['text/plain'] },
+
+  { method: 'get', path: '/sessions', summary: 'List simulator sessions' },
+  { method: 'post', path: '/sessions', summary: 'Create a session', role: 'instructor', body: 'SessionCreate' },
+  { method: 'get', path: '/sessions/:sessionId', summary: 'Session info and run manifest', params: { sessionId: storeIdSchema } },
+  { method: 'delete', path: '/sessions/:sessionId', summary: 'Stop, archive and delete a session', role: 'instructor', params: { sessionId: storeIdSchema } },
+
+  { method: 'get', path: '/clock', summary: 'Simulation clock', session: true },
+  { method: 'get', path: '/mission', summary: 'Current mission state', session: true },
+  { method: 'get', path: '/wind/field', summary: 'Wind vectors on the 2 m grid (obstacle wakes, hills, gusts)', session: true },
+  {
+    method: 'post', path: '/wind/reports', summary: 'Relay serial WindReport frames (10 bytes each)', session: true, role: 'operator',
+    consumes: ['application/octet-stream'],
+  },
+  { method: 'get', path: '/replay/info', summary: 'Replay buffer range', session: true },
+  { method: 'get', path: '/replay/:from/:to', summary: `Recorded snapshots in a tick range (at most ${MAX_REPLAY_SPAN} ticks)`, session: true, params: replayParamsSchema.shape },
+  { method: 'post', path: '/runs/archive', summary: 'Archive the replay buffer as a run', session: true, role: 'operator' },
+  { method: 'get', path: '/fleet', summary: 'Fleet composition', session: true },
+  { method: 'post', path: '/fleet', summary: 'Replace the simulator with a new fleet', session: true, role: 'operator', body: 'FleetSpec' },
+  { method: 'post', path: '/checkpoint', summary: 'Save a full simulator checkpoint', session: true, role: 'operator', body: 'CheckpointRequest' },
+  { method: 'post', path: '/restore/:id', summary: 'Restore a checkpoint', session: true, role: 'operator', params: { id: storeIdSchema } },
+  { method: 'get', path: '/manifest', summary: 'Run manifest (seed and parameters)', session: true },
+  { method: 'post', path: '/fork', summary: 'Fork a new session from a recorded tick', session: true, role: 'operator', body: 'ForkRequest' },
+  {
+    method: 'get', path: '/compare/:otherSessionId', summary: 'Compare with another session at a common recorded tick',
+    session: true, query: 'CompareQuery', params: { otherSessionId: storeIdSchema },
+  },
+  { method: 'post', path: '/audit', summary: 'Report a command sent over the serial bridge', session: true, role: 'operator', body: 'SerialAuditReport' },
+
+  { method: 'get', path: '/mission/history', summary: 'Persisted mission results', query: 'HistoryQuery', paged: true },
+  { method: 'get', path: '/events', summary: 'Persisted swarm events', query: 'HistoryQuery', paged: true },
+  { method: 'get', path: '/runs', summary: 'Archived runs', query: 'HistoryQuery', paged: true },
+  {
+    method: 'get', path: '/runs/:runId', summary: 'One archived run with a page of its frames',
+    query: 'RunFramesQuery', params: { runId: storeIdSchema },
+  },
+  {
+    method: 'get', path: '/runs/:runId/file', summary: 'Run file download (chunked gzip JSONL)',
+    params: { runId: storeIdSchema }, produces: ['application/gzip'],
+  },
+  {
+    method: 'post', path: '/runs/import', summary: 'Upload a run file', role: 'operator',
+    consumes: ['application/gzip', 'application/x-ndjson'],
+  },
+  { method: 'get', path: '/wind/logs', summary: 'Imported anemometer logs, newest first' },
+  {
+    method: 'post', path: '/wind/logs', summary: 'Import an anemometer log (CSV)', role: 'operator',
+    query: 'WindLogQuery', consumes: ['text/csv'],
+  },
+  { method: 'get', path: '/checkpoints', summary: 'Saved checkpoints', query: 'HistoryQuery', paged: true },
+  { method: 'get', path: '/audit', summary: 'Audit trail of operator commands', role: 'operator', query: 'AuditQuery', paged: true },
+  {
+    method: 'get', path: '/audit/export', summary: 'Audit trail download (json, csv or jsonl)', role: 'operator',
+    query: 'AuditQuery', produces: ['application/json', 'text/csv', 'application/x-ndjson'],
+  },
+];
+
+function commandRoutes(): RouteSpec[] {
+  return COMMANDS.flatMap(command => restPaths(command).map((path, i): RouteSpec => ({
+    method: 'post',
+    path,
+    summary: `Command: ${command.name}`,
+    session: true,
+    role: commandRole(command),
+    // /cmd/<name>/:<param> carries the positional field in the path
+    body: i === 0 ? commandSchemaName(command) : undefined,
+    params: i === 0 || !command.param ? undefined : { [command.param]: pick(command.schema, command.param) },
+    ack: true,
+  })));
+}
+
+function pick(schema: z.ZodType, key: string): z.ZodType {
+  return (schema as unknown as z.ZodObject).shape[key] as z.ZodType;
+}
+
+/** JSON Schema of a zod schema as the client sends it (before transforms/defaults) */
+export function inputSchema(schema: z.ZodType): JsonSchema {
+  const { $schema: _, ...json } = z.toJSONSchema(schema, { io: 'input', unrepresentable: 'any' }) as JsonSchema;
+  return json;
+}
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+
+const COMPONENT_SCHEMAS: Record<string, JsonSchema> = {
+  CommandAck: {
+    type: 'object',
+    properties: { ok: { type: 'boolean' } },
+    required: ['ok'],
+    additionalProperties: true,
+    description: 'ok: true plus command-specific fields (msg, clock, mission, tick)',
+  },
+  Error: {
+    type: 'object',
+    properties: {
+      ok: { const: false },
+      error: { type: 'string' },
+      details: { type: 'array', items: { type: 'object' } },
+    },
+    required: ['ok', 'error'],
+  },
+};
+
+function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+function operation(route: RouteSpec, sessionScoped: boolean): JsonSchema {
+  const parameters: JsonSchema[] = [];
+  if (sessionScoped) {
+    parameters.push({ name: 'sessionId', in: 'path', required: true, schema: inputSchema(storeIdSchema) });
+  }
+  for (const [name, schema] of Object.entries(route.params ?? {})) {
+    parameters.push({ name, in: 'path', required: true, schema: inputSchema(schema) });
+  }
+  if (route.query) {
+    const query = inputSchema(REQUEST_SCHEMAS[route.query]) as { properties: Record<string, JsonSchema> };
+    for (const [name, schema] of Object.entries(query.properties)) {
+      parameters.push({ name, in: 'query', required: false, schema });
+    }
+  }
+
+  const json = (schema: JsonSchema) => ({ 'application/json': { schema } });
+  const error = (description: string) => ({ description, content: json(ref('Error')) });
+  const responses: Record<string, unknown> = {
+    200: {
+      description: 'OK',
+      ...(route.paged ? { headers: { 'X-Total-Count': { schema: { type: 'integer' }, description: 'Matches before paging' } } } : {}),
+      content: route.produces
+        ? Object.fromEntries(route.produces.map(type => [type, {}]))
+        : json(route.ack ? ref('CommandAck') : {}),
+    },
+  };
+  if (route.body || route.consumes || route.query || route.params || route.ack) responses[400] = error('Validation failed');
+  if (!route.public) responses[401] = error('Authentication required');
+  if (route.role) responses[403] = error(`Requires role: ${route.role}`);
+  if (route.params || sessionScoped || route.ack) responses[404] = error('Not found');
+
+  return {
+    operationId: operationId(route, sessionScoped),
+    summary: route.summary,
+    ...(route.role ? { 'x-required-role': route.role } : {}),
+    ...(route.public ? { security: [] } : {}),
+    ...(parameters.length ? { parameters } : {}),
+    ...(route.body ? { requestBody: { required: false, content: json(ref(route.body)) } } : {}),
+    ...(route.consumes ? {
+      requestBody: {
+        required: true,
+        content: Object.fromEntries(route.consumes.map(type => [type, { schema: { type: 'string', format: 'binary' } }])),
+      },
+    } : {}),
+    responses,
+  };
+}
+
+/** get /replay/:from/:to → getReplayFromTo; session copies get a "Session" prefix */
+function operationId(route: RouteSpec, sessionScoped: boolean): string {
+  const words = route.path.split(/[/.:-]/).filter(Boolean).map(w => w[0].toUpperCase() + w.slice(1));
+  return route.method + (sessionScoped ? 'Session' : '') + words.join('');
+}
+
+export function buildOpenApiDocument(): JsonSchema {
+  const schemas: Record<string, JsonSchema> = { ...COMPONENT_SCHEMAS };
+  for (const [name, schema] of Object.entries(REQUEST_SCHEMAS)) schemas[name] = inputSchema(schema);
+  for (const command of COMMANDS) schemas[commandSchemaName(command)] = inputSchema(command.schema);
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  const add = (path: string, method: string, op: JsonSchema) => {
+    (paths[path] ??= {})[method] = op;
+  };
+  for (const route of [...ROUTES, ...commandRoutes()]) {
+    add(toOpenApiPath(route.path), route.method, operation(route, false));
+    if (route.session) add(`/sessions/{sessionId}${toOpenApiPath(route.path)}`, route.method, operation(route, true));
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Micro-Robot HDC Swarm Console API',
+      version: API_VERSION,
+      description: 'REST control and history API. Real-time state is on Socket.io (swarm:state); '
+        + 'every POST /cmd/<name> is also the socket event cmd:<name> with the same body and ack.',
+    },
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer', description: 'AUTH_TOKENS token' } },
+      schemas,
+    },
+  };
+}
@@ -1,6 +1,14 @@
-/* pathfinding.ts — A* pathfinding on a discretized NavGrid for swarm robots */
-
-import type { Vec2 } from './types';
+/* pathfinding.ts — A* pathfinding on a discretized NavGrid for swarm robots
+ *
+ * Two cost modes: the shortest path, or — given a FlightModel — the path
+ * that costs the robot the least energy in the current wind. Each edge
+ * then costs its length times the robot's energy per metre along the edge
+ * heading, through the mean of the wind at its two cells: headwinds slow
+ * the robot and raise its airspeed, tailwinds carry it and feed the regen
+ * propeller, and gusts add drag. Edges the wind makes impassable are skipped.
+ */
+
+import type { Vec2, PathCost } from './types';
 import type { Obstacle } from './terrain';
 
 const GRID_W = 100;
@@ -8,8 +16,8 @@ const GRID_H = 80;
 
 const SQRT2 = Math.SQRT2;
 
-/** Directions: 8-way movement (dx, dy, cost) */
-const DIRS: ReadonlyArray<{ dx: number; dy: number; cost: number }> = [
+/** Directions: 8-way movement (dx, dy, cost = length in cells, heading in radians) */
+const DIRS: ReadonlyArray<{ dx: number; dy: number; cost: number; heading: number }> = [
   { dx:  1, dy:  0, cost: 1 },
   { dx: -1, dy:  0, cost: 1 },
   { dx:  0, dy:  1, cost: 1 },
@@ -18,7 +26,22 @@ const DIRS: ReadonlyArray<{ dx: number; dy: number; cost: number }> = [
   { dx:  1, dy: -1, cost: SQRT2 },
   { dx: -1, dy:  1, cost: SQRT2 },
   { dx: -1, dy: -1, cost: SQRT2 },
-];
+].map(d => ({ ...d, heading: Math.atan2(d.dy, d.dx) }));
+
+/** One robot's flight in the current wind, for energy-optimal paths (see Robot.flightModel) */
+export interface FlightModel {
+  /** Wind at a world point this tick (WindField.getWindAt) */
+  windAt(pos: Vec2): { speed: number; direction: number };
+  /** Energy (mJ, net of wind harvest) to fly one metre along `heading` through wind `w`; Infinity if the wind stops the robot */
+  energyPerMetre(heading: number, w: { speed: number; direction: number }): number;
+  /** Lower bound of energyPerMetre over every heading and wind, so the A* heuristic stays admissible */
+  minEnergyPerMetre: number;
+}
+
+/** Parse a path cost mode from an env var; undefined if absent/invalid */
+export function parsePathCost(raw: string | undefined): PathCost | undefined {
+  return raw === 'distance' || raw === 'energy' ? raw : undefined;
+}
 
 /** Binary min-heap keyed by f-score for the A* open set */
 class MinHeap {
@@ -145,8 +168,9 @@ export class NavGrid {
    * A* pathfinding from start to goal in world coordinates.
    * Returns an array of world-coordinate waypoints (including the goal).
    * If no path found, returns a straight-line fallback [goal].
+   * With a flight model the path minimizes energy instead of length.
    */
-  findPath(startX: number, startY: number, goalX: number, goalY: number): Vec2[] {
+  findPath(startX: number, startY: number, goalX: number, goalY: number, flight?: FlightModel): Vec2[] {
     const sx = this.toCell(startX, GRID_W);
     const sy = this.toCell(startY, GRID_H);
     const gx = this.toCell(goalX, GRID_W);
@@ -172,9 +196,21 @@ export class NavGrid {
     const startIdx = toIndex(sx, sy);
     const goalIdx = toIndex(gx, gy);
 
+    // Energy mode: wind vector per cell center, sampled on first use
+    const hScale = flight ? flight.minEnergyPerMetre : 1;
+    const windX = flight ? new Float32Array(totalCells).fill(NaN) : null;
+    const windY = flight ? new Float32Array(totalCells) : null;
+    const windAtCell = (idx: number): void => {
+      if (!flight || !windX || !windY || !Number.isNaN(windX[idx])) return;
+      const cx = idx % GRID_W;
+      const w = flight.windAt({ x: cx + 0.5, y: (idx - cx) / GRID_W + 0.5 });
+      windX[idx] = w.speed * Math.cos(w.direction);
+      windY[idx] = w.speed * Math.sin(w.direction);
+    };
+
     gScore[startIdx] = 0;
     const heap = new MinHeap();
-    heap.push(startIdx, heuristic(sx, sy, gx, gy));
+    heap.push(startIdx, heuristic(sx, sy, gx, gy) * hScale);
 
     let found = false;
 
@@ -209,11 +245,21 @@ export class NavGrid {
           }
         }
 
-        const tentativeG = curG + dir.cost;
+        let stepCost = dir.cost;
+        if (flight && windX && windY) {
+          windAtCell(currentIdx);
+          windAtCell(nIdx);
+          const wx = (windX[currentIdx] + windX[nIdx]) / 2;
+          const wy = (windY[currentIdx] + windY[nIdx]) / 2;
+          stepCost *= flight.energyPerMetre(dir.heading, { speed: Math.hypot(wx, wy), direction: Math.atan2(wy, wx) });
+          if (!Number.isFinite(stepCost)) continue;
+        }
+
+        const tentativeG = curG + stepCost;
         if (tentativeG < gScore[nIdx]) {
           gScore[nIdx] = tentativeG;
           cameFrom[nIdx] = currentIdx;
-          const f = tentativeG + heuristic(nx, ny, gx, gy);
+          const f = tentativeG + heuristic(nx, ny, gx, gy) * hScale;
           heap.push(nIdx, f);
         }
       }
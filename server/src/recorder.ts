@@ -1,64 +1,131 @@
 /**
- * recorder.ts — Ring-buffer snapshot recorder for replay
+ * recorder.ts — Snapshot recorder for replay
  *
- * Stores the last N SwarmSnapshots (with mission state) for
- * playback via REST API. ~5 minutes at 10Hz = 3000 frames.
+ * Keeps the most recent SwarmSnapshots (with mission state) in a ring
+ * buffer for playback via REST API. With a RunFile attached (JSONL store)
+ * every frame is also streamed to a compressed, chunked run file and the
+ * ring only holds the last RECENT_FRAMES; replay ranges older than the
+ * ring are seeked from disk. Without one the ring keeps ~5 minutes at
+ * 10Hz = 3000 frames.
+ *
+ * Frames arrive in tick order, so the ring is always sorted and ranges
+ * are found by binary search.
  */
 
 import type { SwarmSnapshot } from './types';
 import type { MissionState } from './mission';
+import type { RunFile } from './runfile';
+import type { SimCheckpoint } from './checkpoint';
 
 export interface RecordedFrame {
   tick: number;
   snapshot: SwarmSnapshot;
   mission: MissionState | null;
+  checkpoint?: SimCheckpoint;   // fork point: full state after this tick
 }
 
-const MAX_FRAMES = 3000; // ~5 min at 10Hz
+/** A frame as served over REST; fork-point checkpoints stay on the server for forkAt */
+export type ReplayFrame = Omit<RecordedFrame, 'checkpoint'>;
+
+export function withoutCheckpoint(frame: RecordedFrame): ReplayFrame {
+  const { checkpoint: _checkpoint, ...rest } = frame;
+  return rest;
+}
+
+const MAX_FRAMES = 3000;     // ~5 min at 10Hz, in-memory only
+const RECENT_FRAMES = 600;   // ~1 min at 10Hz when streaming to a run file
 
 export class Recorder {
   private frames: RecordedFrame[] = [];
-  private writeIndex = 0;
+  private writeIndex = 0;    // slot of the oldest frame once the ring is full
   private totalRecorded = 0;
+  private readonly capacity: number;
 
-  record(snapshot: SwarmSnapshot, mission: MissionState | null): void {
+  constructor(private readonly file: RunFile | null = null) {
+    this.capacity = file ? RECENT_FRAMES : MAX_FRAMES;
+  }
+
+  /** True when frames are streamed to a run file */
+  get isStreaming(): boolean {
+    return this.file !== null;
+  }
+
+  record(snapshot: SwarmSnapshot, mission: MissionState | null, checkpoint?: SimCheckpoint): void {
     const frame: RecordedFrame = {
       tick: snapshot.tick,
       snapshot,
       mission,
+      ...(checkpoint ? { checkpoint } : {}),
     };
 
-    if (this.frames.length < MAX_FRAMES) {
+    if (this.frames.length < this.capacity) {
       this.frames.push(frame);
     } else {
       this.frames[this.writeIndex] = frame;
     }
 
-    this.writeIndex = (this.writeIndex + 1) % MAX_FRAMES;
+    this.writeIndex = (this.writeIndex + 1) % this.capacity;
     this.totalRecorded++;
+    this.file?.append(frame);
+  }
+
+  /** Write buffered frames to the run file (before archiving) */
+  flush(): void {
+    this.file?.flush();
   }
 
   getRange(fromTick: number, toTick: number): RecordedFrame[] {
-    return this.frames
-      .filter(f => f.tick >= fromTick && f.tick <= toTick)
-      .sort((a, b) => a.tick - b.tick);
+    const oldest = this.at(0);
+    if (this.file && (!oldest || fromTick < oldest.tick)) {
+      // The file holds everything; read only what the ring no longer has
+      const older = this.file.getRange(fromTick, oldest ? Math.min(toTick, oldest.tick - 1) : toTick);
+      return oldest ? [...older, ...this.ringRange(fromTick, toTick)] : older;
+    }
+    return this.ringRange(fromTick, toTick);
   }
 
   getRecent(count: number): RecordedFrame[] {
-    const sorted = [...this.frames].sort((a, b) => a.tick - b.tick);
-    return sorted.slice(-count);
+    const start = Math.max(0, this.frames.length - count);
+    const recent: RecordedFrame[] = [];
+    for (let i = start; i < this.frames.length; i++) recent.push(this.at(i)!);
+    return recent;
+  }
+
+  /** Every recorded frame still available (the whole run when streaming) */
+  getAll(): RecordedFrame[] {
+    if (this.file) return this.file.readAll();
+    return this.getRecent(this.frames.length);
   }
 
   getInfo(): { totalRecorded: number; bufferedFrames: number; oldestTick: number; newestTick: number } {
     if (this.frames.length === 0) {
       return { totalRecorded: 0, bufferedFrames: 0, oldestTick: 0, newestTick: 0 };
     }
-    const sorted = [...this.frames].sort((a, b) => a.tick - b.tick);
     return {
       totalRecorded: this.totalRecorded,
       bufferedFrames: this.frames.length,
-      oldestTick: sorted[0].tick,
-      newestTick: sorted[sorted.length - 1].tick,
+      oldestTick: this.file?.tickRange?.first ?? this.at(0)!.tick,
+      newestTick: this.at(this.frames.length - 1)!.tick,
     };
   }
+
+  /** i-th frame in tick order */
+  private at(i: number): RecordedFrame | undefined {
+    if (i >= this.frames.length) return undefined;
+    const start = this.frames.length < this.capacity ? 0 : this.writeIndex;
+    return this.frames[(start + i) % this.frames.length];
+  }
+
+  private ringRange(fromTick: number, toTick: number): RecordedFrame[] {
+    let lo = 0;
+    let hi = this.frames.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.at(mid)!.tick < fromTick) lo = mid + 1;
+      else hi = mid;
+    }
+    const range: RecordedFrame[] = [];
+    for (let i = lo; i < this.frames.length && this.at(i)!.tick <= toTick; i++) range.push(this.at(i)!);
+    return range;
+  }
 }
@@ -0,0 +1,167 @@
+/**
+ * replay.ts — Server-side playback of a session's recording
+ *
+ * While a replay runs, the session's SimLoop is stopped and recorded
+ * frames are re-emitted as swarm:state to every viewer in the session,
+ * each carrying `replay` (ReplayState) so consoles can show the position
+ * and controls. Frames are read from the Recorder a window at a time, so
+ * hours-long streamed recordings (see runfile.ts) play without loading
+ * them whole. Stopping the replay restarts the live loop if it was
+ * running.
+ */
+
+import { SIM_TICK_MS, type ReplayState, type SwarmSnapshot } from './types';
+import type { Recorder, RecordedFrame } from './recorder';
+import type { SimLoop } from './loop';
+
+const WINDOW_FRAMES = 100;   // frames read from the recorder at a time
+
+export interface ReplayOptions {
+  from?: number;
+  to?: number;
+  speed?: number;
+  loop?: boolean;
+}
+
+export class ReplayPlayer {
+  private state: ReplayState | null = null;
+  private window: RecordedFrame[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private resumeLive = false;
+
+  constructor(
+    private readonly recorder: () => Recorder,
+    private readonly loop: SimLoop,
+    private readonly emit: (snapshot: SwarmSnapshot) => void,
+    private readonly live: () => SwarmSnapshot | null = () => null,
+  ) {}
+
+  get active(): boolean {
+    return this.state !== null;
+  }
+
+  getState(): ReplayState | null {
+    return this.state && { ...this.state };
+  }
+
+  /** Stop the live loop and play [from, to] of the recording (default: all of it) */
+  start(options: ReplayOptions = {}): ReplayState {
+    const info = this.recorder().getInfo();
+    if (info.bufferedFrames === 0) throw new Error('Nothing recorded yet');
+    const fromTick = Math.max(options.from ?? info.oldestTick, info.oldestTick);
+    const toTick = Math.min(options.to ?? info.newestTick, info.newestTick);
+    if (fromTick > toTick) throw new Error(`No recorded ticks in ${options.from ?? ''}..${options.to ?? ''} (have ${info.oldestTick}..${info.newestTick})`);
+
+    if (!this.state) {
+      this.resumeLive = this.loop.isRunning;
+      this.loop.stop();
+    }
+    this.clearTimer();
+    this.state = { playing: true, tick: fromTick, fromTick, toTick, speed: options.speed ?? 1, loop: options.loop ?? false };
+    this.window = [];
+    this.show(fromTick);
+    this.schedule();
+    return this.getState()!;
+  }
+
+  pause(): ReplayState {
+    const state = this.require();
+    state.playing = false;
+    this.clearTimer();
+    return this.getState()!;
+  }
+
+  resume(): ReplayState {
+    const state = this.require();
+    if (!state.playing) {
+      // Resuming at the end starts over
+      if (state.tick >= state.toTick) this.show(state.fromTick);
+      state.playing = true;
+      this.schedule();
+    }
+    return this.getState()!;
+  }
+
+  /** Jump to a tick (clamped to the replayed range) and show it at once */
+  seek(tick: number): ReplayState {
+    const state = this.require();
+    this.clearTimer();
+    this.show(Math.min(Math.max(tick, state.fromTick), state.toTick));
+    if (state.playing) this.schedule();
+    return this.getState()!;
+  }
+
+  setSpeed(speed: number): ReplayState {
+    this.require().speed = speed;
+    return this.getState()!;
+  }
+
+  setLoop(loop: boolean): ReplayState {
+    this.require().loop = loop;
+    return this.getState()!;
+  }
+
+  /**
+   * End the replay and show the last live snapshot again (a paused
+   * simulator emits nothing by itself); the live loop restarts if it was
+   * running before.
+   */
+  stop(resumeLive = true): void {
+    if (!this.state) return;
+    this.clearTimer();
+    this.state = null;
+    this.window = [];
+    if (!resumeLive) return;
+    const latest = this.live();
+    if (latest) this.emit({ ...latest, events: [] });   // its events were already shown
+    if (this.resumeLive) this.loop.start();
+  }
+
+  private require(): ReplayState {
+    if (!this.state) throw new Error('No replay in progress');
+    return this.state;
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(() => this.advance(), SIM_TICK_MS / this.state!.speed);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private advance(): void {
+    const state = this.state!;
+    if (state.tick >= state.toTick) {
+      if (!state.loop) {
+        state.playing = false;
+        this.timer = null;
+        this.show(state.tick);   // tell viewers playback ended
+        return;
+      }
+      this.show(state.fromTick);
+    } else {
+      this.show(state.tick + 1);
+    }
+    this.schedule();
+  }
+
+  /** Emit the first recorded frame at or after `tick` */
+  private show(tick: number): void {
+    const state = this.state!;
+    let frame = this.window.find(f => f.tick >= tick);
+    if (!frame || this.window[0].tick > tick) {
+      this.window = this.recorder().getRange(tick, Math.min(tick + WINDOW_FRAMES - 1, state.toTick));
+      frame = this.window[0];
+    }
+    if (!frame) {
+      state.tick = tick;   // gap in the recording: keep moving
+      return;
+    }
+    const shown = frame;
+    state.tick = shown.tick;
+    this.window = this.window.filter(f => f.tick >= shown.tick);
+    this.emit({ ...shown.snapshot, replay: { ...state } });
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * rng.ts — Seedable pseudo-random number generator for the simulation
+ *
+ * Every stochastic decision in the simulator (patrol waypoints, BLE noise,
+ * wind drift, formation jitter, mission spawns) draws from one Prng so a
+ * run can be replayed tick-for-tick from its seed.
+ */
+
+/** Parse a seed from an env var or CLI arg; returns undefined if absent/invalid */
+export function parseSeed(raw: string | undefined): number | undefined {
+  if (raw === undefined || raw.trim() === '') return undefined;
+  const n = Number(raw);
+  if (!Number.isFinite(n)) return undefined;
+  return Math.abs(Math.trunc(n)) & 0x7fffffff;
+}
+
+/** Fresh seed for runs that did not ask for one (recorded in the run manifest) */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x7fffffff);
+}
+
+/**
+ * Linear congruential generator (same constants as the original
+ * MissionManager LCG), using Math.imul so the 32-bit arithmetic is exact.
+ */
+export class Prng {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed & 0x7fffffff;
+  }
+
+  /** Uniform float in [0, 1) */
+  next(): number {
+    this.state = (Math.imul(this.state, 1103515245) + 12345) & 0x7fffffff;
+    return this.state / 0x80000000;
+  }
+
+  /** Integer in [min, max) */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min));
+  }
+
+  /** Gaussian sample (Box-Muller) with the given standard deviation */
+  gauss(sigma: number): number {
+    const u1 = this.next() || 1e-10;
+    const u2 = this.next();
+    return sigma * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  }
+
+  /** Internal state — restore with setState() to resume the exact sequence */
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state & 0x7fffffff;
+  }
+}
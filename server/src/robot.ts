@@ -2,18 +2,25 @@
 
 import {
   Vec2, SizeClass, RobotPhase, PowerMode, WindClass,
-  RobotState, SIZE_PARAMS
+  RobotState, SizeClassParams, SIZE_PARAMS, type PathCost,
 } from './types';
 import { WindField } from './wind';
+import type { SolarField } from './solar';
+import { Battery, DEFAULT_AMBIENT_C, motorPowerMw, powerLoads, totalLoadMw, type BatteryCheckpoint } from './battery';
 import { hdcEngine } from './hdc-engine';
 import { isInsideObstacle, type Obstacle } from './terrain';
-import { NavGrid } from './pathfinding';
+import { NavGrid, type FlightModel } from './pathfinding';
+import type { Prng } from './rng';
 
 const MAP_W = 120;
 const MAP_H = 80;
 const HUB_POS: Vec2 = { x: 50, y: 40 };
 const LOW_BATTERY_THRESHOLD = 15;
 const RECHARGE_TARGET = 80;
+const DOCK_CHARGER_MW = 100_000;   // hub dock supply; the pack's C-rate limit governs
+const SUPERCAP_TRANSFER_PCT = 2;   // supercap share moved into the battery per tick
+const SUPERCAP_TRANSFER_EFF = 0.9;
+const GROUNDED_PHASES: readonly RobotPhase[] = ['docked', 'landed', 'charging', 'nested', 'wpt-charging'];
 
 /** Tolerance for reaching a waypoint (world units) */
 const WAYPOINT_REACH_DIST = 1.0;
@@ -21,10 +28,91 @@ const WAYPOINT_REACH_DIST = 1.0;
 /** Tolerance for detecting target change (triggers path recalculation) */
 const TARGET_CHANGE_TOLERANCE = 2.0;
 
+// Energy-optimal planning (flightModel)
+const PLAN_POWER_FLOOR = 0.9;      // net draw never counted below this share of hover power (harvest is a few %)
+const PLAN_MAX_WIND_MPS = 30;      // wind push counted toward progress is capped here
+const PLAN_MIN_PROGRESS_MPS = 0.3; // slower along an edge and the wind has stopped the robot
+
+type Wind = { speed: number; direction: number };
+
+/** Push of the wind on the airframe per m/s of wind; small robots are blown about twice as hard */
+function driftPerMps(sizeClass: SizeClass): number {
+  return 0.15 * (sizeClass === 'small' ? 2.0 : 1.0);
+}
+
+/** Ground velocity flying toward `angle` at `speed` through wind `w`: a headwind holds the robot back, and the wind pushes it along */
+function flightVelocity(sizeClass: SizeClass, angle: number, speed: number, w: Wind): Vec2 {
+  const headwindFactor = -Math.cos(w.direction - angle);
+  if (headwindFactor > 0) {
+    speed *= Math.max(0.3, 1.0 - headwindFactor * w.speed * 0.1);
+  }
+  const windForce = w.speed * driftPerMps(sizeClass);
+  return {
+    x: speed * Math.cos(angle) + windForce * Math.cos(w.direction),
+    y: speed * Math.sin(angle) + windForce * Math.sin(w.direction),
+  };
+}
+
+/** Wind turbine harvest — windSpeed² × efficiency (zero for small) */
+function windHarvestMw(params: SizeClassParams, windSpeed: number): number {
+  return params.windTurbineEff > 0 && windSpeed > 1.0 ? params.windTurbineEff * windSpeed * windSpeed * 100 : 0;
+}
+
+/** Regenerative propeller — tailwind component only */
+function regenHarvestMw(params: SizeClassParams, w: Wind, heading: number): number {
+  if (params.regenPropEff <= 0 || w.speed <= 0.5) return 0;
+  return params.regenPropEff * Math.max(0, w.speed * Math.cos(w.direction - heading)) * 100;
+}
+
+/** Every mutable Robot field — enough to resume a robot mid-run (see checkpoint.ts) */
+export interface RobotCheckpoint {
+  id: number;
+  sizeClass: SizeClass;
+  position: Vec2;
+  velocity: Vec2;
+  heading: number;
+  phase: RobotPhase;
+  targetPosition: Vec2 | null;
+  batterySoc: number;          // fuel gauge reading when taken; `battery` is restored
+  battery: BatteryCheckpoint;
+  powerDrawMw: number;
+  solarHarvestMw: number;
+  powerMode: PowerMode;
+  estimatedMinutes: number;
+  localWindClass: WindClass;
+  localWindSpeed: number;
+  localWindDirection: number;
+  isCoordinator: boolean;
+  zoneId: number;
+  isOnline: boolean;
+  isJammed: boolean;
+  isByzantine: boolean;
+  tickCount: number;
+  parentId: number | null;
+  childIds: number[];
+  isNested: boolean;
+  windHarvestMw: number;
+  regenHarvestMw: number;
+  wptReceiveMw: number;
+  wptOutputMw: number;
+  supercapSoc: number;
+  patrolWaypoints: Vec2[];
+  currentWaypointIdx: number;
+  preChargeWaypointIdx: number;
+  currentPath: Vec2[];
+  cachedTarget: Vec2 | null;   // null = no A* target cached yet
+  hdcAccumulator: number[];
+  hdcAccumulatedFrames: number;
+  accumulatedPrediction: { predictedClass: number; confidence: number; predictedName: string } | null;
+  lowBatteryEventTick: number;
+}
+
 export class Robot {
   readonly id: number;
   readonly name: string;
   readonly sizeClass: SizeClass;
+  /** Size-class parameters (SIZE_PARAMS plus any fleet overrides) */
+  readonly params: SizeClassParams;
 
   position: Vec2;
   velocity: Vec2 = { x: 0, y: 0 };
@@ -32,7 +120,11 @@ export class Robot {
   phase: RobotPhase = 'docked';
   targetPosition: Vec2 | null = null;
 
-  batterySoc = 100;
+  /** Pack model; batterySoc is its fuel gauge reading */
+  readonly battery: Battery;
+  /** Ambient air temperature the pack cools toward (°C) */
+  readonly ambientTempC: number;
+  powerDrawMw = 0;             // all consumers, last tick
   solarHarvestMw = 0;
   powerMode: PowerMode = 'FULL';
   estimatedMinutes = 999;
@@ -70,6 +162,7 @@ export class Robot {
   private cachedTargetX = NaN;
   private cachedTargetY = NaN;
   private navGrid: NavGrid | null = null;
+  private pathCost: PathCost = 'distance';
 
   // HDC accumulation (Task 87)
   hdcAccumulator: number[] = [];
@@ -80,13 +173,30 @@ export class Robot {
   private lowBatteryEventTick = -100;
 
   private readonly obstacles: Obstacle[];
+  private readonly random: () => number;
 
-  constructor(id: number, sizeClass: SizeClass, hubPos: Vec2, obstacles: Obstacle[] = []) {
+  constructor(
+    id: number, sizeClass: SizeClass, hubPos: Vec2, obstacles: Obstacle[] = [],
+    rng?: Prng, params: SizeClassParams = SIZE_PARAMS[sizeClass], ambientTempC = DEFAULT_AMBIENT_C,
+  ) {
     this.id = id;
     this.sizeClass = sizeClass;
+    this.params = params;
+    this.ambientTempC = ambientTempC;
+    this.battery = new Battery(params, ambientTempC);
     this.name = `R${id}-${sizeClass[0].toUpperCase()}`;
     this.position = { ...hubPos };
     this.obstacles = obstacles;
+    // Simulator injects its shared Prng; standalone robots (tests) fall back to Math.random
+    this.random = rng ? () => rng.next() : Math.random;
+  }
+
+  get batterySoc(): number {
+    return this.battery.soc;
+  }
+
+  set batterySoc(pct: number) {
+    this.battery.soc = pct;
   }
 
   /** Set the NavGrid reference for A* pathfinding */
@@ -94,6 +204,11 @@ export class Robot {
     this.navGrid = grid;
   }
 
+  /** What A* minimizes on the way to a target; robots heading home on low battery always plan for energy */
+  setPathCost(cost: PathCost): void {
+    this.pathCost = cost;
+  }
+
   /** Generate patrol waypoints for a given zone */
   generatePatrolWaypoints(zoneId: number): void {
     const cols = 3;
@@ -106,12 +221,12 @@ export class Robot {
     const baseY = row * zoneH;
 
     this.patrolWaypoints = [];
-    const count = 3 + Math.floor(Math.random() * 3); // 3-5 waypoints
+    const count = 3 + Math.floor(this.random() * 3); // 3-5 waypoints
 
     for (let i = 0; i < count; i++) {
       for (let attempt = 0; attempt < 10; attempt++) {
-        const x = baseX + 5 + Math.random() * (zoneW - 10);
-        const y = baseY + 5 + Math.random() * (zoneH - 10);
+        const x = baseX + 5 + this.random() * (zoneW - 10);
+        const y = baseY + 5 + this.random() * (zoneH - 10);
         const clamped = { x: clamp(x, 3, MAP_W - 3), y: clamp(y, 3, MAP_H - 3) };
 
         if (this.obstacles.length === 0 || !isInsideObstacle(clamped.x, clamped.y, this.obstacles, 2.0)) {
@@ -129,13 +244,13 @@ export class Robot {
     this.currentWaypointIdx = 0;
   }
 
-  tick(wind: WindField, dt: number, parentRobot?: Robot): { event?: string } {
+  tick(wind: WindField, solar: SolarField, dt: number, parentRobot?: Robot): { event?: string } {
     const result: { event?: string } = {};
 
     if (!this.isOnline) return result;
     this.tickCount++;
 
-    // Nested robots: no movement, no energy drain, just track parent position
+    // Nested robots: no movement, pack asleep (WPT charging only), just track parent position
     if (this.isNested) {
       if (parentRobot) {
         this.position = { ...parentRobot.position };
@@ -152,15 +267,18 @@ export class Robot {
     this.localWindDirection = w.direction;
     this.localWindClass = wind.classifyWind(w.speed);
 
-    const params = SIZE_PARAMS[this.sizeClass];
+    const params = this.params;
 
     // Charging phase (Task 85)
     if (this.phase === 'charging') {
       this.velocity = { x: 0, y: 0 };
       this.currentPath = [];
-      // Fast charging at hub
-      this.batterySoc = Math.min(100, this.batterySoc + params.solarRate * 10);
-      this.solarHarvestMw = params.solarRate * 300;
+      // Dock charger at the hub, limited by the pack's charge C-rate
+      this.solarHarvestMw = params.solarPeakMw * solar.irradianceAt(this.position.x, this.position.y, false) / 1000;
+      const loads = powerLoads(params, false, 0, this.powerMode, this.wptOutputMw);
+      this.powerDrawMw = totalLoadMw(loads);
+      this.battery.step(this.powerDrawMw, DOCK_CHARGER_MW + this.solarHarvestMw, dt, this.ambientTempC);
+      this.estimatedMinutes = this.battery.minutesRemaining();
 
       if (this.batterySoc >= RECHARGE_TARGET) {
         // Recharge complete — redeploy to patrol
@@ -206,7 +324,7 @@ export class Robot {
     // Move toward target using A* path-following
     const movingPhases = ['deploying', 'patrol', 'returning', 'deploying-from-parent', 'returning-to-parent'];
     if (this.targetPosition && movingPhases.includes(this.phase)) {
-      this.ensurePath();
+      this.ensurePath(wind);
       this.moveAlongPath(w, params, dt);
     } else if (this.phase === 'patrol' && this.patrolWaypoints.length > 0) {
       // No target but in patrol — set next waypoint
@@ -235,42 +353,32 @@ export class Robot {
     }
 
     // Three-source energy model (套娃)
-    let drain = params.batteryDrain;
-    if (this.localWindClass === 'MODERATE' || this.localWindClass === 'STRONG') {
-      drain *= 2.0;
-    }
-    if (this.powerMode === 'ECO') drain *= 0.5;
-    if (this.powerMode === 'CRITICAL') drain *= 0.2;
-    this.batterySoc = Math.max(0, this.batterySoc - drain);
-
-    // 1. Solar harvest — scales with solarRate, reduced near tall obstacles
-    const shadowFactor = this.computeShadowFactor();
-    this.solarHarvestMw = params.solarRate * 30 * shadowFactor * (0.8 + 0.4 * Math.random());
+    // 1. Solar harvest — panel peak × irradiance here (time of day, clouds, cast shadows)
+    const airborne = !GROUNDED_PHASES.includes(this.phase);
+    this.solarHarvestMw = params.solarPeakMw * solar.irradianceAt(this.position.x, this.position.y, airborne) / 1000;
 
     // 2. Wind turbine harvest — windSpeed² × efficiency (zero for small)
-    if (params.windTurbineEff > 0 && this.localWindSpeed > 1.0) {
-      this.windHarvestMw = params.windTurbineEff * this.localWindSpeed * this.localWindSpeed * 100;
-    } else {
-      this.windHarvestMw = 0;
-    }
+    this.windHarvestMw = windHarvestMw(params, this.localWindSpeed);
 
     // 3. Regenerative propeller — tailwind component only
-    if (params.regenPropEff > 0 && this.localWindSpeed > 0.5) {
-      const tailwind = Math.max(0, this.localWindSpeed * Math.cos(this.localWindDirection - this.heading));
-      this.regenHarvestMw = params.regenPropEff * tailwind * 100;
-    } else {
-      this.regenHarvestMw = 0;
-    }
+    this.regenHarvestMw = regenHarvestMw(params, w, this.heading);
 
-    // Total harvest → battery charge
+    // Consumers against harvest through the pack (battery.ts). Motors work
+    // against the air, so a headwind raises airspeed and with it the draw.
+    const airspeed = Math.hypot(
+      this.velocity.x - w.speed * Math.cos(w.direction),
+      this.velocity.y - w.speed * Math.sin(w.direction),
+    );
+    const loads = powerLoads(params, airborne, airspeed, this.powerMode, this.wptOutputMw);
+    this.powerDrawMw = totalLoadMw(loads);
     const totalHarvestMw = this.solarHarvestMw + this.windHarvestMw + this.regenHarvestMw;
-    this.batterySoc = Math.min(100, this.batterySoc + totalHarvestMw * 0.001);
+    this.battery.step(this.powerDrawMw, totalHarvestMw, dt, this.ambientTempC);
 
     // Supercap management (small only): discharges to battery when battery < 20%
     if (params.supercapMah > 0 && this.supercapSoc > 0 && this.batterySoc < 20) {
-      const transfer = Math.min(this.supercapSoc, 2.0); // 2% per tick
+      const transfer = Math.min(this.supercapSoc, SUPERCAP_TRANSFER_PCT);
       this.supercapSoc -= transfer;
-      this.batterySoc = Math.min(100, this.batterySoc + transfer * 0.5);
+      this.battery.addCharge(transfer / 100 * params.supercapMah * SUPERCAP_TRANSFER_EFF);
     }
 
     // Auto power mode
@@ -278,7 +386,7 @@ export class Robot {
     else if (this.batterySoc < 15) this.powerMode = 'ECO';
     else if (this.batterySoc < 40) this.powerMode = 'NORMAL';
 
-    this.estimatedMinutes = drain > 0 ? Math.round(this.batterySoc / drain * 0.1) : 999;
+    this.estimatedMinutes = this.battery.minutesRemaining();
 
     // HDC accumulation (Task 87) — every tick, accumulate HD vector
     this.accumulateHdc();
@@ -305,7 +413,7 @@ export class Robot {
    * Ensure we have a valid A* path to the current target.
    * Recomputes if the target has moved beyond tolerance or if no path is cached.
    */
-  private ensurePath(): void {
+  private ensurePath(wind: WindField): void {
     if (!this.targetPosition) return;
 
     const tx = this.targetPosition.x;
@@ -321,8 +429,12 @@ export class Robot {
       this.cachedTargetY = ty;
 
       if (this.navGrid) {
+        // Low on battery and heading home: the cheapest route, not the shortest
+        const stranded = this.batterySoc < LOW_BATTERY_THRESHOLD &&
+          (this.phase === 'returning' || this.phase === 'returning-to-parent');
         this.currentPath = this.navGrid.findPath(
-          this.position.x, this.position.y, tx, ty
+          this.position.x, this.position.y, tx, ty,
+          this.pathCost === 'energy' || stranded ? this.flightModel(wind) : undefined,
         );
       } else {
         // No navGrid available — straight line fallback
@@ -331,12 +443,36 @@ export class Robot {
     }
   }
 
+  /**
+   * This robot's flight for the energy-optimal planner (pathfinding.ts):
+   * the kinematics of moveAlongPath at cruise speed, and the motor draw at
+   * the resulting airspeed plus the other loads, minus wind harvest.
+   */
+  flightModel(wind: WindField): FlightModel {
+    const params = this.params;
+    const otherLoadsMw = totalLoadMw(powerLoads(params, false, 0, this.powerMode, this.wptOutputMw));
+    const floorMw = PLAN_POWER_FLOOR * params.hoverPowerMw;
+    const maxProgress = params.maxSpeed + driftPerMps(this.sizeClass) * PLAN_MAX_WIND_MPS;
+    return {
+      windAt: pos => wind.getWindAt(pos),
+      energyPerMetre: (heading, w) => {
+        const v = flightVelocity(this.sizeClass, heading, params.maxSpeed, w);
+        const progress = Math.min(maxProgress, v.x * Math.cos(heading) + v.y * Math.sin(heading));
+        if (progress < PLAN_MIN_PROGRESS_MPS) return Infinity;
+        const airspeed = Math.hypot(v.x - w.speed * Math.cos(w.direction), v.y - w.speed * Math.sin(w.direction));
+        const netMw = motorPowerMw(params, airspeed) + otherLoadsMw - windHarvestMw(params, w.speed) - regenHarvestMw(params, w, heading);
+        return Math.max(floorMw, netMw) / progress;
+      },
+      minEnergyPerMetre: floorMw / maxProgress,
+    };
+  }
+
   /**
    * Move along the A* path, advancing to the next waypoint when close enough.
    * Falls back to direct movement toward the ultimate target if path is empty.
    */
   private moveAlongPath(
-    w: { speed: number; direction: number },
+    w: Wind,
     params: { maxSpeed: number },
     _dt: number,
   ): void {
@@ -384,18 +520,8 @@ export class Robot {
     if (dist > WAYPOINT_REACH_DIST) {
       const desiredAngle = Math.atan2(dy, dx);
       this.heading = desiredAngle;
-      let speed = Math.min(params.maxSpeed, Math.max(1.5, dist * 0.3));
-
-      const headwindFactor = Math.cos(w.direction - desiredAngle);
-      if (headwindFactor > 0) {
-        speed *= Math.max(0.3, 1.0 - headwindFactor * w.speed * 0.1);
-      }
-
-      const windForce = w.speed * 0.15 * (this.sizeClass === 'small' ? 2.0 : 1.0);
-      this.velocity = {
-        x: speed * Math.cos(desiredAngle) + windForce * Math.cos(w.direction),
-        y: speed * Math.sin(desiredAngle) + windForce * Math.sin(w.direction),
-      };
+      const speed = Math.min(params.maxSpeed, Math.max(1.5, dist * 0.3));
+      this.velocity = flightVelocity(this.sizeClass, desiredAngle, speed, w);
     } else {
       this.velocity = { x: 0, y: 0 };
       this.currentPath = [];
@@ -448,19 +574,6 @@ export class Robot {
     }
   }
 
-  /** Compute solar shadow factor: reduced near tall obstacles (buildings) */
-  private computeShadowFactor(): number {
-    if (this.obstacles.length === 0) return 1.0;
-    for (const o of this.obstacles) {
-      if (o.type !== 'building') continue;
-      const dx = this.position.x - o.x;
-      const dy = this.position.y - o.z; // terrain uses z for y
-      const dist = Math.sqrt(dx * dx + dy * dy);
-      if (dist < 5.0) return 0.3; // shadowed by tall building
-    }
-    return 1.0;
-  }
-
   // ── Nesting mechanics (套娃) ──────────────────────────────
 
   /** Nest this robot inside a parent carrier */
@@ -525,6 +638,93 @@ export class Robot {
     );
   }
 
+  toCheckpoint(): RobotCheckpoint {
+    return {
+      id: this.id,
+      sizeClass: this.sizeClass,
+      position: { ...this.position },
+      velocity: { ...this.velocity },
+      heading: this.heading,
+      phase: this.phase,
+      targetPosition: this.targetPosition ? { ...this.targetPosition } : null,
+      batterySoc: this.batterySoc,
+      battery: this.battery.toCheckpoint(),
+      powerDrawMw: this.powerDrawMw,
+      solarHarvestMw: this.solarHarvestMw,
+      powerMode: this.powerMode,
+      estimatedMinutes: this.estimatedMinutes,
+      localWindClass: this.localWindClass,
+      localWindSpeed: this.localWindSpeed,
+      localWindDirection: this.localWindDirection,
+      isCoordinator: this.isCoordinator,
+      zoneId: this.zoneId,
+      isOnline: this.isOnline,
+      isJammed: this.isJammed,
+      isByzantine: this.isByzantine,
+      tickCount: this.tickCount,
+      parentId: this.parentId,
+      childIds: [...this.childIds],
+      isNested: this.isNested,
+      windHarvestMw: this.windHarvestMw,
+      regenHarvestMw: this.regenHarvestMw,
+      wptReceiveMw: this.wptReceiveMw,
+      wptOutputMw: this.wptOutputMw,
+      supercapSoc: this.supercapSoc,
+      patrolWaypoints: this.patrolWaypoints.map(w => ({ ...w })),
+      currentWaypointIdx: this.currentWaypointIdx,
+      preChargeWaypointIdx: this.preChargeWaypointIdx,
+      currentPath: this.currentPath.map(w => ({ ...w })),
+      cachedTarget: isNaN(this.cachedTargetX) ? null : { x: this.cachedTargetX, y: this.cachedTargetY },
+      hdcAccumulator: [...this.hdcAccumulator],
+      hdcAccumulatedFrames: this.hdcAccumulatedFrames,
+      accumulatedPrediction: this.accumulatedPrediction ? { ...this.accumulatedPrediction } : null,
+      lowBatteryEventTick: this.lowBatteryEventTick,
+    };
+  }
+
+  restoreCheckpoint(cp: RobotCheckpoint): void {
+    if (cp.id !== this.id || cp.sizeClass !== this.sizeClass) {
+      throw new Error(`Checkpoint robot ${cp.id} (${cp.sizeClass}) does not match ${this.name}`);
+    }
+    this.position = { ...cp.position };
+    this.velocity = { ...cp.velocity };
+    this.heading = cp.heading;
+    this.phase = cp.phase;
+    this.targetPosition = cp.targetPosition ? { ...cp.targetPosition } : null;
+    this.battery.restoreCheckpoint(cp.battery);
+    this.powerDrawMw = cp.powerDrawMw;
+    this.solarHarvestMw = cp.solarHarvestMw;
+    this.powerMode = cp.powerMode;
+    this.estimatedMinutes = cp.estimatedMinutes;
+    this.localWindClass = cp.localWindClass;
+    this.localWindSpeed = cp.localWindSpeed;
+    this.localWindDirection = cp.localWindDirection;
+    this.isCoordinator = cp.isCoordinator;
+    this.zoneId = cp.zoneId;
+    this.isOnline = cp.isOnline;
+    this.isJammed = cp.isJammed;
+    this.isByzantine = cp.isByzantine;
+    this.tickCount = cp.tickCount;
+    this.parentId = cp.parentId;
+    this.childIds = [...cp.childIds];
+    this.isNested = cp.isNested;
+    this.windHarvestMw = cp.windHarvestMw;
+    this.regenHarvestMw = cp.regenHarvestMw;
+    this.wptReceiveMw = cp.wptReceiveMw;
+    this.wptOutputMw = cp.wptOutputMw;
+    this.supercapSoc = cp.supercapSoc;
+    this.patrolWaypoints = cp.patrolWaypoints.map(w => ({ ...w }));
+    this.currentWaypointIdx = cp.currentWaypointIdx;
+    this.preChargeWaypointIdx = cp.preChargeWaypointIdx;
+    this.currentPath = cp.currentPath.map(w => ({ ...w }));
+    this.cachedTargetX = cp.cachedTarget?.x ?? NaN;
+    this.cachedTargetY = cp.cachedTarget?.y ?? NaN;
+    this.hdcAccumulator = [...cp.hdcAccumulator];
+    this.hdcAccumulatedFrames = cp.hdcAccumulatedFrames;
+    this.accumulatedPrediction = cp.accumulatedPrediction ? { ...cp.accumulatedPrediction } : null;
+    this.lowBatteryEventTick = cp.lowBatteryEventTick;
+  }
+
   getState(): RobotState {
     return {
       id: this.id,
@@ -537,6 +737,10 @@ export class Robot {
       speed: Math.sqrt(this.velocity.x ** 2 + this.velocity.y ** 2),
       targetPosition: this.targetPosition ? { ...this.targetPosition } : null,
       batterySoc: this.batterySoc,
+      batteryVoltage: this.battery.voltage,
+      batteryCurrentA: this.battery.currentA,
+      batteryTempC: this.battery.temperatureC,
+      powerDrawMw: this.powerDrawMw,
       solarHarvestMw: this.solarHarvestMw,
       powerMode: this.powerMode,
       estimatedMinutes: this.estimatedMinutes,
@@ -546,7 +750,7 @@ export class Robot {
       hdc: this.getHdcState(),
       isCoordinator: this.isCoordinator,
       zoneId: this.zoneId,
-      bleRangeM: SIZE_PARAMS[this.sizeClass].bleRange,
+      bleRangeM: this.params.bleRange,
       parentId: this.parentId,
       childIds: [...this.childIds],
       isNested: this.isNested,
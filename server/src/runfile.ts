@@ -0,0 +1,318 @@
+/**
+ * runfile.ts — Compressed, chunked recording format for runs
+ *
+ * A run file (<runId>.jsonl.gz) is a sequence of independent gzip members:
+ * the first holds a RunFileHeader line, each following one a JSONL chunk of
+ * up to CHUNK_FRAMES RecordedFrames. Concatenated gzip members are still one
+ * valid gzip stream, so `zcat run.jsonl.gz | jq` works for offline analysis.
+ *
+ * A sidecar tick index (<runId>.index.jsonl) lists every chunk's tick range
+ * and byte span. Seeks binary-search the index and inflate only the chunks
+ * that overlap the requested range. The index line is appended after its
+ * chunk, so a crash mid-write never indexes a torn chunk.
+ */
+
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import type { RunManifest } from './types';
+import type { RecordedFrame } from './recorder';
+
+export const RUN_FILE_FORMAT = 'swarm-run';
+export const RUN_FILE_VERSION = 1;
+export const CHUNK_FRAMES = 100;   // ~10 s at 10 Hz per gzip member
+/** Upper bound on an uploaded run once inflated (below V8's maximum string length) */
+export const MAX_INFLATED_BYTES = 256 * 1024 * 1024;
+
+export interface RunFileHeader {
+  format: typeof RUN_FILE_FORMAT;
+  version: number;
+  runId: string;
+  manifest: RunManifest;
+}
+
+export interface ChunkIndexEntry {
+  firstTick: number;
+  lastTick: number;
+  offset: number;            // byte offset of the gzip member
+  bytes: number;
+  frames: number;
+}
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+export function runFileHeader(manifest: RunManifest): RunFileHeader {
+  return { format: RUN_FILE_FORMAT, version: RUN_FILE_VERSION, runId: manifest.runId, manifest };
+}
+
+/** A full chunk on its way to disk; indexed once its bytes are written */
+interface SealedChunk {
+  frames: RecordedFrame[];
+  lines: string[];
+  data?: Buffer;             // gzip member, once compressed
+  offset?: number;           // byte offset reserved for it, once compressed
+}
+
+/**
+ * Append-only chunked run file with an in-memory copy of its index.
+ * Nothing touches the disk until the first chunk is written; creating the
+ * file truncates whatever an earlier recording left at the same path.
+ * Full chunks are compressed and written asynchronously, off the tick
+ * path; until their index line lands they are served from memory.
+ */
+export class RunFile {
+  readonly dataPath: string;
+  readonly indexPath: string;
+  private index: ChunkIndexEntry[] = [];
+  private sealed: SealedChunk[] = [];
+  private pending: RecordedFrame[] = [];
+  private pendingLines: string[] = [];   // serialized as they arrive, so sealing a chunk is cheap
+  private size = 0;                      // file length including reserved offsets
+  private opened = false;
+  private writing = false;
+  private idleWaiters: (() => void)[] = [];
+
+  /**
+   * @param basePath path without extension (runs/<runId>)
+   * @param header   serialized when the file is created, so later manifest
+   *                 changes (restoredFrom) are still captured
+   */
+  constructor(basePath: string, private readonly header: RunFileHeader | null) {
+    this.dataPath = `${basePath}.jsonl.gz`;
+    this.indexPath = `${basePath}.index.jsonl`;
+  }
+
+  /** Existing run file, or null when it was never written */
+  static open(basePath: string): RunFile | null {
+    const file = new RunFile(basePath, null);
+    if (!fs.existsSync(file.dataPath) || !fs.existsSync(file.indexPath)) return null;
+    for (const line of fs.readFileSync(file.indexPath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        file.index.push(JSON.parse(line) as ChunkIndexEntry);
+      } catch {
+        console.warn(`[RUNFILE] Skipping malformed index line in ${file.indexPath}`);
+      }
+    }
+    file.size = fs.statSync(file.dataPath).size;
+    file.opened = true;
+    return file;
+  }
+
+  get frameCount(): number {
+    return this.index.reduce((n, c) => n + c.frames, 0)
+      + this.sealed.reduce((n, c) => n + c.frames.length, 0) + this.pending.length;
+  }
+
+  /** Oldest and newest tick on disk or in memory, null when empty */
+  get tickRange(): { first: number; last: number } | null {
+    const frames = this.memoryFrames();
+    const first = this.index[0]?.firstTick ?? frames[0]?.tick;
+    if (first === undefined) return null;
+    const last = frames.length ? frames[frames.length - 1].tick : this.index[this.index.length - 1].lastTick;
+    return { first, last };
+  }
+
+  /** Frames must arrive in tick order */
+  append(frame: RecordedFrame): void {
+    this.pending.push(frame);
+    this.pendingLines.push(JSON.stringify(frame));
+    if (this.pending.length >= CHUNK_FRAMES) {
+      this.seal();
+      this.writeAsync();
+    }
+  }
+
+  /** Write every sealed and pending frame now (an in-flight async write of the same bytes is harmless) */
+  flush(): void {
+    this.create();
+    this.seal();
+    while (this.sealed.length > 0) {
+      const chunk = this.sealed[0];
+      if (!chunk.data) this.reserve(chunk, zlib.gzipSync(joinLines(chunk.lines)));
+      const fd = fs.openSync(this.dataPath, 'r+');
+      try {
+        fs.writeSync(fd, chunk.data!, 0, chunk.data!.length, chunk.offset);
+      } finally {
+        fs.closeSync(fd);
+      }
+      this.commit(chunk);
+    }
+  }
+
+  /** Resolves once no chunk write is in flight */
+  idle(): Promise<void> {
+    return this.writing ? new Promise(resolve => this.idleWaiters.push(resolve)) : Promise.resolve();
+  }
+
+  /** Frames with fromTick ≤ tick ≤ toTick, oldest first; stops inflating once `limit` frames are found */
+  getRange(fromTick: number, toTick: number, limit = Infinity): RecordedFrame[] {
+    const frames: RecordedFrame[] = [];
+    if (fromTick > toTick) return frames;
+    const inRange = (f: RecordedFrame) => f.tick >= fromTick && f.tick <= toTick;
+    for (let i = firstChunkEndingAtOrAfter(this.index, fromTick); i < this.index.length && frames.length < limit; i++) {
+      const entry = this.index[i];
+      if (entry.firstTick > toTick) break;
+      frames.push(...this.readChunk(entry).filter(inRange));
+    }
+    frames.push(...this.memoryFrames().filter(inRange));
+    return frames.slice(0, limit);
+  }
+
+  readAll(): RecordedFrame[] {
+    return [...this.index.flatMap(entry => this.readChunk(entry)), ...this.memoryFrames()];
+  }
+
+  /** Frames not yet indexed on disk, oldest first */
+  private memoryFrames(): RecordedFrame[] {
+    return this.sealed.length ? [...this.sealed.flatMap(c => c.frames), ...this.pending] : this.pending;
+  }
+
+  /** Write the header member on first use, truncating an earlier recording */
+  private create(): void {
+    if (this.opened) return;
+    if (!this.header) throw new Error(`Run file ${this.dataPath} was opened read-only`);
+    fs.writeFileSync(this.dataPath, gzipLines([this.header]));
+    fs.writeFileSync(this.indexPath, '');
+    this.size = fs.statSync(this.dataPath).size;
+    this.opened = true;
+  }
+
+  private seal(): void {
+    if (this.pending.length === 0) return;
+    this.sealed.push({ frames: this.pending, lines: this.pendingLines });
+    this.pending = [];
+    this.pendingLines = [];
+  }
+
+  /** Claim the chunk's byte span; later chunks go after it whichever write lands first */
+  private reserve(chunk: SealedChunk, data: Buffer): void {
+    chunk.data = data;
+    chunk.offset = this.size;
+    this.size += data.length;
+  }
+
+  /** The chunk's bytes are on disk: index it and drop it from memory */
+  private commit(chunk: SealedChunk): void {
+    if (this.sealed[0] !== chunk) return;   // flush() got there first
+    const entry: ChunkIndexEntry = {
+      firstTick: chunk.frames[0].tick,
+      lastTick: chunk.frames[chunk.frames.length - 1].tick,
+      offset: chunk.offset!,
+      bytes: chunk.data!.length,
+      frames: chunk.frames.length,
+    };
+    fs.appendFileSync(this.indexPath, JSON.stringify(entry) + '\n');
+    this.index.push(entry);
+    this.sealed.shift();
+  }
+
+  /** Compress and write the oldest sealed chunk, then the next; a failed write is retried with the next chunk */
+  private writeAsync(): void {
+    if (this.writing || this.sealed.length === 0) return;
+    const chunk = this.sealed[0];
+    this.writing = true;
+    const done = (err: Error | null): void => {
+      this.writing = false;
+      if (err) console.warn(`[RUNFILE] Write to ${this.dataPath} failed, retrying: ${err.message}`);
+      else this.writeAsync();
+      if (!this.writing) for (const resolve of this.idleWaiters.splice(0)) resolve();
+    };
+    try {
+      this.create();   // header member first, so reserved offsets follow it
+    } catch (err) {
+      done(err as Error);
+      return;
+    }
+    const write = (): void => {
+      fs.open(this.dataPath, 'r+', (openErr, fd) => {
+        if (openErr) return done(openErr);
+        fs.write(fd, chunk.data!, 0, chunk.data!.length, chunk.offset, writeErr => {
+          fs.close(fd, () => {
+            if (!writeErr) this.commit(chunk);   // the index line follows its chunk
+            done(writeErr);
+          });
+        });
+      });
+    };
+    if (chunk.data) {
+      write();
+      return;
+    }
+    zlib.gzip(joinLines(chunk.lines), (err, data) => {
+      if (err) return done(err);
+      if (this.sealed[0] !== chunk) return done(null);   // flush() wrote it meanwhile
+      this.reserve(chunk, data);
+      write();
+    });
+  }
+
+  private readChunk(entry: ChunkIndexEntry): RecordedFrame[] {
+    const buf = Buffer.alloc(entry.bytes);
+    const fd = fs.openSync(this.dataPath, 'r');
+    try {
+      fs.readSync(fd, buf, 0, entry.bytes, entry.offset);
+    } finally {
+      fs.closeSync(fd);
+    }
+    return parseLines(zlib.gunzipSync(buf).toString('utf-8')) as RecordedFrame[];
+  }
+}
+
+/** Index of the first chunk whose lastTick ≥ tick (binary search) */
+function firstChunkEndingAtOrAfter(index: ChunkIndexEntry[], tick: number): number {
+  let lo = 0;
+  let hi = index.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (index[mid].lastTick < tick) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+function joinLines(lines: string[]): string {
+  return lines.join('\n') + '\n';
+}
+
+function gzipLines(records: unknown[]): Buffer {
+  return zlib.gzipSync(joinLines(records.map(r => JSON.stringify(r))));
+}
+
+function parseLines(text: string): unknown[] {
+  return text.split('\n').filter(line => line.trim()).map(line => JSON.parse(line) as unknown);
+}
+
+/** Whole run in the download format (header member + frame chunks) */
+export function encodeRunFile(header: RunFileHeader, frames: RecordedFrame[]): Buffer {
+  const members = [gzipLines([header])];
+  for (let i = 0; i < frames.length; i += CHUNK_FRAMES) members.push(gzipLines(frames.slice(i, i + CHUNK_FRAMES)));
+  return Buffer.concat(members);
+}
+
+/**
+ * Parse an uploaded run: gzip (as downloaded) or plain JSONL, header line
+ * first. Frames are returned in tick order. Inflation stops at
+ * `maxInflatedBytes`, so a small gzip bomb cannot exhaust memory.
+ */
+export function decodeRunFile(data: Buffer, maxInflatedBytes = MAX_INFLATED_BYTES): { header: RunFileHeader; frames: RecordedFrame[] } {
+  const gzipped = data[0] === GZIP_MAGIC[0] && data[1] === GZIP_MAGIC[1];
+  let lines: unknown[];
+  try {
+    lines = parseLines((gzipped ? zlib.gunzipSync(data, { maxOutputLength: maxInflatedBytes }) : data).toString('utf-8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error(`Unreadable run file: inflates to more than ${maxInflatedBytes} bytes`);
+    }
+    throw new Error(`Unreadable run file: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const header = lines[0] as Partial<RunFileHeader> | undefined;
+  if (header?.format !== RUN_FILE_FORMAT) throw new Error(`Not a run file: first line must be a ${RUN_FILE_FORMAT} header`);
+  if (header.version !== RUN_FILE_VERSION) {
+    throw new Error(`Unsupported run file version ${header.version} (expected ${RUN_FILE_VERSION})`);
+  }
+  const frames = lines.slice(1) as RecordedFrame[];
+  if (frames.some(f => typeof f?.tick !== 'number' || typeof f.snapshot !== 'object' || f.snapshot === null)) {
+    throw new Error('Not a run file: every line after the header must be a recorded frame');
+  }
+  return { header: header as RunFileHeader, frames: frames.sort((a, b) => a.tick - b.tick) };
+}
@@ -0,0 +1,255 @@
+/**
+ * scenario.ts — Scripted field-test scenarios
+ *
+ * A scenario is a seeded fleet plus a timeline of actions (deploy, gust,
+ * jamming, node failure, mission start, …) driven through the ordinary
+ * SwarmSimulator commands, and pass/fail assertions on SwarmStats at given
+ * ticks. Actions at tick T run after T ticks have elapsed (tick 0 = before
+ * the first step); assertions at tick T check the snapshot of tick T.
+ *
+ * Usage:
+ *   npm run scenario -- scenarios/field-test.json [more.yaml …] [--seed 7] [--json]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { SwarmSimulator } from './simulator';
+import { hdcEngine } from './hdc-engine';
+import { loadFleetFile, parseFleetSpec, type FleetSpec } from './fleet';
+import { scenarioSchema } from './validation';
+import { parseArgs } from './cli-args';
+import type { Formation, SwarmStats, Vec2 } from './types';
+import type { GustSpec } from './wind';
+import type { MissionType } from './mission';
+
+export type ScenarioAction = { tick: number } & (
+  | { do: 'deploy' }
+  | { do: 'recall' }
+  | ({ do: 'gust' } & GustSpec)
+  | { do: 'jamming'; center?: Vec2; radius?: number }
+  | { do: 'clearJamming' }
+  | { do: 'nodeFailure'; robotId?: number }
+  | { do: 'recoverNode'; robotId: number }
+  | { do: 'byzantine'; robotId?: number }
+  | { do: 'clearByzantine' }
+  | { do: 'formation'; formation: Formation }
+  | { do: 'move'; robotId: number; x: number; y: number }
+  | { do: 'startMission'; mission: MissionType }
+  | { do: 'stopMission' }
+);
+
+export type AssertionOp = 'eq' | 'ne' | 'lt' | 'lte' | 'gt' | 'gte';
+
+export interface ScenarioAssertion {
+  tick: number;
+  stat: string;                  // dotted path into SwarmStats
+  op: AssertionOp;
+  value: number | string | boolean;
+  label?: string;
+}
+
+export interface Scenario {
+  name: string;
+  description?: string;
+  seed: number;
+  fleet?: FleetSpec;
+  durationTicks?: number;
+  actions: ScenarioAction[];     // sorted by tick
+  assertions: ScenarioAssertion[];
+}
+
+export interface AssertionOutcome extends ScenarioAssertion {
+  actual: unknown;
+  passed: boolean;
+}
+
+export interface ScenarioResult {
+  name: string;
+  seed: number;
+  ticks: number;
+  passed: boolean;
+  assertions: AssertionOutcome[];
+}
+
+/** Seed used when a scenario does not pin one — scenarios must be reproducible */
+const DEFAULT_SCENARIO_SEED = 1;
+
+/**
+ * Validate a scenario. A string `fleet` is a fleet file path resolved
+ * against `baseDir` (the scenario file's directory).
+ */
+export function parseScenario(data: unknown, baseDir = process.cwd()): Scenario {
+  const result = scenarioSchema.safeParse(data);
+  if (!result.success) {
+    const first = result.error.issues[0];
+    throw new Error(`Invalid scenario: ${first.path.join('.')} ${first.message}`);
+  }
+  const raw = result.data;
+
+  let fleet: FleetSpec | undefined;
+  if (typeof raw.fleet === 'string') {
+    fleet = loadFleetFile(path.resolve(baseDir, raw.fleet));
+  } else if (raw.fleet) {
+    fleet = parseFleetSpec(raw.fleet);
+  }
+
+  const robotCount = fleet?.robots.length ?? 22;
+  for (const action of raw.actions as ScenarioAction[]) {
+    if ('robotId' in action && action.robotId !== undefined && action.robotId >= robotCount) {
+      throw new Error(`Invalid scenario: ${action.do} at tick ${action.tick} targets R${action.robotId}, fleet has ${robotCount} robots`);
+    }
+  }
+
+  return {
+    name: raw.name,
+    description: raw.description,
+    seed: raw.seed ?? DEFAULT_SCENARIO_SEED,
+    fleet,
+    durationTicks: raw.durationTicks,
+    actions: [...(raw.actions as ScenarioAction[])].sort((a, b) => a.tick - b.tick),
+    assertions: raw.assertions,
+  };
+}
+
+/** Load a scenario from a .json, .yaml or .yml file */
+export function loadScenarioFile(filePath: string): Scenario {
+  const text = fs.readFileSync(filePath, 'utf-8');
+  const ext = path.extname(filePath).toLowerCase();
+  const data = ext === '.yaml' || ext === '.yml' ? parseYaml(text) : JSON.parse(text);
+  return parseScenario(data, path.dirname(path.resolve(filePath)));
+}
+
+function applyAction(sim: SwarmSimulator, action: ScenarioAction): void {
+  switch (action.do) {
+    case 'deploy': sim.deploy(); break;
+    case 'recall': sim.recall(); break;
+    case 'gust': {
+      const { center, peakSpeed, radius, durationTicks } = action;
+      sim.triggerGust({ center, peakSpeed, radius, durationTicks });
+      break;
+    }
+    case 'jamming': sim.injectJamming(action.center, action.radius); break;
+    case 'clearJamming': sim.clearJamming(); break;
+    case 'nodeFailure': sim.injectNodeFailure(action.robotId); break;
+    case 'recoverNode': sim.recoverNode(action.robotId); break;
+    case 'byzantine': sim.injectByzantine(action.robotId); break;
+    case 'clearByzantine': sim.clearByzantine(); break;
+    case 'formation': sim.setFormation(action.formation); break;
+    case 'move': sim.moveRobot(action.robotId, { x: action.x, y: action.y }); break;
+    case 'startMission': sim.startMission(action.mission); break;
+    case 'stopMission': sim.stopMission(); break;
+  }
+}
+
+/** Resolve a dotted path ("nestingStats.deployed") against the stats object */
+export function readStat(stats: SwarmStats, statPath: string): unknown {
+  let value: unknown = stats;
+  for (const key of statPath.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+export function checkAssertion(actual: unknown, op: AssertionOp, expected: number | string | boolean): boolean {
+  switch (op) {
+    case 'eq': return actual === expected;
+    case 'ne': return actual !== expected;
+  }
+  if (typeof actual !== 'number' || typeof expected !== 'number') return false;
+  switch (op) {
+    case 'lt': return actual < expected;
+    case 'lte': return actual <= expected;
+    case 'gt': return actual > expected;
+    case 'gte': return actual >= expected;
+  }
+}
+
+/**
+ * Run a scenario to its last assertion (or durationTicks, if later), and
+ * one tick past its last action so that action is simulated too.
+ */
+export function runScenario(scenario: Scenario, seed = scenario.seed): ScenarioResult {
+  const sim = new SwarmSimulator({ seed, fleet: scenario.fleet });
+  const endTick = Math.max(
+    scenario.durationTicks ?? 0,
+    ...scenario.actions.map(a => a.tick + 1),
+    ...scenario.assertions.map(a => a.tick),
+  );
+
+  const outcomes: AssertionOutcome[] = [];
+  let nextAction = 0;
+  while (sim.getTick() < endTick) {
+    while (nextAction < scenario.actions.length && scenario.actions[nextAction].tick <= sim.getTick()) {
+      applyAction(sim, scenario.actions[nextAction++]);
+    }
+    const snapshot = sim.step();
+    for (const assertion of scenario.assertions) {
+      if (assertion.tick !== snapshot.tick) continue;
+      const actual = readStat(snapshot.stats, assertion.stat);
+      outcomes.push({ ...assertion, actual, passed: checkAssertion(actual, assertion.op, assertion.value) });
+    }
+  }
+
+  return {
+    name: scenario.name,
+    seed,
+    ticks: sim.getTick(),
+    passed: outcomes.every(o => o.passed),
+    assertions: outcomes,
+  };
+}
+
+/* ─── CLI ──────────────────────────────────────────────────────── */
+
+const OP_SYMBOLS: Record<AssertionOp, string> = { eq: '==', ne: '!=', lt: '<', lte: '<=', gt: '>', gte: '>=' };
+
+function describeAssertion(o: AssertionOutcome): string {
+  const actual = typeof o.actual === 'number' ? Number(o.actual.toFixed(2)) : o.actual;
+  const what = o.label ?? `${o.stat} ${OP_SYMBOLS[o.op]} ${o.value}`;
+  return `${o.passed ? '✓' : '✗'} tick ${String(o.tick).padStart(5)}  ${what}  (actual ${actual})`;
+}
+
+async function main(): Promise<void> {
+  const { flags, positionals } = parseArgs(process.argv.slice(2));
+  if (positionals.length === 0) {
+    console.error('Usage: npm run scenario -- <scenario.json|yaml> [...] [--seed N] [--json]');
+    process.exit(1);
+  }
+  const seed = flags.seed !== undefined ? parseInt(flags.seed, 10) : undefined;
+  if (seed !== undefined && !Number.isFinite(seed)) {
+    console.error('--seed must be an integer');
+    process.exit(1);
+  }
+  const json = flags.json === 'true';
+
+  try {
+    await hdcEngine.init();
+  } catch {
+    if (!json) console.warn('[HDC] WASM init failed, using fallback simulation');
+  }
+
+  const results: ScenarioResult[] = [];
+  for (const file of positionals) {
+    const scenario = loadScenarioFile(file);
+    const result = runScenario(scenario, seed ?? scenario.seed);
+    results.push(result);
+    if (!json) {
+      console.log(`\n  Scenario: ${result.name} (seed ${result.seed}, ${result.ticks} ticks)`);
+      console.log(`  ──────────────────────`);
+      for (const o of result.assertions) console.log(`  ${describeAssertion(o)}`);
+      console.log(`  ${result.passed ? 'PASS' : 'FAIL'}`);
+    }
+  }
+
+  if (json) console.log(JSON.stringify(results, null, 2));
+  if (results.some(r => !r.passed)) process.exit(1);
+}
+
+if (require.main === module) {
+  main().catch(err => {
+    console.error('Scenario run failed:', err instanceof Error ? err.message : err);
+    process.exit(1);
+  });
+}
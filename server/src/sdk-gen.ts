@@ -0,0 +1,90 @@
+/**
+ * sdk-gen.ts — Generate the TypeScript SDK's request types
+ *
+ * Converts the request schemas of the OpenAPI document (see openapi.ts)
+ * into sdk/src/types.gen.ts. Run after changing validation.ts or the
+ * command registry; tests/openapi.test.ts fails while the file is stale.
+ *
+ * Usage:
+ *   npm run sdk [-- --out ../sdk/src/types.gen.ts]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { COMMANDS } from './commands';
+import { REQUEST_SCHEMAS, commandSchemaName, inputSchema } from './openapi';
+import { parseArgs } from './cli-args';
+
+export const SDK_TYPES_FILE = path.join(__dirname, '../../sdk/src/types.gen.ts');
+
+interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  additionalProperties?: boolean | JsonSchema;
+}
+
+const SCALARS: Record<string, string> = {
+  string: 'string', number: 'number', integer: 'number', boolean: 'boolean', null: 'null',
+};
+
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/** JSON Schema (as emitted by z.toJSONSchema) → TypeScript type expression */
+export function toTsType(schema: JsonSchema, indent = ''): string {
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+  if (schema.enum) return schema.enum.map(v => JSON.stringify(v)).join(' | ');
+  const union = schema.anyOf ?? schema.oneOf;
+  if (union) return union.map(s => toTsType(s, indent)).join(' | ');
+  if (Array.isArray(schema.type)) return schema.type.map(t => toTsType({ ...schema, type: t }, indent)).join(' | ');
+
+  switch (schema.type) {
+    case 'array':
+      return `Array<${schema.items ? toTsType(schema.items, indent) : 'unknown'}>`;
+    case 'object': {
+      if (!schema.properties) {
+        const values = typeof schema.additionalProperties === 'object' ? toTsType(schema.additionalProperties, indent) : 'unknown';
+        return `Record<string, ${values}>`;
+      }
+      const inner = indent + '  ';
+      const required = new Set(schema.required ?? []);
+      const fields = Object.entries(schema.properties).map(([name, prop]) =>
+        `${inner}${propertyName(name)}${required.has(name) ? '' : '?'}: ${toTsType(prop, inner)};`);
+      return fields.length ? `{\n${fields.join('\n')}\n${indent}}` : 'Record<string, never>';
+    }
+    default:
+      return (schema.type && SCALARS[schema.type]) ?? 'unknown';
+  }
+}
+
+export function generateSdkTypes(): string {
+  const lines = [
+    '/* types.gen.ts — GENERATED by server/src/sdk-gen.ts (npm run sdk); do not edit */',
+    '',
+  ];
+  const declare = (name: string, schema: JsonSchema) => {
+    lines.push(`export type ${name} = ${toTsType(schema)};`, '');
+  };
+  for (const [name, schema] of Object.entries(REQUEST_SCHEMAS)) declare(name, inputSchema(schema));
+  for (const command of COMMANDS) declare(commandSchemaName(command), inputSchema(command.schema));
+
+  lines.push('/** Input of every POST /cmd/<name> (and socket cmd:<name>) */');
+  lines.push('export interface CommandInputs {');
+  for (const command of COMMANDS) lines.push(`  ${JSON.stringify(command.name)}: ${commandSchemaName(command)};`);
+  lines.push('}', '');
+  lines.push('export type CommandName = keyof CommandInputs;');
+  return lines.join('\n') + '\n';
+}
+
+if (require.main === module) {
+  const out = parseArgs(process.argv.slice(2)).flags.out ?? SDK_TYPES_FILE;
+  fs.writeFileSync(out, generateSdkTypes());
+  console.log(`Wrote ${path.relative(process.cwd(), out)}`);
+}
@@ -1,8 +1,10 @@
-/* security.ts — helmet + CORS configuration for the swarm console server */
+/* security.ts — helmet + CORS configuration and token/role auth for the swarm console server */
 
 import helmet from 'helmet';
 import cors from 'cors';
-import type { Express } from 'express';
+import { timingSafeEqual } from 'crypto';
+import type { Express, Request, Response, NextFunction, RequestHandler } from 'express';
+import type { Socket } from 'socket.io';
 
 const isDev = process.env.NODE_ENV !== 'production';
 
@@ -26,7 +28,9 @@ export function setupSecurity(app: Express): void {
       cors({
         origin: true,
         methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+        allowedHeaders: ['Content-Type', 'Authorization'],
         credentials: true,
+        exposedHeaders: ['X-Total-Count'],
       }),
     );
   }
@@ -49,3 +53,150 @@ export function getSocketCorsConfig(): { origin: string | RegExp | boolean; meth
   // Production: same-origin only — disable cross-origin WebSocket upgrades
   return { origin: false, methods: ['GET', 'POST'] };
 }
+
+// ── Authentication & roles ───────────────────────────────────
+
+/** Ordered: each role can do everything the previous one can */
+export const ROLES = ['viewer', 'operator', 'instructor'] as const;
+export type Role = typeof ROLES[number];
+
+export interface Principal {
+  name: string;
+  role: Role;
+}
+
+export interface AuthConfig {
+  /** false when no AUTH_TOKENS are configured — every client is an instructor */
+  enabled: boolean;
+  tokens: { token: string; principal: Principal }[];
+  /** Role granted to clients without a token (null = rejected) */
+  anonymousRole: Role | null;
+}
+
+/** Routes reachable without a token even when auth is enabled */
+const PUBLIC_PATHS = new Set(['/health', '/openapi.json']);
+
+export function hasRole(principal: Principal | null | undefined, required: Role): boolean {
+  return !!principal && ROLES.indexOf(principal.role) >= ROLES.indexOf(required);
+}
+
+function parseRole(value: string, source: string): Role {
+  if (!(ROLES as readonly string[]).includes(value)) {
+    throw new Error(`${source}: unknown role "${value}" (expected ${ROLES.join(', ')})`);
+  }
+  return value as Role;
+}
+
+/**
+ * AUTH_TOKENS="alice:s3cret:instructor,bob:t0ken:operator" — comma-separated
+ * name:token:role entries. AUTH_ANONYMOUS_ROLE optionally lets token-less
+ * clients in with a role (typically viewer for wall displays).
+ */
+export function loadAuthConfig(env: NodeJS.ProcessEnv = process.env): AuthConfig {
+  const entries = (env.AUTH_TOKENS ?? '').split(',').map(e => e.trim()).filter(Boolean);
+  const tokens = entries.map(entry => {
+    const [name, token, role] = entry.split(':');
+    if (!name || !token || !role) throw new Error(`AUTH_TOKENS: expected name:token:role, got "${name ?? ''}:…"`);
+    return { token, principal: { name, role: parseRole(role, 'AUTH_TOKENS') } };
+  });
+  const anonymousRole = env.AUTH_ANONYMOUS_ROLE ? parseRole(env.AUTH_ANONYMOUS_ROLE, 'AUTH_ANONYMOUS_ROLE') : null;
+  return { enabled: tokens.length > 0, tokens, anonymousRole };
+}
+
+function tokenEquals(a: string, b: string): boolean {
+  const ab = Buffer.from(a);
+  const bb = Buffer.from(b);
+  return ab.length === bb.length && timingSafeEqual(ab, bb);
+}
+
+/**
+ * Resolve a token to a principal. Returns null for a wrong token, or for
+ * a missing one when anonymous access is off.
+ */
+export function authenticate(config: AuthConfig, token: string | undefined): Principal | null {
+  if (!config.enabled) return { name: 'local', role: 'instructor' };
+  if (!token) return config.anonymousRole ? { name: 'anonymous', role: config.anonymousRole } : null;
+  return config.tokens.find(t => tokenEquals(t.token, token))?.principal ?? null;
+}
+
+function bearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  return header?.startsWith('Bearer ') ? header.slice(7).trim() : undefined;
+}
+
+/**
+ * Authenticate every request after static files: `Authorization: Bearer
+ * <token>`. The principal goes to res.locals.principal; requests without
+ * a valid principal get 401 (except PUBLIC_PATHS).
+ */
+export function setupAuth(app: Express, config: AuthConfig): void {
+  app.use((req: Request, res: Response, next: NextFunction): void => {
+    if (PUBLIC_PATHS.has(req.path)) {
+      next();
+      return;
+    }
+    const principal = authenticate(config, bearerToken(req));
+    if (!principal) {
+      res.status(401).json({ ok: false, error: 'Authentication required' });
+      return;
+    }
+    res.locals.principal = principal;
+    next();
+  });
+}
+
+/** Responds 403 unless the authenticated principal has at least `role` */
+export function requireRole(role: Role): RequestHandler {
+  return (_req: Request, res: Response, next: NextFunction): void => {
+    if (hasRole(res.locals.principal as Principal | undefined, role)) {
+      next();
+    } else {
+      res.status(403).json({ ok: false, error: `Requires role: ${role}` });
+    }
+  };
+}
+
+/**
+ * Socket.io middleware: authenticates the handshake (`auth: { token }`)
+ * and stores the principal in socket.data.principal.
+ */
+export function socketAuth(config: AuthConfig): (socket: Socket, next: (err?: Error) => void) => void {
+  return (socket, next) => {
+    const token = socket.handshake.auth?.token;
+    const principal = authenticate(config, typeof token === 'string' ? token : undefined);
+    if (!principal) {
+      next(new Error('unauthorized'));
+      return;
+    }
+    socket.data.principal = principal;
+    next();
+  };
+}
+
+/**
+ * Per-packet role check for cmd:* events, with the role `roleOf` reads
+ * from the command registry. Denied packets are dropped; the client is
+ * told via `cmd:denied` and the packet's ack, if it has one.
+ */
+export function authorizeSocketCommands(
+  socket: Socket,
+  roleOf: (event: string) => Role,
+  onDenied?: (event: string, required: Role) => void,
+): void {
+  socket.use((packet, next) => {
+    const [event] = packet;
+    if (typeof event !== 'string' || !event.startsWith('cmd:')) {
+      next();
+      return;
+    }
+    const required = roleOf(event);
+    if (hasRole(socket.data.principal as Principal | undefined, required)) {
+      next();
+    } else {
+      socket.emit('cmd:denied', { event, required });
+      const ack = packet[packet.length - 1];
+      if (typeof ack === 'function') ack({ ok: false, error: `Requires role: ${required}` });
+      onDenied?.(event, required);
+    }
+  });
+}
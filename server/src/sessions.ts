@@ -0,0 +1,223 @@
+/**
+ * sessions.ts — Isolated simulator sessions on one server
+ *
+ * Each Session owns a SwarmSimulator and the SimLoop driving it, plus the
+ * Socket.io room its viewers join (`session:<id>`). The "default" session
+ * always exists and backs the unprefixed REST routes, so single-swarm
+ * clients keep working; workshops create one session per trainee and use
+ * /sessions/:sessionId/... and `?session=<id>` on the socket.
+ *
+ * A session can also play back its recording to all its viewers instead
+ * of the live simulation (Session.replay, see replay.ts), and be forked
+ * from any recorded tick into a new session for what-if comparisons.
+ */
+
+import { randomBytes } from 'crypto';
+import { SwarmSimulator } from './simulator';
+import { SimLoop, type TickTiming } from './loop';
+import { ReplayPlayer } from './replay';
+import type { FleetSpec } from './fleet';
+import type { Store } from './store';
+import type { StreamClient } from './subscriptions';
+import type { SwarmSnapshot, SolarSettings, WindSolver, PathCost } from './types';
+
+export const DEFAULT_SESSION_ID = 'default';
+
+/** Default cap on concurrent sessions (MAX_SESSIONS env var) */
+export const DEFAULT_MAX_SESSIONS = 8;
+
+export interface SessionInfo {
+  id: string;
+  name: string;
+  createdAt: string;         // ISO timestamp (wall clock)
+  runId: string;
+  robotCount: number;
+  tick: number;
+  paused: boolean;
+  clients: number;           // sockets in the session's room
+}
+
+export interface CreateSessionOptions {
+  id?: string;
+  name?: string;
+  seed?: number;
+  fleet?: FleetSpec;
+  ambientTempC?: number;
+  solar?: Partial<SolarSettings>;
+  windSolver?: WindSolver;
+  pathCost?: PathCost;
+}
+
+export interface ForkSessionOptions {
+  name?: string;
+  paused?: boolean;          // default true: set up the what-if before it runs
+}
+
+export class Session {
+  readonly room: string;
+  readonly createdAt = new Date().toISOString();
+  readonly loop: SimLoop;
+  readonly replay: ReplayPlayer;
+  /** Sockets in this session that left the plain broadcast (see subscriptions.ts) */
+  readonly streamClients = new Map<string, StreamClient>();
+  /** Last broadcast snapshot (metrics scrape) */
+  latest: SwarmSnapshot | null = null;
+  private current: SwarmSimulator;
+
+  constructor(
+    readonly id: string,
+    readonly name: string,
+    sim: SwarmSimulator,
+    onSnapshot: (session: Session, snapshot: SwarmSnapshot) => void,
+    onTiming?: (session: Session, timing: TickTiming) => void,
+  ) {
+    this.room = `session:${id}`;
+    this.current = sim;
+    this.loop = new SimLoop(
+      sim,
+      snapshot => {
+        this.latest = snapshot;
+        onSnapshot(this, snapshot);
+      },
+      onTiming && (timing => onTiming(this, timing)),
+    );
+    // Replayed frames go to the viewers but not to `latest` (metrics stay live)
+    this.replay = new ReplayPlayer(
+      () => this.current.recorder,
+      this.loop,
+      snapshot => onSnapshot(this, snapshot),
+      () => this.latest,
+    );
+  }
+
+  get sim(): SwarmSimulator {
+    return this.current;
+  }
+
+  /** Swap in a new simulator (fleet reload, checkpoint restore), archiving the old run */
+  replaceSimulator(sim: SwarmSimulator): void {
+    this.replay.stop();
+    this.current.archiveRun();
+    this.current = sim;
+    this.latest = null;
+    this.loop.setSimulator(sim);
+  }
+
+  info(clients = 0): SessionInfo {
+    const sim = this.current;
+    return {
+      id: this.id,
+      name: this.name,
+      createdAt: this.createdAt,
+      runId: sim.getManifest().runId,
+      robotCount: sim.robots.length,
+      tick: sim.getTick(),
+      paused: sim.isPaused(),
+      clients,
+    };
+  }
+}
+
+export interface SessionManagerOptions {
+  store?: Store;
+  maxSessions?: number;
+  onSnapshot: (session: Session, snapshot: SwarmSnapshot) => void;
+  onTiming?: (session: Session, timing: TickTiming) => void;
+}
+
+export class SessionManager {
+  private readonly sessions = new Map<string, Session>();
+  private readonly store?: Store;
+  private readonly maxSessions: number;
+  private readonly onSnapshot: (session: Session, snapshot: SwarmSnapshot) => void;
+  private readonly onTiming?: (session: Session, timing: TickTiming) => void;
+  private running = false;
+
+  constructor(options: SessionManagerOptions) {
+    this.store = options.store;
+    this.maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+    this.onSnapshot = options.onSnapshot;
+    this.onTiming = options.onTiming;
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /** Create a session; its loop starts at once if the manager is running */
+  create(options: CreateSessionOptions = {}): Session {
+    this.checkLimit();
+    const id = options.id ?? randomBytes(4).toString('hex');
+    if (this.sessions.has(id)) throw new Error(`Session already exists: ${id}`);
+    const sim = new SwarmSimulator({
+      seed: options.seed, fleet: options.fleet, store: this.store, ambientTempC: options.ambientTempC,
+      solar: options.solar, windSolver: options.windSolver, pathCost: options.pathCost,
+    });
+    return this.add(new Session(id, options.name ?? id, sim, this.onSnapshot, this.onTiming));
+  }
+
+  /** New session continuing `source` from one of its recorded ticks (SwarmSimulator.forkAt) */
+  fork(source: Session, tick: number, options: ForkSessionOptions = {}): Session {
+    this.checkLimit();
+    const sim = source.sim.forkAt(tick, { store: this.store });
+    if (options.paused ?? true) sim.pause();
+    else sim.resume();
+    const id = randomBytes(4).toString('hex');
+    return this.add(new Session(id, options.name ?? `${source.name} @${tick}`, sim, this.onSnapshot, this.onTiming));
+  }
+
+  private checkLimit(): void {
+    if (this.sessions.size >= this.maxSessions) {
+      throw new Error(`Session limit reached (${this.maxSessions})`);
+    }
+  }
+
+  private add(session: Session): Session {
+    this.sessions.set(session.id, session);
+    if (this.running) session.loop.start();
+    return session;
+  }
+
+  get(id: string): Session | undefined {
+    return this.sessions.get(id);
+  }
+
+  /** The always-present session behind the unprefixed routes */
+  get defaultSession(): Session {
+    const session = this.sessions.get(DEFAULT_SESSION_ID);
+    if (!session) throw new Error('Default session missing');
+    return session;
+  }
+
+  list(): Session[] {
+    return [...this.sessions.values()];
+  }
+
+  /** Stop, archive and remove a session; the default session cannot be deleted */
+  delete(id: string): boolean {
+    if (id === DEFAULT_SESSION_ID) throw new Error('The default session cannot be deleted');
+    const session = this.sessions.get(id);
+    if (!session) return false;
+    session.replay.stop(false);
+    session.loop.stop();
+    session.sim.archiveRun();
+    this.sessions.delete(id);
+    return true;
+  }
+
+  start(): void {
+    this.running = true;
+    for (const session of this.sessions.values()) session.loop.start();
+  }
+
+  /** Stop every loop (shutdown); the caller archives the returned sessions' runs */
+  stop(): Session[] {
+    this.running = false;
+    const sessions = this.list();
+    for (const session of sessions) {
+      session.replay.stop(false);
+      session.loop.stop();
+    }
+    return sessions;
+  }
+}
@@ -2,18 +2,29 @@
 
 import {
   Vec2, SizeClass, Formation, BleLink, SwarmSnapshot, SwarmEvent,
-  SwarmStats, SwarmConsensus, HdcStats, SIZE_PARAMS, TerrainData, SPECIES_NAMES,
-  type EnergyFlowLink
+  SwarmStats, SwarmConsensus, HdcStats, TerrainData, SPECIES_NAMES,
+  type EnergyFlowLink, type RunManifest, type SimClock, type SchedulerStats, type SolarSettings,
+  type WindSolver, type GustState, type WindPlayback, type PathCost,
+  SIM_STEP_MS, MIN_SIM_SPEED, MAX_SIM_SPEED,
 } from './types';
 import { Robot } from './robot';
-import { WindField } from './wind';
+import { WindField, parseWindSolver, type GustSpec, type WindObservation } from './wind';
+import { WindLogPlayer, reportObservation, type WindLog, type WindPlaybackOptions } from './wind-log';
+import type { ProtoWindReport } from './protocol-defs';
+import { SolarField, DEFAULT_SOLAR } from './solar';
 import { generateTerrain, isInsideObstacle, type Obstacle } from './terrain';
 import { MissionManager, type MissionType, type MissionState, type MissionTarget } from './mission';
-import { Recorder, type RecordedFrame } from './recorder';
-import { NavGrid } from './pathfinding';
+import { Recorder, withoutCheckpoint, type ReplayFrame } from './recorder';
+import { NavGrid, parsePathCost } from './pathfinding';
 import { computeWptFlows, applyWptCharging } from './wpt';
-
-const DT = 0.15; // seconds per tick
+import { Prng, parseSeed, randomSeed } from './rng';
+import { DEFAULT_AMBIENT_C, parseAmbientTemp } from './battery';
+import { DEFAULT_FLEET, fleetDepths, resolveSizeParams, type FleetSpec } from './fleet';
+import type { Store, RunSummary } from './store';
+import { CHECKPOINT_VERSION, type SimCheckpoint } from './checkpoint';
+import { randomBytes } from 'crypto';
+
+const DT = SIM_STEP_MS / 1000; // seconds per tick
 const MAP_W = 120;
 const MAP_H = 80;
 const HUB_POS: Vec2 = { x: 50, y: 40 };
@@ -22,61 +33,123 @@ const HUB_POS: Vec2 = { x: 50, y: 40 };
 const REPULSION_DIST = 3;       // meters
 const REPULSION_STRENGTH = 0.8;
 const RECHARGE_TARGET_WPT = 80; // SoC% threshold to redeploy after WPT charge
+const WIND_REPORT_TTL_TICKS = 50; // a robot's serial WindReport drives the wind this long (7.5 s)
+
+// Deploy offsets from the parent carrier, by child size class (套娃)
+const DEPLOY_OFFSETS: Record<SizeClass, Vec2[]> = {
+  hub: [{ x: 5, y: 0 }],
+  large: [{ x: 3, y: 0 }],
+  medium: [{ x: -5, y: -5 }, { x: 5, y: -5 }, { x: -5, y: 5 }, { x: 5, y: 5 }],
+  small: [{ x: -2, y: -2 }, { x: 2, y: -2 }, { x: -2, y: 2 }, { x: 2, y: 2 }],
+};
+const DEPLOY_STAGE_TICKS = 30; // ticks between successive cascade deploy stages
+const RECALL_FORCE_NEST_TICKS = 200;
+
+/** A recorded frame carries a checkpoint at least this often (ticks) */
+export const FORK_POINT_INTERVAL = 50;
+
+export interface SimulatorOptions {
+  /** PRNG seed; falls back to the SIM_SEED env var, then a random seed */
+  seed?: number;
+  /** Fleet composition; defaults to the 22-robot DEFAULT_FLEET */
+  fleet?: FleetSpec;
+  /** Persistent store for events, mission results and archived runs */
+  store?: Store;
+  /** Air temperature for the battery packs (°C); falls back to AMBIENT_TEMP_C, then 20 */
+  ambientTempC?: number;
+  /** Site, start time and cloudiness of the day/night cycle (DEFAULT_SOLAR otherwise) */
+  solar?: Partial<SolarSettings>;
+  /** Wind grid solver; falls back to WIND_SOLVER, then 'wake' */
+  windSolver?: WindSolver;
+  /** What A* minimizes; falls back to PATH_COST, then 'distance' (homeward robots always plan for energy) */
+  pathCost?: PathCost;
+}
 
-// Fleet composition (套娃 hierarchy): 1 hub + 1 large + 4 medium + 16 small = 22
-// Hub(0) → Large(1) → Medium(2,3,4,5) → Small(6-21)
-const FLEET: { size: SizeClass; parentIdx: number | null }[] = [
-  { size: 'hub',    parentIdx: null },   // 0: Hub
-  { size: 'large',  parentIdx: 0 },      // 1: Large → Hub
-  { size: 'medium', parentIdx: 1 },      // 2: Medium → Large
-  { size: 'medium', parentIdx: 1 },      // 3: Medium → Large
-  { size: 'medium', parentIdx: 1 },      // 4: Medium → Large
-  { size: 'medium', parentIdx: 1 },      // 5: Medium → Large
-  { size: 'small',  parentIdx: 2 },      // 6-9: Small → Medium[2]
-  { size: 'small',  parentIdx: 2 },
-  { size: 'small',  parentIdx: 2 },
-  { size: 'small',  parentIdx: 2 },
-  { size: 'small',  parentIdx: 3 },      // 10-13: Small → Medium[3]
-  { size: 'small',  parentIdx: 3 },
-  { size: 'small',  parentIdx: 3 },
-  { size: 'small',  parentIdx: 3 },
-  { size: 'small',  parentIdx: 4 },      // 14-17: Small → Medium[4]
-  { size: 'small',  parentIdx: 4 },
-  { size: 'small',  parentIdx: 4 },
-  { size: 'small',  parentIdx: 4 },
-  { size: 'small',  parentIdx: 5 },      // 18-21: Small → Medium[5]
-  { size: 'small',  parentIdx: 5 },
-  { size: 'small',  parentIdx: 5 },
-  { size: 'small',  parentIdx: 5 },
-];
+/** 13.5 → "13:30" */
+function formatHour(hour: number): string {
+  const minutes = Math.round(hour * 60) % 1440;
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/** Sortable, file-name-safe run id: 20261019T130102-s42-9f3a */
+function makeRunId(startTime: number, seed: number): string {
+  const stamp = new Date(startTime).toISOString().replace(/[-:]/g, '').slice(0, 15);
+  return `${stamp}-s${seed}-${randomBytes(2).toString('hex')}`;
+}
 
 export class SwarmSimulator {
   readonly robots: Robot[];
   readonly wind: WindField;
+  readonly solar: SolarField;
   readonly terrain: TerrainData;
+  readonly fleet: FleetSpec;
   private readonly obstacles: Obstacle[];
   private readonly navGrid: NavGrid;
   private tick = 0;
   private startTime = Date.now();
+  private speed = 1;
+  private paused = false;
+  private readonly rng: Prng;
+  private readonly manifest: RunManifest;
+  private readonly store?: Store;
   private formation: Formation = 'scatter';
   private events: SwarmEvent[] = [];
   private eventHistory: SwarmEvent[] = [];
   private deployed = false;
-  readonly missionManager = new MissionManager();
-  readonly recorder = new Recorder();
+  readonly missionManager: MissionManager;
+  readonly recorder: Recorder;
 
-  // Cascade deploy/recall state machine (套娃)
-  private deployStage: 0 | 1 | 2 | 3 = 0; // 0=idle, 1=large, 2=medium, 3=small
+  // Cascade deploy/recall state machine (套娃) — walks the nesting tree by depth
+  private readonly depths: number[];
+  private readonly maxDepth: number;
+  private deployStage = 0;  // 0=idle, k=robots at depth k have been released
   private deployTriggerTick = 0;
-  private recallStage: 0 | 1 | 2 | 3 = 0; // 0=idle, 1=small returning, 2=medium returning, 3=large returning
+  private recallStage = 0;  // 0=idle, k=robots at depth (maxDepth - k + 1) returning
 
   // HDC stats (Task 87/91)
   private hdcTotalInferences = 0;
   private hdcCorrectClassifications = 0;
   private hdcPerSpecies: { correct: number; total: number }[] = Array.from({ length: 6 }, () => ({ correct: 0, total: 0 }));
 
-  constructor() {
-    this.wind = new WindField(Math.PI * 0.25, 2.0, 0.5);
+  // Load shedding (set by SimLoop): BLE mesh and consensus refresh interval
+  private meshInterval = 1;
+  private lastBleLinks: BleLink[] = [];
+  private scheduler: SchedulerStats | null = null;
+  private schedulerNotes: string[] = [];
+
+  // Fork points: the next recorded frame carries a checkpoint
+  private forkPointDue = true;
+
+  // Measured wind: a replaying anemometer log and the latest serial report per robot
+  private windPlayer: WindLogPlayer | null = null;
+  private readonly windLogs = new Map<string, WindLog>();
+  private windReports = new Map<number, { tick: number; observation: WindObservation }>();
+
+  constructor(options: SimulatorOptions = {}) {
+    const seed = options.seed ?? parseSeed(process.env.SIM_SEED) ?? randomSeed();
+    const ambientTempC = options.ambientTempC ?? parseAmbientTemp(process.env.AMBIENT_TEMP_C) ?? DEFAULT_AMBIENT_C;
+    this.rng = new Prng(seed);
+    this.fleet = options.fleet ?? DEFAULT_FLEET;
+    this.depths = fleetDepths(this.fleet);
+    this.maxDepth = Math.max(0, ...this.depths);
+    this.store = options.store;
+    this.manifest = {
+      runId: makeRunId(this.startTime, seed),
+      seed,
+      startedAt: new Date(this.startTime).toISOString(),
+      robotCount: this.fleet.robots.length,
+      fleetName: this.fleet.name ?? 'custom',
+      dtSeconds: DT,
+      ambientTempC,
+      solar: { ...DEFAULT_SOLAR, ...options.solar },
+      windSolver: options.windSolver ?? parseWindSolver(process.env.WIND_SOLVER) ?? 'wake',
+      pathCost: options.pathCost ?? parsePathCost(process.env.PATH_COST) ?? 'distance',
+    };
+    // Streams frames to DATA_DIR/runs when the store keeps run files
+    this.recorder = new Recorder(this.store?.openRunFile(this.manifest) ?? null);
+
+    this.missionManager = new MissionManager(this.rng);
+    this.missionManager.onResult(result => this.store?.appendMission({ ...result, runId: this.manifest.runId }));
 
     const rawTerrain = generateTerrain(42);
     this.obstacles = rawTerrain.obstacles;
@@ -91,45 +164,54 @@ export class SwarmSimulator {
       })),
     };
 
+    this.wind = new WindField(Math.PI * 0.25, 2.0, 0.5, this.rng, this.terrain, this.manifest.windSolver);
+    this.solar = new SolarField(this.manifest.solar, this.terrain, this.rng);
+
     // Build A* navigation grid from obstacles (Task 124)
     this.navGrid = new NavGrid();
     this.navGrid.buildFromTerrain(this.obstacles);
 
-    this.robots = FLEET.map((f, i) =>
-      new Robot(i, f.size, HUB_POS, this.obstacles)
+    const sizeParams = resolveSizeParams(this.fleet);
+    this.robots = this.fleet.robots.map((f, i) =>
+      new Robot(i, f.size, HUB_POS, this.obstacles, this.rng, sizeParams[f.size], ambientTempC)
     );
 
     // Inject NavGrid into each robot for pathfinding
     for (const r of this.robots) {
       r.setNavGrid(this.navGrid);
+      r.setPathCost(this.manifest.pathCost);
     }
 
     // Set up 套娃 nesting hierarchy
-    for (let i = 0; i < FLEET.length; i++) {
-      const entry = FLEET[i];
-      if (entry.parentIdx !== null) {
-        const parent = this.robots[entry.parentIdx];
-        this.robots[i].nestInto(parent);
+    this.fleet.robots.forEach((entry, i) => {
+      if (entry.parent !== null) {
+        this.robots[i].nestInto(this.robots[entry.parent]);
       }
-    }
+    });
 
     this.robots[0].isCoordinator = true;
 
-    // Assign zones and generate patrol waypoints for all non-hub robots
+    // Assign zones and generate patrol waypoints for all non-hub robots.
+    // Parents precede children in the spec, so a parent's zone is always set first.
+    let mediumOrdinal = 0;
     this.robots.forEach((r, i) => {
       if (r.sizeClass === 'hub') {
         r.zoneId = -1;
         return;
       }
-      // Medium robots get zone 0-3, Small robots inherit parent medium's zone sub-divided
-      if (r.sizeClass === 'large') {
+      const explicitZone = this.fleet.robots[i].zone;
+      if (explicitZone !== undefined) {
+        r.zoneId = explicitZone;
+      } else if (r.sizeClass === 'large') {
         r.zoneId = 0;
       } else if (r.sizeClass === 'medium') {
-        r.zoneId = (i - 2) % 4; // medium ids 2-5 → zones 0-3
+        r.zoneId = mediumOrdinal % 4; // mediums spread over zones 0-3
       } else {
-        // Small robots: use parent medium's zone but with slight variation
-        r.zoneId = ((r.parentId ?? 2) - 2) % 6;
+        // Small robots inherit their carrier's zone
+        const parent = r.parentId !== null ? this.robots[r.parentId] : undefined;
+        r.zoneId = parent && parent.zoneId >= 0 ? parent.zoneId : 0;
       }
+      if (r.sizeClass === 'medium') mediumOrdinal++;
       r.generatePatrolWaypoints(r.zoneId % 6);
     });
   }
@@ -137,8 +219,14 @@ export class SwarmSimulator {
   step(): SwarmSnapshot {
     this.tick++;
     this.events = [];
+    for (const note of this.schedulerNotes.splice(0)) this.addEvent('overrun', note);
 
+    this.feedWind();
     this.wind.update();
+    const horizon = this.solar.update(DT);
+    if (horizon) {
+      this.addEvent('info', horizon === 'sunset' ? 'Sunset: solar harvest ends' : 'Sunrise: solar harvest resumes');
+    }
 
     // Build parent lookup for tick
     const robotMap = new Map<number, Robot>();
@@ -147,7 +235,7 @@ export class SwarmSimulator {
     // Update each robot — collect events
     for (const r of this.robots) {
       const parent = r.parentId !== null ? robotMap.get(r.parentId) : undefined;
-      const result = r.tick(this.wind, DT, parent);
+      const result = r.tick(this.wind, this.solar, DT, parent);
       if (result.event) {
         this.addEvent('info', result.event, r.id);
       }
@@ -182,7 +270,7 @@ export class SwarmSimulator {
 
     // WPT energy cascade (套娃)
     const energyFlows = computeWptFlows(this.robots);
-    applyWptCharging(this.robots, energyFlows);
+    applyWptCharging(this.robots, energyFlows, DT);
 
     // Auto-redeploy nested robots that have recharged via WPT
     for (const r of this.robots) {
@@ -191,7 +279,7 @@ export class SwarmSimulator {
         if (this.deployed && this.recallStage === 0 && this.deployStage === 0) {
           const parent = robotMap.get(r.parentId);
           if (parent && !parent.isNested) {
-            const angle = Math.random() * Math.PI * 2;
+            const angle = this.rng.next() * Math.PI * 2;
             r.unnestFrom(parent, { x: 3 * Math.cos(angle), y: 3 * Math.sin(angle) });
             r.currentWaypointIdx = r.preChargeWaypointIdx;
             if (r.patrolWaypoints.length > 0) {
@@ -206,7 +294,10 @@ export class SwarmSimulator {
     // Inter-robot collision avoidance (Task 86) — skip nested robots
     this.applyRepulsion(DT);
 
-    const bleLinks = this.computeBleLinks();
+    // Under load the mesh is refreshed every meshInterval ticks; skipped
+    // ticks still draw the RSSI noise so the PRNG stream (and with it every
+    // robot's trajectory) stays identical to a full-fidelity run
+    const bleLinks = this.tick % this.meshInterval === 0 ? this.computeBleLinks() : this.staleBleLinks();
 
     this.electCoordinator();
 
@@ -229,7 +320,7 @@ export class SwarmSimulator {
       windClass: this.wind.getState().windClass,
       formation: this.formation,
       coordinatorId: this.robots.find(r => r.isCoordinator)?.id ?? -1,
-      uptimeSeconds: (Date.now() - this.startTime) / 1000,
+      uptimeSeconds: this.simTimeMs() / 1000,
       consensus,
       hdcStats: this.getHdcStats(),
       nestingStats: {
@@ -237,6 +328,7 @@ export class SwarmSimulator {
         nested: nestedRobots.length,
         wptCharging: wptChargingRobots.length,
       },
+      ...(this.scheduler ? { scheduler: { ...this.scheduler } } : {}),
     };
 
     // Low battery warnings
@@ -264,29 +356,91 @@ export class SwarmSimulator {
 
     const snapshot: SwarmSnapshot = {
       tick: this.tick,
-      timeMs: Date.now() - this.startTime,
+      timeMs: this.simTimeMs(),
       formation: this.formation,
       robots: this.robots.map(r => r.getState()),
-      wind: this.wind.getState(),
+      wind: { ...this.wind.getState(), playback: this.windPlayer?.getState() },
+      solar: this.solar.getState(),
       bleLinks,
       events: [...this.events],
       stats,
       mission: missionState.active ? missionState : undefined,
       paths: paths.length > 0 ? paths : undefined,
       energyFlows: energyFlows.length > 0 ? energyFlows : undefined,
+      clock: this.getClock(),
     };
 
-    this.recorder.record(snapshot, missionState.active ? missionState : null);
+    const forkPoint = this.forkPointDue || this.tick % FORK_POINT_INTERVAL === 0;
+    this.forkPointDue = false;
+    this.recorder.record(snapshot, missionState.active ? missionState : null, forkPoint ? this.toCheckpoint() : undefined);
 
     return snapshot;
   }
 
+  // ── Time control ──────────────────────────────────────────
+  // The simulator never schedules itself; SimLoop reads these to pace step().
+
+  pause(): void {
+    if (this.paused) return;
+    this.paused = true;
+    this.addEvent('info', 'Simulation paused');
+  }
+
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    this.addEvent('info', 'Simulation resumed');
+  }
+
+  setSpeed(speed: number): void {
+    this.speed = Math.max(MIN_SIM_SPEED, Math.min(MAX_SIM_SPEED, speed));
+    this.addEvent('info', `Simulation speed → ${this.speed}×`);
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  getTick(): number {
+    return this.tick;
+  }
+
+  getClock(): SimClock {
+    return {
+      simTimeMs: this.simTimeMs(),
+      wallTimeMs: Date.now() - this.startTime,
+      speed: this.speed,
+      paused: this.paused,
+    };
+  }
+
+  // ── Real-time scheduling feedback (SimLoop) ───────────────
+
+  /** Refresh BLE links every N ticks and consensus every 10·N (1 = full fidelity) */
+  setMeshInterval(ticks: number): void {
+    this.meshInterval = Math.max(1, Math.floor(ticks));
+  }
+
+  getMeshInterval(): number {
+    return this.meshInterval;
+  }
+
+  /** Scheduler health for the next snapshots' stats; an overrun note becomes an event of the next tick */
+  reportScheduler(stats: SchedulerStats, overrun?: string): void {
+    this.scheduler = stats;
+    if (overrun) this.schedulerNotes.push(overrun);
+  }
+
   // ── Commands ──────────────────────────────────────────────
 
   deploy(): void {
     if (this.deployed) return;
     this.deployed = true;
-    this.deployStage = 1;
+    this.deployStage = 0;
     this.deployTriggerTick = this.tick;
     this.recallStage = 0;
 
@@ -295,21 +449,8 @@ export class SwarmSimulator {
     hub.phase = 'patrol';
     hub.targetPosition = { ...HUB_POS };
 
-    // Stage 1: Deploy Large from Hub
-    this.addEvent('deploy', 'Stage 1/3: Large deploying from Hub');
-    const large = this.robots.find(r => r.sizeClass === 'large' && r.isNested);
-    if (large) {
-      const hubBot = this.robots.find(r => r.sizeClass === 'hub');
-      if (hubBot) {
-        large.unnestFrom(hubBot, { x: 3, y: 0 });
-        // Deploy Large to center area
-        if (large.patrolWaypoints.length > 0) {
-          large.targetPosition = { ...large.patrolWaypoints[0] };
-        } else {
-          large.targetPosition = { x: 60, y: 40 };
-        }
-      }
-    }
+    // Stage 1: first tier deploys from the Hub; deeper tiers follow in tickCascadeDeploy
+    this.releaseDeployStage(1);
 
     this.formation = 'scatter';
   }
@@ -319,137 +460,129 @@ export class SwarmSimulator {
     if (this.deployStage === 0) return;
     const elapsed = this.tick - this.deployTriggerTick;
 
-    // Stage 2: Deploy Medium from Large (after 30 ticks)
-    if (this.deployStage === 1 && elapsed >= 30) {
-      this.deployStage = 2;
-      this.addEvent('deploy', 'Stage 2/3: Medium deploying from Large');
-
-      const large = this.robots.find(r => r.sizeClass === 'large');
-      if (!large) return;
-
-      const mediums = this.robots.filter(r => r.sizeClass === 'medium' && r.isNested);
-      const offsets = [{ x: -5, y: -5 }, { x: 5, y: -5 }, { x: -5, y: 5 }, { x: 5, y: 5 }];
-      mediums.forEach((m, i) => {
-        m.unnestFrom(large, offsets[i % offsets.length]);
-        if (m.patrolWaypoints.length > 0) {
-          m.currentWaypointIdx = 0;
-          m.targetPosition = { ...m.patrolWaypoints[0] };
-        }
-      });
-    }
-
-    // Stage 3: Deploy Small from Medium (after 60 ticks)
-    if (this.deployStage === 2 && elapsed >= 60) {
-      this.deployStage = 3;
-      this.addEvent('deploy', 'Stage 3/3: Small deploying from Medium');
-
-      const mediums = this.robots.filter(r => r.sizeClass === 'medium');
-      for (const med of mediums) {
-        const smalls = this.robots.filter(r => r.sizeClass === 'small' && r.parentId === med.id && r.isNested);
-        const smallOffsets = [{ x: -2, y: -2 }, { x: 2, y: -2 }, { x: -2, y: 2 }, { x: 2, y: 2 }];
-        smalls.forEach((s, i) => {
-          s.unnestFrom(med, smallOffsets[i % smallOffsets.length]);
-          if (s.patrolWaypoints.length > 0) {
-            s.currentWaypointIdx = 0;
-            s.targetPosition = { ...s.patrolWaypoints[0] };
-          }
-        });
-      }
+    // Stage k+1 releases DEPLOY_STAGE_TICKS after stage k
+    if (this.deployStage < this.maxDepth && elapsed >= this.deployStage * DEPLOY_STAGE_TICKS) {
+      this.releaseDeployStage(this.deployStage + 1);
     }
 
     // Check if all robots deployed — mark stage complete
-    if (this.deployStage === 3) {
+    if (this.deployStage === this.maxDepth) {
       const allDeployed = this.robots.every(r => !r.isNested || r.sizeClass === 'hub');
       if (allDeployed) {
         this.deployStage = 0;
-        this.addEvent('deploy', 'Cascade deployment complete — all 21 robots active');
+        this.addEvent('deploy', `Cascade deployment complete — all ${this.robots.length - 1} robots active`);
       }
     }
   }
 
+  /** Unnest every robot at the given depth from its carrier and send it to patrol */
+  private releaseDeployStage(depth: number): void {
+    if (depth > this.maxDepth) {
+      this.deployStage = 0; // hub-only fleet: nothing to release
+      return;
+    }
+    this.deployStage = depth;
+
+    const tier = this.robotsAtDepth(depth);
+    this.addEvent('deploy', `Stage ${depth}/${this.maxDepth}: ${this.describeTier(tier)} deploying from ${this.describeTier(this.parentsOf(tier))}`);
+
+    const siblingIdx = new Map<number, number>();
+    for (const r of tier) {
+      if (!r.isNested || r.parentId === null) continue;
+      const parent = this.robots[r.parentId];
+      const idx = siblingIdx.get(parent.id) ?? 0;
+      siblingIdx.set(parent.id, idx + 1);
+
+      const offsets = DEPLOY_OFFSETS[r.sizeClass];
+      r.unnestFrom(parent, offsets[idx % offsets.length]);
+      r.currentWaypointIdx = 0;
+      r.targetPosition = r.patrolWaypoints.length > 0
+        ? { ...r.patrolWaypoints[0] }
+        : { x: 60, y: 40 };
+    }
+  }
+
   recall(): void {
     this.addEvent('recall', 'Cascade recall initiated');
     this.deployed = false;
     this.deployStage = 0;
-    this.recallStage = 1;
 
-    // Stage 1: All Small return to their Medium parent
-    this.addEvent('recall', 'Stage 1/3: Small returning to Medium');
-    for (const r of this.robots) {
-      if (r.sizeClass === 'small' && !r.isNested && r.parentId !== null) {
-        const parent = this.robots.find(p => p.id === r.parentId);
-        if (parent) r.returnToParent(parent);
-      }
-    }
+    // Stage 1: deepest tier returns to its carriers
+    this.beginRecallStage(1);
   }
 
   /** Cascade recall tick — advances stages as nesting completes */
   private tickCascadeRecall(): void {
     if (this.recallStage === 0) return;
 
-    // Stage 1→2: All small nested? → Medium returns to Large
-    if (this.recallStage === 1) {
-      const smallsOut = this.robots.filter(r => r.sizeClass === 'small' && !r.isNested);
-      // Force-nest stuck smalls after 200 ticks
-      for (const s of smallsOut) {
-        if (s.phase === 'returning-to-parent' && s.parentId !== null) {
-          const parent = this.robots.find(p => p.id === s.parentId);
-          if (parent && s.tickCount > 200) {
-            s.nestInto(parent);
-          }
-        }
-      }
-      if (smallsOut.length === 0) {
-        this.recallStage = 2;
-        this.addEvent('recall', 'Stage 2/3: Medium returning to Large');
-        for (const r of this.robots) {
-          if (r.sizeClass === 'medium' && !r.isNested && r.parentId !== null) {
-            const parent = this.robots.find(p => p.id === r.parentId);
-            if (parent) r.returnToParent(parent);
-          }
-        }
-      }
-    }
+    const depth = this.maxDepth - this.recallStage + 1;
+    const out = this.robotsAtDepth(depth).filter(r => !r.isNested);
 
-    // Stage 2→3: All medium nested? → Large returns to Hub
-    if (this.recallStage === 2) {
-      const medOut = this.robots.filter(r => r.sizeClass === 'medium' && !r.isNested);
-      for (const m of medOut) {
-        if (m.phase === 'returning-to-parent' && m.parentId !== null) {
-          const parent = this.robots.find(p => p.id === m.parentId);
-          if (parent && m.tickCount > 200) {
-            m.nestInto(parent);
-          }
+    if (depth > 1) {
+      // Force-nest stuck robots after RECALL_FORCE_NEST_TICKS
+      for (const r of out) {
+        if (r.phase === 'returning-to-parent' && r.parentId !== null && r.tickCount > RECALL_FORCE_NEST_TICKS) {
+          r.nestInto(this.robots[r.parentId]);
         }
       }
-      if (medOut.length === 0) {
-        this.recallStage = 3;
-        this.addEvent('recall', 'Stage 3/3: Large returning to Hub');
-        for (const r of this.robots) {
-          if (r.sizeClass === 'large' && !r.isNested) {
-            r.phase = 'returning';
-            r.targetPosition = { ...HUB_POS };
-          }
+    } else {
+      // First tier lands at the hub → nest into hub
+      for (const r of out) {
+        if ((r.phase === 'landed' || r.phase === 'charging') && r.parentId !== null) {
+          r.nestInto(this.robots[r.parentId]);
         }
       }
     }
 
-    // Stage 3: Large at hub → nest into hub
-    if (this.recallStage === 3) {
-      const largeOut = this.robots.filter(r => r.sizeClass === 'large' && !r.isNested);
-      for (const l of largeOut) {
-        if (l.phase === 'landed' || l.phase === 'charging') {
-          const hub = this.robots.find(p => p.sizeClass === 'hub');
-          if (hub) l.nestInto(hub);
-        }
-      }
-      if (largeOut.length === 0) {
+    if (out.length === 0) {
+      if (this.recallStage >= this.maxDepth) {
         this.recallStage = 0;
         this.addEvent('recall', 'Cascade recall complete — all robots nested');
+      } else {
+        this.beginRecallStage(this.recallStage + 1);
       }
     }
   }
 
+  /** Send the tier for the given recall stage back to its carriers */
+  private beginRecallStage(stage: number): void {
+    this.recallStage = stage;
+    const depth = this.maxDepth - stage + 1;
+    if (depth < 1) {
+      this.recallStage = 0;
+      return;
+    }
+
+    const tier = this.robotsAtDepth(depth);
+    this.addEvent('recall', `Stage ${stage}/${this.maxDepth}: ${this.describeTier(tier)} returning to ${this.describeTier(this.parentsOf(tier))}`);
+
+    for (const r of tier) {
+      if (r.isNested || r.parentId === null) continue;
+      if (depth > 1) {
+        r.returnToParent(this.robots[r.parentId]);
+      } else {
+        // First tier flies home to the hub and nests once landed
+        r.phase = 'returning';
+        r.targetPosition = { ...HUB_POS };
+      }
+    }
+  }
+
+  private robotsAtDepth(depth: number): Robot[] {
+    return this.robots.filter((_, i) => this.depths[i] === depth);
+  }
+
+  private parentsOf(tier: Robot[]): Robot[] {
+    const ids = new Set(tier.map(r => r.parentId).filter((id): id is number => id !== null));
+    return this.robots.filter(r => ids.has(r.id));
+  }
+
+  /** Human-readable size classes in a tier, e.g. "Medium" or "Medium/Small" */
+  private describeTier(tier: Robot[]): string {
+    const sizes = [...new Set(tier.map(r => r.sizeClass))];
+    return sizes.map(sz => sz[0].toUpperCase() + sz.slice(1)).join('/') || 'none';
+  }
+
   setFormation(type: Formation): void {
     this.formation = type;
     this.addEvent('formation', `Formation → ${type}`);
@@ -479,14 +612,58 @@ export class SwarmSimulator {
     r.powerMode = mode as any;
   }
 
-  triggerGust(): void {
-    this.wind.triggerGust();
-    this.addEvent('wind_change', 'Gust event triggered!');
+  /** Jump the day clock and/or change the mean cloud cover */
+  setSolar(hour?: number, cloudCover?: number): void {
+    this.solar.set(hour, cloudCover);
+    const { hour: h, cloudCover: c } = this.solar.getState();
+    this.addEvent('info', `Sky set to ${formatHour(h)}, ${Math.round(c * 100)}% cloud`);
+  }
+
+  triggerGust(spec: GustSpec = {}): GustState {
+    const gust = this.wind.triggerGust(spec);
+    this.addEvent('wind_change', spec.center
+      ? `Gust event triggered at (${spec.center.x.toFixed(0)}, ${spec.center.y.toFixed(0)})!`
+      : 'Gust event triggered!');
+    return gust;
+  }
+
+  /** Calm one gust by id, or every gust */
+  clearGusts(id?: number): boolean {
+    const cleared = this.wind.stopGust(id);
+    if (cleared) this.addEvent('wind_change', id === undefined ? 'Gusts calmed' : `Gust ${id} calmed`);
+    return cleared;
+  }
+
+  /**
+   * Replay an imported anemometer log (wind-log.ts) in place of the
+   * synthetic wind, from this simulator's logs or the store.
+   */
+  playWindLog(logId: string, options: WindPlaybackOptions = {}): WindPlayback {
+    const log = this.windLogs.get(logId) ?? this.store?.getWindLog(logId);
+    if (!log) throw new Error(`Wind log not found: ${logId}`);
+    this.windLogs.set(log.id, log);
+    this.windPlayer = new WindLogPlayer(log, options);
+    const { timeScale } = this.windPlayer.getState();
+    this.addEvent('wind_change', `Replaying wind log "${log.name}" at ${timeScale}×`);
+    return this.windPlayer.getState();
+  }
+
+  /** Stop the replaying log; serial reports or the synthetic drift take over */
+  stopWindLog(): boolean {
+    if (!this.windPlayer) return false;
+    this.addEvent('wind_change', `Wind log "${this.windPlayer.log.name}" stopped`);
+    this.windPlayer = null;
+    return true;
+  }
+
+  /** Live anemometer reading from a robot (serial WindReport), measured where the robot is */
+  reportWind(report: ProtoWindReport): void {
+    const r = this.robots.find(rb => rb.id === report.robotId);
+    if (!r) throw new Error(`Robot ${report.robotId} not found`);
+    this.windReports.set(r.id, { tick: this.tick, observation: reportObservation(report, r.position) });
   }
 
-  injectJamming(): void {
-    const jammingCenter: Vec2 = { x: 85, y: 35 };
-    const range = 25;
+  injectJamming(jammingCenter: Vec2 = { x: 85, y: 35 }, range = 25): void {
     let jammed = 0;
     for (const r of this.robots) {
       const dx = r.position.x - jammingCenter.x;
@@ -505,7 +682,7 @@ export class SwarmSimulator {
   }
 
   injectNodeFailure(robotId?: number): void {
-    const target = robotId ?? Math.floor(1 + Math.random() * (this.robots.length - 1));
+    const target = robotId ?? this.rng.int(1, this.robots.length);
     const r = this.robots[target];
     if (r && r.sizeClass !== 'hub') {
       r.isOnline = false;
@@ -524,7 +701,7 @@ export class SwarmSimulator {
   }
 
   injectByzantine(robotId?: number): void {
-    const target = robotId ?? Math.floor(1 + Math.random() * (this.robots.length - 1));
+    const target = robotId ?? this.rng.int(1, this.robots.length);
     const r = this.robots[target];
     if (r && r.sizeClass !== 'hub') {
       r.isByzantine = true;
@@ -558,8 +735,8 @@ export class SwarmSimulator {
     return this.missionManager.getHistory();
   }
 
-  getReplayRange(fromTick: number, toTick: number): RecordedFrame[] {
-    return this.recorder.getRange(fromTick, toTick);
+  getReplayRange(fromTick: number, toTick: number): ReplayFrame[] {
+    return this.recorder.getRange(fromTick, toTick).map(withoutCheckpoint);
   }
 
   getReplayInfo() {
@@ -570,18 +747,209 @@ export class SwarmSimulator {
     return [...this.eventHistory];
   }
 
+  /** Running HDC classification accuracy during missions (Task 91) */
+  getHdcStats(): HdcStats {
+    const acc = this.hdcTotalInferences > 0
+      ? this.hdcCorrectClassifications / this.hdcTotalInferences
+      : 0;
+    return {
+      totalInferences: this.hdcTotalInferences,
+      correctClassifications: this.hdcCorrectClassifications,
+      runningAccuracy: Number.isFinite(acc) ? acc : 0,
+      perSpecies: this.hdcPerSpecies.map((s, i) => ({
+        species: SPECIES_NAMES[i],
+        correct: s.correct,
+        total: s.total,
+      })),
+    };
+  }
+
+  /**
+   * Persist the recording as a run. Called on fleet swap and shutdown;
+   * saving the same run again overwrites it. A streamed recording is
+   * already on disk, so only its buffered tail and summary are written.
+   */
+  archiveRun(): RunSummary | null {
+    if (!this.store) return null;
+    const summary: RunSummary = {
+      runId: this.manifest.runId,
+      manifest: this.getManifest(),
+      endedAt: Date.now(),
+      ticks: this.tick,
+      frameCount: 0,
+    };
+    if (this.recorder.isStreaming) {
+      this.recorder.flush();
+      summary.frameCount = this.recorder.getInfo().totalRecorded;
+      this.store.finishRun(summary);
+    } else {
+      const frames = this.recorder.getAll();
+      summary.frameCount = frames.length;
+      this.store.saveRun({ ...summary, frames });
+    }
+    return summary;
+  }
+
+  /** Capture the complete resumable state (see checkpoint.ts) */
+  toCheckpoint(label?: string): SimCheckpoint {
+    return {
+      version: CHECKPOINT_VERSION,
+      id: `${this.manifest.runId}-t${this.tick}`,
+      label,
+      createdAt: new Date().toISOString(),
+      runId: this.manifest.runId,
+      tick: this.tick,
+      manifest: this.getManifest(),
+      fleet: this.fleet,
+      rngState: this.rng.getState(),
+      simulator: {
+        tick: this.tick,
+        speed: this.speed,
+        paused: this.paused,
+        formation: this.formation,
+        deployed: this.deployed,
+        deployStage: this.deployStage,
+        deployTriggerTick: this.deployTriggerTick,
+        recallStage: this.recallStage,
+        eventHistory: this.eventHistory.map(e => ({ ...e })),
+        hdcTotalInferences: this.hdcTotalInferences,
+        hdcCorrectClassifications: this.hdcCorrectClassifications,
+        hdcPerSpecies: this.hdcPerSpecies.map(s => ({ ...s })),
+        meshInterval: this.meshInterval,
+        lastBleLinks: this.lastBleLinks.map(l => ({ ...l })),
+        schedulerNotes: [...this.schedulerNotes],
+      },
+      robots: this.robots.map(r => r.toCheckpoint()),
+      wind: this.wind.toCheckpoint(),
+      solar: this.solar.toCheckpoint(),
+      mission: this.missionManager.toCheckpoint(),
+      windFeed: {
+        playback: this.windPlayer?.toCheckpoint() ?? null,
+        reports: [...this.windReports].map(([robotId, r]) => ({ robotId, tick: r.tick, observation: { ...r.observation } })),
+      },
+    };
+  }
+
+  /**
+   * Rebuild a simulator from a checkpoint. The restored simulator starts a
+   * new run (fresh runId, manifest.restoredFrom = checkpoint id) that
+   * continues tick-for-tick from the checkpointed state. A replaying wind
+   * log is looked up in `windLogs`, then the store.
+   */
+  static fromCheckpoint(
+    cp: SimCheckpoint,
+    options: Pick<SimulatorOptions, 'store'> & { windLogs?: ReadonlyMap<string, WindLog> } = {},
+  ): SwarmSimulator {
+    if (cp.version !== CHECKPOINT_VERSION) {
+      throw new Error(`Unsupported checkpoint version ${cp.version} (expected ${CHECKPOINT_VERSION})`);
+    }
+    if (cp.robots.length !== cp.fleet.robots.length) {
+      throw new Error(`Checkpoint has ${cp.robots.length} robots but its fleet lists ${cp.fleet.robots.length}`);
+    }
+
+    const sim = new SwarmSimulator({
+      seed: cp.manifest.seed, fleet: cp.fleet, store: options.store,
+      ambientTempC: cp.manifest.ambientTempC, solar: cp.manifest.solar,
+      windSolver: cp.manifest.windSolver, pathCost: cp.manifest.pathCost,
+    });
+    sim.manifest.restoredFrom = cp.id;
+    sim.rng.setState(cp.rngState);
+    cp.robots.forEach((r, i) => sim.robots[i].restoreCheckpoint(r));
+    sim.wind.restoreCheckpoint(cp.wind);
+    sim.solar.restoreCheckpoint(cp.solar);
+    sim.missionManager.restoreCheckpoint(cp.mission);
+
+    const { playback, reports } = cp.windFeed;
+    if (playback) {
+      const log = options.windLogs?.get(playback.logId) ?? options.store?.getWindLog(playback.logId);
+      if (!log) throw new Error(`Checkpoint replays wind log ${playback.logId}, which is not in the store`);
+      sim.windLogs.set(log.id, log);
+      sim.windPlayer = WindLogPlayer.fromCheckpoint(log, playback);
+    }
+    sim.windReports = new Map(reports.map(r => [r.robotId, { tick: r.tick, observation: { ...r.observation } }]));
+
+    const s = cp.simulator;
+    sim.tick = s.tick;
+    sim.speed = s.speed;
+    sim.paused = s.paused;
+    sim.formation = s.formation;
+    sim.deployed = s.deployed;
+    sim.deployStage = s.deployStage;
+    sim.deployTriggerTick = s.deployTriggerTick;
+    sim.recallStage = s.recallStage;
+    sim.eventHistory = s.eventHistory.map(e => ({ ...e }));
+    sim.hdcTotalInferences = s.hdcTotalInferences;
+    sim.hdcCorrectClassifications = s.hdcCorrectClassifications;
+    sim.hdcPerSpecies = s.hdcPerSpecies.map(h => ({ ...h }));
+    sim.meshInterval = s.meshInterval;
+    sim.lastBleLinks = s.lastBleLinks.map(l => ({ ...l }));
+    sim.schedulerNotes = [...s.schedulerNotes];
+    return sim;
+  }
+
+  /**
+   * Give the next recorded frame a checkpoint. Called after every command,
+   * so re-simulating from the latest fork point never skips one.
+   */
+  markForkPoint(): void {
+    this.forkPointDue = true;
+  }
+
+  /**
+   * Branch a new run from a recorded tick: restore the latest fork point
+   * at or before `tick` and re-simulate up to it. The fork has its own
+   * runId and manifest.forkedFrom; this simulator is left untouched.
+   */
+  forkAt(tick: number, options: Pick<SimulatorOptions, 'store'> = {}): SwarmSimulator {
+    if (tick > this.tick) throw new Error(`Tick ${tick} has not been simulated yet (now ${this.tick})`);
+    const frames = this.recorder.getRange(Math.max(0, tick - FORK_POINT_INTERVAL), tick);
+    const forkPoint = frames.reverse().find(f => f.checkpoint)?.checkpoint;
+    if (!forkPoint) throw new Error(`No fork point recorded at or before tick ${tick}`);
+
+    const fork = SwarmSimulator.fromCheckpoint(forkPoint, { ...options, windLogs: this.windLogs });
+    while (fork.tick < tick) fork.step();
+    fork.manifest.forkedFrom = { runId: this.manifest.runId, tick };
+    return fork;
+  }
+
+  /** Run manifest: everything needed to reproduce this run (seed, fleet size, dt) */
+  getManifest(): RunManifest {
+    return { ...this.manifest };
+  }
+
   // ── Private ───────────────────────────────────────────────
 
+  /** Hand the wind field this tick's observations: log playback plus fresh serial reports */
+  private feedWind(): void {
+    for (const [robotId, r] of this.windReports) {
+      if (this.tick - r.tick > WIND_REPORT_TTL_TICKS) this.windReports.delete(robotId);
+    }
+    if (this.windPlayer && !this.windPlayer.advance(DT)) {
+      this.addEvent('wind_change', `Wind log "${this.windPlayer.log.name}" ended`);
+      this.windPlayer = null;
+    }
+    const observations = [
+      ...(this.windPlayer?.observations() ?? []),
+      ...[...this.windReports.values()].map(r => r.observation),
+    ];
+    this.wind.drive(observations.length > 0 ? observations : null, this.windPlayer ? 'log' : 'serial');
+  }
+
+  private simTimeMs(): number {
+    return this.tick * SIM_STEP_MS;
+  }
+
   private addEvent(type: SwarmEvent['type'], message: string, robotId?: number): void {
     const evt: SwarmEvent = {
       tick: this.tick,
-      timeMs: Date.now() - this.startTime,
+      timeMs: this.simTimeMs(),
       type,
       message,
       robotId,
     };
     this.events.push(evt);
     this.eventHistory.push(evt);
+    this.store?.appendEvent({ ...evt, runId: this.manifest.runId, recordedAt: Date.now() });
     if (this.eventHistory.length > 200) {
       this.eventHistory = this.eventHistory.slice(-200);
     }
@@ -641,8 +1009,8 @@ export class SwarmSimulator {
 
   /** Compute swarm consensus from BLE-connected robots (Task 87) */
   private computeConsensus(bleLinks: BleLink[]): SwarmConsensus | undefined {
-    // Only compute every 10 ticks
-    if (this.tick % 10 !== 0) return undefined;
+    // Only compute every 10 ticks (every 10 mesh refreshes under load)
+    if (this.tick % (10 * this.meshInterval) !== 0) return undefined;
 
     const onlineRobots = this.robots.filter(r => r.isOnline && !r.isJammed && !r.isByzantine);
     if (onlineRobots.length < 2) return undefined;
@@ -722,22 +1090,6 @@ export class SwarmSimulator {
     }
   }
 
-  private getHdcStats(): HdcStats {
-    const acc = this.hdcTotalInferences > 0
-      ? this.hdcCorrectClassifications / this.hdcTotalInferences
-      : 0;
-    return {
-      totalInferences: this.hdcTotalInferences,
-      correctClassifications: this.hdcCorrectClassifications,
-      runningAccuracy: Number.isFinite(acc) ? acc : 0,
-      perSpecies: this.hdcPerSpecies.map((s, i) => ({
-        species: SPECIES_NAMES[i],
-        correct: s.correct,
-        total: s.total,
-      })),
-    };
-  }
-
   private autoAssignTargets(targets: MissionTarget[]): void {
     const activeTargets = targets.filter(t => t.status === 'active' || t.status === 'detected');
     if (activeTargets.length === 0) return;
@@ -784,13 +1136,6 @@ export class SwarmSimulator {
 
   /* ─── BLE Channel Model: Log-distance path loss + obstacle shadow fading ── */
 
-  /** Gaussian random (Box-Muller) for RSSI noise */
-  private gaussRandom(sigma: number): number {
-    const u1 = Math.random() || 1e-10;
-    const u2 = Math.random();
-    return sigma * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
-  }
-
   /** Test if line segment (x1,y1)→(x2,y2) intersects axis-aligned obstacle box */
   private lineIntersectsObstacle(
     x1: number, y1: number, x2: number, y2: number, o: Obstacle
@@ -832,7 +1177,17 @@ export class SwarmSimulator {
     return true;
   }
 
-  private computeBleLinks(): BleLink[] {
+  /**
+   * Previous links minus robots that dropped off the mesh, after drawing
+   * the noise samples computeBleLinks() would have drawn.
+   */
+  private staleBleLinks(): BleLink[] {
+    this.computeBleLinks(true);
+    const onMesh = new Set(this.robots.filter(r => r.isOnline && !r.isJammed && !r.isNested).map(r => r.id));
+    return this.lastBleLinks.filter(l => onMesh.has(l.fromId) && onMesh.has(l.toId));
+  }
+
+  private computeBleLinks(noiseOnly = false): BleLink[] {
     const RSSI_D0 = -40;     // RSSI at 1 meter reference distance
     const PATH_LOSS_N = 2.5; // Path loss exponent (indoor/outdoor mix)
     const NOISE_SIGMA = 4;   // Gaussian noise standard deviation (dBm)
@@ -854,7 +1209,9 @@ export class SwarmSimulator {
         if (dist < 0.1) continue; // Same position
 
         // Log-distance path loss: RSSI = RSSI_d0 - 10*n*log10(d/d0) + noise
-        let rssi = RSSI_D0 - 10 * PATH_LOSS_N * Math.log10(dist) + this.gaussRandom(NOISE_SIGMA);
+        const noise = this.rng.gauss(NOISE_SIGMA);
+        if (noiseOnly) continue;
+        let rssi = RSSI_D0 - 10 * PATH_LOSS_N * Math.log10(dist) + noise;
 
         // Obstacle shadow fading: each intersected obstacle adds attenuation
         for (const obs of this.obstacles) {
@@ -868,16 +1225,14 @@ export class SwarmSimulator {
         if (pLoss > 0.7) continue; // Too unreliable, drop link
 
         // Clamp to range check (physical BLE range limit still applies)
-        const maxRange = Math.min(
-          SIZE_PARAMS[a.sizeClass].bleRange,
-          SIZE_PARAMS[b.sizeClass].bleRange
-        );
+        const maxRange = Math.min(a.params.bleRange, b.params.bleRange);
         if (dist > maxRange) continue;
 
         const quality = rssi > -50 ? 'strong' : rssi > -70 ? 'ok' : 'weak';
         links.push({ fromId: a.id, toId: b.id, rssi, quality });
       }
     }
+    if (!noiseOnly) this.lastBleLinks = links;
     return links;
   }
 
@@ -931,8 +1286,8 @@ export class SwarmSimulator {
       }
       case 'cluster': {
         nonHub.forEach((r, i) => {
-          const angle = (i / count) * Math.PI * 2 + Math.random() * 0.3;
-          const dist = 8 + Math.random() * 10;
+          const angle = (i / count) * Math.PI * 2 + this.rng.next() * 0.3;
+          const dist = 8 + this.rng.next() * 10;
           positions[r.id] = {
             x: cx + dist * Math.cos(angle),
             y: cy + dist * Math.sin(angle),
@@ -943,7 +1298,7 @@ export class SwarmSimulator {
       default: {
         nonHub.forEach((r, i) => {
           const angle = (i / count) * Math.PI * 2;
-          const dist = 15 + Math.random() * 20;
+          const dist = 15 + this.rng.next() * 20;
           positions[r.id] = {
             x: cx + dist * Math.cos(angle),
             y: cy + dist * Math.sin(angle),
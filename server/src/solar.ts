@@ -0,0 +1,214 @@
+/**
+ * solar.ts — Time of day, sun position, irradiance and cast shadows
+ *
+ * The simulated day advances with the physics clock (dtSeconds per tick,
+ * the same seconds battery.ts integrates), so a multi-hour mission runs
+ * through dusk and the night drains the fleet. The sun's elevation and
+ * azimuth follow the site latitude and day of year; global horizontal
+ * irradiance is the Haurwitz clear-sky curve, reduced by cloud cover
+ * (Kasten–Czeplak) that drifts around the configured mean.
+ *
+ * Shadows are cast along the sun vector: a robot flying 1.5 m above the
+ * ground is in shade when the ray toward the sun passes below the top of
+ * an obstacle or a hill in the height map. Trees let some light through.
+ * Shade removes the direct beam only; the diffuse sky share remains and
+ * grows with the clouds.
+ *
+ * Map orientation: +x is east, +y (terrain z) is south, as drawn.
+ */
+
+import type { SolarState, SolarSettings } from './types';
+import { terrainHeightAt, type TerrainData } from './terrain';
+import type { Prng } from './rng';
+
+export const DEFAULT_SOLAR: SolarSettings = {
+  latitudeDeg: 35,
+  dayOfYear: 172,     // June solstice
+  startHour: 10,
+  cloudCover: 0.3,
+};
+
+export const FLIGHT_ALTITUDE_M = 1.5;          // matches the console's drone height
+const GROUND_PANEL_M = 0.3;                    // landed / docked robots
+const SHADOW_RANGE_M = 60;                     // farthest terrain considered for hill shade
+const SHADOW_STEP_M = 2;                       // height-map sample spacing
+const TREE_TRANSMITTANCE = 0.4;
+const CLOUD_REVERSION_S = 600;                 // cloud cover relaxes to its mean over ~10 min
+const CLOUD_NOISE = 0.02;                      // per √s
+
+const DEG = Math.PI / 180;
+
+/** Full solar state (see checkpoint.ts) */
+export interface SolarCheckpoint {
+  settings: SolarSettings;
+  secondsOfDay: number;
+  dayOfYear: number;
+  cloudCover: number;
+}
+
+export class SolarField {
+  private settings: SolarSettings;
+  private secondsOfDay: number;
+  private dayOfYear: number;
+  private cloudCover: number;
+  private readonly random: () => number;
+
+  // Sun for the current tick (recomputed in update)
+  private elevation = 0;
+  private azimuth = 0;
+  private irradiance = 0;
+
+  constructor(settings: SolarSettings = DEFAULT_SOLAR, private readonly terrain?: TerrainData, rng?: Prng) {
+    this.settings = { ...settings };
+    this.secondsOfDay = settings.startHour * 3600;
+    this.dayOfYear = settings.dayOfYear;
+    this.cloudCover = settings.cloudCover;
+    this.random = rng ? () => rng.next() : Math.random;
+    this.computeSun();
+  }
+
+  /** Advance the clock by `dt` simulated seconds and drift the clouds; reports the sun crossing the horizon */
+  update(dt: number): 'sunrise' | 'sunset' | null {
+    const wasUp = this.elevation > 0;
+    this.secondsOfDay += dt;
+    if (this.secondsOfDay >= 86400) {
+      this.secondsOfDay -= 86400;
+      this.dayOfYear = this.dayOfYear % 365 + 1;
+    }
+    const drift = (this.settings.cloudCover - this.cloudCover) * dt / CLOUD_REVERSION_S;
+    const noise = (this.random() - 0.5) * CLOUD_NOISE * Math.sqrt(dt);
+    this.cloudCover = clamp01(this.cloudCover + drift + noise);
+    this.computeSun();
+    if (wasUp === this.elevation > 0) return null;
+    return wasUp ? 'sunset' : 'sunrise';
+  }
+
+  /** Jump to an hour of the day and/or change the mean cloud cover (cmd/solar) */
+  set(hour?: number, cloudCover?: number): void {
+    if (hour !== undefined) this.secondsOfDay = hour * 3600;
+    if (cloudCover !== undefined) {
+      this.settings = { ...this.settings, cloudCover };
+      this.cloudCover = cloudCover;
+    }
+    this.computeSun();
+  }
+
+  getState(): SolarState {
+    return {
+      hour: this.secondsOfDay / 3600,
+      dayOfYear: this.dayOfYear,
+      elevationDeg: this.elevation / DEG,
+      azimuthDeg: this.azimuth / DEG,
+      irradianceWm2: this.irradiance,
+      cloudCover: this.cloudCover,
+    };
+  }
+
+  /**
+   * Irradiance reaching a horizontal panel at map point (x, y), W/m²:
+   * the diffuse share everywhere, the direct beam only where the sun is
+   * not blocked.
+   */
+  irradianceAt(x: number, y: number, airborne: boolean): number {
+    if (this.irradiance <= 0) return 0;
+    const diffuse = 0.15 + 0.85 * this.cloudCover * this.cloudCover;
+    return this.irradiance * (diffuse + (1 - diffuse) * this.sunlitFraction(x, y, airborne));
+  }
+
+  /** Share of the direct beam reaching (x, y): 1 in full sun, 0 in full shade */
+  sunlitFraction(x: number, y: number, airborne: boolean): number {
+    if (this.elevation <= 0) return 0;
+    if (!this.terrain) return 1;
+    const ground = terrainHeightAt(this.terrain, x, y);
+    const z0 = ground + (airborne ? FLIGHT_ALTITUDE_M : GROUND_PANEL_M);
+    const tanEl = Math.tan(this.elevation);
+    // Horizontal direction toward the sun (azimuth clockwise from north = −y)
+    const dx = Math.sin(this.azimuth);
+    const dy = -Math.cos(this.azimuth);
+
+    let lit = 1;
+    for (const o of this.terrain.obstacles) {
+      const t = rayBoxEntry(x, y, dx, dy, o.x - o.width / 2, o.z - o.depth / 2, o.x + o.width / 2, o.z + o.depth / 2);
+      if (t === null) continue;
+      const top = terrainHeightAt(this.terrain, o.x, o.z) + o.height;
+      if (z0 + t * tanEl < top) {
+        if (o.type !== 'tree') return 0;
+        lit *= TREE_TRANSMITTANCE;
+      }
+    }
+
+    // Hills: march the height map toward the sun
+    for (let t = SHADOW_STEP_M; t <= SHADOW_RANGE_M; t += SHADOW_STEP_M) {
+      const rayZ = z0 + t * tanEl;
+      if (rayZ > this.terrain.maxHeight) break;
+      const sx = x + dx * t;
+      const sy = y + dy * t;
+      if (sx < 0 || sy < 0 || sx > (this.terrain.cols - 1) * 2 || sy > (this.terrain.rows - 1) * 2) break;
+      if (terrainHeightAt(this.terrain, sx, sy) > rayZ) return 0;
+    }
+    return lit;
+  }
+
+  toCheckpoint(): SolarCheckpoint {
+    return {
+      settings: { ...this.settings },
+      secondsOfDay: this.secondsOfDay,
+      dayOfYear: this.dayOfYear,
+      cloudCover: this.cloudCover,
+    };
+  }
+
+  restoreCheckpoint(cp: SolarCheckpoint): void {
+    this.settings = { ...cp.settings };
+    this.secondsOfDay = cp.secondsOfDay;
+    this.dayOfYear = cp.dayOfYear;
+    this.cloudCover = cp.cloudCover;
+    this.computeSun();
+  }
+
+  private computeSun(): void {
+    const lat = this.settings.latitudeDeg * DEG;
+    const decl = 23.44 * DEG * Math.sin(2 * Math.PI * (284 + this.dayOfYear) / 365);
+    const hourAngle = (this.secondsOfDay / 3600 - 12) * 15 * DEG;
+
+    const sinEl = Math.sin(lat) * Math.sin(decl) + Math.cos(lat) * Math.cos(decl) * Math.cos(hourAngle);
+    this.elevation = Math.asin(Math.max(-1, Math.min(1, sinEl)));
+
+    const cosEl = Math.cos(this.elevation);
+    const cosAz = cosEl > 1e-9 ? (Math.sin(decl) - sinEl * Math.sin(lat)) / (cosEl * Math.cos(lat)) : 1;
+    const az = Math.acos(Math.max(-1, Math.min(1, cosAz)));
+    this.azimuth = hourAngle > 0 ? 2 * Math.PI - az : az;
+
+    // Haurwitz clear sky, Kasten–Czeplak cloud attenuation
+    const clear = sinEl > 0 ? 1098 * sinEl * Math.exp(-0.057 / sinEl) : 0;
+    this.irradiance = clear * (1 - 0.75 * Math.pow(this.cloudCover, 3.4));
+  }
+}
+
+/**
+ * Distance along the ray (ox, oy) + t·(dx, dy), t > 0, at which it enters
+ * the box, or null if it misses. A ray starting inside the box enters at 0.
+ */
+function rayBoxEntry(
+  ox: number, oy: number, dx: number, dy: number,
+  minX: number, minY: number, maxX: number, maxY: number,
+): number | null {
+  let tMin = 0;
+  let tMax = Infinity;
+  for (const [o, d, lo, hi] of [[ox, dx, minX, maxX], [oy, dy, minY, maxY]]) {
+    if (Math.abs(d) < 1e-12) {
+      if (o < lo || o > hi) return null;
+    } else {
+      const t1 = (lo - o) / d;
+      const t2 = (hi - o) / d;
+      tMin = Math.max(tMin, Math.min(t1, t2));
+      tMax = Math.min(tMax, Math.max(t1, t2));
+      if (tMin > tMax) return null;
+    }
+  }
+  return tMin;
+}
+
+function clamp01(v: number): number {
+  return Math.max(0, Math.min(1, v));
+}
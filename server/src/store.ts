@@ -0,0 +1,621 @@
+/**
+ * store.ts — Persistent mission history, event log and recorded runs
+ *
+ * The simulator keeps only short in-memory histories (20 missions, 200
+ * events, a 3000-frame replay ring). A Store outlives simulator instances
+ * and server restarts:
+ *
+ *   JsonlStore  — append-only JSONL files under DATA_DIR (default backend)
+ *                 events.jsonl, missions.jsonl, audit.jsonl, runs.jsonl
+ *                 + runs/<runId>.jsonl.gz recorded while the run is live
+ *                 (chunked, tick-indexed — see runfile.ts). Each JSONL
+ *                 file is scanned once on open into an index of filter
+ *                 keys and byte offsets; queries page through the index
+ *                 and read only the lines they return. Appends are
+ *                 buffered and written off the tick path (flush() on exit).
+ *   MemoryStore — bounded in-process store (tests, STORE_BACKEND=memory)
+ *
+ * Simulator checkpoints (checkpoint.ts) are kept alongside, one JSON file
+ * each under DATA_DIR/checkpoints, and so are imported anemometer logs
+ * (wind-log.ts) under DATA_DIR/wind; a summary sidecar next to each file
+ * answers the listings.
+ *
+ * Every record carries the runId of the simulator that produced it and a
+ * wall-clock time, so queries can page through "last week's missions".
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import type { SwarmEvent, RunManifest } from './types';
+import type { MissionResult } from './mission';
+import { withoutCheckpoint, type RecordedFrame, type ReplayFrame } from './recorder';
+import { RunFile, runFileHeader, encodeRunFile } from './runfile';
+import { checkpointSummary, type SimCheckpoint, type CheckpointSummary } from './checkpoint';
+import { filterAudit, type AuditEntry, type AuditKeys, type AuditQuery } from './audit';
+import { windLogSummary, type WindLog, type WindLogSummary } from './wind-log';
+
+/* ─── Records ──────────────────────────────────────────────── */
+
+export interface StoredEvent extends SwarmEvent {
+  runId: string;
+  recordedAt: number;        // wall clock, epoch ms
+}
+
+export interface StoredMission extends MissionResult {
+  runId: string;             // timestamp (wall clock) is the time-range key
+}
+
+export interface RunSummary {
+  runId: string;
+  manifest: RunManifest;
+  endedAt: number;           // wall clock, epoch ms
+  ticks: number;
+  frameCount: number;
+}
+
+export interface StoredRun extends RunSummary {
+  frames: RecordedFrame[];
+}
+
+/** One page of a run's frames (GET /runs/:runId); continue from nextTick */
+export interface RunPage extends RunSummary {
+  frames: ReplayFrame[];       // without fork-point checkpoints
+  nextTick?: number;         // first tick of the next page, absent on the last
+}
+
+/* ─── Queries ──────────────────────────────────────────────── */
+
+export interface StoreQuery {
+  runId?: string;
+  type?: string;             // SwarmEvent type / MissionType
+  from?: number;             // wall clock, epoch ms (inclusive)
+  to?: number;               // wall clock, epoch ms (inclusive)
+  limit?: number;
+  offset?: number;
+  order?: 'asc' | 'desc';    // by time; default newest first
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;             // matches before limit/offset
+}
+
+export const DEFAULT_PAGE_LIMIT = 100;
+export const DEFAULT_FRAME_LIMIT = 600;   // one minute at 10 Hz
+
+export interface FrameRange {
+  fromTick?: number;         // inclusive
+  toTick?: number;           // inclusive
+  limit?: number;            // frames, default DEFAULT_FRAME_LIMIT
+}
+
+export interface Store {
+  appendEvent(event: StoredEvent): void;
+  appendMission(result: StoredMission): void;
+  saveRun(run: StoredRun): void;
+  /** Run file the recorder streams into, or null to keep frames in memory */
+  openRunFile(manifest: RunManifest): RunFile | null;
+  /** Record the summary of a run whose frames were streamed (openRunFile) */
+  finishRun(summary: RunSummary): void;
+  /** Run in the download format (runfile.ts) */
+  exportRun(runId: string): Readable | null;
+  queryEvents(query?: StoreQuery): Page<StoredEvent>;
+  queryMissions(query?: StoreQuery): Page<StoredMission>;
+  listRuns(query?: StoreQuery): Page<RunSummary>;
+  /** Summary and one page of frames; hours-long runs are read a range at a time */
+  getRun(runId: string, range?: FrameRange): RunPage | null;
+  saveCheckpoint(checkpoint: SimCheckpoint): void;
+  listCheckpoints(query?: StoreQuery): Page<CheckpointSummary>;
+  getCheckpoint(id: string): SimCheckpoint | null;
+  appendAudit(entry: AuditEntry): void;
+  queryAudit(query?: AuditQuery): Page<AuditEntry>;
+  saveWindLog(log: WindLog): void;
+  /** Imported logs, newest first */
+  listWindLogs(): WindLogSummary[];
+  getWindLog(id: string): WindLog | null;
+  /** Write buffered appends to disk (before the process exits) */
+  flush(): void;
+}
+
+/** Filter by run/type/time range, sort by time and slice one page */
+export function paginate<T extends { runId: string; type?: string }>(
+  items: T[],
+  query: StoreQuery,
+  timeOf: (item: T) => number,
+): Page<T> {
+  const matches = items.filter(item => {
+    if (query.runId !== undefined && item.runId !== query.runId) return false;
+    if (query.type !== undefined && item.type !== query.type) return false;
+    const t = timeOf(item);
+    if (query.from !== undefined && t < query.from) return false;
+    if (query.to !== undefined && t > query.to) return false;
+    return true;
+  });
+  // Stable sort keeps insertion order for records sharing a timestamp
+  const sign = query.order === 'asc' ? 1 : -1;
+  const sorted = matches
+    .map((item, i) => ({ item, i }))
+    .sort((a, b) => sign * (timeOf(a.item) - timeOf(b.item) || a.i - b.i))
+    .map(e => e.item);
+  const offset = query.offset ?? 0;
+  const limit = query.limit ?? DEFAULT_PAGE_LIMIT;
+  return { items: sorted.slice(offset, offset + limit), total: matches.length };
+}
+
+function summaryOf(run: StoredRun): RunSummary {
+  const { frames: _frames, ...summary } = run;
+  return summary;
+}
+
+/** Frames of `range` from ticks in ascending order; one extra frame tells whether another page follows */
+function framePage(summary: RunSummary, range: FrameRange, read: (from: number, to: number, limit: number) => RecordedFrame[]): RunPage {
+  const limit = range.limit ?? DEFAULT_FRAME_LIMIT;
+  const frames = read(range.fromTick ?? 0, range.toTick ?? Number.MAX_SAFE_INTEGER, limit + 1);
+  const next = frames.length > limit ? frames.pop() : undefined;
+  return { ...summary, frames: frames.map(withoutCheckpoint), nextTick: next?.tick };
+}
+
+function sliceFrames(frames: RecordedFrame[], from: number, to: number, limit: number): RecordedFrame[] {
+  return frames.filter(f => f.tick >= from && f.tick <= to).slice(0, limit);
+}
+
+/* ─── In-memory backend ────────────────────────────────────── */
+
+const MEMORY_LIMITS = { events: 10_000, missions: 1_000, runs: 10, checkpoints: 50, audit: 10_000, windLogs: 20 };
+
+export class MemoryStore implements Store {
+  private events: StoredEvent[] = [];
+  private missions: StoredMission[] = [];
+  private runs: StoredRun[] = [];
+  private checkpoints: SimCheckpoint[] = [];
+  private audit: AuditEntry[] = [];
+  private windLogs: WindLog[] = [];
+
+  appendEvent(event: StoredEvent): void {
+    this.events.push(event);
+    if (this.events.length > MEMORY_LIMITS.events) this.events.shift();
+  }
+
+  appendMission(result: StoredMission): void {
+    this.missions.push(result);
+    if (this.missions.length > MEMORY_LIMITS.missions) this.missions.shift();
+  }
+
+  saveRun(run: StoredRun): void {
+    this.runs = this.runs.filter(r => r.runId !== run.runId);
+    this.runs.push(run);
+    if (this.runs.length > MEMORY_LIMITS.runs) this.runs.shift();
+  }
+
+  queryEvents(query: StoreQuery = {}): Page<StoredEvent> {
+    return paginate(this.events, query, e => e.recordedAt);
+  }
+
+  queryMissions(query: StoreQuery = {}): Page<StoredMission> {
+    return paginate(this.missions, query, m => m.timestamp);
+  }
+
+  listRuns(query: StoreQuery = {}): Page<RunSummary> {
+    return paginate(this.runs.map(summaryOf), query, r => r.endedAt);
+  }
+
+  getRun(runId: string, range: FrameRange = {}): RunPage | null {
+    const run = this.runs.find(r => r.runId === runId);
+    return run ? framePage(summaryOf(run), range, (from, to, limit) => sliceFrames(run.frames, from, to, limit)) : null;
+  }
+
+  openRunFile(): RunFile | null {
+    return null;
+  }
+
+  finishRun(): void {
+    throw new Error('MemoryStore keeps runs in memory; use saveRun');
+  }
+
+  exportRun(runId: string): Readable | null {
+    const run = this.runs.find(r => r.runId === runId);
+    return run ? Readable.from([encodeRunFile(runFileHeader(run.manifest), run.frames)]) : null;
+  }
+
+  saveCheckpoint(checkpoint: SimCheckpoint): void {
+    this.checkpoints = this.checkpoints.filter(c => c.id !== checkpoint.id);
+    this.checkpoints.push(checkpoint);
+    if (this.checkpoints.length > MEMORY_LIMITS.checkpoints) this.checkpoints.shift();
+  }
+
+  listCheckpoints(query: StoreQuery = {}): Page<CheckpointSummary> {
+    return paginate(this.checkpoints.map(checkpointSummary), query, c => Date.parse(c.createdAt));
+  }
+
+  getCheckpoint(id: string): SimCheckpoint | null {
+    return this.checkpoints.find(c => c.id === id) ?? null;
+  }
+
+  appendAudit(entry: AuditEntry): void {
+    this.audit.push(entry);
+    if (this.audit.length > MEMORY_LIMITS.audit) this.audit.shift();
+  }
+
+  queryAudit(query: AuditQuery = {}): Page<AuditEntry> {
+    return paginate(filterAudit(this.audit, query), query, e => e.timestamp);
+  }
+
+  saveWindLog(log: WindLog): void {
+    this.windLogs = this.windLogs.filter(l => l.id !== log.id);
+    this.windLogs.push(log);
+    if (this.windLogs.length > MEMORY_LIMITS.windLogs) this.windLogs.shift();
+  }
+
+  listWindLogs(): WindLogSummary[] {
+    return this.windLogs.map(windLogSummary).reverse();
+  }
+
+  getWindLog(id: string): WindLog | null {
+    return this.windLogs.find(l => l.id === id) ?? null;
+  }
+
+  flush(): void {}
+}
+
+/* ─── JSONL backend ────────────────────────────────────────── */
+
+/** Run, checkpoint and wind log ids become file names — keep them to a safe alphabet */
+const SAFE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/** <id>.summary.json sits beside each checkpoint and wind log, so listings never parse the full record */
+const SUMMARY_SUFFIX = '.summary.json';
+
+export class JsonlStore implements Store {
+  private readonly events: JsonlLog<StoredEvent, EventKeys>;
+  private readonly missions: JsonlLog<StoredMission, MissionKeys>;
+  private readonly runs: JsonlLog<RunSummary, RunSummary>;
+  private readonly audit: JsonlLog<AuditEntry, AuditKeys>;
+  private readonly runsDir: string;
+  private readonly checkpointsDir: string;
+  private readonly windDir: string;
+
+  constructor(readonly dataDir: string) {
+    fs.mkdirSync(dataDir, { recursive: true });
+    this.events = new JsonlLog(path.join(dataDir, 'events.jsonl'),
+      ({ runId, type, recordedAt }) => ({ runId, type, recordedAt }));
+    this.missions = new JsonlLog(path.join(dataDir, 'missions.jsonl'),
+      ({ runId, type, timestamp }) => ({ runId, type, timestamp }));
+    this.runs = new JsonlLog(path.join(dataDir, 'runs.jsonl'), summary => summary);
+    this.audit = new JsonlLog(path.join(dataDir, 'audit.jsonl'),
+      ({ timestamp, runId, sessionId, actor, channel, command, result }) =>
+        ({ timestamp, runId, sessionId, actor, channel, command, result }));
+    this.runsDir = path.join(dataDir, 'runs');
+    this.checkpointsDir = path.join(dataDir, 'checkpoints');
+    fs.mkdirSync(this.runsDir, { recursive: true });
+    this.windDir = path.join(dataDir, 'wind');
+    fs.mkdirSync(this.checkpointsDir, { recursive: true });
+    fs.mkdirSync(this.windDir, { recursive: true });
+  }
+
+  appendEvent(event: StoredEvent): void {
+    this.events.append(event);
+  }
+
+  appendMission(result: StoredMission): void {
+    this.missions.append(result);
+  }
+
+  saveRun(run: StoredRun): void {
+    const file = this.openRunFile(run.manifest, run.runId);
+    for (const frame of run.frames) file.append(frame);
+    file.flush();
+    this.finishRun(summaryOf(run));
+  }
+
+  openRunFile(manifest: RunManifest, runId = manifest.runId): RunFile {
+    if (!SAFE_ID_PATTERN.test(runId)) throw new Error(`Invalid run id: ${runId}`);
+    return new RunFile(path.join(this.runsDir, runId), { ...runFileHeader(manifest), runId });
+  }
+
+  finishRun(summary: RunSummary): void {
+    this.runs.append(summary);
+  }
+
+  queryEvents(query: StoreQuery = {}): Page<StoredEvent> {
+    return this.events.query(query, e => e.recordedAt);
+  }
+
+  queryMissions(query: StoreQuery = {}): Page<StoredMission> {
+    return this.missions.query(query, m => m.timestamp);
+  }
+
+  listRuns(query: StoreQuery = {}): Page<RunSummary> {
+    return paginate(this.latestRunSummaries(), query, r => r.endedAt);
+  }
+
+  getRun(runId: string, range: FrameRange = {}): RunPage | null {
+    if (!SAFE_ID_PATTERN.test(runId)) return null;
+    const summary = this.latestRunSummaries().find(r => r.runId === runId);
+    if (!summary) return null;
+    const file = RunFile.open(path.join(this.runsDir, runId));
+    if (file) return framePage(summary, range, (from, to, limit) => file.getRange(from, to, limit));
+    const frames = this.legacyFrames(runId);
+    return framePage(summary, range, (from, to, limit) => sliceFrames(frames, from, to, limit));
+  }
+
+  exportRun(runId: string): Readable | null {
+    if (!SAFE_ID_PATTERN.test(runId)) return null;
+    const summary = this.latestRunSummaries().find(r => r.runId === runId);
+    if (!summary) return null;
+    const file = RunFile.open(path.join(this.runsDir, runId));
+    if (file) return fs.createReadStream(file.dataPath);
+    return Readable.from([encodeRunFile(runFileHeader(summary.manifest), this.legacyFrames(runId))]);
+  }
+
+  /** Runs archived before run files were chunked are plain JSONL */
+  private legacyFrames(runId: string): RecordedFrame[] {
+    return readJsonl<RecordedFrame>(path.join(this.runsDir, `${runId}.jsonl`));
+  }
+
+  saveCheckpoint(checkpoint: SimCheckpoint): void {
+    if (!SAFE_ID_PATTERN.test(checkpoint.id)) throw new Error(`Invalid checkpoint id: ${checkpoint.id}`);
+    fs.writeFileSync(path.join(this.checkpointsDir, `${checkpoint.id}.json`), JSON.stringify(checkpoint));
+    writeSummary(this.checkpointsDir, checkpoint.id, checkpointSummary(checkpoint));
+  }
+
+  listCheckpoints(query: StoreQuery = {}): Page<CheckpointSummary> {
+    const summaries = listSummaries(this.checkpointsDir, checkpointSummary);
+    return paginate(summaries, query, c => Date.parse(c.createdAt));
+  }
+
+  getCheckpoint(id: string): SimCheckpoint | null {
+    if (!SAFE_ID_PATTERN.test(id)) return null;
+    return this.readCheckpointFile(path.join(this.checkpointsDir, `${id}.json`));
+  }
+
+  appendAudit(entry: AuditEntry): void {
+    this.audit.append(entry);
+  }
+
+  queryAudit(query: AuditQuery = {}): Page<AuditEntry> {
+    return this.audit.query(query, e => e.timestamp, keys => filterAudit(keys, query));
+  }
+
+  saveWindLog(log: WindLog): void {
+    if (!SAFE_ID_PATTERN.test(log.id)) throw new Error(`Invalid wind log id: ${log.id}`);
+    fs.writeFileSync(path.join(this.windDir, `${log.id}.json`), JSON.stringify(log));
+    writeSummary(this.windDir, log.id, windLogSummary(log));
+  }
+
+  listWindLogs(): WindLogSummary[] {
+    const summaries = listSummaries(this.windDir, windLogSummary);
+    return summaries.sort((a, b) => Date.parse(b.importedAt) - Date.parse(a.importedAt));
+  }
+
+  getWindLog(id: string): WindLog | null {
+    if (!SAFE_ID_PATTERN.test(id)) return null;
+    return readJsonFile<WindLog>(path.join(this.windDir, `${id}.json`));
+  }
+
+  private readCheckpointFile(filePath: string): SimCheckpoint | null {
+    return readJsonFile<SimCheckpoint>(filePath);
+  }
+
+  flush(): void {
+    this.events.flush();
+    this.missions.flush();
+    this.runs.flush();
+    this.audit.flush();
+  }
+
+  /** A run saved twice (e.g. manual save, then shutdown) keeps its latest summary */
+  private latestRunSummaries(): RunSummary[] {
+    const byId = new Map<string, RunSummary>();
+    for (const r of this.runs.keys()) {
+      byId.delete(r.runId);
+      byId.set(r.runId, r);
+    }
+    return [...byId.values()];
+  }
+}
+
+type EventKeys = Pick<StoredEvent, 'runId' | 'type' | 'recordedAt'>;
+type MissionKeys = Pick<StoredMission, 'runId' | 'type' | 'timestamp'>;
+
+/** Where a record's line sits in its file; `record` is kept while it is recent or not yet written */
+interface LineRef<T> {
+  at: number;
+  bytes: number;
+  record?: T;
+}
+
+const JSONL_TAIL = 1000;             // newest records kept parsed in memory
+const JSONL_FLUSH_MS = 250;
+const JSONL_READ_CHUNK = 1 << 20;
+
+/**
+ * One append-only JSONL file: an in-memory index of each record's filter
+ * keys and byte range, the newest records, and a write buffer flushed
+ * with positioned writes off the caller's path.
+ */
+class JsonlLog<T, K extends { runId: string; type?: string }> {
+  private readonly entries: (K & LineRef<T>)[] = [];
+  private readonly fd: number;
+  private size = 0;                  // file length once every buffered line is written
+  private written = 0;               // entries known to be on disk
+  private evicted = 0;               // entries whose parsed record was dropped
+  private unwritten: string[] = [];  // lines of entries[written..]
+  private unwrittenAt = 0;           // byte offset of unwritten[0]
+  private writing = false;
+  private timer: NodeJS.Timeout | null = null;
+  private tornTail = false;
+
+  constructor(private readonly file: string, private readonly keyOf: (record: T) => K) {
+    fs.closeSync(fs.openSync(file, 'a'));
+    this.fd = fs.openSync(file, 'r+');
+    this.load();
+  }
+
+  append(record: T): void {
+    const json = JSON.stringify(record);
+    // A torn final line left by a crash is closed off rather than glued to this record
+    const line = (this.tornTail ? '\n' : '') + json + '\n';
+    const at = this.size + (this.tornTail ? 1 : 0);
+    this.tornTail = false;
+    if (this.unwritten.length === 0) this.unwrittenAt = this.size;
+    this.entries.push({ ...this.keyOf(record), at, bytes: Buffer.byteLength(json), record });
+    this.unwritten.push(line);
+    this.size += Buffer.byteLength(line);
+    this.schedule();
+  }
+
+  /** Filter keys of every record, oldest first */
+  keys(): readonly K[] {
+    return this.entries;
+  }
+
+  query(query: StoreQuery, timeOf: (keys: K) => number, filter?: (keys: (K & LineRef<T>)[]) => (K & LineRef<T>)[]): Page<T> {
+    const page = paginate(filter ? filter(this.entries) : this.entries, query, timeOf);
+    return { items: page.items.map(e => this.read(e)), total: page.total };
+  }
+
+  /** Write every buffered line now (an in-flight async write of the same bytes is harmless) */
+  flush(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (this.unwritten.length === 0) return;
+    const data = Buffer.from(this.unwritten.join(''));
+    fs.writeSync(this.fd, data, 0, data.length, this.unwrittenAt);
+    this.confirm(this.entries.length);
+  }
+
+  private schedule(): void {
+    if (this.timer || this.writing) return;
+    this.timer = setTimeout(() => this.writeAsync(), JSONL_FLUSH_MS);
+    this.timer.unref();
+  }
+
+  private writeAsync(): void {
+    this.timer = null;
+    if (this.unwritten.length === 0) return;
+    const upTo = this.written + this.unwritten.length;
+    const data = Buffer.from(this.unwritten.join(''));
+    this.writing = true;
+    fs.write(this.fd, data, 0, data.length, this.unwrittenAt, err => {
+      this.writing = false;
+      if (err) console.warn(`[STORE] Write to ${path.basename(this.file)} failed, retrying: ${err.message}`);
+      else this.confirm(upTo);
+      if (this.unwritten.length > 0) this.schedule();
+    });
+  }
+
+  /** Entries before `upTo` are on disk: drop their buffered lines and old parsed records */
+  private confirm(upTo: number): void {
+    if (upTo <= this.written) return;
+    const lines = this.unwritten.splice(0, upTo - this.written);
+    for (const line of lines) this.unwrittenAt += Buffer.byteLength(line);
+    this.written = upTo;
+    this.evict();
+  }
+
+  private evict(): void {
+    const keepFrom = Math.min(this.written, this.entries.length - JSONL_TAIL);
+    while (this.evicted < keepFrom) delete this.entries[this.evicted++].record;
+  }
+
+  private read(entry: LineRef<T>): T {
+    if (entry.record) return entry.record;
+    const buf = Buffer.alloc(entry.bytes);
+    fs.readSync(this.fd, buf, 0, entry.bytes, entry.at);
+    return JSON.parse(buf.toString('utf-8')) as T;
+  }
+
+  /** Index the file in chunks, skipping malformed lines and a torn final line */
+  private load(): void {
+    const chunk = Buffer.alloc(JSONL_READ_CHUNK);
+    let carry = Buffer.alloc(0);
+    let lineAt = 0;
+    for (;;) {
+      const n = fs.readSync(this.fd, chunk, 0, chunk.length, this.size);
+      if (n === 0) break;
+      this.size += n;
+      const data = Buffer.concat([carry, chunk.subarray(0, n)]);
+      let start = 0;
+      for (let nl = data.indexOf(10); nl >= 0; nl = data.indexOf(10, start)) {
+        this.indexLine(data.subarray(start, nl), lineAt);
+        lineAt += nl - start + 1;
+        start = nl + 1;
+      }
+      carry = Buffer.from(data.subarray(start));
+    }
+    this.tornTail = carry.length > 0;
+    if (carry.toString('utf-8').trim()) console.warn(`[STORE] Skipping torn final line in ${path.basename(this.file)}`);
+    this.unwrittenAt = this.size;
+  }
+
+  private indexLine(line: Buffer, at: number): void {
+    const text = line.toString('utf-8');
+    if (!text.trim()) return;
+    try {
+      const record = JSON.parse(text) as T;
+      this.entries.push({ ...this.keyOf(record), at, bytes: line.length, record });
+      this.written = this.entries.length;
+      this.evict();
+    } catch {
+      console.warn(`[STORE] Skipping malformed line in ${path.basename(this.file)}`);
+    }
+  }
+}
+
+/** Parse a JSON file, or null if it is missing or unreadable */
+function readJsonFile<T>(filePath: string): T | null {
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+  } catch {
+    console.warn(`[STORE] Skipping unreadable ${path.basename(path.dirname(filePath))}/${path.basename(filePath)}`);
+    return null;
+  }
+}
+
+function writeSummary(dir: string, id: string, summary: unknown): void {
+  fs.writeFileSync(path.join(dir, `${id}${SUMMARY_SUFFIX}`), JSON.stringify(summary));
+}
+
+/** Summary sidecars of every <id>.json in `dir`; records saved before sidecars existed get one on first listing */
+function listSummaries<T, S>(dir: string, summarize: (record: T) => S): S[] {
+  const files = new Set(fs.readdirSync(dir));
+  const summaries: S[] = [];
+  for (const file of files) {
+    if (!file.endsWith('.json') || file.endsWith(SUMMARY_SUFFIX)) continue;
+    const id = file.slice(0, -'.json'.length);
+    let summary = files.has(`${id}${SUMMARY_SUFFIX}`) ? readJsonFile<S>(path.join(dir, `${id}${SUMMARY_SUFFIX}`)) : null;
+    if (!summary) {
+      const record = readJsonFile<T>(path.join(dir, file));
+      if (!record) continue;
+      summary = summarize(record);
+      writeSummary(dir, id, summary);
+    }
+    summaries.push(summary);
+  }
+  return summaries;
+}
+
+/** Parse a JSONL file, skipping a torn final line left by a crash mid-append */
+function readJsonl<T>(filePath: string): T[] {
+  if (!fs.existsSync(filePath)) return [];
+  const records: T[] = [];
+  for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as T);
+    } catch {
+      console.warn(`[STORE] Skipping malformed line in ${path.basename(filePath)}`);
+    }
+  }
+  return records;
+}
+
+/** Store selected by STORE_BACKEND ('jsonl' | 'memory') and DATA_DIR */
+export function createStore(env: NodeJS.ProcessEnv = process.env): Store {
+  const backend = env.STORE_BACKEND ?? 'jsonl';
+  if (backend === 'memory') return new MemoryStore();
+  if (backend !== 'jsonl') throw new Error(`Unknown STORE_BACKEND: ${backend} (expected jsonl or memory)`);
+  return new JsonlStore(env.DATA_DIR ?? path.join(__dirname, '../data'));
+}
@@ -0,0 +1,161 @@
+/**
+ * subscriptions.ts — Per-socket topic subscriptions for the state stream
+ *
+ * By default every socket gets the full SwarmSnapshot on `swarm:state`
+ * each tick (or its binary delta, see @swarm/shared state-codec.ts). A socket can
+ * instead subscribe to topics and receive a projected `swarm:frame`:
+ *
+ *   robots | robots:full   every RobotState
+ *   robots:summary         RobotSummary (pose, battery, status, prediction)
+ *   hdc:<robotId> | hdc:*  full HdcState for those robots, keyed by id
+ *   mission, energyFlows, bleLinks, paths, events
+ *
+ * tick, clock, formation, wind, solar and stats (and replay, while a recording
+ * plays back) are always sent. A rate (Hz, wall clock) downsamples either
+ * stream for wall displays; events of the skipped ticks are carried into
+ * the next frame that is sent.
+ */
+
+import type { StateEncoder } from '@swarm/shared';
+import type { SwarmSnapshot, SwarmEvent, RobotState, RobotSummary, StreamFrame } from './types';
+
+export type RobotDetail = 'full' | 'summary';
+
+export interface TopicSelection {
+  robots: RobotDetail | null;
+  hdc: number[] | 'all';
+  mission: boolean;
+  energyFlows: boolean;
+  bleLinks: boolean;
+  paths: boolean;
+  events: boolean;
+}
+
+const FLAG_TOPICS = ['mission', 'energyFlows', 'bleLinks', 'paths', 'events'] as const;
+
+/** Topic names accepted by parseTopics and streamSubscriptionSchema */
+export const TOPIC_PATTERN = /^(robots(:full|:summary)?|hdc:(\*|\d{1,3})|mission|energyFlows|bleLinks|paths|events)$/;
+
+export function parseTopics(topics: string[]): TopicSelection {
+  const selection: TopicSelection = {
+    robots: null, hdc: [], mission: false, energyFlows: false, bleLinks: false, paths: false, events: false,
+  };
+  const hdcIds = new Set<number>();
+  for (const topic of topics) {
+    if (!TOPIC_PATTERN.test(topic)) throw new Error(`Unknown topic: ${topic}`);
+    if (topic === 'robots' || topic === 'robots:full') selection.robots = 'full';
+    else if (topic === 'robots:summary') selection.robots ??= 'summary';
+    else if (topic === 'hdc:*') selection.hdc = 'all';
+    else if (topic.startsWith('hdc:')) hdcIds.add(Number(topic.slice(4)));
+    else selection[topic as typeof FLAG_TOPICS[number]] = true;
+  }
+  if (selection.hdc !== 'all') selection.hdc = [...hdcIds].sort((a, b) => a - b);
+  return selection;
+}
+
+export function summarizeRobot(r: RobotState): RobotSummary {
+  return {
+    id: r.id,
+    name: r.name,
+    sizeClass: r.sizeClass,
+    phase: r.phase,
+    position: r.position,
+    heading: r.heading,
+    batterySoc: r.batterySoc,
+    powerMode: r.powerMode,
+    isOnline: r.isOnline,
+    isJammed: r.isJammed,
+    isByzantine: r.isByzantine,
+    isCoordinator: r.isCoordinator,
+    parentId: r.parentId,
+    hdc: { predictedClass: r.hdc.predictedClass, predictedName: r.hdc.predictedName, confidence: r.hdc.confidence },
+  };
+}
+
+export function projectSnapshot(snapshot: SwarmSnapshot, topics: TopicSelection): StreamFrame {
+  const frame: StreamFrame = {
+    tick: snapshot.tick,
+    timeMs: snapshot.timeMs,
+    formation: snapshot.formation,
+    wind: snapshot.wind,
+    solar: snapshot.solar,
+    stats: snapshot.stats,
+    clock: snapshot.clock,
+  };
+  if (snapshot.replay) frame.replay = snapshot.replay;
+  if (topics.robots === 'full') frame.robots = snapshot.robots;
+  else if (topics.robots === 'summary') frame.robots = snapshot.robots.map(summarizeRobot);
+  if (topics.hdc === 'all' || topics.hdc.length > 0) {
+    const wanted = topics.hdc === 'all' ? null : new Set(topics.hdc);
+    frame.hdc = {};
+    for (const r of snapshot.robots) {
+      if (!wanted || wanted.has(r.id)) frame.hdc[r.id] = r.hdc;
+    }
+  }
+  if (topics.mission) frame.mission = snapshot.mission;
+  if (topics.energyFlows) frame.energyFlows = snapshot.energyFlows;
+  if (topics.bleLinks) frame.bleLinks = snapshot.bleLinks;
+  if (topics.paths) frame.paths = snapshot.paths;
+  if (topics.events) frame.events = snapshot.events;
+  return frame;
+}
+
+export type StreamMessage =
+  | { event: 'swarm:state'; payload: SwarmSnapshot }
+  | { event: 'swarm:state:bin'; payload: Uint8Array }
+  | { event: 'swarm:frame'; payload: StreamFrame };
+
+/**
+ * Stream state of one socket that left the default broadcast: binary
+ * encoder, topic selection and rate limit.
+ */
+export class StreamClient {
+  encoder: StateEncoder | null = null;
+  private topics: TopicSelection | null = null;
+  private rateHz: number | null = null;
+  private nextDueMs = 0;
+  private pendingEvents: SwarmEvent[] = [];
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  /** True when this socket would be served by the plain broadcast */
+  get isDefault(): boolean {
+    return this.encoder === null && this.topics === null && this.rateHz === null;
+  }
+
+  /** Topics switch the socket to projected JSON frames (dropping binary) */
+  subscribe(topics: TopicSelection | null, rateHz: number | null): void {
+    this.topics = topics;
+    if (topics) this.encoder = null;
+    this.rateHz = rateHz;
+    this.nextDueMs = 0;
+    this.pendingEvents = [];
+  }
+
+  setEncoder(encoder: StateEncoder | null): void {
+    this.encoder = encoder;
+    if (encoder) this.topics = null;
+  }
+
+  /** Message to send for this tick, or null when rate-limited */
+  next(snapshot: SwarmSnapshot): StreamMessage | null {
+    let current = snapshot;
+    if (this.rateHz !== null) {
+      const now = this.now();
+      if (now < this.nextDueMs) {
+        this.pendingEvents.push(...snapshot.events);
+        return null;
+      }
+      const interval = 1000 / this.rateHz;
+      // Stay on the rate grid despite timer jitter; resync after a stall
+      this.nextDueMs = this.nextDueMs + interval > now ? this.nextDueMs + interval : now + interval;
+      if (this.pendingEvents.length > 0) {
+        current = { ...snapshot, events: [...this.pendingEvents, ...snapshot.events] };
+        this.pendingEvents = [];
+      }
+    }
+    if (this.encoder) return { event: 'swarm:state:bin', payload: this.encoder.encode(current) };
+    if (this.topics) return { event: 'swarm:frame', payload: projectSnapshot(current, this.topics) };
+    return { event: 'swarm:state', payload: current };
+  }
+}
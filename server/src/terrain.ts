@@ -149,3 +149,19 @@ export function isInsideObstacle(x: number, z: number, obstacles: Obstacle[], ma
   }
   return false;
 }
+
+/** Ground height at a map point, bilinear between height-map samples */
+export function terrainHeightAt(terrain: TerrainData, x: number, z: number): number {
+  const fx = Math.max(0, Math.min(terrain.cols - 1, x / GRID_RESOLUTION));
+  const fz = Math.max(0, Math.min(terrain.rows - 1, z / GRID_RESOLUTION));
+  const c0 = Math.floor(fx);
+  const r0 = Math.floor(fz);
+  const c1 = Math.min(terrain.cols - 1, c0 + 1);
+  const r1 = Math.min(terrain.rows - 1, r0 + 1);
+  const tx = fx - c0;
+  const tz = fz - r0;
+  const h = terrain.heightMap;
+  const top = h[r0][c0] * (1 - tx) + h[r0][c1] * tx;
+  const bottom = h[r1][c0] * (1 - tx) + h[r1][c1] * tx;
+  return top * (1 - tz) + bottom * tz;
+}
@@ -1,215 +1,27 @@
-/* types.ts — Shared TypeScript types for swarm simulation */
+/* types.ts — Server-side types for swarm simulation (wire types live in @swarm/shared) */
 
-export type SizeClass = 'small' | 'medium' | 'large' | 'hub';
-export type WindClass = 'CALM' | 'LIGHT' | 'MODERATE' | 'STRONG';
-export type PowerMode = 'FULL' | 'NORMAL' | 'ECO' | 'CRITICAL';
-export type RobotPhase = 'docked' | 'deploying' | 'patrol' | 'returning' | 'landed' | 'charging'
-  | 'nested' | 'deploying-from-parent' | 'returning-to-parent' | 'wpt-charging';
-export type Formation = 'scatter' | 'grid' | 'ring' | 'wedge' | 'cluster';
+import type { SizeClass } from '@swarm/shared';
 
-export interface Vec2 {
-  x: number;
-  y: number;
-}
-
-export interface WindState {
-  baseDirection: number;   // radians
-  baseSpeed: number;       // m/s
-  gustActive: boolean;
-  gustCenter: Vec2;
-  gustRadius: number;
-  gustSpeed: number;
-  windClass: WindClass;
-}
-
-export interface BleLink {
-  fromId: number;
-  toId: number;
-  rssi: number;   // dBm (-30 to -90)
-  quality: 'strong' | 'ok' | 'weak';
-}
-
-export interface HdcState {
-  melFeatures: number[];        // 32 bins
-  hiddenActivations: number[];  // 64 dims
-  hdVector: number[];           // 64 dims (packed for display)
-  classSimilarities: number[];  // 6 classes
-  predictedClass: number;
-  predictedName: string;
-  confidence: number;
-}
-
-export interface RobotState {
-  id: number;
-  name: string;
-  sizeClass: SizeClass;
-  phase: RobotPhase;
-  position: Vec2;
-  velocity: Vec2;
-  heading: number;         // radians
-  speed: number;           // m/s
-  targetPosition: Vec2 | null;
-
-  // Energy
-  batterySoc: number;      // 0-100%
-  solarHarvestMw: number;
-  powerMode: PowerMode;
-  estimatedMinutes: number;
-
-  // Wind
-  localWindClass: WindClass;
-  localWindSpeed: number;
-  localWindDirection: number;
-
-  // HDC inference (simulated)
-  hdc: HdcState;
-
-  // Swarm
-  isCoordinator: boolean;
-  zoneId: number;
-  bleRangeM: number;
-
-  // Nesting (套娃 hierarchy)
-  parentId: number | null;
-  childIds: number[];
-  isNested: boolean;
-
-  // Three-source energy
-  windHarvestMw: number;
-  regenHarvestMw: number;
-  wptReceiveMw: number;
-  wptOutputMw: number;
-  supercapSoc: number;       // 0-100, small only
-
-  // Status
-  isOnline: boolean;
-  isJammed: boolean;
-  isByzantine: boolean;
-  tickCount: number;
-}
-
-export interface MissionTargetState {
-  id: number;
-  position: Vec2;
-  speciesIndex: number;
-  speciesName: string;
-  detectionRadius: number;
-  status: 'active' | 'detected' | 'classified' | 'expired';
-  detectedBy: number[];
-  classifiedBy: number[];
-}
-
-export interface MissionInfo {
-  active: boolean;
-  type: string;
-  targets: MissionTargetState[];
-  score: number;
-  totalTargets: number;
-  classified: number;
-  expired: number;
-  timeRemainingMs: number;
-}
-
-export interface EnergyFlowLink {
-  fromId: number;
-  toId: number;
-  powerMw: number;
-  type: 'wpt' | 'solar' | 'wind';
-}
-
-export interface SwarmSnapshot {
-  tick: number;
-  timeMs: number;
-  formation: Formation;
-  robots: RobotState[];
-  wind: WindState;
-  bleLinks: BleLink[];
-  events: SwarmEvent[];
-  stats: SwarmStats;
-  mission?: MissionInfo;
-  paths?: { robotId: number; waypoints: Vec2[] }[];
-  energyFlows?: EnergyFlowLink[];
-}
-
-export interface SwarmEvent {
-  tick: number;
-  timeMs: number;
-  type: 'deploy' | 'recall' | 'formation' | 'wind_change' | 'low_battery'
-      | 'consensus' | 'jamming' | 'node_fail' | 'byzantine' | 'recovery' | 'info';
-  message: string;
-  robotId?: number;
-}
-
-export interface SwarmConsensus {
-  species: string;
-  speciesIndex: number;
-  confidence: number;
-  voters: number;           // how many robots participated
-  totalOnline: number;
-}
-
-export interface HdcStats {
-  totalInferences: number;
-  correctClassifications: number;
-  runningAccuracy: number;
-  perSpecies: { species: string; correct: number; total: number }[];
-}
-
-export interface NestingStats {
-  deployed: number;
-  nested: number;
-  wptCharging: number;
-}
-
-export interface SwarmStats {
-  totalRobots: number;
-  onlineRobots: number;
-  chargingRobots: number;
-  avgBatterySoc: number;
-  windClass: WindClass;
-  formation: Formation;
-  coordinatorId: number;
-  uptimeSeconds: number;
-  consensus?: SwarmConsensus;
-  hdcStats?: HdcStats;
-  nestingStats?: NestingStats;
-}
-
-// Species for HDC simulation
-export const SPECIES_NAMES = [
-  'Ae. aegypti', 'Ae. albopictus', 'An. gambiae',
-  'An. arabiensis', 'C. pipiens', 'C. quinque.'
-];
-
-export const SPECIES_COLORS = [
-  '#58a6ff', '#3fb950', '#f0883e', '#a371f7', '#d29922', '#f47067'
-];
-
-// Terrain types
-export interface TerrainObstacle {
-  x: number;
-  z: number;
-  width: number;
-  depth: number;
-  height: number;
-  type: 'building' | 'tree' | 'rock';
-}
-
-export interface TerrainData {
-  heightMap: number[][];
-  rows: number;
-  cols: number;
-  maxHeight: number;
-  obstacles: TerrainObstacle[];
-}
+export * from '@swarm/shared';
 
 // Size class parameters
 export interface SizeClassParams {
   bleRange: number;
   maxSpeed: number;
-  batteryDrain: number;
-  solarRate: number;
+  solarPeakMw: number;      // solar panel output in full sun (1000 W/m², see solar.ts)
   radius: number;
+  // Battery pack (see battery.ts)
+  capacityMah: number;
+  cellsInSeries: number;
+  internalResistanceMohm: number;   // whole pack at 25 °C
+  maxChargeC: number;
+  maxDischargeC: number;
+  // Power consumers (mW)
+  hoverPowerMw: number;
+  dragPowerMwPerMps2: number;       // extra motor power per (airspeed m/s)²
+  radioMw: number;                  // BLE radio at full duty
+  mcuMw: number;
+  hdcMw: number;                    // HDC inference at full rate
   // Three-source energy (套娃)
   windTurbineEff: number;   // wind harvest efficiency
   regenPropEff: number;     // regenerative propeller efficiency
@@ -219,13 +31,22 @@ export interface SizeClassParams {
   supercapMah: number;      // supercapacitor capacity (0 = no supercap)
 }
 
+// Packs sized for ~9 / 14 / 22 / 60 minutes of patrol flight at 20 °C (tests/battery.test.ts)
 export const SIZE_PARAMS: Record<SizeClass, SizeClassParams> = {
-  small:  { bleRange: 20, maxSpeed: 3,  batteryDrain: 0.025, solarRate: 0.01, radius: 1.0,
+  small:  { bleRange: 20, maxSpeed: 3,  solarPeakMw: 400, radius: 1.0,
+            capacityMah: 350, cellsInSeries: 1, internalResistanceMohm: 60, maxChargeC: 3, maxDischargeC: 25,
+            hoverPowerMw: 6500, dragPowerMwPerMps2: 150, radioMw: 30, mcuMw: 50, hdcMw: 120,
             windTurbineEff: 0.0, regenPropEff: 0.002, wptOutputMw: 0, wptRangeM: 0, maxChildren: 0, supercapMah: 5 },
-  medium: { bleRange: 35, maxSpeed: 5,  batteryDrain: 0.018, solarRate: 0.015, radius: 2.0,
-            windTurbineEff: 0.003, regenPropEff: 0.004, wptOutputMw: 50, wptRangeM: 8, maxChildren: 4, supercapMah: 0 },
-  large:  { bleRange: 60, maxSpeed: 8,  batteryDrain: 0.010, solarRate: 0.02, radius: 3.0,
-            windTurbineEff: 0.008, regenPropEff: 0.006, wptOutputMw: 150, wptRangeM: 15, maxChildren: 4, supercapMah: 0 },
-  hub:    { bleRange: 80, maxSpeed: 6,  batteryDrain: 0.005, solarRate: 0.025, radius: 4.0,
-            windTurbineEff: 0.012, regenPropEff: 0.0, wptOutputMw: 300, wptRangeM: 25, maxChildren: 1, supercapMah: 0 },
+  medium: { bleRange: 35, maxSpeed: 5,  solarPeakMw: 1500, radius: 2.0,
+            capacityMah: 1000, cellsInSeries: 2, internalResistanceMohm: 50, maxChargeC: 3, maxDischargeC: 25,
+            hoverPowerMw: 24000, dragPowerMwPerMps2: 300, radioMw: 40, mcuMw: 80, hdcMw: 150,
+            windTurbineEff: 0.003, regenPropEff: 0.004, wptOutputMw: 5000, wptRangeM: 8, maxChildren: 4, supercapMah: 0 },
+  large:  { bleRange: 60, maxSpeed: 8,  solarPeakMw: 4000, radius: 3.0,
+            capacityMah: 3000, cellsInSeries: 4, internalResistanceMohm: 40, maxChargeC: 2, maxDischargeC: 20,
+            hoverPowerMw: 80000, dragPowerMwPerMps2: 600, radioMw: 60, mcuMw: 150, hdcMw: 200,
+            windTurbineEff: 0.008, regenPropEff: 0.006, wptOutputMw: 15000, wptRangeM: 15, maxChildren: 4, supercapMah: 0 },
+  hub:    { bleRange: 80, maxSpeed: 6,  solarPeakMw: 10000, radius: 4.0,
+            capacityMah: 10000, cellsInSeries: 6, internalResistanceMohm: 30, maxChargeC: 1, maxDischargeC: 15,
+            hoverPowerMw: 190000, dragPowerMwPerMps2: 800, radioMw: 100, mcuMw: 300, hdcMw: 250,
+            windTurbineEff: 0.012, regenPropEff: 0.0, wptOutputMw: 30000, wptRangeM: 25, maxChildren: 1, supercapMah: 0 },
 };
@@ -1,32 +1,282 @@
 /* validation.ts — Zod schemas + Express middleware for input validation */
 
 import { z } from 'zod';
+import { MIN_SIM_SPEED, MAX_SIM_SPEED } from './types';
+import { TOPIC_PATTERN } from './subscriptions';
 import type { Request, Response, NextFunction, RequestHandler, ErrorRequestHandler } from 'express';
 
 // ── Schemas ──────────────────────────────────────────────────
 
+/** Robot ids fit a serial-frame byte (255 is reserved); commands 404 ids not in the fleet */
+const robotId = z.number().int().min(0).max(254);
+
 export const moveSchema = z.object({
-  robotId: z.number().int().min(0).max(7),
+  robotId,
   x: z.number().min(0).max(120),
   y: z.number().min(0).max(80),
 });
 
 export const powerSchema = z.object({
-  robotId: z.number().int().min(0).max(7),
+  robotId,
   mode: z.enum(['FULL', 'NORMAL', 'ECO', 'CRITICAL']),
 });
 
 export const robotIdSchema = z.object({
-  robotId: z.number().int().min(0).max(7),
+  robotId,
 });
 
 export const formationSchema = z.enum(['scatter', 'grid', 'ring', 'wedge', 'cluster']);
 
 export const missionTypeSchema = z.enum(['intercept', 'survey', 'search_classify', 'perimeter']);
 
+/** Widest /replay/:from/:to span; longer stretches are paged through GET /runs/:runId */
+export const MAX_REPLAY_SPAN = 3000;
+
 export const replayParamsSchema = z.object({
   from: z.string().regex(/^\d+$/, 'must be an integer').transform(Number),
   to: z.string().regex(/^\d+$/, 'must be an integer').transform(Number),
+}).refine(({ from, to }) => to - from < MAX_REPLAY_SPAN, {
+  message: `spans at most ${MAX_REPLAY_SPAN} ticks`,
+  path: ['to'],
+});
+
+const intParam = z.string().regex(/^\d+$/, 'must be an integer').transform(Number);
+
+/** Epoch milliseconds or an ISO-8601 date/time */
+const timeParam = z.string().transform((value, ctx) => {
+  const ms = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (!Number.isFinite(ms)) {
+    ctx.addIssue({ code: 'custom', message: 'must be epoch ms or an ISO date' });
+    return z.NEVER;
+  }
+  return ms;
+});
+
+export const historyQuerySchema = z.object({
+  limit: intParam.pipe(z.number().min(1).max(1000)).optional(),
+  offset: intParam.optional(),
+  from: timeParam.optional(),
+  to: timeParam.optional(),
+  runId: z.string().regex(/^[A-Za-z0-9_-]+$/).optional(),
+  type: z.string().max(32).optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+});
+
+/** Frame page of GET /runs/:runId */
+export const runFramesQuerySchema = z.object({
+  fromTick: intParam.optional(),
+  toTick: intParam.optional(),
+  limit: intParam.pipe(z.number().min(1).max(3000)).optional(),
+});
+
+export const auditQuerySchema = historyQuerySchema.omit({ type: true }).extend({
+  actor: z.string().max(64).optional(),
+  channel: z.enum(['rest', 'socket', 'serial']).optional(),
+  command: z.string().max(128).optional(),
+  result: z.enum(['ok', 'rejected', 'denied', 'error']).optional(),
+  sessionId: z.string().regex(/^[A-Za-z0-9_-]+$/).optional(),
+  format: z.enum(['json', 'csv', 'jsonl']).optional(),     // /audit/export only
+});
+
+/** A command the console sent over the WebSerial bridge (reported for the audit trail) */
+export const serialAuditSchema = z.object({
+  command: z.string().regex(/^[a-z][a-z0-9_-]{0,31}$/),
+  params: z.record(z.string(), z.union([z.number(), z.string(), z.boolean()])).optional(),
+  result: z.enum(['ok', 'error']).default('ok'),
+  error: z.string().max(256).optional(),
+});
+
+/** Run and checkpoint ids (used as file names by the store) */
+export const storeIdSchema = z.string().regex(/^[A-Za-z0-9_-]+$/, 'invalid id');
+
+export const checkpointSchema = z.object({
+  label: z.string().max(128).optional(),
+}).default({});
+
+export const speedSchema = z.object({
+  speed: z.number().min(MIN_SIM_SPEED).max(MAX_SIM_SPEED),
+});
+
+export const stepSchema = z.object({
+  ticks: z.number().int().min(1).max(1000).default(1),
+});
+
+const tickSchema = z.number().int().min(0);
+
+export const replayStartSchema = z.object({
+  from: tickSchema.optional(),
+  to: tickSchema.optional(),
+  speed: speedSchema.shape.speed.optional(),
+  loop: z.boolean().optional(),
+}).refine(r => r.from === undefined || r.to === undefined || r.from <= r.to, {
+  message: 'from must not be after to',
+  path: ['from'],
+}).default({});
+
+export const replaySeekSchema = z.object({ tick: tickSchema });
+
+export const replayLoopSchema = z.object({ loop: z.boolean() });
+
+export const streamEncodingSchema = z.object({
+  encoding: z.enum(['json', 'binary']),
+  version: z.number().int().optional(),
+});
+
+export const hdcSubscriptionSchema = z.array(z.number().int().min(0).max(254)).max(255);
+
+/** Topics: robots[:full|:summary], hdc:<id>|hdc:*, mission, energyFlows, bleLinks, paths, events */
+export const streamSubscriptionSchema = z.object({
+  topics: z.array(z.string().regex(TOPIC_PATTERN, 'unknown topic')).max(300).optional(),
+  rateHz: z.number().positive().max(60).nullable().optional(),
+});
+
+export const sizeClassSchema = z.enum(['small', 'medium', 'large', 'hub']);
+
+export const sizeClassParamsSchema = z.object({
+  bleRange: z.number().positive(),
+  maxSpeed: z.number().positive(),
+  solarPeakMw: z.number().min(0),
+  radius: z.number().positive(),
+  capacityMah: z.number().positive(),
+  cellsInSeries: z.number().int().min(1).max(14),
+  internalResistanceMohm: z.number().positive(),
+  maxChargeC: z.number().min(0),
+  maxDischargeC: z.number().positive(),
+  hoverPowerMw: z.number().min(0),
+  dragPowerMwPerMps2: z.number().min(0),
+  radioMw: z.number().min(0),
+  mcuMw: z.number().min(0),
+  hdcMw: z.number().min(0),
+  windTurbineEff: z.number().min(0),
+  regenPropEff: z.number().min(0),
+  wptOutputMw: z.number().min(0),
+  wptRangeM: z.number().min(0),
+  maxChildren: z.number().int().min(0),
+  supercapMah: z.number().min(0),
+}).partial();
+
+export const fleetSpecSchema = z.object({
+  name: z.string().min(1).max(64).optional(),
+  robots: z.array(z.object({
+    size: sizeClassSchema,
+    parent: z.number().int().min(0).nullable(),
+    zone: z.number().int().min(0).max(5).optional(),
+  })).min(1).max(255),
+  sizeParams: z.object({
+    small: sizeClassParamsSchema.optional(),
+    medium: sizeClassParamsSchema.optional(),
+    large: sizeClassParamsSchema.optional(),
+    hub: sizeClassParamsSchema.optional(),
+  }).optional(),
+});
+
+export const solarSettingsSchema = z.object({
+  latitudeDeg: z.number().min(-89).max(89),
+  dayOfYear: z.number().int().min(1).max(365),
+  startHour: z.number().min(0).lt(24),
+  cloudCover: z.number().min(0).max(1),
+}).partial();
+
+/** Jump the day clock and/or set the mean cloud cover */
+export const solarSchema = z.object({
+  hour: z.number().min(0).lt(24).optional(),
+  cloudCover: z.number().min(0).max(1).optional(),
+}).refine(s => s.hour !== undefined || s.cloudCover !== undefined, {
+  message: 'hour or cloudCover is required',
+});
+
+export const sessionCreateSchema = z.object({
+  name: z.string().min(1).max(64).optional(),
+  seed: z.number().int().optional(),
+  fleet: fleetSpecSchema.optional(),
+  ambientTempC: z.number().min(-40).max(60).optional(),
+  solar: solarSettingsSchema.optional(),
+  windSolver: z.enum(['wake', 'potential']).optional(),
+  pathCost: z.enum(['distance', 'energy']).optional(),
+}).default({});
+
+/** Branch the session from a recorded tick into a new session */
+export const forkSchema = z.object({
+  tick: z.number().int().min(0),
+  name: z.string().min(1).max(64).optional(),
+  paused: z.boolean().optional(),
+});
+
+export const compareQuerySchema = z.object({
+  tick: intParam.optional(),
+});
+
+const vec2Schema = z.object({
+  x: z.number().min(0).max(120),
+  y: z.number().min(0).max(80),
+});
+
+/** Gust parameters; defaults for anything omitted (see wind.ts) */
+export const gustSchema = z.object({
+  center: vec2Schema.optional(),
+  peakSpeed: z.number().positive().max(25).optional(),
+  radius: z.number().min(5).max(80).optional(),
+  durationTicks: z.number().int().min(10).max(10000).optional(),
+});
+
+/** Calm one gust, or every gust without an id */
+export const gustClearSchema = z.object({
+  id: z.number().int().positive().optional(),
+});
+
+/** Replay an imported anemometer log (wind-log.ts) in place of the synthetic wind */
+export const windPlaySchema = z.object({
+  logId: z.string().min(1).max(64),
+  timeScale: z.number().min(0.1).max(100).optional(),
+  loop: z.boolean().optional(),
+  offsetS: z.number().min(0).optional(),
+});
+
+/** ?name= for an uploaded anemometer log */
+export const windLogQuerySchema = z.object({
+  name: z.string().min(1).max(128).optional(),
+});
+
+/** A serial WindReport (protocol-defs.ts) sent as JSON */
+export const windReportSchema = z.object({
+  robotId: robotId,
+  windSpeed: z.number().min(0).max(75),
+  windDir: z.number().min(0).lt(360),       // degrees the wind blows from
+  gustLevel: z.number().int().min(0).max(255).default(0),
+});
+
+export const scenarioActionSchema = z.discriminatedUnion('do', [
+  z.object({ do: z.literal('deploy') }),
+  z.object({ do: z.literal('recall') }),
+  gustSchema.extend({ do: z.literal('gust') }),
+  z.object({ do: z.literal('jamming'), center: vec2Schema.optional(), radius: z.number().positive().optional() }),
+  z.object({ do: z.literal('clearJamming') }),
+  z.object({ do: z.literal('nodeFailure'), robotId: robotId.optional() }),
+  z.object({ do: z.literal('recoverNode'), robotId: robotId }),
+  z.object({ do: z.literal('byzantine'), robotId: robotId.optional() }),
+  z.object({ do: z.literal('clearByzantine') }),
+  z.object({ do: z.literal('formation'), formation: formationSchema }),
+  z.object({ do: z.literal('move'), robotId: robotId, x: z.number().min(0).max(120), y: z.number().min(0).max(80) }),
+  z.object({ do: z.literal('startMission'), mission: missionTypeSchema }),
+  z.object({ do: z.literal('stopMission') }),
+]);
+
+export const scenarioAssertionSchema = z.object({
+  tick: z.number().int().min(1),
+  stat: z.string().min(1),                 // dotted path into SwarmStats, e.g. "nestingStats.deployed"
+  op: z.enum(['eq', 'ne', 'lt', 'lte', 'gt', 'gte']),
+  value: z.union([z.number(), z.string(), z.boolean()]),
+  label: z.string().optional(),
+});
+
+export const scenarioSchema = z.object({
+  name: z.string().min(1).max(128),
+  description: z.string().optional(),
+  seed: z.number().int().optional(),
+  fleet: z.union([z.string().min(1), fleetSpecSchema]).optional(),   // file path (relative to the scenario) or inline spec
+  durationTicks: z.number().int().min(1).max(100_000).optional(),
+  actions: z.array(scenarioActionSchema.and(z.object({ tick: z.number().int().min(0) }))).default([]),
+  assertions: z.array(scenarioAssertionSchema).default([]),
 });
 
 // ── Middleware factories ─────────────────────────────────────
@@ -92,6 +342,28 @@ export function validateRouteParams(schema: z.ZodSchema): RequestHandler {
   };
 }
 
+/**
+ * Validates req.query against an object schema.
+ * On success: stores the parsed query in res.locals.query (Express 5
+ * req.query is read-only) and calls next().
+ * On failure: responds 400 with validation error details.
+ */
+export function validateQuery(schema: z.ZodSchema): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const result = schema.safeParse(req.query);
+    if (result.success) {
+      res.locals.query = result.data;
+      next();
+    } else {
+      res.status(400).json({
+        ok: false,
+        error: 'Validation failed',
+        details: result.error.issues,
+      });
+    }
+  };
+}
+
 // ── Error handler (must be LAST middleware) ───────────────────
 
 export const errorHandler: ErrorRequestHandler = (
@@ -0,0 +1,259 @@
+/**
+ * wind-log.ts — Recorded anemometer logs driving the wind field
+ *
+ * A log is imported once from CSV (POST /wind/logs) and kept in the
+ * Store; cmd/wind/play replays it into a session's WindField in place of
+ * the synthetic direction drift, time-scaled and optionally looped.
+ *
+ * CSV columns (header row required, any order, case-insensitive):
+ *
+ *   timestamp   ISO 8601 date-time, or seconds
+ *   speed       mean wind speed, m/s
+ *   direction   degrees the wind blows FROM, clockwise from north
+ *   gust        peak gust, m/s                         (optional)
+ *   station     station name                           (optional)
+ *   x, y        station position on the map, metres    (optional)
+ *
+ * Rows of several stations may be interleaved. Stations with a position
+ * are interpolated across the map by inverse distance weighting (see
+ * wind.ts); a log without positions drives the whole map uniformly.
+ * Live serial WindReports (protocol-defs.ts) become observations at the
+ * reporting robot's position and take the same path; their unit-less
+ * 0-255 gustLevel is scaled to a gust excess of up to GUST_LEVEL_FULL_SCALE
+ * m/s.
+ */
+
+import { createHash } from 'crypto';
+import type { Vec2, WindPlayback } from './types';
+import type { WindObservation } from './wind';
+import type { ProtoWindReport } from './protocol-defs';
+
+export const MAX_WIND_LOG_ROWS = 100_000;
+export const MAX_WIND_STATIONS = 32;
+/** Gust excess (m/s above the mean) a WindReport gustLevel of 255 stands for */
+export const GUST_LEVEL_FULL_SCALE = 10;
+const MAX_GUST_LEVEL = 255;
+const MAP_W = 120;
+const MAP_H = 80;
+
+export interface WindSample {
+  t: number;              // seconds since the first row of the log
+  speed: number;          // m/s
+  direction: number;      // radians the wind blows toward (map frame, see wind.ts)
+  gust: number;           // m/s above the mean speed
+}
+
+export interface WindStation {
+  id: string;
+  position: Vec2 | null;
+  samples: WindSample[];  // ascending t
+}
+
+export interface WindLogSummary {
+  id: string;
+  name: string;
+  importedAt: string;     // ISO timestamp (wall clock)
+  startedAt: string | null;   // first row's timestamp when the log uses dates
+  durationS: number;
+  stations: { id: string; position: Vec2 | null; samples: number }[];
+}
+
+export interface WindLog extends Omit<WindLogSummary, 'stations'> {
+  stations: WindStation[];
+}
+
+export function windLogSummary(log: WindLog): WindLogSummary {
+  return {
+    id: log.id,
+    name: log.name,
+    importedAt: log.importedAt,
+    startedAt: log.startedAt,
+    durationS: log.durationS,
+    stations: log.stations.map(s => ({ id: s.id, position: s.position, samples: s.samples.length })),
+  };
+}
+
+/** Meteorological direction (degrees, wind FROM, clockwise from north) → map angle the wind blows toward */
+export function bearingToMapAngle(degreesFrom: number): number {
+  const toward = (degreesFrom + 180) * Math.PI / 180;
+  // North is −y on the map, east is +x
+  return Math.atan2(-Math.cos(toward), Math.sin(toward));
+}
+
+/** WindReport gustLevel (0-255) → m/s above the mean speed */
+export function gustLevelToSpeed(level: number): number {
+  return Math.min(Math.max(level, 0), MAX_GUST_LEVEL) / MAX_GUST_LEVEL * GUST_LEVEL_FULL_SCALE;
+}
+
+/** A serial WindReport as an observation at the reporting robot's position */
+export function reportObservation(report: ProtoWindReport, position: Vec2): WindObservation {
+  return {
+    position: { ...position },
+    speed: report.windSpeed,
+    direction: bearingToMapAngle(report.windDir),
+    gust: gustLevelToSpeed(report.gustLevel),
+  };
+}
+
+/** Parse an anemometer CSV into a log; throws with the offending line */
+export function parseWindCsv(text: string, name: string): WindLog {
+  const lines = text.split(/\r?\n/);
+  let headerLine = -1;
+  let columns: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === '' || line.startsWith('#')) continue;
+    headerLine = i;
+    columns = line.split(',').map(c => c.trim().toLowerCase());
+    break;
+  }
+  if (headerLine < 0) throw new Error('Wind log is empty');
+  const col = (name: string) => columns.indexOf(name);
+  for (const required of ['timestamp', 'speed', 'direction']) {
+    if (col(required) < 0) throw new Error(`Wind log header is missing the "${required}" column`);
+  }
+
+  const rows: { station: string; time: number; position: Vec2 | null; speed: number; direction: number; gust: number }[] = [];
+  let datedTimes = false;
+  for (let i = headerLine + 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === '' || line.startsWith('#')) continue;
+    if (rows.length >= MAX_WIND_LOG_ROWS) throw new Error(`Wind log has more than ${MAX_WIND_LOG_ROWS} rows`);
+    const cells = line.split(',').map(c => c.trim());
+    const fail = (msg: string): never => { throw new Error(`Line ${i + 1}: ${msg}`); };
+    const num = (name: string, optional = false): number | undefined => {
+      const raw = col(name) >= 0 ? cells[col(name)] : undefined;
+      if (raw === undefined || raw === '') return optional ? undefined : fail(`missing ${name}`);
+      const v = Number(raw);
+      return Number.isFinite(v) ? v : fail(`${name} "${raw}" is not a number`);
+    };
+
+    const rawTime = cells[col('timestamp')] ?? '';
+    let time = Number(rawTime);
+    if (rawTime === '' || !Number.isFinite(time)) {
+      time = Date.parse(rawTime) / 1000;
+      if (!Number.isFinite(time)) fail(`timestamp "${rawTime}" is neither seconds nor an ISO date`);
+      datedTimes = true;
+    }
+    const speed = num('speed')!;
+    if (speed < 0 || speed > 75) fail(`speed ${speed} m/s is out of range`);
+    const gust = num('gust', true);
+    const x = num('x', true);
+    const y = num('y', true);
+    if ((x === undefined) !== (y === undefined)) fail('a station position needs both x and y');
+    if (x !== undefined && y !== undefined && (x < 0 || x > MAP_W || y < 0 || y > MAP_H)) {
+      fail(`station position (${x}, ${y}) is outside the ${MAP_W} × ${MAP_H} m map`);
+    }
+    rows.push({
+      station: (col('station') >= 0 ? cells[col('station')] : '') || 'default',
+      time,
+      position: x !== undefined && y !== undefined ? { x, y } : null,
+      speed,
+      direction: bearingToMapAngle(num('direction')!),
+      gust: gust !== undefined ? Math.max(0, gust - speed) : 0,
+    });
+  }
+  if (rows.length === 0) throw new Error('Wind log has no data rows');
+
+  const start = Math.min(...rows.map(r => r.time));
+  const byStation = new Map<string, WindStation>();
+  for (const r of rows) {
+    let station = byStation.get(r.station);
+    if (!station) {
+      if (byStation.size >= MAX_WIND_STATIONS) throw new Error(`Wind log has more than ${MAX_WIND_STATIONS} stations`);
+      station = { id: r.station, position: r.position, samples: [] };
+      byStation.set(r.station, station);
+    }
+    station.position ??= r.position;
+    station.samples.push({ t: r.time - start, speed: r.speed, direction: r.direction, gust: r.gust });
+  }
+  const stations = [...byStation.values()];
+  for (const s of stations) s.samples.sort((a, b) => a.t - b.t);
+
+  return {
+    id: createHash('sha256').update(text).digest('hex').slice(0, 16),
+    name,
+    importedAt: new Date().toISOString(),
+    startedAt: datedTimes ? new Date(start * 1000).toISOString() : null,
+    durationS: Math.max(...rows.map(r => r.time)) - start,
+    stations,
+  };
+}
+
+export interface WindPlaybackOptions {
+  timeScale?: number;     // log seconds per simulated second
+  loop?: boolean;
+  offsetS?: number;       // start this far into the log
+}
+
+/** Playback position (see checkpoint.ts); the log itself stays in the Store */
+export interface WindPlaybackCheckpoint {
+  logId: string;
+  positionS: number;
+  timeScale: number;
+  loop: boolean;
+}
+
+export class WindLogPlayer {
+  private positionS: number;
+  private readonly timeScale: number;
+  private readonly loop: boolean;
+
+  constructor(readonly log: WindLog, options: WindPlaybackOptions = {}) {
+    this.timeScale = options.timeScale ?? 1;
+    this.loop = options.loop ?? false;
+    this.positionS = Math.min(options.offsetS ?? 0, log.durationS);
+  }
+
+  static fromCheckpoint(log: WindLog, cp: WindPlaybackCheckpoint): WindLogPlayer {
+    return new WindLogPlayer(log, { timeScale: cp.timeScale, loop: cp.loop, offsetS: cp.positionS });
+  }
+
+  /** Advance by `dt` simulated seconds; false once a non-looping log has ended */
+  advance(dt: number): boolean {
+    this.positionS += dt * this.timeScale;
+    if (this.positionS <= this.log.durationS) return true;
+    if (!this.loop || this.log.durationS <= 0) {
+      this.positionS = this.log.durationS;
+      return false;
+    }
+    this.positionS %= this.log.durationS;
+    return true;
+  }
+
+  /** Every station's wind at the current position, interpolated in time */
+  observations(): WindObservation[] {
+    return this.log.stations.map(s => ({ position: s.position, ...sampleAt(s.samples, this.positionS) }));
+  }
+
+  getState(): WindPlayback {
+    return { ...this.toCheckpoint(), name: this.log.name, durationS: this.log.durationS };
+  }
+
+  toCheckpoint(): WindPlaybackCheckpoint {
+    return { logId: this.log.id, positionS: this.positionS, timeScale: this.timeScale, loop: this.loop };
+  }
+}
+
+/** Linear in time on the wind components, so directions interpolate across north */
+function sampleAt(samples: WindSample[], t: number): { speed: number; direction: number; gust: number } {
+  // Last sample at or before t (binary search; logs run to 100k rows)
+  let lo = 0;
+  let hi = samples.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (samples[mid].t <= t) lo = mid;
+    else hi = mid - 1;
+  }
+  const i = lo;
+  const a = samples[i];
+  const b = samples[Math.min(i + 1, samples.length - 1)];
+  const f = b.t > a.t ? Math.max(0, Math.min(1, (t - a.t) / (b.t - a.t))) : 0;
+  const x = a.speed * Math.cos(a.direction) * (1 - f) + b.speed * Math.cos(b.direction) * f;
+  const y = a.speed * Math.sin(a.direction) * (1 - f) + b.speed * Math.sin(b.direction) * f;
+  return {
+    speed: a.speed * (1 - f) + b.speed * f,
+    direction: Math.atan2(y, x),
+    gust: a.gust * (1 - f) + b.gust * f,
+  };
+}
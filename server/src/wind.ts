@@ -1,6 +1,119 @@
-/* wind.ts — Wind field simulation (ported from swarm_visualizer.py) */
+/**
+ * wind.ts — Wind field simulation (ported from swarm_visualizer.py)
+ *
+ * The base wind (slowly drifting direction, sinusoidal turbulence) is
+ * resolved on a 2 m grid over the map, aligned with terrain.ts, so the
+ * buildings and hills shape it:
+ *
+ *   - wakes: behind every obstacle the wind drops and turbulence rises,
+ *     over a length proportional to the obstacle's height and widening
+ *     downwind; trees are porous and shelter less than buildings
+ *   - hills: wind speeds up over crests and slows in hollows, in
+ *     proportion to the relief against the surrounding ground
+ *   - solver 'potential' also deflects the flow around buildings and
+ *     rocks (2D potential flow, solved by SOR on the grid) instead of
+ *     only sheltering behind them
+ *
+ * The grid holds the flow for a unit base wind and is rebuilt when the
+ * base direction has drifted a few degrees; robots sample it bilinearly.
+ * Any number of gusts (up to MAX_GUSTS) swirl on top, each with its own
+ * center, peak, radius and lifetime.
+ *
+ * Observations (anemometer logs, serial WindReports — see wind-log.ts)
+ * replace the synthetic base wind: stations with a position are blended
+ * by inverse distance weighting, then shaped by the same grid; their
+ * gustiness raises the turbulence.
+ */
 
-import { Vec2, WindClass, WindState } from './types';
+import type { Vec2, WindClass, WindState, WindSolver, WindSource, GustState } from './types';
+import type { Prng } from './rng';
+import { terrainHeightAt, type TerrainData, type Obstacle } from './terrain';
+
+const MAP_W = 120;
+const MAP_H = 80;
+const CELL_M = 2;
+const COLS = MAP_W / CELL_M + 1;
+const ROWS = MAP_H / CELL_M + 1;
+
+const REBUILD_ANGLE = 3 * Math.PI / 180;   // base direction drift that triggers a grid rebuild
+const SOR_ITERATIONS = 150;
+const SOR_OMEGA = 1.8;
+
+const WAKE_LENGTH_PER_HEIGHT = 8;          // wake length in obstacle heights
+const WAKE_SPREAD = 0.15;                  // lateral growth of the wake per metre downwind
+const WAKE_DEFICIT: Record<Obstacle['type'], number> = { building: 0.75, rock: 0.5, tree: 0.35 };
+const WAKE_TURBULENCE = 1.5;               // extra turbulence per unit of speed deficit
+const FLIGHT_HEIGHT_M = 1.5;               // obstacles lower than ~2× this shelter less
+
+const HILL_RADIUS_M = 12;                  // ring the relief is measured against
+const HILL_SPEEDUP = 2;                    // ΔS ≈ 2·h/L (Jackson–Hunt)
+const MIN_HILL_FACTOR = 0.7;
+const MAX_HILL_FACTOR = 1.5;
+
+const IDW_POWER = 2;
+const GUST_TURBULENCE = 0.5;               // turbulence amplitude per m/s of observed gust excess
+
+export const MAX_GUSTS = 6;
+const DEFAULT_GUST_CENTER: Vec2 = { x: 85, y: 35 };
+const DEFAULT_GUST_PEAK = 8.0;
+const DEFAULT_GUST_RADIUS = 40;
+const DEFAULT_GUST_DURATION = 800;         // ticks
+
+/** Gust parameters (cmd/gust, scenario actions); defaults for anything omitted */
+export interface GustSpec {
+  center?: Vec2;
+  peakSpeed?: number;     // m/s at the center, at full intensity
+  radius?: number;        // m, at full intensity
+  durationTicks?: number;
+}
+
+/** Measured wind at a station (or everywhere, without a position) */
+export interface WindObservation {
+  position: Vec2 | null;
+  speed: number;          // m/s
+  direction: number;      // radians the wind blows toward
+  gust: number;           // m/s above the mean speed
+}
+
+interface Gust {
+  id: number;
+  center: Vec2;
+  peak: number;
+  maxRadius: number;
+  startTick: number;
+  duration: number;
+  speed: number;
+  radius: number;
+}
+
+/** Full wind field state, including every gust's lifecycle (see checkpoint.ts) */
+export interface WindCheckpoint {
+  baseAngle: number;
+  baseSpeed: number;
+  turbScale: number;
+  tick: number;
+  gridAngle: number;      // direction the grid was last resolved for
+  gusts: Gust[];
+  nextGustId: number;
+  observations: WindObservation[] | null;
+  source: WindSource;
+}
+
+/** Wind vectors on the grid for one tick, without turbulence (GET /wind/field) */
+export interface WindFieldSample {
+  tick: number;
+  solver: WindSolver;
+  cellSize: number;
+  cols: number;
+  rows: number;
+  /** Row-major [wx, wy] in m/s, node (c, r) at map point (c·cellSize, r·cellSize) */
+  vectors: [number, number][];
+}
+
+/** Parse a wind solver name from an env var; undefined if absent/invalid */
+export function parseWindSolver(raw: string | undefined): WindSolver | undefined {
+  return raw === 'wake' || raw === 'potential' ? raw : undefined;
+}
 
 export class WindField {
   private baseAngle: number;
@@ -8,96 +121,153 @@ export class WindField {
   private turbScale: number;
   private tick: number = 0;
 
-  // Gust state
-  private gustActive = false;
-  private gustCenter: Vec2 = { x: 85, y: 35 };
-  private gustRadius = 0;
-  private gustSpeed = 0;
-  private gustPeak = 8.0;
-  private gustStartTick = -1;
-  private gustDuration = 800; // ticks
+  private gusts: Gust[] = [];
+  private nextGustId = 1;
 
-  constructor(baseAngle = Math.PI * 0.25, baseSpeed = 2.0, turbScale = 0.5) {
+  // Measured base wind; null while the synthetic drift runs
+  private observations: WindObservation[] | null = null;
+  private source: WindSource = 'synthetic';
+
+  // Unit-wind flow grid, rebuilt when the base direction drifts
+  private gridAngle = 0;
+  private flowX = new Float64Array(COLS * ROWS);
+  private flowY = new Float64Array(COLS * ROWS);
+  private turbulence = new Float64Array(COLS * ROWS);
+  private readonly hills: Float64Array | null;   // speed-up per node, independent of direction
+
+  private readonly random: () => number;
+
+  constructor(
+    baseAngle = Math.PI * 0.25, private readonly syntheticSpeed = 2.0, turbScale = 0.5, rng?: Prng,
+    private readonly terrain?: TerrainData, readonly solver: WindSolver = 'wake',
+  ) {
     this.baseAngle = baseAngle;
-    this.baseSpeed = baseSpeed;
+    this.baseSpeed = syntheticSpeed;
     this.turbScale = turbScale;
+    this.random = rng ? () => rng.next() : Math.random;
+    this.hills = terrain ? hillFactors(terrain) : null;
+    this.rebuildGrid();
   }
 
   update(): void {
     this.tick++;
 
-    // Slowly drift base wind direction
-    this.baseAngle += (Math.random() - 0.5) * 0.01;
+    // Slowly drift base wind direction, unless measurements set it
+    if (!this.observations) this.baseAngle += (this.random() - 0.5) * 0.01;
+    if (Math.abs(angleDiff(this.baseAngle, this.gridAngle)) > REBUILD_ANGLE) this.rebuildGrid();
 
-    // Gust lifecycle
-    if (this.gustActive) {
-      const elapsed = this.tick - this.gustStartTick;
-      if (elapsed > this.gustDuration) {
-        this.gustActive = false;
-        this.gustSpeed = 0;
-        this.gustRadius = 0;
+    // Gust lifecycles: ramp up, sustain, ramp down
+    this.gusts = this.gusts.filter(g => this.tick - g.startTick <= g.duration);
+    for (const g of this.gusts) {
+      const phase = (this.tick - g.startTick) / g.duration;
+      let intensity: number;
+      if (phase < 0.2) {
+        intensity = phase / 0.2;
+      } else if (phase < 0.7) {
+        intensity = 1.0;
       } else {
-        const phase = elapsed / this.gustDuration;
-        // Ramp up, sustain, ramp down
-        let intensity: number;
-        if (phase < 0.2) {
-          intensity = phase / 0.2;
-        } else if (phase < 0.7) {
-          intensity = 1.0;
-        } else {
-          intensity = (1.0 - phase) / 0.3;
-        }
-        this.gustSpeed = this.gustPeak * intensity;
-        this.gustRadius = 25 + 15 * intensity;
+        intensity = (1.0 - phase) / 0.3;
       }
+      g.speed = g.peak * intensity;
+      g.radius = g.maxRadius * (0.625 + 0.375 * intensity);
+    }
+  }
+
+  /**
+   * Drive the base wind from observations (before update), or hand it
+   * back to the synthetic drift with null. The base direction and speed
+   * become the stations' vector mean.
+   */
+  drive(observations: WindObservation[] | null, source: WindSource = 'log'): void {
+    if (!observations || observations.length === 0) {
+      if (this.observations) this.baseSpeed = this.syntheticSpeed;
+      this.observations = null;
+      this.source = 'synthetic';
+      return;
+    }
+    this.observations = observations.map(o => ({ ...o, position: o.position && { ...o.position } }));
+    this.source = source;
+    let x = 0;
+    let y = 0;
+    for (const o of observations) {
+      x += o.speed * Math.cos(o.direction);
+      y += o.speed * Math.sin(o.direction);
     }
+    this.baseAngle = Math.atan2(y, x);
+    this.baseSpeed = Math.hypot(x, y) / observations.length;
   }
 
-  triggerGust(center?: Vec2): void {
-    this.gustActive = true;
-    this.gustStartTick = this.tick;
-    this.gustCenter = center ?? { x: 85, y: 35 };
-    this.gustSpeed = 0;
-    this.gustRadius = 0;
+  /** Start a gust; the oldest one is dropped once MAX_GUSTS are blowing */
+  triggerGust(spec: GustSpec = {}): GustState {
+    if (this.gusts.length >= MAX_GUSTS) this.gusts.shift();
+    const gust: Gust = {
+      id: this.nextGustId++,
+      center: { ...(spec.center ?? DEFAULT_GUST_CENTER) },
+      peak: spec.peakSpeed ?? DEFAULT_GUST_PEAK,
+      maxRadius: spec.radius ?? DEFAULT_GUST_RADIUS,
+      startTick: this.tick,
+      duration: spec.durationTicks ?? DEFAULT_GUST_DURATION,
+      speed: 0,
+      radius: 0,
+    };
+    this.gusts.push(gust);
+    return gustState(gust);
   }
 
-  stopGust(): void {
-    this.gustActive = false;
-    this.gustSpeed = 0;
-    this.gustRadius = 0;
+  /** Stop one gust, or all of them without an id; false if the id is not blowing */
+  stopGust(id?: number): boolean {
+    if (id === undefined) {
+      this.gusts = [];
+      return true;
+    }
+    const before = this.gusts.length;
+    this.gusts = this.gusts.filter(g => g.id !== id);
+    return this.gusts.length < before;
   }
 
   getWindAt(pos: Vec2): { speed: number; direction: number } {
-    // Base wind
-    let speed = this.baseSpeed;
-    let direction = this.baseAngle;
-
-    // Add turbulence
-    const turbX = (Math.sin(pos.x * 0.1 + this.tick * 0.05) +
-                   Math.sin(pos.y * 0.07 + this.tick * 0.03)) * this.turbScale;
-    const turbY = (Math.cos(pos.x * 0.08 + this.tick * 0.04) +
-                   Math.cos(pos.y * 0.09 + this.tick * 0.06)) * this.turbScale;
-
-    let wx = speed * Math.cos(direction) + turbX;
-    let wy = speed * Math.sin(direction) + turbY;
-
-    // Gust contribution
-    if (this.gustActive && this.gustSpeed > 0) {
-      const dx = pos.x - this.gustCenter.x;
-      const dy = pos.y - this.gustCenter.y;
-      const dist = Math.sqrt(dx * dx + dy * dy);
-      if (dist < this.gustRadius) {
-        const falloff = 1.0 - dist / this.gustRadius;
-        const gustAngle = Math.atan2(dy, dx) + Math.PI * 0.3;
-        wx += this.gustSpeed * falloff * Math.cos(gustAngle);
-        wy += this.gustSpeed * falloff * Math.sin(gustAngle);
-      }
-    }
+    const { fx, fy, turb } = this.sampleGrid(pos);
+
+    // Base wind through the grid, turned from the direction it was resolved for
+    const base = this.baseAt(pos);
+    const turn = base.angle - this.gridAngle;
+    const cos = Math.cos(turn);
+    const sin = Math.sin(turn);
+    let wx = base.speed * (fx * cos - fy * sin);
+    let wy = base.speed * (fx * sin + fy * cos);
+
+    // Add turbulence, stronger in wakes and on gusty measurements
+    const scale = (this.turbScale + GUST_TURBULENCE * base.gust) * turb;
+    wx += (Math.sin(pos.x * 0.1 + this.tick * 0.05) +
+           Math.sin(pos.y * 0.07 + this.tick * 0.03)) * scale;
+    wy += (Math.cos(pos.x * 0.08 + this.tick * 0.04) +
+           Math.cos(pos.y * 0.09 + this.tick * 0.06)) * scale;
 
-    speed = Math.sqrt(wx * wx + wy * wy);
-    direction = Math.atan2(wy, wx);
+    const gust = this.gustAt(pos);
+    wx += gust.x;
+    wy += gust.y;
 
-    return { speed, direction };
+    return { speed: Math.sqrt(wx * wx + wy * wy), direction: Math.atan2(wy, wx) };
+  }
+
+  /** Mean wind vectors on every grid node (base flow plus gusts) */
+  getFieldSample(): WindFieldSample {
+    const vectors: [number, number][] = [];
+    for (let r = 0; r < ROWS; r++) {
+      for (let c = 0; c < COLS; c++) {
+        const i = r * COLS + c;
+        const pos = { x: c * CELL_M, y: r * CELL_M };
+        const base = this.baseAt(pos);
+        const cos = Math.cos(base.angle - this.gridAngle);
+        const sin = Math.sin(base.angle - this.gridAngle);
+        const gust = this.gustAt(pos);
+        vectors.push([
+          round2(base.speed * (this.flowX[i] * cos - this.flowY[i] * sin) + gust.x),
+          round2(base.speed * (this.flowX[i] * sin + this.flowY[i] * cos) + gust.y),
+        ]);
+      }
+    }
+    return { tick: this.tick, solver: this.solver, cellSize: CELL_M, cols: COLS, rows: ROWS, vectors };
   }
 
   classifyWind(speed: number): WindClass {
@@ -110,16 +280,264 @@ export class WindField {
   getState(): WindState {
     const center = { x: 60, y: 40 };
     const w = this.getWindAt(center);
+    const strongest = this.gusts.reduce<Gust | null>((best, g) => (!best || g.speed > best.speed ? g : best), null);
     return {
       baseDirection: this.baseAngle,
       baseSpeed: this.baseSpeed,
-      gustActive: this.gustActive,
-      gustCenter: { ...this.gustCenter },
-      gustRadius: this.gustRadius,
-      gustSpeed: this.gustSpeed,
+      gustActive: strongest !== null,
+      gustCenter: { ...(strongest?.center ?? DEFAULT_GUST_CENTER) },
+      gustRadius: strongest?.radius ?? 0,
+      gustSpeed: strongest?.speed ?? 0,
+      gusts: this.gusts.map(gustState),
+      solver: this.solver,
+      source: this.source,
+      stations: this.observations?.length ?? 0,
       windClass: this.classifyWind(w.speed),
     };
   }
 
-  isGustActive(): boolean { return this.gustActive; }
+  isGustActive(): boolean { return this.gusts.length > 0; }
+
+  toCheckpoint(): WindCheckpoint {
+    return {
+      baseAngle: this.baseAngle,
+      baseSpeed: this.baseSpeed,
+      turbScale: this.turbScale,
+      tick: this.tick,
+      gridAngle: this.gridAngle,
+      gusts: this.gusts.map(g => ({ ...g, center: { ...g.center } })),
+      nextGustId: this.nextGustId,
+      observations: this.observations && this.observations.map(o => ({ ...o, position: o.position && { ...o.position } })),
+      source: this.source,
+    };
+  }
+
+  restoreCheckpoint(cp: WindCheckpoint): void {
+    this.baseAngle = cp.baseAngle;
+    this.baseSpeed = cp.baseSpeed;
+    this.turbScale = cp.turbScale;
+    this.tick = cp.tick;
+    this.gusts = cp.gusts.map(g => ({ ...g, center: { ...g.center } }));
+    this.nextGustId = cp.nextGustId;
+    this.observations = cp.observations && cp.observations.map(o => ({ ...o, position: o.position && { ...o.position } }));
+    this.source = cp.source;
+    this.rebuildGrid(cp.gridAngle);
+  }
+
+  /**
+   * Base wind at `pos`: the synthetic base, or the observations —
+   * positioned stations by inverse distance weighting, unpositioned ones
+   * only when no station has a position.
+   */
+  private baseAt(pos: Vec2): { speed: number; angle: number; gust: number } {
+    if (!this.observations) return { speed: this.baseSpeed, angle: this.baseAngle, gust: 0 };
+    const positioned = this.observations.filter(o => o.position);
+    const stations = positioned.length > 0 ? positioned : this.observations;
+    let x = 0;
+    let y = 0;
+    let gust = 0;
+    let weights = 0;
+    for (const o of stations) {
+      let w = 1;
+      if (o.position) {
+        const d2 = (pos.x - o.position.x) ** 2 + (pos.y - o.position.y) ** 2;
+        if (d2 < 1e-6) return { speed: o.speed, angle: o.direction, gust: o.gust };
+        w = 1 / Math.pow(d2, IDW_POWER / 2);
+      }
+      x += w * o.speed * Math.cos(o.direction);
+      y += w * o.speed * Math.sin(o.direction);
+      gust += w * o.gust;
+      weights += w;
+    }
+    return { speed: Math.hypot(x, y) / weights, angle: Math.atan2(y, x), gust: gust / weights };
+  }
+
+  /** Swirling outflow of every gust at `pos` */
+  private gustAt(pos: Vec2): Vec2 {
+    let x = 0;
+    let y = 0;
+    for (const g of this.gusts) {
+      if (g.speed <= 0) continue;
+      const dx = pos.x - g.center.x;
+      const dy = pos.y - g.center.y;
+      const dist = Math.sqrt(dx * dx + dy * dy);
+      if (dist >= g.radius) continue;
+      const falloff = 1.0 - dist / g.radius;
+      const gustAngle = Math.atan2(dy, dx) + Math.PI * 0.3;
+      x += g.speed * falloff * Math.cos(gustAngle);
+      y += g.speed * falloff * Math.sin(gustAngle);
+    }
+    return { x, y };
+  }
+
+  private sampleGrid(pos: Vec2): { fx: number; fy: number; turb: number } {
+    const gx = Math.max(0, Math.min(COLS - 1, pos.x / CELL_M));
+    const gy = Math.max(0, Math.min(ROWS - 1, pos.y / CELL_M));
+    const c0 = Math.min(COLS - 2, Math.floor(gx));
+    const r0 = Math.min(ROWS - 2, Math.floor(gy));
+    const tx = gx - c0;
+    const ty = gy - r0;
+    const i00 = r0 * COLS + c0;
+    const i01 = i00 + 1;
+    const i10 = i00 + COLS;
+    const i11 = i10 + 1;
+    const lerp = (a: Float64Array) =>
+      (a[i00] * (1 - tx) + a[i01] * tx) * (1 - ty) + (a[i10] * (1 - tx) + a[i11] * tx) * ty;
+    return { fx: lerp(this.flowX), fy: lerp(this.flowY), turb: lerp(this.turbulence) };
+  }
+
+  /** Resolve the unit base wind at `angle` over the terrain */
+  private rebuildGrid(angle = this.baseAngle): void {
+    this.gridAngle = angle;
+    const ux = Math.cos(angle);
+    const uy = Math.sin(angle);
+    this.turbulence.fill(1);
+    if (!this.terrain || !this.hills) {
+      this.flowX.fill(ux);
+      this.flowY.fill(uy);
+      return;
+    }
+
+    const solid = solidNodes(this.terrain.obstacles);
+    if (this.solver === 'potential') {
+      solvePotentialFlow(ux, uy, solid, this.flowX, this.flowY);
+    } else {
+      for (let i = 0; i < COLS * ROWS; i++) {
+        this.flowX[i] = solid[i] ? 0 : ux;
+        this.flowY[i] = solid[i] ? 0 : uy;
+      }
+    }
+
+    for (let r = 0; r < ROWS; r++) {
+      for (let c = 0; c < COLS; c++) {
+        const i = r * COLS + c;
+        if (solid[i]) continue;
+        const deficit = wakeDeficit(this.terrain.obstacles, c * CELL_M, r * CELL_M, ux, uy);
+        const factor = this.hills[i] * (1 - deficit);
+        this.flowX[i] *= factor;
+        this.flowY[i] *= factor;
+        this.turbulence[i] = 1 + WAKE_TURBULENCE * deficit;
+      }
+    }
+  }
+}
+
+function gustState(g: Gust): GustState {
+  return { id: g.id, center: { ...g.center }, radius: g.radius, speed: g.speed };
+}
+
+/** Grid nodes inside a building or rock (trees let the wind through) */
+function solidNodes(obstacles: Obstacle[]): Uint8Array {
+  const solid = new Uint8Array(COLS * ROWS);
+  for (const o of obstacles) {
+    if (o.type === 'tree') continue;
+    const c0 = Math.ceil((o.x - o.width / 2) / CELL_M);
+    const c1 = Math.floor((o.x + o.width / 2) / CELL_M);
+    const r0 = Math.ceil((o.z - o.depth / 2) / CELL_M);
+    const r1 = Math.floor((o.z + o.depth / 2) / CELL_M);
+    for (let r = Math.max(0, r0); r <= Math.min(ROWS - 1, r1); r++) {
+      for (let c = Math.max(0, c0); c <= Math.min(COLS - 1, c1); c++) solid[r * COLS + c] = 1;
+    }
+  }
+  return solid;
+}
+
+/**
+ * Potential flow around the solid nodes: ∇²φ = 0 with the free stream
+ * on the map edges and no flow through solids (mirrored neighbours),
+ * relaxed by SOR from the free stream; the flow is ∇φ.
+ */
+function solvePotentialFlow(ux: number, uy: number, solid: Uint8Array, outX: Float64Array, outY: Float64Array): void {
+  const phi = new Float64Array(COLS * ROWS);
+  for (let r = 0; r < ROWS; r++) {
+    for (let c = 0; c < COLS; c++) phi[r * COLS + c] = (c * ux + r * uy) * CELL_M;
+  }
+  const open = (c: number, r: number) => !solid[r * COLS + c];
+
+  for (let iter = 0; iter < SOR_ITERATIONS; iter++) {
+    for (let r = 1; r < ROWS - 1; r++) {
+      for (let c = 1; c < COLS - 1; c++) {
+        const i = r * COLS + c;
+        if (solid[i]) continue;
+        let sum = 0;
+        let n = 0;
+        if (open(c - 1, r)) { sum += phi[i - 1]; n++; }
+        if (open(c + 1, r)) { sum += phi[i + 1]; n++; }
+        if (open(c, r - 1)) { sum += phi[i - COLS]; n++; }
+        if (open(c, r + 1)) { sum += phi[i + COLS]; n++; }
+        if (n > 0) phi[i] += SOR_OMEGA * (sum / n - phi[i]);
+      }
+    }
+  }
+
+  // Central differences, one-sided beside solids and on the edges
+  const gradient = (i: number, lo: boolean, hi: boolean, step: number): number => {
+    if (lo && hi) return (phi[i + step] - phi[i - step]) / (2 * CELL_M);
+    if (hi) return (phi[i + step] - phi[i]) / CELL_M;
+    if (lo) return (phi[i] - phi[i - step]) / CELL_M;
+    return 0;
+  };
+  for (let r = 0; r < ROWS; r++) {
+    for (let c = 0; c < COLS; c++) {
+      const i = r * COLS + c;
+      if (solid[i]) {
+        outX[i] = 0;
+        outY[i] = 0;
+        continue;
+      }
+      outX[i] = gradient(i, c > 0 && open(c - 1, r), c < COLS - 1 && open(c + 1, r), 1);
+      outY[i] = gradient(i, r > 0 && open(c, r - 1), r < ROWS - 1 && open(c, r + 1), COLS);
+    }
+  }
+}
+
+/** Combined speed deficit (0-1) of the obstacle wakes at (x, y) */
+function wakeDeficit(obstacles: Obstacle[], x: number, y: number, ux: number, uy: number): number {
+  let passing = 1;
+  for (const o of obstacles) {
+    const dx = x - o.x;
+    const dy = y - o.z;
+    const along = dx * ux + dy * uy;                     // downwind distance from the center
+    const across = Math.abs(-dx * uy + dy * ux);
+    const halfLength = Math.abs(o.width / 2 * ux) + Math.abs(o.depth / 2 * uy);
+    const halfWidth = Math.abs(o.width / 2 * uy) + Math.abs(o.depth / 2 * ux);
+    const behind = along - halfLength;
+    const length = WAKE_LENGTH_PER_HEIGHT * o.height;
+    if (behind <= 0 || behind >= length) continue;
+
+    const width = halfWidth + WAKE_SPREAD * behind;
+    const lateral = across <= width ? 1 : Math.exp(-((across - width) ** 2) / 2);
+    if (lateral < 0.01) continue;
+    const tall = Math.min(1, o.height / (2 * FLIGHT_HEIGHT_M));
+    const deficit = WAKE_DEFICIT[o.type] * tall * (1 - behind / length) * lateral * halfWidth / width;
+    passing *= 1 - deficit;
+  }
+  return 1 - passing;
+}
+
+/** Speed-up over crests, slow-down in hollows: each node's relief against a ring of ground around it */
+function hillFactors(terrain: TerrainData): Float64Array {
+  const factors = new Float64Array(COLS * ROWS);
+  for (let r = 0; r < ROWS; r++) {
+    for (let c = 0; c < COLS; c++) {
+      const x = c * CELL_M;
+      const y = r * CELL_M;
+      let ring = 0;
+      for (let k = 0; k < 8; k++) {
+        const a = k * Math.PI / 4;
+        ring += terrainHeightAt(terrain, x + HILL_RADIUS_M * Math.cos(a), y + HILL_RADIUS_M * Math.sin(a));
+      }
+      const relief = terrainHeightAt(terrain, x, y) - ring / 8;
+      factors[r * COLS + c] = Math.max(MIN_HILL_FACTOR, Math.min(MAX_HILL_FACTOR, 1 + HILL_SPEEDUP * relief / HILL_RADIUS_M));
+    }
+  }
+  return factors;
+}
+
+function angleDiff(a: number, b: number): number {
+  return Math.atan2(Math.sin(a - b), Math.cos(a - b));
+}
+
+function round2(v: number): number {
+  return Math.round(v * 100) / 100;
 }
@@ -1,7 +1,10 @@
 /* wpt.ts — Wireless Power Transfer (WPT) for 套娃 energy cascade */
 
 import { Robot } from './robot';
-import { SIZE_PARAMS, type EnergyFlowLink } from './types';
+import type { EnergyFlowLink } from './types';
+
+/** Supercap charge voltage (V) */
+const SUPERCAP_V = 3.7;
 
 /**
  * Compute WPT energy flows between parent robots and their children.
@@ -19,7 +22,7 @@ export function computeWptFlows(robots: Robot[]): EnergyFlowLink[] {
     if (parent.childIds.length === 0) continue;
     if (!parent.isOnline) continue;
 
-    const params = SIZE_PARAMS[parent.sizeClass];
+    const params = parent.params;
     if (params.wptOutputMw <= 0) continue;
 
     const children = parent.childIds
@@ -62,9 +65,11 @@ export function computeWptFlows(robots: Robot[]): EnergyFlowLink[] {
 /**
  * Apply WPT charging to child robots based on computed flows.
  * Small robots charge supercap first (fast charge), then battery.
- * Medium/Large robots charge battery directly.
+ * Medium/Large robots charge battery directly, within the pack's charge
+ * C-rate (battery.ts). The parents pay for their output through
+ * wptOutputMw on their next tick.
  */
-export function applyWptCharging(robots: Robot[], flows: EnergyFlowLink[]): void {
+export function applyWptCharging(robots: Robot[], flows: EnergyFlowLink[], dt: number): void {
   const robotMap = new Map<number, Robot>();
   for (const r of robots) {
     robotMap.set(r.id, r);
@@ -89,19 +94,14 @@ export function applyWptCharging(robots: Robot[], flows: EnergyFlowLink[]): void
     if (!child) continue;
 
     child.wptReceiveMw += flow.powerMw;
-    const params = SIZE_PARAMS[child.sizeClass];
+    const params = child.params;
 
-    if (params.supercapMah > 0) {
-      // Small robots: charge supercap first at 10× rate
-      if (child.supercapSoc < 100) {
-        child.supercapSoc = Math.min(100, child.supercapSoc + flow.powerMw * 0.01);
-      } else {
-        // Supercap full — charge battery
-        child.batterySoc = Math.min(100, child.batterySoc + flow.powerMw * 0.0005);
-      }
+    if (params.supercapMah > 0 && child.supercapSoc < 100) {
+      // Small robots: charge supercap first (no C-rate limit)
+      const mah = flow.powerMw / SUPERCAP_V * dt / 3600;
+      child.supercapSoc = Math.min(100, child.supercapSoc + mah / params.supercapMah * 100);
     } else {
-      // Medium/Large: charge battery directly
-      child.batterySoc = Math.min(100, child.batterySoc + flow.powerMw * 0.0005);
+      child.battery.absorb(flow.powerMw, dt);
     }
   }
 }
@@ -0,0 +1,105 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import { auditRequests, auditToCsv, filterAudit, resultForStatus, type AuditEntry } from '../src/audit';
+import { MemoryStore, JsonlStore } from '../src/store';
+import { validateBody, moveSchema, auditQuerySchema } from '../src/validation';
+
+function entry(timestamp: number, overrides: Partial<AuditEntry> = {}): AuditEntry {
+  return {
+    timestamp, runId: 'r1', sessionId: 'default', tick: timestamp, actor: 'ada', role: 'operator',
+    channel: 'socket', command: 'cmd:deploy', result: 'ok', ...overrides,
+  };
+}
+
+describe('Audit trail', () => {
+  let tmpDir: string | null = null;
+  afterEach(() => {
+    if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+    tmpDir = null;
+  });
+
+  it('maps HTTP status to outcomes', () => {
+    expect(resultForStatus(200)).toBe('ok');
+    expect(resultForStatus(400)).toBe('rejected');
+    expect(resultForStatus(409)).toBe('rejected');
+    expect(resultForStatus(401)).toBe('denied');
+    expect(resultForStatus(403)).toBe('denied');
+    expect(resultForStatus(500)).toBe('error');
+  });
+
+  it('filters by actor, channel, command substring and result', () => {
+    const entries = [
+      entry(1),
+      entry(2, { actor: 'bob', command: 'POST /cmd/move', channel: 'rest' }),
+      entry(3, { command: 'cmd:inject:byzantine', result: 'denied' }),
+      entry(4, { channel: 'serial', command: 'serial:move' }),
+    ];
+    expect(filterAudit(entries, { actor: 'bob' }).map(e => e.timestamp)).toEqual([2]);
+    expect(filterAudit(entries, { command: 'move' }).map(e => e.timestamp)).toEqual([2, 4]);
+    expect(filterAudit(entries, { channel: 'socket', result: 'denied' }).map(e => e.timestamp)).toEqual([3]);
+  });
+
+  it('pages audit entries in both store backends', () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'swarm-audit-'));
+    for (const store of [new MemoryStore(), new JsonlStore(tmpDir)]) {
+      for (let t = 1; t <= 5; t++) store.appendAudit(entry(t, { actor: t % 2 ? 'ada' : 'bob' }));
+      const page = store.queryAudit({ actor: 'ada', limit: 2 });
+      expect(page.total).toBe(3);
+      expect(page.items.map(e => e.timestamp)).toEqual([5, 3]);
+    }
+  });
+
+  it('exports CSV with escaped params and formula-safe cells', () => {
+    const csv = auditToCsv([entry(0, { params: { robotId: 2, x: 10 }, actor: '@sum(A1)', error: '=cmd,1' })]);
+    const [header, row] = csv.trim().split('\n');
+    expect(header.split(',')).toContain('params');
+    expect(row).toContain('1970-01-01T00:00:00.000Z');
+    expect(row).toContain('"{""robotId"":2,""x"":10}"');
+    expect(row).toContain(",'@sum(A1),");
+    expect(row).toContain(`"'=cmd,1"`);
+    expect(row).not.toMatch(/(^|,)"?[=+\-@]/);
+  });
+
+  it('records REST commands with validated params, actor and outcome', async () => {
+    const recorded: AuditEntry[] = [];
+    const app = express();
+    app.use(express.json());
+    app.use((_req, res, next) => {
+      res.locals.principal = { name: 'bob', role: 'operator' };
+      next();
+    });
+    app.use(auditRequests(e => recorded.push(e), () => ({ runId: 'r9', sessionId: 'default', tick: 42 })));
+    app.get('/mission', (_req, res) => { res.json({}); });
+    app.post('/cmd/move', validateBody(moveSchema), (_req, res) => { res.json({ ok: true }); });
+
+    const server = app.listen(0);
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const post = (body: unknown) => fetch(`${base}/cmd/move`, {
+      method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body),
+    });
+    try {
+      await fetch(`${base}/mission`);
+      await post({ robotId: 3, x: 10, y: 20 });
+      await post({ robotId: 3, x: 500, y: 20 });
+    } finally {
+      server.close();
+    }
+
+    expect(recorded).toHaveLength(2);               // GETs are not audited
+    expect(recorded[0]).toMatchObject({
+      runId: 'r9', tick: 42, actor: 'bob', channel: 'rest', command: 'POST /cmd/move',
+      params: { robotId: 3, x: 10, y: 20 }, result: 'ok',
+    });
+    expect(recorded[1]).toMatchObject({ result: 'rejected', error: 'Validation failed' });
+  });
+
+  it('validates audit queries', () => {
+    expect(auditQuerySchema.safeParse({ channel: 'serial', result: 'denied', limit: '5' }).success).toBe(true);
+    expect(auditQuerySchema.safeParse({ channel: 'carrier-pigeon' }).success).toBe(false);
+    expect(auditQuerySchema.safeParse({ format: 'xml' }).success).toBe(false);
+  });
+});
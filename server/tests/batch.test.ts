@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { summarize, runMission, runBatch, type BatchOptions } from '../src/batch';
+
+const OPTIONS: BatchOptions = {
+  mission: 'search_classify',
+  runs: 2,
+  baseSeed: 10,
+  deployTicks: 60,
+};
+
+describe('summarize', () => {
+  it('computes mean, population stddev, min and max', () => {
+    const s = summarize([2, 4, 4, 4, 5, 5, 7, 9]);
+    expect(s.mean).toBe(5);
+    expect(s.stddev).toBe(2);
+    expect(s.min).toBe(2);
+    expect(s.max).toBe(9);
+  });
+
+  it('returns zeros for an empty sample', () => {
+    expect(summarize([])).toEqual({ mean: 0, stddev: 0, min: 0, max: 0 });
+  });
+});
+
+describe('runMission', () => {
+  it('runs a mission to completion and records its result', () => {
+    const outcome = runMission(OPTIONS, 10);
+    expect(outcome.seed).toBe(10);
+    expect(outcome.result.type).toBe('search_classify');
+    expect(outcome.ticks).toBeGreaterThanOrEqual(600);
+    expect(outcome.result.totalTargets).toBeGreaterThan(0);
+    expect(outcome.hdcAccuracy).toBeGreaterThanOrEqual(0);
+    expect(outcome.hdcAccuracy).toBeLessThanOrEqual(1);
+  });
+
+  it('is reproducible for the same seed', () => {
+    const a = runMission(OPTIONS, 11);
+    const b = runMission(OPTIONS, 11);
+    expect(a.result.score).toBe(b.result.score);
+    expect(a.result.classified).toBe(b.result.classified);
+    expect(a.hdcInferences).toBe(b.hdcInferences);
+  });
+});
+
+describe('runBatch', () => {
+  it('aggregates one outcome per seed', () => {
+    const seen: number[] = [];
+    const summary = runBatch(OPTIONS, o => seen.push(o.seed));
+    expect(seen).toEqual([10, 11]);
+    expect(summary.outcomes).toHaveLength(2);
+    expect(summary.score.min).toBeLessThanOrEqual(summary.score.max);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { Battery, motorPowerMw, powerLoads, totalLoadMw } from '../src/battery';
+import { Robot } from '../src/robot';
+import { SwarmSimulator } from '../src/simulator';
+import { SIZE_PARAMS } from '../src/types';
+
+const DT = 0.15;
+
+/** Seconds until the pack is empty at a constant load */
+function enduranceSeconds(battery: Battery, loadMw: number, ambientC = 20): number {
+  let t = 0;
+  while (battery.soc > 0 && t < 4 * 3600) {
+    battery.step(loadMw, 0, DT, ambientC);
+    t += DT;
+  }
+  return t;
+}
+
+describe('Battery pack model', () => {
+  it('integrates current as charge and sags under load', () => {
+    const battery = new Battery({ ...SIZE_PARAMS.medium, capacityMah: 1000 }, 25);
+    const ocv = battery.voltage;
+    expect(ocv).toBeCloseTo(8.4);   // 2S, full
+
+    for (let i = 0; i < 100; i++) battery.step(30_000, 0, DT, 25);
+    expect(battery.currentA).toBeGreaterThan(30 / ocv);
+    expect(battery.voltage).toBeLessThan(ocv - battery.currentA * 0.05 + 0.1);
+    // ~3.6 A for 15 s ≈ 15 mAh of 1000
+    expect(battery.soc).toBeGreaterThan(98);
+    expect(battery.soc).toBeLessThan(98.8);
+  });
+
+  it('gives each size class its patrol endurance', () => {
+    const patrolMinutes = (size: keyof typeof SIZE_PARAMS) => {
+      const params = SIZE_PARAMS[size];
+      const loads = powerLoads(params, true, params.maxSpeed, 'FULL', 0);
+      return enduranceSeconds(new Battery(params, 25), totalLoadMw(loads)) / 60;
+    };
+    expect(patrolMinutes('small')).toBeGreaterThan(7);
+    expect(patrolMinutes('small')).toBeLessThan(11);
+    expect(patrolMinutes('medium')).toBeGreaterThan(12);
+    expect(patrolMinutes('large')).toBeGreaterThan(patrolMinutes('medium'));
+    expect(patrolMinutes('hub')).toBeGreaterThan(50);
+    expect(motorPowerMw(SIZE_PARAMS.small, 5)).toBeGreaterThan(motorPowerMw(SIZE_PARAMS.small, 2));
+  });
+
+  it('derates capacity and refuses charge in the cold', () => {
+    const load = totalLoadMw(powerLoads(SIZE_PARAMS.small, true, 3, 'FULL', 0));
+    const warm = enduranceSeconds(new Battery(SIZE_PARAMS.small, 20), load, 20);
+    const cold = enduranceSeconds(new Battery(SIZE_PARAMS.small, -10), load, -10);
+    expect(cold).toBeLessThan(warm * 0.85);
+
+    const frozen = new Battery(SIZE_PARAMS.small, -5);
+    frozen.soc = 50;
+    frozen.step(0, 50_000, DT, -5);
+    expect(frozen.currentA).toBe(0);
+    expect(frozen.soc).toBe(50);
+  });
+
+  it('limits charge current to the C-rate and tapers near full', () => {
+    const battery = new Battery(SIZE_PARAMS.large, 25);   // 3000 mAh at 2C
+    battery.soc = 40;
+    battery.step(0, 1_000_000, DT, 25);
+    expect(battery.currentA).toBeCloseTo(-6);
+    battery.soc = 95;
+    battery.step(0, 1_000_000, DT, 25);
+    expect(-battery.currentA).toBeLessThan(3.5);
+  });
+
+  it('warms under load and cools toward ambient', () => {
+    const battery = new Battery(SIZE_PARAMS.small, 20);
+    for (let i = 0; i < 2000; i++) battery.step(12_000, 0, DT, 20);
+    const hot = battery.temperatureC;
+    expect(hot).toBeGreaterThan(21);
+    for (let i = 0; i < 4000; i++) battery.step(0, 0, DT, 20);
+    expect(battery.temperatureC).toBeLessThan(hot);
+    expect(battery.temperatureC).toBeGreaterThanOrEqual(20);
+  });
+});
+
+describe('Robot power budget', () => {
+  it('reports consumers, pack telemetry and an endurance estimate', () => {
+    const sim = new SwarmSimulator({ seed: 5, ambientTempC: 5 });
+    sim.deploy();
+    for (let i = 0; i < 200; i++) sim.step();
+    const flying = sim.robots.filter(r => r.sizeClass === 'small' && r.phase === 'patrol');
+    expect(flying.length).toBeGreaterThan(0);
+    const state = flying[0].getState();
+    expect(state.powerDrawMw).toBeGreaterThan(SIZE_PARAMS.small.hoverPowerMw);
+    expect(state.batteryCurrentA).toBeGreaterThan(0);
+    expect(state.batteryVoltage).toBeLessThan(4.2);
+    expect(state.batteryTempC).toBeGreaterThan(5);
+    expect(state.estimatedMinutes).toBeGreaterThan(3);
+    expect(state.estimatedMinutes).toBeLessThan(15);
+    expect(sim.getManifest().ambientTempC).toBe(5);
+  });
+
+  it('keeps a grounded robot on its idle loads', () => {
+    const robot = new Robot(1, 'medium', { x: 50, y: 40 });
+    const idle = totalLoadMw(powerLoads(SIZE_PARAMS.medium, false, 0, robot.powerMode, 0));
+    expect(idle).toBeLessThan(500);
+    const loaded = totalLoadMw(powerLoads(SIZE_PARAMS.medium, false, 0, 'FULL', 5000));
+    expect(loaded - idle).toBeGreaterThan(5000);   // WPT transmitter losses
+  });
+});
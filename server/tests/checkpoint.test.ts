@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { SwarmSimulator } from '../src/simulator';
+import { MemoryStore } from '../src/store';
+import type { SimCheckpoint } from '../src/checkpoint';
+
+/** Round-trip through JSON, as a checkpoint file would */
+function viaJson(cp: SimCheckpoint): SimCheckpoint {
+  return JSON.parse(JSON.stringify(cp));
+}
+
+function busySimulator(): SwarmSimulator {
+  const sim = new SwarmSimulator({ seed: 7 });
+  sim.deploy();
+  for (let i = 0; i < 40; i++) sim.step();   // mid cascade deploy
+  sim.startMission('search_classify');
+  sim.triggerGust({ x: 30, y: 60 });
+  for (let i = 0; i < 80; i++) sim.step();
+  return sim;
+}
+
+describe('Simulator checkpoints', () => {
+  it('resumes a run tick-for-tick', () => {
+    const original = busySimulator();
+    const restored = SwarmSimulator.fromCheckpoint(viaJson(original.toCheckpoint()));
+
+    for (let i = 0; i < 150; i++) {
+      const a = original.step();
+      const b = restored.step();
+      expect(b.tick).toBe(a.tick);
+      expect(b.robots).toEqual(a.robots);
+      expect(b.mission).toEqual(a.mission);
+      expect(b.wind).toEqual(a.wind);
+      expect(b.events.map(e => e.message)).toEqual(a.events.map(e => e.message));
+    }
+    expect(restored.getHdcStats()).toEqual(original.getHdcStats());
+  });
+
+  it('carries the event history, clock and manifest lineage', () => {
+    const original = busySimulator();
+    original.setSpeed(2);
+    const cp = original.toCheckpoint('before gust peak');
+    const restored = SwarmSimulator.fromCheckpoint(viaJson(cp));
+
+    expect(cp.id).toBe(`${original.getManifest().runId}-t120`);
+    expect(restored.getTick()).toBe(120);
+    expect(restored.getSpeed()).toBe(2);
+    expect(restored.getEventHistory()).toEqual(original.getEventHistory());
+    expect(restored.getManifest().restoredFrom).toBe(cp.id);
+    expect(restored.getManifest().runId).not.toBe(original.getManifest().runId);
+  });
+
+  it('keeps the load-shedding mesh cadence and pending overrun notes', () => {
+    const original = busySimulator();
+    original.setMeshInterval(4);
+    for (let i = 0; i < 2; i++) original.step();   // between BLE refreshes
+    const stats = { tickRateHz: 8, targetHz: 10, overruns: 3, droppedTicks: 0, shedLevel: 1, meshIntervalTicks: 4 };
+    original.reportScheduler(stats, 'Tick budget overrun; BLE mesh refreshed every 4 ticks');
+    const restored = SwarmSimulator.fromCheckpoint(viaJson(original.toCheckpoint()));
+
+    expect(restored.getMeshInterval()).toBe(4);
+    for (let i = 0; i < 10; i++) {
+      const a = original.step();
+      const b = restored.step();
+      expect(b.bleLinks).toEqual(a.bleLinks);
+      expect(b.events.map(e => e.message)).toEqual(a.events.map(e => e.message));
+    }
+    expect(restored.getEventHistory().some(e => e.type === 'overrun')).toBe(true);
+  });
+
+  it('is isolated from the live simulator once taken', () => {
+    const sim = busySimulator();
+    const cp = sim.toCheckpoint();
+    const battery = cp.robots[5].batterySoc;
+    const target = cp.mission.state.targets[0]?.position.x;
+    for (let i = 0; i < 50; i++) sim.step();
+    expect(cp.robots[5].batterySoc).toBe(battery);
+    expect(cp.mission.state.targets[0]?.position.x).toBe(target);
+  });
+
+  it('rejects checkpoints from another version', () => {
+    const cp = { ...new SwarmSimulator({ seed: 1 }).toCheckpoint(), version: 99 };
+    expect(() => SwarmSimulator.fromCheckpoint(cp)).toThrow(/version 99/);
+  });
+
+  it('is kept by the store', () => {
+    const store = new MemoryStore();
+    const sim = busySimulator();
+    const cp = sim.toCheckpoint();
+    store.saveCheckpoint(cp);
+    expect(store.listCheckpoints().items.map(c => c.id)).toEqual([cp.id]);
+    expect(store.getCheckpoint(cp.id)?.tick).toBe(120);
+    expect(store.getCheckpoint('missing')).toBeNull();
+  });
+});
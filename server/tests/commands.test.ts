@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  COMMANDS, getCommand, commandForEvent, commandRole, socketEvent, socketInput, restPaths, runCommand,
+} from '../src/commands';
+import { SessionManager, DEFAULT_SESSION_ID } from '../src/sessions';
+
+function session() {
+  const sessions = new SessionManager({ onSnapshot: () => {} });
+  return sessions.create({ id: DEFAULT_SESSION_ID, seed: 1 });
+}
+
+function command(name: string) {
+  const found = getCommand(name);
+  if (!found) throw new Error(`missing command ${name}`);
+  return found;
+}
+
+describe('Command registry', () => {
+  it('derives REST routes and socket events from one table', () => {
+    expect(socketEvent(command('inject/node-failure'))).toBe('cmd:inject:node-failure');
+    expect(commandForEvent('cmd:start-mission')?.name).toBe('start-mission');
+    expect(restPaths(command('formation'))).toEqual(['/cmd/formation', '/cmd/formation/:type']);
+    expect(restPaths(command('speed'))).toEqual(['/cmd/speed']);
+    // Both transports read the role from the command
+    for (const c of COMMANDS) {
+      expect(commandRole(c)).toBe(c.name.startsWith('inject/') ? 'instructor' : 'operator');
+    }
+  });
+
+  it('maps bare socket payloads onto the positional field', () => {
+    expect(socketInput(command('formation'), 'ring')).toEqual({ type: 'ring' });
+    expect(socketInput(command('step'), 5)).toEqual({ ticks: 5 });
+    expect(socketInput(command('deploy'), undefined)).toEqual({});
+    expect(socketInput(command('move'), { robotId: 1, x: 2, y: 3 })).toEqual({ robotId: 1, x: 2, y: 3 });
+  });
+
+  it('accepts every robot in the fleet and 404s ids outside it', () => {
+    const s = session();
+    const last = s.sim.robots[s.sim.robots.length - 1].id;
+    expect(last).toBeGreaterThan(7);
+
+    const moved = runCommand(command('move'), s, { robotId: last, x: 60, y: 40 });
+    expect(moved).toMatchObject({ status: 200, ack: { ok: true } });
+    expect(s.sim.robots.find(r => r.id === last)?.targetPosition).toEqual({ x: 60, y: 40 });
+
+    expect(runCommand(command('move'), s, { robotId: 200, x: 60, y: 40 })).toEqual({
+      status: 404, ack: { ok: false, error: 'Robot not found: 200' }, input: { robotId: 200, x: 60, y: 40 },
+    });
+    expect(runCommand(command('move'), s, { robotId: 300, x: 60, y: 40 }).status).toBe(400);
+  });
+
+  it('rejects invalid input with the validation issues', () => {
+    const outcome = runCommand(command('formation'), session(), { type: 'spiral' });
+    expect(outcome.status).toBe(400);
+    expect(outcome.ack).toMatchObject({ ok: false, error: 'Validation failed' });
+    expect(outcome.ack.ok ? [] : outcome.ack.details).toHaveLength(1);
+  });
+
+  it('acks with command-specific payloads and preconditions', () => {
+    const s = session();
+    expect(runCommand(command('step'), s, {})).toMatchObject({ status: 409 });
+    expect(runCommand(command('pause'), s, {}).ack).toMatchObject({ ok: true, clock: { paused: true } });
+    expect(runCommand(command('step'), s, { ticks: 3 }).ack).toMatchObject({ ok: true, tick: 3 });
+    expect(runCommand(command('start-mission'), s, { type: 'survey' }).ack).toMatchObject({
+      ok: true, mission: { type: 'survey' },
+    });
+    // node-failure without a robotId picks one at random
+    expect(runCommand(command('inject/node-failure'), s, {}).status).toBe(200);
+  });
+});
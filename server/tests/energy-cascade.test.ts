@@ -135,7 +135,7 @@ describe('Energy Cascade (套娃)', () => {
       child.batterySoc = 50;
 
       const flows = computeWptFlows([parent, child]);
-      applyWptCharging([parent, child], flows);
+      applyWptCharging([parent, child], flows, 0.15);
 
       expect(child.batterySoc).toBeGreaterThan(50);
       expect(child.wptReceiveMw).toBeGreaterThan(0);
@@ -150,7 +150,7 @@ describe('Energy Cascade (套娃)', () => {
       child.batterySoc = 50;
 
       const flows = computeWptFlows([parent, child]);
-      applyWptCharging([parent, child], flows);
+      applyWptCharging([parent, child], flows, 0.15);
 
       expect(child.supercapSoc).toBeGreaterThan(0);
     });
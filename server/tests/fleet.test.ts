@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import {
+  DEFAULT_FLEET,
+  parseFleetSpec,
+  loadFleetFile,
+  resolveSizeParams,
+  fleetDepths,
+} from '../src/fleet';
+import { SwarmSimulator } from '../src/simulator';
+import { SIZE_PARAMS } from '../src/types';
+
+const BENCH_FILE = path.join(__dirname, '../fleets/bench.json');
+
+describe('Fleet spec', () => {
+  it('default fleet is 1 hub + 1 large + 4 medium + 16 small', () => {
+    const sizes = DEFAULT_FLEET.robots.map(r => r.size);
+    expect(sizes).toHaveLength(22);
+    expect(sizes.filter(s => s === 'hub')).toHaveLength(1);
+    expect(sizes.filter(s => s === 'large')).toHaveLength(1);
+    expect(sizes.filter(s => s === 'medium')).toHaveLength(4);
+    expect(sizes.filter(s => s === 'small')).toHaveLength(16);
+  });
+
+  it('computes nesting depths', () => {
+    const depths = fleetDepths(DEFAULT_FLEET);
+    expect(depths[0]).toBe(0);
+    expect(depths[1]).toBe(1);
+    expect(depths[2]).toBe(2);
+    expect(depths[21]).toBe(3);
+  });
+
+  it('rejects a fleet whose root is not a hub', () => {
+    expect(() => parseFleetSpec({ robots: [{ size: 'large', parent: null }] })).toThrow(/robot 0/);
+  });
+
+  it('rejects a child listed before its parent', () => {
+    expect(() => parseFleetSpec({
+      robots: [
+        { size: 'hub', parent: null },
+        { size: 'small', parent: 2 },
+        { size: 'medium', parent: 0 },
+      ],
+    })).toThrow(/after its parent/);
+  });
+
+  it('rejects a hub below the root', () => {
+    expect(() => parseFleetSpec({
+      robots: [{ size: 'hub', parent: null }, { size: 'hub', parent: 0 }],
+    })).toThrow(/robot 1 \(hub\) cannot nest in robot 0/);
+  });
+
+  it('rejects a child larger than its carrier', () => {
+    expect(() => parseFleetSpec({
+      robots: [{ size: 'hub', parent: null }, { size: 'medium', parent: 0 }, { size: 'large', parent: 1 }],
+    })).toThrow(/robot 2 \(large\) cannot nest in robot 1 \(medium\)/);
+  });
+
+  it("rejects more children than the carrier's maxChildren", () => {
+    const robots = [
+      { size: 'hub', parent: null },
+      { size: 'large', parent: 0 },
+      ...[1, 1, 1, 1, 1].map(parent => ({ size: 'medium', parent })),
+    ];
+    expect(() => parseFleetSpec({ robots })).toThrow(/robot 1 \(large\) carries more than 4 children/);
+    expect(parseFleetSpec({ robots, sizeParams: { large: { maxChildren: 5 } } }).robots).toHaveLength(7);
+  });
+
+  it('rejects unknown size classes', () => {
+    expect(() => parseFleetSpec({ robots: [{ size: 'tiny', parent: null }] })).toThrow(/Invalid fleet spec/);
+  });
+
+  it('applies SIZE_PARAMS overrides', () => {
+    const params = resolveSizeParams({
+      robots: [{ size: 'hub', parent: null }],
+      sizeParams: { small: { maxSpeed: 1.5 } },
+    });
+    expect(params.small.maxSpeed).toBe(1.5);
+    expect(params.small.bleRange).toBe(SIZE_PARAMS.small.bleRange);
+    expect(params.medium).toEqual(SIZE_PARAMS.medium);
+  });
+
+  it('loads the bench fleet file', () => {
+    const spec = loadFleetFile(BENCH_FILE);
+    expect(spec.robots).toHaveLength(9);
+    expect(spec.robots.filter(r => r.size === 'medium')).toHaveLength(2);
+    expect(spec.robots.filter(r => r.size === 'small')).toHaveLength(6);
+  });
+});
+
+describe('SwarmSimulator with a custom fleet', () => {
+  it('builds robots and nesting from the spec', () => {
+    const sim = new SwarmSimulator({ seed: 1, fleet: loadFleetFile(BENCH_FILE) });
+    expect(sim.robots).toHaveLength(9);
+    expect(sim.robots[0].childIds).toEqual([1, 2]);
+    expect(sim.robots[1].childIds).toEqual([3, 4, 5]);
+    expect(sim.robots.slice(1).every(r => r.isNested)).toBe(true);
+    expect(sim.getManifest().fleetName).toBe('hardware-bench');
+  });
+
+  it('cascade-deploys every tier of a two-level fleet', () => {
+    const sim = new SwarmSimulator({ seed: 1, fleet: loadFleetFile(BENCH_FILE) });
+    sim.deploy();
+    const messages: string[] = [];
+    for (let i = 0; i < 80; i++) {
+      messages.push(...sim.step().events.map(e => e.message));
+    }
+    expect(messages).toContain('Stage 2/2: Small deploying from Medium');
+    expect(messages).toContain('Cascade deployment complete — all 8 robots active');
+    expect(sim.robots.slice(1).every(r => !r.isNested)).toBe(true);
+  });
+
+  it('cascade-recalls every tier back into the hub', () => {
+    const sim = new SwarmSimulator({ seed: 1, fleet: loadFleetFile(BENCH_FILE) });
+    sim.deploy();
+    for (let i = 0; i < 80; i++) sim.step();
+    sim.recall();
+    const messages: string[] = [];
+    for (let i = 0; i < 1500 && !messages.includes('Cascade recall complete — all robots nested'); i++) {
+      messages.push(...sim.step().events.map(e => e.message));
+    }
+    expect(messages).toContain('Cascade recall complete — all robots nested');
+    expect(sim.robots.slice(1).every(r => r.isNested)).toBe(true);
+  });
+
+  it('applies size overrides to robots', () => {
+    const sim = new SwarmSimulator({
+      seed: 1,
+      fleet: {
+        robots: [{ size: 'hub', parent: null }, { size: 'small', parent: 0 }],
+        sizeParams: { small: { bleRange: 12 } },
+      },
+    });
+    expect(sim.robots[1].getState().bleRangeM).toBe(12);
+  });
+});
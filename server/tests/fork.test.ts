@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { SwarmSimulator, FORK_POINT_INTERVAL } from '../src/simulator';
+import { SessionManager, DEFAULT_SESSION_ID } from '../src/sessions';
+import { getCommand, runCommand } from '../src/commands';
+import { compareTimelines } from '../src/compare';
+
+function robotsAt(sim: SwarmSimulator, tick: number) {
+  return sim.getReplayRange(tick, tick)[0].snapshot.robots;
+}
+
+describe('Forks from recorded ticks', () => {
+  it('re-simulate exactly to the fork tick and continue identically', () => {
+    const sim = new SwarmSimulator({ seed: 21 });
+    sim.deploy();
+    for (let i = 0; i < 90; i++) sim.step();
+    const points = sim.recorder.getRange(0, 90).filter(f => f.checkpoint).map(f => f.tick);
+    expect(points).toEqual([1, FORK_POINT_INTERVAL]);
+    // Fork points stay on the server; REST replay frames never carry them
+    expect(sim.getReplayRange(0, 90).some(f => 'checkpoint' in f)).toBe(false);
+
+    const fork = sim.forkAt(73);
+    expect(fork.getTick()).toBe(73);
+    expect(fork.getManifest().forkedFrom).toEqual({ runId: sim.getManifest().runId, tick: 73 });
+    expect(fork.getManifest().runId).not.toBe(sim.getManifest().runId);
+    expect(robotsAt(fork, 73)).toEqual(robotsAt(sim, 73));
+    for (let i = 0; i < 17; i++) fork.step();
+    expect(robotsAt(fork, 90)).toEqual(robotsAt(sim, 90));
+
+    expect(() => sim.forkAt(91)).toThrow('has not been simulated yet');
+  });
+
+  it('take a fork point after every command', () => {
+    const sessions = new SessionManager({ onSnapshot: () => {} });
+    const session = sessions.create({ id: DEFAULT_SESSION_ID, seed: 8 });
+    runCommand(getCommand('deploy')!, session, {});
+    session.loop.stepTicks(60);
+    const robotId = session.sim.robots[5].id;
+    runCommand(getCommand('move')!, session, { robotId, x: 100, y: 70 });
+    session.loop.stepTicks(10);
+    expect(session.sim.recorder.getRange(61, 61)[0].checkpoint?.tick).toBe(61);
+
+    // Forking after the move replays it; forking at tick 60 branches before it
+    const after = session.sim.forkAt(65);
+    expect(robotsAt(after, 65)).toEqual(robotsAt(session.sim, 65));
+    const before = session.sim.forkAt(60);
+    expect(before.robots.find(r => r.id === robotId)?.getState().targetPosition).not.toEqual({ x: 100, y: 70 });
+  });
+
+  it('open paused sessions and compare them with their source', () => {
+    const sessions = new SessionManager({ onSnapshot: () => {}, maxSessions: 2 });
+    const source = sessions.create({ id: DEFAULT_SESSION_ID, seed: 13 });
+    source.sim.deploy();
+    source.loop.stepTicks(40);
+
+    const fork = sessions.fork(source, 30);
+    expect(fork.name).toBe('default @30');
+    expect(fork.sim.isPaused()).toBe(true);
+    expect(() => sessions.fork(source, 30)).toThrow('Session limit reached');
+
+    fork.sim.setFormation('ring');
+    fork.loop.stepTicks(10);
+    const same = compareTimelines(source.sim, fork.sim, 30);
+    expect(same.divergence).toMatchObject({ maxPositionDeltaM: 0, phaseDiffers: [] });
+    const diverged = compareTimelines(source.sim, fork.sim);
+    expect(diverged.tick).toBe(40);
+    expect(diverged.b.formation).toBe('ring');
+    expect(diverged.divergence.robotsCompared).toBe(source.sim.robots.length);
+    expect(diverged.divergence.meanPositionDeltaM).toBeGreaterThan(0);
+    expect(() => compareTimelines(source.sim, fork.sim, 0)).toThrow('no recorded frame at tick 0');
+  });
+});
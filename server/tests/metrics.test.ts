@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MetricsRegistry, metrics, observeTick, observeEmitted, collectSessionMetrics } from '../src/metrics';
+import { SessionManager, DEFAULT_SESSION_ID } from '../src/sessions';
+import { SimLoop, type TickTiming } from '../src/loop';
+import { SwarmSimulator } from '../src/simulator';
+import { hdcEngine } from '../src/hdc-engine';
+import { SIM_TICK_MS } from '../src/types';
+
+/** Value of one sample line, e.g. sample(text, 'swarm_mission_score{session="a"}') */
+function sample(text: string, series: string): number | undefined {
+  const line = text.split('\n').find(l => l.startsWith(series + ' '));
+  return line === undefined ? undefined : Number(line.slice(series.length + 1));
+}
+
+describe('Metrics registry', () => {
+  it('renders counters, gauges and cumulative histograms', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter('jobs_total', 'Jobs');
+    const gauge = registry.gauge('temp', 'Temperature');
+    const histogram = registry.histogram('latency_seconds', 'Latency', [0.1, 0.5]);
+    counter.inc({ kind: 'a' });
+    counter.inc({ kind: 'a' }, 2);
+    gauge.set({ room: 'say "hi"\n' }, 21.5);
+    for (const v of [0.05, 0.2, 0.3, 2]) histogram.observe({}, v);
+
+    const text = registry.render();
+    expect(text).toContain('# TYPE jobs_total counter\njobs_total{kind="a"} 3');
+    expect(text).toContain('temp{room="say \\"hi\\"\\n"} 21.5');
+    expect(text).toContain([
+      'latency_seconds_bucket{le="0.1"} 1',
+      'latency_seconds_bucket{le="0.5"} 3',
+      'latency_seconds_bucket{le="+Inf"} 4',
+      'latency_seconds_sum 2.55',
+      'latency_seconds_count 4',
+    ].join('\n'));
+    expect(() => registry.gauge('temp', 'again')).toThrow('already registered');
+  });
+
+  it('forgets the series of a label value', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter('ticks_total', 'Ticks');
+    counter.inc({ session: 'a' });
+    counter.inc({ session: 'b' });
+    registry.forget({ session: 'a' });
+    expect(registry.render()).not.toContain('session="a"');
+    expect(registry.render()).toContain('ticks_total{session="b"} 1');
+  });
+});
+
+describe('Server metrics', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('times scheduled ticks and counts overruns', () => {
+    vi.useFakeTimers();
+    const timings: TickTiming[] = [];
+    const sim = new SwarmSimulator({ seed: 2 });
+    sim.setSpeed(4);
+    const loop = new SimLoop(sim, () => {}, t => timings.push(t));
+    loop.start();
+    vi.advanceTimersByTime(SIM_TICK_MS * 2);
+    loop.stop();
+    expect(timings).toHaveLength(8);
+    expect(timings[0].budgetSeconds).toBeCloseTo(SIM_TICK_MS / 4 / 1000);
+    expect(timings[0].totalSeconds).toBeGreaterThanOrEqual(timings[0].stepSeconds);
+
+    const ok = { stepSeconds: 0.01, totalSeconds: 0.02, budgetSeconds: 0.1, lagSeconds: 0, failed: false };
+    observeTick('m-overrun', { ...ok, stepSeconds: 0.09, totalSeconds: 0.12 });
+    observeTick('m-overrun', ok);
+    observeTick('m-overrun', { ...ok, failed: true });
+    const text = metrics.render();
+    expect(sample(text, 'swarm_tick_overruns_total{session="m-overrun"}')).toBe(1);
+    expect(sample(text, 'swarm_tick_errors_total{session="m-overrun"}')).toBe(1);
+    expect(sample(text, 'swarm_step_duration_seconds_count{session="m-overrun"}')).toBe(3);
+  });
+
+  it('collects per-session, per-robot and HDC metrics', () => {
+    const sessions = new SessionManager({ onSnapshot: () => {} });
+    const session = sessions.create({ id: 'm-live', seed: 5 });
+    sessions.create({ id: DEFAULT_SESSION_ID });
+    session.sim.deploy();
+    session.sim.startMission('survey');
+    for (let i = 0; i < 20; i++) session.loop.stepTicks(1);
+    observeEmitted('m-live', { json: 1200, binary: 300 });
+
+    collectSessionMetrics(sessions.list(), () => 3, 4);
+    const text = metrics.render();
+    const robot = session.latest!.robots[0];
+    expect(session.latest!.tick).toBe(20);
+    expect(sample(text, 'swarm_sockets_connected')).toBe(4);
+    expect(sample(text, 'swarm_session_tick{session="m-live"}')).toBe(20);
+    expect(sample(text, `swarm_robot_battery_soc{session="m-live",robot="${robot.id}",name="${robot.name}"}`))
+      .toBeCloseTo(robot.batterySoc);
+    expect(sample(text, `swarm_robot_phase{session="m-live",robot="${robot.id}",name="${robot.name}",phase="${robot.phase}"}`))
+      .toBe(1);
+    expect(sample(text, 'swarm_mission_active{session="m-live"}')).toBe(1);
+    const links = ['strong', 'ok', 'weak'].map(q => sample(text, `swarm_ble_links{session="m-live",quality="${q}"}`) ?? 0);
+    expect(links.reduce((a, b) => a + b)).toBe(session.latest!.bleLinks.length);
+    expect(sample(text, 'swarm_tick_emitted_bytes_sum{session="m-live"}')).toBe(1500);
+    expect(sample(text, 'swarm_emitted_bytes_total{session="m-live",encoding="binary"}')).toBe(300);
+    const backend = hdcEngine.isReady ? 'wasm' : 'fallback';
+    expect(sample(text, `swarm_hdc_inference_seconds_count{backend="${backend}"}`)).toBeGreaterThan(0);
+
+    // Deleted sessions drop out of the scrape
+    sessions.delete('m-live');
+    collectSessionMetrics(sessions.list(), () => 0, 0);
+    metrics.forget({ session: 'm-live' });
+    expect(metrics.render()).not.toContain('session="m-live"');
+  });
+});
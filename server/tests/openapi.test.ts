@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import { buildOpenApiDocument } from '../src/openapi';
+import { generateSdkTypes, toTsType, SDK_TYPES_FILE } from '../src/sdk-gen';
+import { COMMANDS } from '../src/commands';
+import { SwarmClient, SwarmApiError } from '../../sdk/src';
+
+type Doc = {
+  paths: Record<string, Record<string, any>>;
+  components: { schemas: Record<string, any> };
+};
+
+describe('OpenAPI document', () => {
+  const doc = buildOpenApiDocument() as unknown as Doc;
+
+  it('describes every command, unprefixed and per session', () => {
+    for (const command of COMMANDS) {
+      expect(doc.paths[`/cmd/${command.name}`]?.post).toBeDefined();
+      expect(doc.paths[`/sessions/{sessionId}/cmd/${command.name}`]?.post).toBeDefined();
+    }
+    expect(doc.paths['/cmd/formation/{type}'].post.parameters[0].schema.enum).toContain('ring');
+    expect(doc.paths['/cmd/inject/jamming'].post['x-required-role']).toBe('instructor');
+  });
+
+  it('takes request schemas from the zod validators', () => {
+    const move = doc.components.schemas.MoveCommand;
+    expect(move.required).toEqual(['robotId', 'x', 'y']);
+    expect(move.properties.robotId).toMatchObject({ type: 'integer', minimum: 0, maximum: 254 });
+    const query = doc.paths['/events'].get.parameters.map((p: { name: string }) => p.name);
+    expect(query).toEqual(expect.arrayContaining(['limit', 'offset', 'from', 'to', 'runId', 'type', 'order']));
+    expect(doc.paths['/replay/{from}/{to}'].get.parameters).toHaveLength(2);
+  });
+
+  it('marks public routes and uses unique operation ids', () => {
+    expect(doc.paths['/health'].get.security).toEqual([]);
+    expect(doc.paths['/mission'].get.security).toBeUndefined();
+    const ids = Object.values(doc.paths).flatMap(ops => Object.values(ops).map(op => op.operationId));
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
+
+describe('SDK', () => {
+  it('has up-to-date generated types (run `npm run sdk`)', () => {
+    expect(fs.readFileSync(SDK_TYPES_FILE, 'utf-8')).toBe(generateSdkTypes());
+  });
+
+  it('converts JSON Schema to TypeScript', () => {
+    expect(toTsType({
+      type: 'object',
+      properties: { a: { type: 'integer' }, b: { anyOf: [{ type: 'string' }, { type: 'null' }] }, c: { enum: ['x', 'y'] } },
+      required: ['a'],
+    })).toBe('{\n  a: number;\n  b?: string | null;\n  c?: "x" | "y";\n}');
+    expect(toTsType({ type: 'array', items: { type: 'boolean' } })).toBe('Array<boolean>');
+  });
+
+  it('sends session-scoped commands with the bearer token and pages history', async () => {
+    const calls: { url: string; init: RequestInit }[] = [];
+    const fakeFetch = (async (url: string, init: RequestInit) => {
+      calls.push({ url, init });
+      if (url.includes('/events')) {
+        return new Response('[{"id":1}]', { headers: { 'X-Total-Count': '40' } });
+      }
+      if (url.includes('/cmd/move')) return new Response('{"ok":false,"error":"Robot not found: 99"}', { status: 404 });
+      return new Response('{"ok":true}');
+    }) as typeof fetch;
+    const api = new SwarmClient({ baseUrl: 'http://swarm:9754/', token: 't0k', session: 'lab-1', fetch: fakeFetch });
+
+    await expect(api.command('deploy')).resolves.toEqual({ ok: true });
+    expect(calls[0].url).toBe('http://swarm:9754/sessions/lab-1/cmd/deploy');
+    expect(calls[0].init.headers).toMatchObject({ Authorization: 'Bearer t0k', 'Content-Type': 'application/json' });
+
+    const error = await api.command('move', { robotId: 99, x: 1, y: 1 }).catch(e => e);
+    expect(error).toBeInstanceOf(SwarmApiError);
+    expect(error).toMatchObject({ status: 404, message: 'Robot not found: 99' });
+
+    await expect(api.events({ limit: 1, type: 'node_fail' })).resolves.toEqual({ items: [{ id: 1 }], total: 40 });
+    expect(calls[2].url).toBe('http://swarm:9754/events?limit=1&type=node_fail');
+  });
+});
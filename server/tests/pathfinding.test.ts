@@ -1,6 +1,10 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { NavGrid } from '../src/pathfinding';
+import { Robot } from '../src/robot';
+import { WindField } from '../src/wind';
+import { SolarField } from '../src/solar';
 import type { Obstacle } from '../src/terrain';
+import type { Vec2 } from '../src/types';
 
 describe('NavGrid', () => {
   let grid: NavGrid;
@@ -212,3 +216,85 @@ describe('NavGrid', () => {
     });
   });
 });
+
+describe('Energy-optimal paths', () => {
+  // A wall across the direct route, closer to the north edge: the south detour is shorter
+  const WALL: Obstacle = { x: 30, z: 35, width: 4, depth: 40, height: 6, type: 'building' };
+
+  /** 6 m/s tailwind (toward +x) along the north edge, 6 m/s headwind along the south edge */
+  function corridorWind(): WindField {
+    const wind = new WindField(0, 0.5, 0);
+    wind.drive([
+      { position: { x: 30, y: 5 }, speed: 6, direction: 0, gust: 0 },
+      { position: { x: 30, y: 75 }, speed: 6, direction: Math.PI, gust: 0 },
+    ]);
+    return wind;
+  }
+
+  const north = (path: Vec2[]) => path.some(p => p.y < 15);
+  const south = (path: Vec2[]) => path.some(p => p.y > 55);
+
+  function walled(): NavGrid {
+    const grid = new NavGrid();
+    grid.buildFromTerrain([WALL]);
+    return grid;
+  }
+
+  it('takes the tailwind corridor over the shorter headwind detour', () => {
+    const grid = walled();
+    const robot = new Robot(1, 'large', { x: 10, y: 40 });
+    expect(south(grid.findPath(10, 40, 50, 40))).toBe(true);
+    expect(north(grid.findPath(10, 40, 50, 40, robot.flightModel(corridorWind())))).toBe(true);
+  });
+
+  it('flies around a gust instead of through it', () => {
+    const grid = new NavGrid();
+    const wind = new WindField(0, 0.5, 0);
+    wind.triggerGust({ center: { x: 50, y: 40 }, peakSpeed: 15, radius: 12, durationTicks: 200 });
+    for (let i = 0; i < 60; i++) wind.update();
+
+    const robot = new Robot(1, 'medium', { x: 20, y: 40 });
+    // Closest approach to the gust center, sampled along the path legs
+    const clearance = (path: Vec2[]) => {
+      let closest = Infinity;
+      let from = { x: 20, y: 40 };
+      for (const to of path) {
+        for (let f = 0; f <= 1; f += 0.05) {
+          closest = Math.min(closest, Math.hypot(from.x + (to.x - from.x) * f - 50, from.y + (to.y - from.y) * f - 40));
+        }
+        from = to;
+      }
+      return closest;
+    };
+    expect(clearance(grid.findPath(20, 40, 80, 40))).toBeLessThan(2);
+    const path = grid.findPath(20, 40, 80, 40, robot.flightModel(wind));
+    expect(path.at(-1)).toEqual({ x: 80, y: 40 });
+    expect(clearance(path)).toBeGreaterThan(4);                  // out of the core, where it blows over 10 m/s
+  });
+
+  it('plans the way home for energy when the battery runs low', () => {
+    const wind = corridorWind();
+    const solar = new SolarField();
+    const fly = (soc: number) => {
+      const robot = new Robot(1, 'large', { x: 10, y: 40 });
+      robot.setNavGrid(walled());
+      robot.batterySoc = soc;
+      robot.phase = 'patrol';
+      robot.targetPosition = { x: 50, y: 40 };   // the hub
+      robot.tick(wind, solar, 0.15);
+      return robot;
+    };
+    expect(south(fly(60).currentPath)).toBe(true);
+    const homeward = fly(10);
+    expect(homeward.phase).toBe('returning');
+    expect(north(homeward.currentPath)).toBe(true);
+
+    const planner = new Robot(2, 'large', { x: 10, y: 40 });
+    planner.setNavGrid(walled());
+    planner.setPathCost('energy');
+    planner.phase = 'patrol';
+    planner.targetPosition = { x: 50, y: 40 };
+    planner.tick(wind, solar, 0.15);
+    expect(north(planner.currentPath)).toBe(true);
+  });
+});
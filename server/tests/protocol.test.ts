@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import {
+  swarmSnapshotSchema,
+  streamFrameSchema,
+  terrainSchema,
+  protocolMismatch,
+} from '@swarm/shared';
+import { SwarmSimulator } from '../src/simulator';
+import { parseTopics, projectSnapshot } from '../src/subscriptions';
+
+/** What the console receives: the payload after Socket.io's JSON encoding */
+function wire<T>(value: T): unknown {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function busySim(): SwarmSimulator {
+  const sim = new SwarmSimulator({ seed: 11 });
+  sim.deploy();
+  sim.startMission('survey');
+  sim.triggerGust();
+  return sim;
+}
+
+describe('Socket protocol validators', () => {
+  it('accept real swarm:state snapshots', () => {
+    const sim = busySim();
+    for (let i = 0; i < 40; i++) {
+      expect(protocolMismatch(swarmSnapshotSchema, wire(sim.step()))).toBeNull();
+    }
+  });
+
+  it('accept projected swarm:frame payloads and terrain', () => {
+    const sim = busySim();
+    const snap = sim.step();
+    for (const topics of [['robots'], ['robots:summary', 'hdc:*', 'mission', 'events'], ['paths', 'bleLinks', 'energyFlows']]) {
+      expect(protocolMismatch(streamFrameSchema, wire(projectSnapshot(snap, parseTopics(topics))))).toBeNull();
+    }
+    expect(protocolMismatch(terrainSchema, wire(sim.terrain))).toBeNull();
+  });
+
+  it('report fields one side does not know about', () => {
+    const snap = wire(busySim().step()) as { robots: Record<string, unknown>[]; stats: Record<string, unknown> };
+    snap.robots[3].thermalC = 41;
+    expect(protocolMismatch(swarmSnapshotSchema, snap)).toMatch(/^robots\.3: Unrecognized key.*thermalC/);
+
+    delete snap.robots[3].thermalC;
+    delete snap.stats.avgBatterySoc;
+    expect(protocolMismatch(swarmSnapshotSchema, snap)).toMatch(/^stats\.avgBatterySoc: /);
+  });
+});
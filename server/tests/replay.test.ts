@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SessionManager, DEFAULT_SESSION_ID } from '../src/sessions';
+import { getCommand, runCommand } from '../src/commands';
+import { swarmSnapshotSchema, protocolMismatch } from '@swarm/shared';
+import { SIM_TICK_MS, type SwarmSnapshot } from '../src/types';
+
+function command(name: string) {
+  const found = getCommand(name);
+  if (!found) throw new Error(`missing command ${name}`);
+  return found;
+}
+
+/** A running session with ticks 1..40 recorded, plus everything it broadcast */
+function recordedSession() {
+  const emitted: SwarmSnapshot[] = [];
+  const sessions = new SessionManager({ onSnapshot: (_s, snapshot) => emitted.push(snapshot) });
+  const session = sessions.create({ id: DEFAULT_SESSION_ID, seed: 4 });
+  session.sim.deploy();
+  for (let i = 0; i < 40; i++) session.loop.stepTicks(1);
+  sessions.start();
+  emitted.length = 0;
+  return { sessions, session, emitted };
+}
+
+describe('Server-side replay', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('pauses the live loop and re-emits recorded frames with the replay position', () => {
+    vi.useFakeTimers();
+    const { sessions, session, emitted } = recordedSession();
+
+    const started = runCommand(command('replay/start'), session, { from: 10, to: 14, speed: 2 });
+    expect(started.ack).toMatchObject({ ok: true, replay: { playing: true, tick: 10, fromTick: 10, toTick: 14 } });
+    expect(session.loop.isRunning).toBe(false);
+
+    vi.advanceTimersByTime((SIM_TICK_MS / 2) * 4);
+    expect(emitted.map(s => s.tick)).toEqual([10, 11, 12, 13, 14]);
+    expect(emitted[4].replay).toMatchObject({ tick: 14, speed: 2, playing: true });
+    expect(protocolMismatch(swarmSnapshotSchema, JSON.parse(JSON.stringify(emitted[2])))).toBeNull();
+
+    // The end of the range pauses on the last frame; live control is refused meanwhile
+    vi.advanceTimersByTime(SIM_TICK_MS);
+    expect(emitted[emitted.length - 1].replay).toMatchObject({ tick: 14, playing: false });
+    expect(runCommand(command('deploy'), session, {}).status).toBe(409);
+    expect(session.sim.getTick()).toBe(40);
+
+    runCommand(command('replay/stop'), session, {});
+    expect(emitted[emitted.length - 1]).toMatchObject({ tick: 40, events: [] });
+    expect(emitted[emitted.length - 1].replay).toBeUndefined();
+    expect(session.loop.isRunning).toBe(true);
+    sessions.stop();
+  });
+
+  it('seeks, loops and changes speed', () => {
+    vi.useFakeTimers();
+    const { sessions, session, emitted } = recordedSession();
+    runCommand(command('replay/start'), session, { from: 20, to: 22, loop: true });
+    runCommand(command('replay/pause'), session, {});
+
+    expect(runCommand(command('replay/seek'), session, { tick: 99 }).ack).toMatchObject({ replay: { tick: 22 } });
+    expect(emitted[emitted.length - 1].tick).toBe(22);
+    runCommand(command('replay/speed'), session, { speed: 4 });
+    emitted.length = 0;
+    runCommand(command('replay/resume'), session, {});   // at the end: starts over
+    vi.advanceTimersByTime(SIM_TICK_MS);                 // 4 more frames at 4x
+    expect(emitted.map(s => s.tick)).toEqual([20, 21, 22, 20, 21]);
+
+    runCommand(command('replay/loop'), session, { loop: false });
+    expect(session.replay.getState()).toMatchObject({ loop: false, speed: 4 });
+    sessions.stop();
+    expect(session.replay.active).toBe(false);
+  });
+
+  it('rejects replay controls without a replay and ranges outside the recording', () => {
+    const sessions = new SessionManager({ onSnapshot: () => {} });
+    const session = sessions.create({ id: DEFAULT_SESSION_ID, seed: 4 });
+    expect(runCommand(command('replay/start'), session, {}).ack).toEqual({ ok: false, error: 'Nothing recorded yet' });
+    expect(runCommand(command('replay/seek'), session, { tick: 3 }).status).toBe(409);
+    expect(runCommand(command('replay/start'), session, { from: 9, to: 3 }).status).toBe(400);
+
+    session.loop.stepTicks(5);
+    expect(runCommand(command('replay/start'), session, { from: 50 }).status).toBe(409);
+    expect(runCommand(command('replay/stop'), session, {}).status).toBe(200);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { Prng, parseSeed } from '../src/rng';
+import { SwarmSimulator } from '../src/simulator';
+
+describe('Prng', () => {
+  it('produces the same sequence for the same seed', () => {
+    const a = new Prng(42);
+    const b = new Prng(42);
+    for (let i = 0; i < 100; i++) {
+      expect(a.next()).toBe(b.next());
+    }
+  });
+
+  it('produces different sequences for different seeds', () => {
+    const a = new Prng(1);
+    const b = new Prng(2);
+    const seqA = Array.from({ length: 10 }, () => a.next());
+    const seqB = Array.from({ length: 10 }, () => b.next());
+    expect(seqA).not.toEqual(seqB);
+  });
+
+  it('stays within [0, 1)', () => {
+    const rng = new Prng(7);
+    for (let i = 0; i < 1000; i++) {
+      const v = rng.next();
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    }
+  });
+
+  it('int() stays within [min, max)', () => {
+    const rng = new Prng(99);
+    for (let i = 0; i < 500; i++) {
+      const v = rng.int(1, 22);
+      expect(v).toBeGreaterThanOrEqual(1);
+      expect(v).toBeLessThan(22);
+      expect(Number.isInteger(v)).toBe(true);
+    }
+  });
+
+  it('getState/setState resumes the exact sequence', () => {
+    const rng = new Prng(123);
+    rng.next();
+    const saved = rng.getState();
+    const expected = [rng.next(), rng.next(), rng.next()];
+    rng.setState(saved);
+    expect([rng.next(), rng.next(), rng.next()]).toEqual(expected);
+  });
+});
+
+describe('parseSeed', () => {
+  it('parses integer strings', () => {
+    expect(parseSeed('1234')).toBe(1234);
+  });
+
+  it('returns undefined for missing or invalid input', () => {
+    expect(parseSeed(undefined)).toBeUndefined();
+    expect(parseSeed('')).toBeUndefined();
+    expect(parseSeed('abc')).toBeUndefined();
+  });
+});
+
+describe('SwarmSimulator seeding', () => {
+  function runTicks(seed: number, ticks: number) {
+    const sim = new SwarmSimulator({ seed });
+    sim.deploy();
+    let snapshot = sim.step();
+    for (let i = 1; i < ticks; i++) snapshot = sim.step();
+    return snapshot;
+  }
+
+  it('records the seed in the run manifest', () => {
+    const sim = new SwarmSimulator({ seed: 777 });
+    const manifest = sim.getManifest();
+    expect(manifest.seed).toBe(777);
+    expect(manifest.robotCount).toBe(sim.robots.length);
+  });
+
+  it('reproduces robot state tick-for-tick with the same seed', () => {
+    const a = runTicks(2024, 120);
+    const b = runTicks(2024, 120);
+    expect(a.robots.map(r => r.position)).toEqual(b.robots.map(r => r.position));
+    expect(a.robots.map(r => r.batterySoc)).toEqual(b.robots.map(r => r.batterySoc));
+    expect(a.bleLinks).toEqual(b.bleLinks);
+    expect(a.wind.baseDirection).toBe(b.wind.baseDirection);
+  });
+
+  it('diverges with a different seed', () => {
+    const a = runTicks(1, 120);
+    const b = runTicks(2, 120);
+    expect(a.robots.map(r => r.position)).not.toEqual(b.robots.map(r => r.position));
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { RunFile, runFileHeader, encodeRunFile, decodeRunFile, CHUNK_FRAMES } from '../src/runfile';
+import { Recorder, withoutCheckpoint, type RecordedFrame } from '../src/recorder';
+import { JsonlStore, MemoryStore } from '../src/store';
+import { SwarmSimulator } from '../src/simulator';
+import type { SwarmSnapshot } from '../src/types';
+
+const manifest = { runId: 'r1', seed: 1, startedAt: '', robotCount: 22, fleetName: 'default-22', dtSeconds: 0.15 };
+
+/** Frames only need a tick for the file format; the snapshot is opaque */
+function frame(tick: number): RecordedFrame {
+  return { tick, snapshot: { tick } as SwarmSnapshot, mission: null };
+}
+
+function streamToBuffer(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', (c: Buffer) => chunks.push(c));
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
+
+describe('Run files', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'swarm-runfile-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes tick-indexed gzip chunks that seek and reopen', async () => {
+    const file = new RunFile(path.join(dir, 'r1'), runFileHeader(manifest));
+    for (let t = 0; t < 250; t++) file.append(frame(t));
+    // Full chunks are compressed off the tick path and served from memory meanwhile
+    expect(fs.readFileSync(file.indexPath, 'utf-8')).toBe('');
+    expect(file.getRange(95, 105).map(f => f.tick)).toEqual([95, 96, 97, 98, 99, 100, 101, 102, 103, 104, 105]);
+    await file.idle();
+    expect(fs.readFileSync(file.indexPath, 'utf-8').trim().split('\n')).toHaveLength(2);
+
+    // The unflushed tail is served from memory
+    expect(file.getRange(195, 205).map(f => f.tick)).toEqual([195, 196, 197, 198, 199, 200, 201, 202, 203, 204, 205]);
+    file.flush();
+
+    const reopened = RunFile.open(path.join(dir, 'r1'))!;
+    expect(reopened.frameCount).toBe(250);
+    expect(reopened.tickRange).toEqual({ first: 0, last: 249 });
+    expect(reopened.getRange(240, 1000).map(f => f.tick)).toEqual([240, 241, 242, 243, 244, 245, 246, 247, 248, 249]);
+    expect(reopened.getRange(99, 100).map(f => f.tick)).toEqual([99, 100]);
+    expect(reopened.getRange(300, 400)).toEqual([]);
+    expect(RunFile.open(path.join(dir, 'missing'))).toBeNull();
+
+    // One gzip stream for offline tools: header line, then a frame per line
+    const lines = zlib.gunzipSync(fs.readFileSync(reopened.dataPath)).toString('utf-8').trim().split('\n');
+    expect(JSON.parse(lines[0])).toMatchObject({ format: 'swarm-run', runId: 'r1' });
+    expect(lines).toHaveLength(251);
+  });
+
+  it('ignores a torn chunk left by a crash mid-append', async () => {
+    const file = new RunFile(path.join(dir, 'r1'), runFileHeader(manifest));
+    for (let t = 0; t < CHUNK_FRAMES; t++) file.append(frame(t));
+    await file.idle();
+    fs.appendFileSync(file.dataPath, zlib.gzipSync('{"tick":100}\n').subarray(0, 12));
+
+    const reopened = RunFile.open(path.join(dir, 'r1'))!;
+    expect(reopened.readAll()).toHaveLength(CHUNK_FRAMES);
+  });
+
+  it('lets a flush overtake chunks still being written', async () => {
+    const file = new RunFile(path.join(dir, 'r1'), runFileHeader(manifest));
+    for (let t = 0; t < 2 * CHUNK_FRAMES + 10; t++) file.append(frame(t));
+    file.flush();
+    await file.idle();
+
+    const reopened = RunFile.open(path.join(dir, 'r1'))!;
+    expect(fs.readFileSync(file.indexPath, 'utf-8').trim().split('\n')).toHaveLength(3);
+    expect(reopened.readAll().map(f => f.tick)).toEqual(Array.from({ length: 2 * CHUNK_FRAMES + 10 }, (_, t) => t));
+  });
+
+  it('round-trips the download format, gzipped or plain', () => {
+    const frames = [3, 1, 2].map(frame);
+    const encoded = encodeRunFile(runFileHeader(manifest), frames);
+    expect(decodeRunFile(encoded).frames.map(f => f.tick)).toEqual([1, 2, 3]);
+
+    const plain = zlib.gunzipSync(encoded);
+    expect(decodeRunFile(plain).header.manifest).toEqual(manifest);
+    expect(() => decodeRunFile(Buffer.from('{"tick":1}\n'))).toThrow('Not a run file');
+    expect(() => decodeRunFile(Buffer.from([0x1f, 0x8b, 0, 1]))).toThrow('Unreadable run file');
+  });
+
+  it('stops inflating an upload past the size cap', () => {
+    const bomb = zlib.gzipSync(Buffer.alloc(1024 * 1024));
+    expect(() => decodeRunFile(bomb, 64 * 1024)).toThrow('inflates to more than 65536 bytes');
+  });
+});
+
+describe('Recorder', () => {
+  it('finds ranges in the ring by binary search once it wraps', () => {
+    const recorder = new Recorder();
+    for (let t = 0; t < 3500; t++) recorder.record({ tick: t } as SwarmSnapshot, null);
+    expect(recorder.getInfo()).toEqual({ totalRecorded: 3500, bufferedFrames: 3000, oldestTick: 500, newestTick: 3499 });
+    expect(recorder.getRange(0, 502).map(f => f.tick)).toEqual([500, 501, 502]);
+    expect(recorder.getRecent(2).map(f => f.tick)).toEqual([3498, 3499]);
+    expect(recorder.getAll()[0].tick).toBe(500);
+  });
+
+  it('seeks frames older than the ring from the run file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'swarm-runfile-'));
+    try {
+      const recorder = new Recorder(new RunFile(path.join(dir, 'r1'), runFileHeader(manifest)));
+      for (let t = 0; t < 1000; t++) recorder.record({ tick: t } as SwarmSnapshot, null);
+      const info = recorder.getInfo();
+      expect(info.oldestTick).toBe(0);
+      expect(info.bufferedFrames).toBeLessThan(1000);
+
+      const range = recorder.getRange(350, 650).map(f => f.tick);
+      expect(range).toHaveLength(301);
+      expect(range.every((t, i) => t === 350 + i)).toBe(true);
+      expect(recorder.getAll()).toHaveLength(1000);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('SwarmSimulator run recording', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'swarm-runfile-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('streams to the JSONL store, archives, downloads and imports', async () => {
+    const store = new JsonlStore(dir);
+    const sim = new SwarmSimulator({ seed: 3, store });
+    const runId = sim.getManifest().runId;
+    for (let i = 0; i < 30; i++) sim.step();
+
+    expect(sim.archiveRun()?.frameCount).toBe(30);
+    const run = store.getRun(runId)!;
+    expect(run.frames.map(f => f.tick)).toEqual(Array.from({ length: 30 }, (_, i) => i + 1));
+    expect(run.nextTick).toBeUndefined();
+    const page = store.getRun(runId, { fromTick: 12, limit: 5 })!;
+    expect(page.frames.map(f => f.tick)).toEqual([12, 13, 14, 15, 16]);
+    expect(page.nextTick).toBe(17);
+    expect(store.getRun(runId, { fromTick: 29, toTick: 40 })!.frames).toHaveLength(2);
+    expect(sim.getReplayRange(10, 12).map(f => f.snapshot.tick)).toEqual([10, 11, 12]);
+
+    const download = await streamToBuffer(store.exportRun(runId)!);
+    const { header, frames } = decodeRunFile(download);
+    expect(header.manifest.seed).toBe(3);
+    // The download keeps fork points for re-import; GET /runs pages do not
+    expect(frames.some(f => f.checkpoint)).toBe(true);
+    expect(run.frames.some(f => 'checkpoint' in f)).toBe(false);
+    expect(frames.map(withoutCheckpoint)).toEqual(run.frames);
+
+    const other = new MemoryStore();
+    other.saveRun({ runId, manifest: header.manifest, endedAt: 1, ticks: 30, frameCount: frames.length, frames });
+    const reexported = decodeRunFile(await streamToBuffer(other.exportRun(runId)!));
+    expect(reexported.frames).toHaveLength(30);
+    expect(store.exportRun('missing')).toBeNull();
+  });
+});
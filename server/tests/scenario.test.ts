@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import {
+  parseScenario,
+  loadScenarioFile,
+  runScenario,
+  readStat,
+  checkAssertion,
+} from '../src/scenario';
+import type { SwarmStats } from '../src/types';
+
+const FIELD_TEST = path.join(__dirname, '../scenarios/field-test.json');
+
+describe('Scenario parsing', () => {
+  it('loads the example field-test scenario', () => {
+    const scenario = loadScenarioFile(FIELD_TEST);
+    expect(scenario.seed).toBe(42);
+    expect(scenario.actions.map(a => a.do)).toContain('nodeFailure');
+  });
+
+  it('sorts actions by tick', () => {
+    const scenario = parseScenario({
+      name: 'order',
+      actions: [{ tick: 50, do: 'recall' }, { tick: 0, do: 'deploy' }],
+    });
+    expect(scenario.actions.map(a => a.do)).toEqual(['deploy', 'recall']);
+  });
+
+  it('rejects unknown actions', () => {
+    expect(() => parseScenario({ name: 'bad', actions: [{ tick: 0, do: 'explode' }] })).toThrow(/Invalid scenario/);
+  });
+
+  it('rejects robot ids outside the fleet', () => {
+    expect(() => parseScenario({
+      name: 'bad',
+      fleet: { robots: [{ size: 'hub', parent: null }, { size: 'small', parent: 0 }] },
+      actions: [{ tick: 5, do: 'nodeFailure', robotId: 3 }],
+    })).toThrow(/R3/);
+  });
+
+  it('resolves fleet file paths relative to the scenario', () => {
+    const scenario = parseScenario({ name: 'bench', fleet: 'bench.json' }, path.join(__dirname, '../fleets'));
+    expect(scenario.fleet?.robots).toHaveLength(9);
+  });
+});
+
+describe('Scenario assertions', () => {
+  const stats = { onlineRobots: 20, windClass: 'LIGHT', nestingStats: { deployed: 18, nested: 3, wptCharging: 0 } } as SwarmStats;
+
+  it('reads dotted stat paths', () => {
+    expect(readStat(stats, 'nestingStats.deployed')).toBe(18);
+    expect(readStat(stats, 'nestingStats.missing.deeper')).toBeUndefined();
+  });
+
+  it('compares numbers and exact values', () => {
+    expect(checkAssertion(20, 'gte', 20)).toBe(true);
+    expect(checkAssertion(20, 'lt', 20)).toBe(false);
+    expect(checkAssertion('LIGHT', 'eq', 'LIGHT')).toBe(true);
+    expect(checkAssertion(undefined, 'gt', 0)).toBe(false);
+  });
+});
+
+describe('runScenario', () => {
+  it('drives the simulator and evaluates assertions at their ticks', () => {
+    const result = runScenario(parseScenario({
+      name: 'node-loss',
+      seed: 3,
+      actions: [
+        { tick: 0, do: 'deploy' },
+        { tick: 100, do: 'nodeFailure', robotId: 7 },
+      ],
+      assertions: [
+        { tick: 100, stat: 'onlineRobots', op: 'eq', value: 22 },
+        { tick: 101, stat: 'onlineRobots', op: 'eq', value: 21 },
+        { tick: 101, stat: 'totalRobots', op: 'eq', value: 99 },
+      ],
+    }));
+    expect(result.ticks).toBe(101);
+    expect(result.assertions.map(a => a.passed)).toEqual([true, true, false]);
+    expect(result.passed).toBe(false);
+  });
+
+  it('steps once past an action scheduled after the last assertion', () => {
+    const result = runScenario(parseScenario({
+      name: 'late-failure',
+      seed: 3,
+      actions: [{ tick: 0, do: 'deploy' }, { tick: 20, do: 'nodeFailure', robotId: 7 }],
+      assertions: [{ tick: 10, stat: 'onlineRobots', op: 'eq', value: 22 }],
+    }));
+    expect(result.ticks).toBe(21);
+    expect(result.passed).toBe(true);
+  });
+
+  it('passes the example field-test scenario', () => {
+    const result = runScenario(loadScenarioFile(FIELD_TEST));
+    expect(result.assertions.filter(a => !a.passed)).toEqual([]);
+    expect(result.passed).toBe(true);
+  });
+});
@@ -1,4 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import {
+  loadAuthConfig, authenticate, hasRole,
+  setupAuth, requireRole, type AuthConfig,
+} from '../src/security';
+import { COMMANDS, commandRole, restPaths } from '../src/commands';
 
 /**
  * security.ts captures `process.env.NODE_ENV` at module load time into a
@@ -95,3 +102,72 @@ describe('getSocketCorsConfig', () => {
     expect(config.methods).toHaveLength(2);
   });
 });
+
+describe('Token auth and roles', () => {
+  const env = { AUTH_TOKENS: 'ada:tok-i:instructor, bob:tok-o:operator,wall:tok-v:viewer' };
+
+  it('parses AUTH_TOKENS and rejects malformed entries', () => {
+    const config = loadAuthConfig(env);
+    expect(config.enabled).toBe(true);
+    expect(config.tokens.map(t => t.principal)).toEqual([
+      { name: 'ada', role: 'instructor' },
+      { name: 'bob', role: 'operator' },
+      { name: 'wall', role: 'viewer' },
+    ]);
+    expect(config.anonymousRole).toBeNull();
+    expect(() => loadAuthConfig({ AUTH_TOKENS: 'ada:tok' })).toThrow('name:token:role');
+    expect(() => loadAuthConfig({ AUTH_TOKENS: 'ada:tok:admin' })).toThrow('unknown role');
+    expect(loadAuthConfig({}).enabled).toBe(false);
+  });
+
+  it('authenticates tokens, anonymous clients and the auth-disabled default', () => {
+    const config = loadAuthConfig(env);
+    expect(authenticate(config, 'tok-o')).toEqual({ name: 'bob', role: 'operator' });
+    expect(authenticate(config, 'wrong')).toBeNull();
+    expect(authenticate(config, undefined)).toBeNull();
+    expect(authenticate(loadAuthConfig({ ...env, AUTH_ANONYMOUS_ROLE: 'viewer' }), undefined)?.role).toBe('viewer');
+    expect(authenticate(loadAuthConfig({}), undefined)?.role).toBe('instructor');
+  });
+
+  it('orders roles', () => {
+    expect(hasRole({ name: 'a', role: 'instructor' }, 'operator')).toBe(true);
+    expect(hasRole({ name: 'b', role: 'viewer' }, 'operator')).toBe(false);
+    expect(hasRole(null, 'viewer')).toBe(false);
+  });
+
+  it('enforces roles on REST routes', async () => {
+    const config: AuthConfig = loadAuthConfig(env);
+    const app = express();
+    setupAuth(app, config);
+    app.get('/health', (_req, res) => { res.json({ ok: true }); });
+    app.get('/mission', (_req, res) => { res.json({ ok: true }); });
+    for (const command of COMMANDS) {
+      for (const route of restPaths(command)) {
+        app.post(route, requireRole(commandRole(command)), (_req, res) => { res.json({ ok: true }); });
+      }
+    }
+    app.post('/sessions', requireRole('instructor'), (_req, res) => { res.json({ ok: true }); });
+
+    const server = app.listen(0);
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const status = async (method: string, route: string, token?: string) =>
+      (await fetch(base + route, { method, headers: token ? { Authorization: `Bearer ${token}` } : {} })).status;
+    try {
+      expect(await status('GET', '/health')).toBe(200);
+      expect(await status('GET', '/mission')).toBe(401);
+      expect(await status('GET', '/mission', 'nope')).toBe(401);
+      expect(await status('GET', '/mission', 'tok-v')).toBe(200);
+      expect(await status('POST', '/cmd/deploy', 'tok-v')).toBe(403);
+      expect(await status('POST', '/cmd/deploy', 'tok-o')).toBe(200);
+      expect(await status('POST', '/cmd/inject/jamming', 'tok-o')).toBe(403);
+      expect(await status('POST', '/cmd/inject/jamming', 'tok-i')).toBe(200);
+      // Express routes ignore case; the role comes from the matched command, not the URL
+      expect(await status('POST', '/cmd/Inject/jamming', 'tok-o')).toBe(403);
+      expect(await status('POST', '/cmd/INJECT/byzantine', 'tok-o')).toBe(403);
+      expect(await status('POST', '/cmd/Inject/jamming', 'tok-i')).toBe(200);
+      expect(await status('POST', '/sessions', 'tok-o')).toBe(403);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { SessionManager, DEFAULT_SESSION_ID, type Session } from '../src/sessions';
+import { MemoryStore } from '../src/store';
+import { SwarmSimulator } from '../src/simulator';
+import { sessionCreateSchema } from '../src/validation';
+import type { SwarmSnapshot } from '../src/types';
+
+function manager(maxSessions?: number) {
+  const snapshots: { session: string; tick: number }[] = [];
+  const store = new MemoryStore();
+  const sessions = new SessionManager({
+    store,
+    maxSessions,
+    onSnapshot: (session: Session, snapshot: SwarmSnapshot) => snapshots.push({ session: session.id, tick: snapshot.tick }),
+  });
+  sessions.create({ id: DEFAULT_SESSION_ID });
+  return { sessions, snapshots, store };
+}
+
+describe('Simulator sessions', () => {
+  it('creates isolated simulators with their own rooms', () => {
+    const { sessions } = manager();
+    const a = sessions.create({ name: 'Trainee A', seed: 7 });
+    const b = sessions.create({ name: 'Trainee B', seed: 7 });
+    expect(a.id).not.toBe(b.id);
+    expect(a.room).toBe(`session:${a.id}`);
+    expect(sessions.list().map(s => s.id)).toEqual([DEFAULT_SESSION_ID, a.id, b.id]);
+
+    a.sim.deploy();
+    let snapA!: SwarmSnapshot;
+    let snapB!: SwarmSnapshot;
+    for (let i = 0; i < 30; i++) {
+      snapA = a.sim.step();
+      snapB = b.sim.step();
+    }
+    expect(a.info().tick).toBe(30);
+    expect(snapA.stats.nestingStats.deployed).toBeGreaterThan(0);
+    expect(snapB.stats.nestingStats.deployed).toBe(0);
+  });
+
+  it('routes each loop snapshot to its own session', () => {
+    const { sessions, snapshots } = manager();
+    const a = sessions.create();
+    a.sim.pause();
+    sessions.defaultSession.sim.pause();
+    a.loop.stepTicks(3);
+    sessions.defaultSession.loop.stepTicks(1);
+    expect(snapshots).toEqual([{ session: a.id, tick: 3 }, { session: DEFAULT_SESSION_ID, tick: 1 }]);
+  });
+
+  it('enforces the session limit and protects the default session', () => {
+    const { sessions } = manager(2);
+    const extra = sessions.create();
+    expect(() => sessions.create()).toThrow('Session limit reached');
+    expect(() => sessions.create({ id: extra.id })).toThrow();
+    expect(() => sessions.delete(DEFAULT_SESSION_ID)).toThrow('cannot be deleted');
+    expect(sessions.delete('missing')).toBe(false);
+    expect(sessions.delete(extra.id)).toBe(true);
+    expect(sessions.get(extra.id)).toBeUndefined();
+    expect(sessions.size).toBe(1);
+  });
+
+  it('archives runs on delete and on simulator replacement', () => {
+    const { sessions, store } = manager();
+    const a = sessions.create();
+    const firstRun = a.sim.getManifest().runId;
+    a.sim.step();
+    a.replaceSimulator(new SwarmSimulator({ store }));
+    expect(a.sim.getManifest().runId).not.toBe(firstRun);
+    expect(store.getRun(firstRun)?.ticks).toBe(1);
+
+    const secondRun = a.sim.getManifest().runId;
+    sessions.delete(a.id);
+    expect(store.getRun(secondRun)).not.toBeNull();
+  });
+
+  it('validates session creation bodies', () => {
+    expect(sessionCreateSchema.parse(undefined)).toEqual({});
+    expect(sessionCreateSchema.safeParse({ name: 'Workshop 1', seed: 3 }).success).toBe(true);
+    expect(sessionCreateSchema.safeParse({ seed: 1.5 }).success).toBe(false);
+    expect(sessionCreateSchema.safeParse({ fleet: { robots: [] } }).success).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { SolarField, DEFAULT_SOLAR } from '../src/solar';
+import { SwarmSimulator } from '../src/simulator';
+import { getCommand, runCommand } from '../src/commands';
+import { SessionManager, DEFAULT_SESSION_ID } from '../src/sessions';
+import type { TerrainData } from '../src/terrain';
+
+/** Flat 120 × 80 map with one 10 m building whose south face is at y = 45 */
+function flatTerrain(): TerrainData {
+  return {
+    heightMap: Array.from({ length: 41 }, () => new Array(61).fill(0)),
+    rows: 41,
+    cols: 61,
+    maxHeight: 10,
+    obstacles: [{ x: 60, z: 40, width: 10, depth: 10, height: 10, type: 'building' }],
+  };
+}
+
+describe('Solar field', () => {
+  it('follows the sun through the day', () => {
+    const clear = { ...DEFAULT_SOLAR, cloudCover: 0 };
+    const at = (hour: number) => new SolarField({ ...clear, startHour: hour }).getState();
+    expect(at(12).elevationDeg).toBeCloseTo(90 - 35 + 23.44, 0);
+    expect(at(12).azimuthDeg).toBeCloseTo(180, 0);
+    expect(at(12).irradianceWm2).toBeGreaterThan(950);
+    expect(at(8).irradianceWm2).toBeLessThan(at(12).irradianceWm2);
+    expect(at(8).azimuthDeg).toBeLessThan(180);       // morning sun in the east
+    expect(at(23).irradianceWm2).toBe(0);
+    expect(at(23).elevationDeg).toBeLessThan(0);
+  });
+
+  it('reports sunset and sunrise as the clock crosses the horizon', () => {
+    const field = new SolarField({ ...DEFAULT_SOLAR, startHour: 18 });
+    const transitions: string[] = [];
+    for (let t = 0; t < 86400; t += 60) {
+      const change = field.update(60);
+      if (change) transitions.push(`${change}@${Math.floor(field.getState().hour)}`);
+    }
+    expect(transitions).toEqual(['sunset@19', 'sunrise@4']);
+  });
+
+  it('attenuates irradiance with cloud cover', () => {
+    const sky = (cloudCover: number) => new SolarField({ ...DEFAULT_SOLAR, startHour: 12, cloudCover });
+    expect(sky(0.9).getState().irradianceWm2).toBeLessThan(sky(0).getState().irradianceWm2 * 0.6);
+    const overcast = sky(1);
+    // Diffuse light reaches the ground even where the beam is blocked
+    expect(overcast.irradianceAt(0, 0, true)).toBeGreaterThan(0);
+  });
+
+  it('casts obstacle shadows along the sun vector', () => {
+    const terrain = flatTerrain();
+    const low = new SolarField({ ...DEFAULT_SOLAR, startHour: 17.5, cloudCover: 0 }, terrain);
+    const { azimuthDeg } = low.getState();
+    expect(azimuthDeg).toBeGreaterThan(270);           // evening sun in the west-north-west
+    // East of the building the sun is behind it; west of it the robot is in full sun
+    expect(low.sunlitFraction(70, 40, true)).toBe(0);
+    expect(low.sunlitFraction(50, 40, true)).toBe(1);
+    expect(low.irradianceAt(70, 40, true)).toBeLessThan(low.irradianceAt(50, 40, true) * 0.5);
+
+    // At noon the short shadow falls north of the building, not on a robot beside it
+    const noon = new SolarField({ ...DEFAULT_SOLAR, startHour: 12, cloudCover: 0 }, terrain);
+    expect(noon.sunlitFraction(70, 40, true)).toBe(1);
+    expect(noon.sunlitFraction(60, 34, false)).toBe(0);
+
+    terrain.obstacles[0].type = 'tree';
+    expect(low.sunlitFraction(70, 40, true)).toBeCloseTo(0.4);
+  });
+});
+
+describe('Day/night in the simulator', () => {
+  it('harvests nothing at night and announces the sunset', () => {
+    const sim = new SwarmSimulator({ seed: 3, solar: { startHour: 19.15, cloudCover: 0 } });
+    sim.deploy();
+    for (let i = 0; i < 50; i++) sim.step();
+    expect(sim.robots.some(r => r.getState().solarHarvestMw > 0)).toBe(true);
+
+    let sunset = false;
+    for (let i = 0; i < 800 && !sunset; i++) {
+      sunset = sim.step().events.some(e => e.message.startsWith('Sunset'));
+    }
+    expect(sunset).toBe(true);
+    sim.step();
+    expect(sim.robots.every(r => r.getState().solarHarvestMw === 0)).toBe(true);
+    expect(sim.getManifest().solar).toMatchObject({ startHour: 19.15, latitudeDeg: DEFAULT_SOLAR.latitudeDeg });
+  });
+
+  it('restores the sky from checkpoints so forks stay identical', () => {
+    const sim = new SwarmSimulator({ seed: 9, solar: { cloudCover: 0.6 } });
+    sim.deploy();
+    let original = sim.step();
+    for (let i = 1; i < 80; i++) original = sim.step();
+    const fork = sim.forkAt(70);
+    let forked = fork.step();
+    for (let i = 1; i < 10; i++) forked = fork.step();
+    expect(forked.solar).toEqual(original.solar);
+    expect(forked.robots).toEqual(original.robots);
+  });
+
+  it('sets the time of day and cloud cover with the solar command', () => {
+    const sessions = new SessionManager({ onSnapshot: () => {} });
+    const session = sessions.create({ id: DEFAULT_SESSION_ID, seed: 4 });
+    const solar = getCommand('solar')!;
+
+    const outcome = runCommand(solar, session, { hour: 22, cloudCover: 0.5 });
+    expect(outcome.status).toBe(200);
+    expect(outcome.ack).toMatchObject({ ok: true, solar: { hour: 22, cloudCover: 0.5, irradianceWm2: 0 } });
+    expect(runCommand(solar, session, {}).status).toBe(400);
+    expect(runCommand(solar, session, { hour: 24 }).status).toBe(400);
+  });
+});
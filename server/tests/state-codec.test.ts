@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { SwarmSimulator } from '../src/simulator';
+import { StateEncoder, StateDecoder, MSG_KEYFRAME, MSG_DELTA, KEYFRAME_INTERVAL } from '@swarm/shared';
+import type { RobotState, SwarmSnapshot } from '../src/types';
+
+/** Apply f32 rounding the way the wire does, for comparisons */
+function f32(v: number): number {
+  return Math.fround(v);
+}
+
+function expectRobotMatches(decoded: RobotState, original: RobotState, withHdc: boolean): void {
+  expect(decoded.id).toBe(original.id);
+  expect(decoded.name).toBe(original.name);
+  expect(decoded.phase).toBe(original.phase);
+  expect(decoded.position.x).toBe(f32(original.position.x));
+  expect(decoded.batterySoc).toBe(f32(original.batterySoc));
+  expect(decoded.parentId).toBe(original.parentId);
+  expect(decoded.childIds).toEqual(original.childIds);
+  expect(decoded.isNested).toBe(original.isNested);
+  expect(decoded.targetPosition?.x).toBe(original.targetPosition ? f32(original.targetPosition.x) : undefined);
+  expect(decoded.hdc.predictedClass).toBe(original.hdc.predictedClass);
+  expect(decoded.hdc.predictedName).toBe(original.hdc.predictedName);
+  if (withHdc) {
+    expect(decoded.hdc.melFeatures).toEqual(original.hdc.melFeatures.map(f32));
+  } else {
+    expect(decoded.hdc.melFeatures).toEqual([]);
+  }
+}
+
+function run(ticks: number, onTick: (s: SwarmSnapshot) => void): void {
+  const sim = new SwarmSimulator({ seed: 5 });
+  sim.deploy();
+  sim.startMission('survey');
+  for (let i = 0; i < ticks; i++) onTick(sim.step());
+}
+
+describe('State codec', () => {
+  it('reconstructs snapshots from a keyframe and deltas', () => {
+    const encoder = new StateEncoder();
+    const decoder = new StateDecoder();
+    encoder.setHdcSubscription([3]);
+    const types: number[] = [];
+
+    run(150, snapshot => {
+      const msg = encoder.encode(snapshot);
+      types.push(msg[0]);
+      const decoded = decoder.decode(msg)!;
+      expect(decoded.tick).toBe(snapshot.tick);
+      expect(decoded.robots).toHaveLength(snapshot.robots.length);
+      snapshot.robots.forEach((r, i) => expectRobotMatches(decoded.robots[i], r, r.id === 3));
+      expect(decoded.stats).toEqual(snapshot.stats);
+      expect(decoded.events).toEqual(snapshot.events);
+      expect(decoded.mission).toEqual(snapshot.mission);
+      expect(decoded.wind).toEqual(snapshot.wind);
+    });
+
+    expect(types[0]).toBe(MSG_KEYFRAME);
+    expect(types[1]).toBe(MSG_DELTA);
+    expect(types[KEYFRAME_INTERVAL]).toBe(MSG_KEYFRAME);
+  });
+
+  it('is several times smaller than the JSON stream', () => {
+    const encoder = new StateEncoder();
+    let json = 0;
+    let binary = 0;
+    run(100, snapshot => {
+      json += JSON.stringify(snapshot).length;
+      binary += encoder.encode(snapshot).length;
+    });
+    expect(binary * 5).toBeLessThan(json);
+  });
+
+  it('drops a key that disappears from the snapshot', () => {
+    const encoder = new StateEncoder();
+    const decoder = new StateDecoder();
+    const sim = new SwarmSimulator({ seed: 5 });
+    sim.startMission('survey');
+    expect(decoder.decode(encoder.encode(sim.step()))!.mission).toBeDefined();
+    sim.stopMission();
+    expect(decoder.decode(encoder.encode(sim.step()))!.mission).toBeUndefined();
+  });
+
+  it('asks for a keyframe when a delta arrives without a base', () => {
+    const encoder = new StateEncoder();
+    const sim = new SwarmSimulator({ seed: 5 });
+    encoder.encode(sim.step());
+    const delta = encoder.encode(sim.step());
+    expect(delta[0]).toBe(MSG_DELTA);
+    expect(new StateDecoder().decode(delta)).toBeNull();
+
+    encoder.requestKeyframe();
+    expect(encoder.encode(sim.step())[0]).toBe(MSG_KEYFRAME);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MemoryStore, JsonlStore, paginate, type StoredEvent } from '../src/store';
+import { SwarmSimulator } from '../src/simulator';
+import { parseWindCsv } from '../src/wind-log';
+
+function event(runId: string, recordedAt: number, type: StoredEvent['type'] = 'info'): StoredEvent {
+  return { runId, recordedAt, tick: recordedAt, timeMs: recordedAt * 100, type, message: `e${recordedAt}` };
+}
+
+describe('paginate', () => {
+  const events = [1, 2, 3, 4, 5].map(t => event(t % 2 ? 'a' : 'b', t));
+
+  it('returns newest first with the unpaged total', () => {
+    const page = paginate(events, { limit: 2 }, e => e.recordedAt);
+    expect(page.items.map(e => e.recordedAt)).toEqual([5, 4]);
+    expect(page.total).toBe(5);
+  });
+
+  it('applies offset, order and time range', () => {
+    const page = paginate(events, { from: 2, to: 4, order: 'asc', offset: 1 }, e => e.recordedAt);
+    expect(page.items.map(e => e.recordedAt)).toEqual([3, 4]);
+    expect(page.total).toBe(3);
+  });
+
+  it('filters by run id', () => {
+    expect(paginate(events, { runId: 'b' }, e => e.recordedAt).total).toBe(2);
+  });
+});
+
+describe('JsonlStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'swarm-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('survives reopening (server restart)', () => {
+    const first = new JsonlStore(dir);
+    first.appendEvent(event('r1', 10, 'deploy'));
+    first.appendMission({
+      runId: 'r1', type: 'survey', score: 40, classified: 4, expired: 1,
+      totalTargets: 5, durationMs: 60000, timestamp: 1000,
+    });
+    first.flush();
+
+    const reopened = new JsonlStore(dir);
+    expect(reopened.queryEvents().items[0].message).toBe('e10');
+    expect(reopened.queryEvents({ type: 'recall' }).total).toBe(0);
+    expect(reopened.queryMissions({ from: 500 }).items[0].score).toBe(40);
+  });
+
+  it('skips a torn final line and starts the next append on a fresh line', () => {
+    const store = new JsonlStore(dir);
+    store.appendEvent(event('r1', 1));
+    store.flush();
+    fs.appendFileSync(path.join(dir, 'events.jsonl'), '{"runId":"r1","recor');
+
+    const reopened = new JsonlStore(dir);
+    expect(reopened.queryEvents().total).toBe(1);
+    reopened.appendEvent(event('r1', 2));
+    reopened.flush();
+    expect(new JsonlStore(dir).queryEvents({ order: 'asc' }).items.map(e => e.message)).toEqual(['e1', 'e2']);
+  });
+
+  it('pages old records from disk by offset and buffers new appends', () => {
+    const store = new JsonlStore(dir);
+    for (let t = 1; t <= 1500; t++) store.appendEvent(event(t % 2 ? 'a' : 'b', t));
+    expect(fs.statSync(path.join(dir, 'events.jsonl')).size).toBe(0);
+    expect(store.queryEvents({ limit: 1 }).items[0].message).toBe('e1500');
+    store.flush();
+
+    const reopened = new JsonlStore(dir);
+    const page = reopened.queryEvents({ runId: 'a', order: 'asc', limit: 3 });
+    expect(page.total).toBe(750);
+    expect(page.items.map(e => e.message)).toEqual(['e1', 'e3', 'e5']);
+  });
+
+  it('saves and reloads recorded runs, latest save wins', () => {
+    const store = new JsonlStore(dir);
+    const manifest = { runId: 'r1', seed: 1, startedAt: '', robotCount: 22, fleetName: 'default-22', dtSeconds: 0.15 };
+    store.saveRun({ runId: 'r1', manifest, endedAt: 1, ticks: 0, frameCount: 0, frames: [] });
+    store.saveRun({ runId: 'r1', manifest, endedAt: 2, ticks: 5, frameCount: 0, frames: [] });
+    expect(store.listRuns().total).toBe(1);
+    expect(store.getRun('r1')?.ticks).toBe(5);
+    expect(store.getRun('../etc')).toBeNull();
+  });
+
+  it('lists checkpoints from summary sidecars, backfilling ones saved without', () => {
+    const store = new JsonlStore(dir);
+    const sim = new SwarmSimulator({ seed: 2 });
+    for (let i = 0; i < 5; i++) sim.step();
+    const cp = sim.toCheckpoint('five');
+    store.saveCheckpoint(cp);
+    fs.writeFileSync(path.join(dir, 'checkpoints', `${cp.id}.json`), '{ not parsed by a listing');
+    expect(store.listCheckpoints().items).toEqual([{ id: cp.id, label: 'five', createdAt: cp.createdAt, runId: cp.runId, tick: 5 }]);
+
+    const legacy = { ...cp, id: 'legacy-t5', createdAt: new Date(0).toISOString() };
+    fs.writeFileSync(path.join(dir, 'checkpoints', 'legacy-t5.json'), JSON.stringify(legacy));
+    expect(store.listCheckpoints().items.map(c => c.id)).toEqual([cp.id, 'legacy-t5']);
+    expect(fs.existsSync(path.join(dir, 'checkpoints', 'legacy-t5.summary.json'))).toBe(true);
+  });
+
+  it('lists wind logs from summary sidecars, backfilling logs saved without one', () => {
+    const store = new JsonlStore(dir);
+    const csv = 'Timestamp,Speed,Direction\n0,2,270\n10,4,270';
+    const log = parseWindCsv(csv, 'mast');
+    store.saveWindLog(log);
+    fs.writeFileSync(path.join(dir, 'wind', `${log.id}.json`), '{ not parsed by a listing');
+    expect(store.listWindLogs()).toEqual([expect.objectContaining({ id: log.id, stations: [{ id: 'default', position: null, samples: 2 }] })]);
+
+    const legacy = { ...parseWindCsv(`${csv}\n20,6,270`, 'legacy'), importedAt: new Date(0).toISOString() };
+    fs.writeFileSync(path.join(dir, 'wind', `${legacy.id}.json`), JSON.stringify(legacy));
+    expect(store.listWindLogs().map(l => l.name)).toEqual(['mast', 'legacy']);
+    expect(fs.existsSync(path.join(dir, 'wind', `${legacy.id}.summary.json`))).toBe(true);
+  });
+});
+
+describe('SwarmSimulator with a store', () => {
+  it('persists events, mission results and the archived run under its run id', () => {
+    const store = new MemoryStore();
+    const sim = new SwarmSimulator({ seed: 1, store });
+    const runId = sim.getManifest().runId;
+    sim.startMission('survey');
+    for (let i = 0; i < 20; i++) sim.step();
+    sim.stopMission();
+
+    expect(store.queryEvents({ runId, type: 'deploy' }).total).toBeGreaterThan(0);
+    expect(store.queryMissions({ runId }).items[0].type).toBe('survey');
+
+    const summary = sim.archiveRun();
+    expect(summary?.frameCount).toBe(20);
+    expect(store.getRun(runId)?.frames).toHaveLength(20);
+  });
+});
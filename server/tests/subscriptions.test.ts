@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { SwarmSimulator } from '../src/simulator';
+import { StateEncoder, type RobotSummary } from '@swarm/shared';
+import { StreamClient, parseTopics, projectSnapshot } from '../src/subscriptions';
+import { streamSubscriptionSchema } from '../src/validation';
+import type { SwarmSnapshot } from '../src/types';
+
+function snapshots(ticks: number): SwarmSnapshot[] {
+  const sim = new SwarmSimulator({ seed: 3 });
+  sim.deploy();
+  sim.startMission('survey');
+  return Array.from({ length: ticks }, () => sim.step());
+}
+
+describe('Stream subscriptions', () => {
+  it('parses topics into a selection', () => {
+    const sel = parseTopics(['robots:summary', 'hdc:4', 'hdc:2', 'mission', 'events']);
+    expect(sel.robots).toBe('summary');
+    expect(sel.hdc).toEqual([2, 4]);
+    expect(sel.mission).toBe(true);
+    expect(sel.events).toBe(true);
+    expect(sel.bleLinks).toBe(false);
+    // full wins over summary regardless of order
+    expect(parseTopics(['robots', 'robots:summary']).robots).toBe('full');
+    expect(parseTopics(['hdc:1', 'hdc:*']).hdc).toBe('all');
+    expect(() => parseTopics(['weather'])).toThrow('Unknown topic');
+  });
+
+  it('validates subscribe payloads', () => {
+    expect(streamSubscriptionSchema.safeParse({ topics: ['robots', 'hdc:*'], rateHz: 2 }).success).toBe(true);
+    expect(streamSubscriptionSchema.safeParse({ rateHz: null }).success).toBe(true);
+    expect(streamSubscriptionSchema.safeParse({ topics: ['hdc:x'] }).success).toBe(false);
+    expect(streamSubscriptionSchema.safeParse({ rateHz: 0 }).success).toBe(false);
+  });
+
+  it('projects only the subscribed topics', () => {
+    const [snap] = snapshots(1);
+    const frame = projectSnapshot(snap, parseTopics(['robots:summary', 'hdc:0']));
+    expect(frame.tick).toBe(snap.tick);
+    expect(frame.stats).toBe(snap.stats);
+    expect(frame.mission).toBeUndefined();
+    expect(frame.bleLinks).toBeUndefined();
+    expect(frame.events).toBeUndefined();
+    const summary = frame.robots![0] as RobotSummary;
+    expect(summary.batterySoc).toBe(snap.robots[0].batterySoc);
+    expect(summary.hdc.predictedName).toBe(snap.robots[0].hdc.predictedName);
+    expect('melFeatures' in summary.hdc).toBe(false);
+    expect(Object.keys(frame.hdc!)).toEqual(['0']);
+    expect(frame.hdc![0].hdVector).toBe(snap.robots[0].hdc.hdVector);
+
+    const full = projectSnapshot(snap, parseTopics(['robots', 'mission', 'bleLinks']));
+    expect(full.robots).toBe(snap.robots);
+    expect(full.mission).toBe(snap.mission);
+    expect(full.bleLinks).toBe(snap.bleLinks);
+    expect(full.hdc).toBeUndefined();
+  });
+
+  it('downsamples on the wall clock and carries skipped events forward', () => {
+    let now = 0;
+    const client = new StreamClient(() => now);
+    client.subscribe(parseTopics(['events']), 2);
+    expect(client.isDefault).toBe(false);
+
+    const ticks = snapshots(12);
+    const skipped = { tick: 0, timeMs: 0, type: 'info' as const, message: 'skipped tick' };
+    const sent: number[] = [];
+    for (const [i, snap] of ticks.entries()) {
+      now = i * 100;
+      const message = client.next(i === 2 ? { ...snap, events: [skipped] } : snap);
+      if (!message) continue;
+      expect(message.event).toBe('swarm:frame');
+      sent.push(snap.tick);
+      if (i === 5) expect(message.event === 'swarm:frame' && message.payload.events).toContainEqual(skipped);
+    }
+    // 2 Hz at 10 ticks/s → every fifth tick
+    expect(sent).toEqual([ticks[0].tick, ticks[5].tick, ticks[10].tick]);
+  });
+
+  it('keeps binary and full-snapshot streams when only the rate changes', () => {
+    const client = new StreamClient(() => 0);
+    client.setEncoder(new StateEncoder());
+    client.subscribe(null, null);
+    const [snap] = snapshots(1);
+    expect(client.next(snap)?.event).toBe('swarm:state:bin');
+
+    // Topics switch the socket to JSON frames; clearing them returns to defaults
+    client.subscribe(parseTopics(['robots']), null);
+    expect(client.next(snap)?.event).toBe('swarm:frame');
+    client.subscribe(null, null);
+    expect(client.isDefault).toBe(true);
+    expect(client.next(snap)?.event).toBe('swarm:state');
+  });
+});
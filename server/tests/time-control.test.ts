@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SwarmSimulator } from '../src/simulator';
+import { SimLoop, SHED_INTERVALS } from '../src/loop';
+import { SIM_STEP_MS, SIM_TICK_MS, type SwarmSnapshot } from '../src/types';
+
+describe('Simulation clock', () => {
+  it('derives sim time from the tick count, not the wall clock', () => {
+    const sim = new SwarmSimulator({ seed: 1 });
+    let snapshot = sim.step();
+    for (let i = 1; i < 25; i++) snapshot = sim.step();
+    expect(snapshot.clock.simTimeMs).toBe(25 * SIM_STEP_MS);
+    expect(snapshot.timeMs).toBe(25 * SIM_STEP_MS);
+    expect(snapshot.stats.uptimeSeconds).toBeCloseTo(3.75);
+  });
+
+  it('clamps speed to the 0.25×–10× range', () => {
+    const sim = new SwarmSimulator({ seed: 1 });
+    sim.setSpeed(50);
+    expect(sim.getSpeed()).toBe(10);
+    sim.setSpeed(0.01);
+    expect(sim.getSpeed()).toBe(0.25);
+  });
+
+  it('reports pause state in the clock', () => {
+    const sim = new SwarmSimulator({ seed: 1 });
+    sim.pause();
+    expect(sim.getClock().paused).toBe(true);
+    sim.resume();
+    expect(sim.getClock().paused).toBe(false);
+  });
+
+  it('mission time remaining follows sim ticks', () => {
+    const sim = new SwarmSimulator({ seed: 1 });
+    sim.startMission('survey');
+    for (let i = 0; i < 10; i++) sim.step();
+    expect(sim.getMissionState().timeRemainingMs).toBe((600 - 10) * SIM_STEP_MS);
+  });
+});
+
+describe('SimLoop', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('ticks every SIM_TICK_MS at 1× and faster at higher speed', () => {
+    vi.useFakeTimers();
+    const sim = new SwarmSimulator({ seed: 1 });
+    const ticks: number[] = [];
+    const loop = new SimLoop(sim, s => ticks.push(s.tick));
+    loop.start();
+
+    vi.advanceTimersByTime(SIM_TICK_MS * 5);
+    expect(ticks).toHaveLength(5);
+
+    sim.setSpeed(4);
+    vi.advanceTimersByTime(SIM_TICK_MS); // finishes the pending 1× tick, then 4× cadence
+    vi.advanceTimersByTime(SIM_TICK_MS * 2);
+    expect(ticks.length).toBeGreaterThanOrEqual(5 + 8);
+    loop.stop();
+  });
+
+  it('does not step while paused', () => {
+    vi.useFakeTimers();
+    const sim = new SwarmSimulator({ seed: 1 });
+    const emitted: SwarmSnapshot[] = [];
+    const loop = new SimLoop(sim, s => emitted.push(s));
+    sim.pause();
+    loop.start();
+    vi.advanceTimersByTime(SIM_TICK_MS * 10);
+    expect(emitted).toHaveLength(0);
+    expect(sim.getTick()).toBe(0);
+    loop.stop();
+  });
+
+  it('stepTicks advances N ticks and emits one merged snapshot', () => {
+    const sim = new SwarmSimulator({ seed: 1 });
+    sim.deploy();
+    const emitted: SwarmSnapshot[] = [];
+    const loop = new SimLoop(sim, s => emitted.push(s));
+    sim.pause();
+
+    const snapshot = loop.stepTicks(35);
+    expect(snapshot.tick).toBe(35);
+    expect(emitted).toHaveLength(1);
+    // Stage 2 of the cascade deploy fires at tick 30 and must not be dropped
+    expect(snapshot.events.some(e => e.message.startsWith('Stage 2/3'))).toBe(true);
+  });
+});
+
+describe('SimLoop scheduling', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** Loop whose clock advances by `cost.ms` during every step (a slow simulator) */
+  function slowLoop(seed = 1) {
+    vi.useFakeTimers();
+    const sim = new SwarmSimulator({ seed });
+    const cost = { ms: 0 };
+    let extra = 0;
+    const now = () => performance.now() + extra;
+    const step = sim.step.bind(sim);
+    vi.spyOn(sim, 'step').mockImplementation(() => {
+      extra += cost.ms;
+      return step();
+    });
+    const snapshots: SwarmSnapshot[] = [];
+    const starts: number[] = [];
+    const loop = new SimLoop(sim, s => {
+      starts.push(now() - cost.ms);
+      snapshots.push(s);
+    }, undefined, now);
+    const run = (ticks: number) => {
+      for (let i = 0; i < ticks; i++) vi.advanceTimersToNextTimer();
+    };
+    return { sim, loop, cost, snapshots, starts, run };
+  }
+
+  it('keeps ticks on the SIM_TICK_MS grid despite step time', () => {
+    const { loop, cost, starts, run } = slowLoop();
+    cost.ms = 30;
+    loop.start();
+    run(10);
+    loop.stop();
+    const gaps = starts.slice(1).map((t, i) => t - starts[i]);
+    expect(gaps).toHaveLength(9);
+    for (const gap of gaps) expect(gap).toBeCloseTo(SIM_TICK_MS);
+    expect(loop.getStats()).toMatchObject({ overruns: 0, droppedTicks: 0, shedLevel: 0 });
+  });
+
+  it('reports overruns, drops the backlog and sheds load', () => {
+    const { sim, loop, cost, snapshots, run } = slowLoop();
+    cost.ms = SIM_TICK_MS * 1.5;
+    loop.start();
+    run(12);
+    const stats = loop.getStats();
+    expect(stats.overruns).toBe(12);
+    expect(stats.droppedTicks).toBeGreaterThan(0);
+    expect(stats.shedLevel).toBe(2);
+    expect(stats.tickRateHz).toBeLessThan(stats.targetHz);
+    expect(sim.getMeshInterval()).toBe(SHED_INTERVALS[2]);
+
+    const overrunEvents = snapshots.flatMap(s => s.events).filter(e => e.type === 'overrun');
+    // One rate-limited overrun report, then each level change
+    expect(overrunEvents.map(e => e.message.split(':')[0])).toEqual([
+      'Tick overrun', 'Load shedding level 1', 'Load shedding level 2',
+    ]);
+    expect(snapshots[snapshots.length - 1].stats.scheduler).toMatchObject({ shedLevel: 2, meshIntervalTicks: SHED_INTERVALS[2] });
+
+    // Load gone: one level back per quiet stretch
+    cost.ms = 0;
+    run(100);
+    expect(loop.getStats().shedLevel).toBe(1);
+    loop.stop();
+  });
+
+  it('turns a failing step into an event and keeps ticking', () => {
+    const { sim, loop, snapshots, run } = slowLoop();
+    const step = sim.step as unknown as ReturnType<typeof vi.fn>;
+    step.mockImplementationOnce(() => { throw new Error('boom'); });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    loop.start();
+    run(3);
+    loop.stop();
+    expect(snapshots).toHaveLength(2);
+    expect(snapshots[0].events).toContainEqual(expect.objectContaining({ type: 'overrun', message: 'Tick 0 failed: boom' }));
+  });
+
+  it('sheds BLE/consensus refreshes without changing robot trajectories', () => {
+    const full = new SwarmSimulator({ seed: 9 });
+    const shed = new SwarmSimulator({ seed: 9 });
+    shed.setMeshInterval(5);
+    full.deploy();
+    shed.deploy();
+    let a!: SwarmSnapshot;
+    let b!: SwarmSnapshot;
+    for (let i = 0; i < 120; i++) {
+      a = full.step();
+      b = shed.step();
+    }
+    expect(b.robots.map(r => r.position)).toEqual(a.robots.map(r => r.position));
+    expect(b.robots.map(r => r.batterySoc)).toEqual(a.robots.map(r => r.batterySoc));
+    // tick 120 is a refresh tick for both
+    expect(b.bleLinks).toEqual(a.bleLinks);
+    expect(b.stats.consensus).toBeUndefined(); // every 50 ticks at interval 5
+  });
+});
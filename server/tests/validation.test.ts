@@ -7,6 +7,7 @@ import {
   formationSchema,
   missionTypeSchema,
   replayParamsSchema,
+  MAX_REPLAY_SPAN,
 } from '../src/validation';
 
 // ── moveSchema ────────────────────────────────────────────
@@ -19,15 +20,15 @@ describe('moveSchema', () => {
 
   it('accepts boundary values', () => {
     expect(moveSchema.parse({ robotId: 0, x: 0, y: 0 })).toEqual({ robotId: 0, x: 0, y: 0 });
-    expect(moveSchema.parse({ robotId: 7, x: 120, y: 80 })).toEqual({ robotId: 7, x: 120, y: 80 });
+    expect(moveSchema.parse({ robotId: 254, x: 120, y: 80 })).toEqual({ robotId: 254, x: 120, y: 80 });
   });
 
   it('rejects robotId below 0', () => {
     expect(() => moveSchema.parse({ robotId: -1, x: 50, y: 40 })).toThrow(ZodError);
   });
 
-  it('rejects robotId above 7', () => {
-    expect(() => moveSchema.parse({ robotId: 8, x: 50, y: 40 })).toThrow(ZodError);
+  it('rejects robotId above 254', () => {
+    expect(() => moveSchema.parse({ robotId: 255, x: 50, y: 40 })).toThrow(ZodError);
   });
 
   it('rejects non-integer robotId', () => {
@@ -81,7 +82,7 @@ describe('powerSchema', () => {
   });
 
   it('rejects robotId out of range', () => {
-    expect(() => powerSchema.parse({ robotId: 10, mode: 'ECO' })).toThrow(ZodError);
+    expect(() => powerSchema.parse({ robotId: 255, mode: 'ECO' })).toThrow(ZodError);
     expect(() => powerSchema.parse({ robotId: -1, mode: 'ECO' })).toThrow(ZodError);
   });
 });
@@ -89,14 +90,14 @@ describe('powerSchema', () => {
 // ── robotIdSchema ─────────────────────────────────────────
 
 describe('robotIdSchema', () => {
-  it('accepts valid robot IDs 0-7', () => {
-    for (let id = 0; id <= 7; id++) {
+  it('accepts robot IDs beyond the first eight (22-robot default fleet)', () => {
+    for (const id of [0, 7, 8, 21, 254]) {
       expect(robotIdSchema.parse({ robotId: id })).toEqual({ robotId: id });
     }
   });
 
-  it('rejects robotId above 7', () => {
-    expect(() => robotIdSchema.parse({ robotId: 8 })).toThrow(ZodError);
+  it('rejects robotId above 254', () => {
+    expect(() => robotIdSchema.parse({ robotId: 255 })).toThrow(ZodError);
   });
 
   it('rejects robotId below 0', () => {
@@ -187,4 +188,9 @@ describe('replayParamsSchema', () => {
   it('rejects number inputs (expects strings)', () => {
     expect(() => replayParamsSchema.parse({ from: 100, to: 200 })).toThrow(ZodError);
   });
+
+  it('caps the span at MAX_REPLAY_SPAN ticks', () => {
+    expect(replayParamsSchema.parse({ from: '1000', to: String(1000 + MAX_REPLAY_SPAN - 1) }).to).toBe(3999);
+    expect(() => replayParamsSchema.parse({ from: '0', to: '999999999' })).toThrow(/at most 3000 ticks/);
+  });
 });
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { parseWindCsv, bearingToMapAngle, reportObservation, WindLogPlayer, GUST_LEVEL_FULL_SCALE } from '../src/wind-log';
+import { WindField } from '../src/wind';
+import { SwarmSimulator } from '../src/simulator';
+import { MemoryStore } from '../src/store';
+import { getCommand, runCommand } from '../src/commands';
+import { SessionManager, DEFAULT_SESSION_ID } from '../src/sessions';
+
+const TWO_STATIONS = [
+  '# mast A west of the hub, mast B east',
+  'Station,Timestamp,Speed,Direction,Gust,X,Y',
+  'A,2026-05-01T12:00:00Z,2,270,3,20,40',
+  'B,2026-05-01T12:00:00Z,6,270,,100,40',
+  'A,2026-05-01T12:00:10Z,4,270,6,20,40',
+  'B,2026-05-01T12:00:10Z,6,270,,100,40',
+].join('\n');
+
+describe('Anemometer CSV import', () => {
+  it('groups rows by station and converts bearings to the map frame', () => {
+    const log = parseWindCsv(TWO_STATIONS, 'masts');
+    expect(log).toMatchObject({ name: 'masts', startedAt: '2026-05-01T12:00:00.000Z', durationS: 10 });
+    expect(log.stations.map(s => [s.id, s.position])).toEqual([['A', { x: 20, y: 40 }], ['B', { x: 100, y: 40 }]]);
+    expect(log.stations[0].samples[1]).toMatchObject({ t: 10, speed: 4, gust: 2 });
+    expect(log.stations[0].samples[0].direction).toBeCloseTo(0);       // from the west → toward +x
+    expect(bearingToMapAngle(0)).toBeCloseTo(Math.PI / 2);             // from the north → toward +y (south)
+    expect(parseWindCsv(TWO_STATIONS, 'again').id).toBe(log.id);
+  });
+
+  it('rejects malformed logs with the offending line', () => {
+    expect(() => parseWindCsv('timestamp,speed\n0,2', 'x')).toThrow('missing the "direction" column');
+    expect(() => parseWindCsv('timestamp,speed,direction\n0,2,90\n5,fast,90', 'x')).toThrow('Line 3: speed "fast" is not a number');
+    expect(() => parseWindCsv('timestamp,speed,direction,x,y\n0,2,90,500,10', 'x')).toThrow('Line 2: station position');
+    expect(() => parseWindCsv('timestamp,speed,direction\n', 'x')).toThrow('no data rows');
+  });
+});
+
+describe('Wind log playback', () => {
+  const csv = 'timestamp,speed,direction\n0,2,270\n10,4,180\n20,4,180';
+
+  it('interpolates between samples, time-scaled, and ends or loops', () => {
+    const log = parseWindCsv(csv, 'single');
+    const player = new WindLogPlayer(log, { timeScale: 5 });
+    expect(player.advance(1)).toBe(true);                             // 5 s into the log
+    const [mid] = player.observations();
+    expect(mid.position).toBeNull();
+    expect(mid.speed).toBeCloseTo(3);
+    expect(mid.direction).toBeLessThan(0);                            // turning from +x toward −y (north)
+    expect(mid.direction).toBeGreaterThan(-Math.PI / 2);
+
+    expect(player.advance(4)).toBe(false);
+    expect(player.getState()).toMatchObject({ positionS: 20, durationS: 20, name: 'single' });
+
+    const looped = new WindLogPlayer(log, { loop: true, offsetS: 18 });
+    expect(looped.advance(5)).toBe(true);
+    expect(looped.getState().positionS).toBeCloseTo(3);
+  });
+
+  it('interpolates between positioned stations across the map', () => {
+    const wind = new WindField(Math.PI, 2, 0);
+    wind.drive([
+      { position: { x: 20, y: 40 }, speed: 2, direction: 0, gust: 0 },
+      { position: { x: 100, y: 40 }, speed: 6, direction: 0, gust: 0 },
+    ]);
+    expect(wind.getWindAt({ x: 20, y: 40 }).speed).toBeCloseTo(2);
+    expect(wind.getWindAt({ x: 100, y: 40 }).speed).toBeCloseTo(6);
+    expect(wind.getWindAt({ x: 60, y: 40 }).speed).toBeCloseTo(4);
+    expect(wind.getWindAt({ x: 60, y: 40 }).direction).toBeCloseTo(0);
+
+    wind.drive(new WindLogPlayer(parseWindCsv(TWO_STATIONS, 'masts')).observations());
+    expect(wind.getState()).toMatchObject({ source: 'log', stations: 2 });
+
+    wind.drive(null);
+    expect(wind.getState()).toMatchObject({ source: 'synthetic', stations: 0, baseSpeed: 2 });
+  });
+});
+
+describe('Measured wind in the simulator', () => {
+  it('replays a stored log, forks with it and hands back to the synthetic drift', () => {
+    const store = new MemoryStore();
+    const log = parseWindCsv('timestamp,speed,direction\n0,5,90\n6,7,90', 'easterly');
+    store.saveWindLog(log);
+    const sim = new SwarmSimulator({ seed: 5, store });
+    sim.deploy();
+    for (let i = 0; i < 5; i++) sim.step();
+    expect(() => sim.playWindLog('0123456789abcdef')).toThrow('Wind log not found');
+    sim.playWindLog(log.id);
+    sim.markForkPoint();
+
+    let original = sim.step();
+    expect(original.wind).toMatchObject({ source: 'log', baseDirection: expect.closeTo(Math.PI, 5) });
+    expect(original.wind.playback).toMatchObject({ logId: log.id, positionS: expect.closeTo(0.15, 5) });
+    for (let i = 0; i < 10; i++) original = sim.step();
+    expect(original.wind.baseSpeed).toBeGreaterThan(5);
+
+    const fork = sim.forkAt(8, { store: new MemoryStore() });   // the log comes from the parent
+    let forked = fork.step();
+    for (let i = 9; i < 16; i++) forked = fork.step();
+    expect(forked.wind).toEqual(original.wind);
+    expect(forked.robots).toEqual(original.robots);
+
+    let ended = false;
+    for (let i = 0; i < 40 && !ended; i++) ended = sim.step().events.some(e => e.message.includes('ended'));
+    expect(ended).toBe(true);
+    expect(sim.step().wind).toMatchObject({ source: 'synthetic', playback: undefined, baseSpeed: 2 });
+    expect(store.listWindLogs()[0]).toMatchObject({ id: log.id, stations: [{ id: 'default', samples: 2 }] });
+  });
+
+  it('takes serial wind reports at the robot and lets them expire', () => {
+    const sessions = new SessionManager({ onSnapshot: () => {} });
+    const session = sessions.create({ id: DEFAULT_SESSION_ID, seed: 6 });
+    const report = getCommand('wind/report')!;
+
+    expect(runCommand(report, session, { robotId: 0, windSpeed: 8, windDir: 270, gustLevel: 2 }).status).toBe(200);
+    expect(runCommand(report, session, { robotId: 250, windSpeed: 8, windDir: 270 }).status).toBe(404);
+    expect(runCommand(report, session, { robotId: 0, windSpeed: 8, windDir: 360 }).status).toBe(400);
+    expect(runCommand(getCommand('wind/play')!, session, { logId: 'nope' }).status).toBe(404);
+    expect(runCommand(getCommand('wind/stop')!, session, {}).status).toBe(409);
+
+    const { sim } = session;
+    let snapshot = sim.step();
+    expect(snapshot.wind).toMatchObject({ source: 'serial', stations: 1, baseSpeed: 8 });
+    expect(snapshot.wind.baseDirection).toBeCloseTo(0);
+    for (let i = 0; i < 55; i++) snapshot = sim.step();
+    expect(snapshot.wind.source).toBe('synthetic');
+  });
+
+  it('scales the unit-less gust level to m/s', () => {
+    const at = { x: 0, y: 0 };
+    expect(reportObservation({ robotId: 0, windSpeed: 5, windDir: 0, gustLevel: 0 }, at).gust).toBe(0);
+    expect(reportObservation({ robotId: 0, windSpeed: 5, windDir: 0, gustLevel: 255 }, at).gust).toBe(GUST_LEVEL_FULL_SCALE);
+    expect(reportObservation({ robotId: 0, windSpeed: 5, windDir: 0, gustLevel: 51 }, at).gust).toBeCloseTo(GUST_LEVEL_FULL_SCALE / 5);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { WindField, MAX_GUSTS } from '../src/wind';
+import { Prng } from '../src/rng';
+import { getCommand, runCommand } from '../src/commands';
+import { SessionManager, DEFAULT_SESSION_ID } from '../src/sessions';
+import type { TerrainData, Obstacle } from '../src/terrain';
+
+/** 120 × 80 map, flat unless a height function is given */
+function terrain(obstacles: Obstacle[], height: (x: number, y: number) => number = () => 0): TerrainData {
+  return {
+    heightMap: Array.from({ length: 41 }, (_, r) => Array.from({ length: 61 }, (_, c) => height(c * 2, r * 2))),
+    rows: 41,
+    cols: 61,
+    maxHeight: 4,
+    obstacles,
+  };
+}
+
+const BUILDING: Obstacle = { x: 40, z: 40, width: 6, depth: 6, height: 6, type: 'building' };
+
+/** Wind blowing toward +x at 2 m/s, no turbulence */
+function eastWind(map?: TerrainData, solver: 'wake' | 'potential' = 'wake'): WindField {
+  return new WindField(0, 2, 0, undefined, map, solver);
+}
+
+describe('Wind field grid', () => {
+  it('keeps the uniform base wind without terrain', () => {
+    const wind = eastWind();
+    expect(wind.getWindAt({ x: 10, y: 70 }).speed).toBeCloseTo(2);
+    expect(wind.getWindAt({ x: 100, y: 5 }).direction).toBeCloseTo(0);
+  });
+
+  it('shelters the wake downwind of an obstacle and widens it', () => {
+    const wind = eastWind(terrain([BUILDING]));
+    const speed = (x: number, y: number) => wind.getWindAt({ x, y }).speed;
+    expect(speed(48, 40)).toBeLessThan(1);           // just behind the lee face
+    expect(speed(60, 40)).toBeGreaterThan(speed(48, 40));
+    expect(speed(60, 40)).toBeLessThan(1.9);
+    expect(speed(30, 40)).toBeCloseTo(2);            // upwind is untouched
+    expect(speed(48, 60)).toBeCloseTo(2);            // beside the wake
+    expect(speed(100, 40)).toBeCloseTo(2);           // past 8 heights
+
+    const tree = eastWind(terrain([{ ...BUILDING, type: 'tree' }]));
+    expect(tree.getWindAt({ x: 48, y: 40 }).speed).toBeGreaterThan(speed(48, 40));
+  });
+
+  it('speeds the wind up over a hill crest', () => {
+    const hill = (x: number, y: number) => 4 * Math.exp(-((x - 60) ** 2 + (y - 40) ** 2) / 100);
+    const wind = eastWind(terrain([], hill));
+    expect(wind.getWindAt({ x: 60, y: 40 }).speed).toBeGreaterThan(2.5);
+    expect(wind.getWindAt({ x: 10, y: 10 }).speed).toBeCloseTo(2);
+  });
+
+  it('deflects the flow around buildings with the potential solver', () => {
+    const map = terrain([BUILDING]);
+    const potential = eastWind(map, 'potential');
+    const wake = eastWind(map, 'wake');
+    const beside = { x: 40, y: 46 };
+    expect(potential.getWindAt(beside).speed).toBeGreaterThan(wake.getWindAt(beside).speed + 0.2);
+    // Upwind of the windward face the flow turns away from it
+    expect(Math.abs(potential.getWindAt({ x: 36, y: 42 }).direction)).toBeGreaterThan(0.1);
+    expect(potential.getWindAt({ x: 40, y: 40 }).speed).toBe(0);
+    expect(potential.getState().solver).toBe('potential');
+  });
+
+  it('runs several gusts at once and calms them one by one', () => {
+    const wind = eastWind();
+    const a = wind.triggerGust({ center: { x: 20, y: 20 }, peakSpeed: 6, radius: 15, durationTicks: 100 });
+    const b = wind.triggerGust({ center: { x: 90, y: 60 } });
+    for (let i = 0; i < 40; i++) wind.update();
+
+    const state = wind.getState();
+    expect(state.gusts.map(g => g.id)).toEqual([a.id, b.id]);
+    expect(state.gusts[0]).toMatchObject({ center: { x: 20, y: 20 }, speed: 6, radius: 15 });
+    expect(state).toMatchObject({ gustSpeed: 6, gustCenter: { x: 20, y: 20 } });   // the strongest gust
+    expect(wind.getWindAt({ x: 25, y: 20 }).speed).toBeGreaterThan(3);
+
+    for (let i = 0; i < 70; i++) wind.update();
+    expect(wind.getState().gusts.map(g => g.id)).toEqual([b.id]);
+    expect(wind.getState().gustCenter).toEqual({ x: 90, y: 60 });
+    expect(wind.stopGust(a.id)).toBe(false);
+    expect(wind.stopGust(b.id)).toBe(true);
+    expect(wind.getState().gustActive).toBe(false);
+
+    for (let i = 0; i < MAX_GUSTS + 2; i++) wind.triggerGust();
+    expect(wind.getState().gusts).toHaveLength(MAX_GUSTS);
+  });
+
+  it('restores gusts and the grid direction from a checkpoint', () => {
+    const rng = new Prng(7);
+    const map = terrain([BUILDING]);
+    const wind = new WindField(0, 2, 0.5, rng, map);
+    wind.triggerGust({ center: { x: 50, y: 40 } });
+    for (let i = 0; i < 600; i++) wind.update();   // drifts past a grid rebuild
+
+    const copyRng = new Prng(1);
+    copyRng.setState(rng.getState());
+    const copy = new WindField(0, 2, 0.5, copyRng, map);
+    copy.restoreCheckpoint(wind.toCheckpoint());
+    for (let i = 0; i < 50; i++) {
+      wind.update();
+      copy.update();
+    }
+    for (const pos of [{ x: 48, y: 40 }, { x: 70, y: 30 }, { x: 10, y: 75 }]) {
+      expect(copy.getWindAt(pos)).toEqual(wind.getWindAt(pos));
+    }
+  });
+});
+
+describe('Gust commands', () => {
+  it('trigger configured gusts and calm them', () => {
+    const sessions = new SessionManager({ onSnapshot: () => {} });
+    const session = sessions.create({ id: DEFAULT_SESSION_ID, seed: 2 });
+    const gust = getCommand('gust')!;
+    const clear = getCommand('gust/clear')!;
+
+    const first = runCommand(gust, session, { center: { x: 30, y: 30 }, peakSpeed: 5 });
+    expect(first.ack).toMatchObject({ ok: true, gust: { id: 1, center: { x: 30, y: 30 } } });
+    runCommand(gust, session, {});
+    expect(session.sim.wind.getState().gusts).toHaveLength(2);
+    expect(runCommand(gust, session, { radius: 500 }).status).toBe(400);
+
+    expect(runCommand(clear, session, { id: 1 }).status).toBe(200);
+    expect(runCommand(clear, session, { id: 1 }).status).toBe(404);
+    expect(runCommand(clear, session, {}).status).toBe(200);
+    expect(session.sim.wind.isGustActive()).toBe(false);
+
+    const fields = session.sim.wind.getFieldSample();
+    expect(fields.vectors).toHaveLength(fields.cols * fields.rows);
+    expect(session.sim.getManifest().windSolver).toBe('wake');
+  });
+});
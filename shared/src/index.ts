@@ -0,0 +1,8 @@
+/**
+ * @swarm/shared — Wire types, protocol validators and the binary state
+ * codec, imported by both the server and the console.
+ */
+
+export * from './types';
+export * from './protocol';
+export * from './state-codec';
@@ -0,0 +1,315 @@
+/**
+ * protocol.ts — Runtime validators for the server → console payloads
+ *
+ * Strict zod mirrors of types.ts: a field the server adds without updating
+ * these schemas (or a console bundle older than the server) fails
+ * validation instead of silently never rendering. The server announces
+ * PROTOCOL_VERSION on connect (`protocol:version`); the console compares
+ * it with its own and validates the first snapshot it receives.
+ */
+
+import { z } from 'zod';
+import type {
+  Vec2, WindState, GustState, BleLink, HdcState, RobotState, MissionTargetState, MissionInfo,
+  EnergyFlowLink, SimClock, SwarmEvent, SwarmConsensus, HdcStats, NestingStats,
+  SwarmStats, SchedulerStats, ReplayState, SolarState, SwarmSnapshot, TerrainData, RobotSummary, StreamFrame,
+} from './types';
+
+/** Bump on any change to the shapes below (and to the matching types) */
+export const PROTOCOL_VERSION = 7;
+
+const sizeClass = z.enum(['small', 'medium', 'large', 'hub']);
+const windClass = z.enum(['CALM', 'LIGHT', 'MODERATE', 'STRONG']);
+const powerMode = z.enum(['FULL', 'NORMAL', 'ECO', 'CRITICAL']);
+const robotPhase = z.enum([
+  'docked', 'deploying', 'patrol', 'returning', 'landed', 'charging',
+  'nested', 'deploying-from-parent', 'returning-to-parent', 'wpt-charging',
+]);
+const formation = z.enum(['scatter', 'grid', 'ring', 'wedge', 'cluster']);
+const numbers = z.array(z.number());
+
+export const vec2Schema: z.ZodType<Vec2> = z.strictObject({ x: z.number(), y: z.number() });
+
+const gustStateSchema: z.ZodType<GustState> = z.strictObject({
+  id: z.number().int(),
+  center: vec2Schema,
+  radius: z.number(),
+  speed: z.number(),
+});
+
+export const windStateSchema: z.ZodType<WindState> = z.strictObject({
+  baseDirection: z.number(),
+  baseSpeed: z.number(),
+  gustActive: z.boolean(),
+  gustCenter: vec2Schema,
+  gustRadius: z.number(),
+  gustSpeed: z.number(),
+  gusts: z.array(gustStateSchema),
+  solver: z.enum(['wake', 'potential']),
+  source: z.enum(['synthetic', 'log', 'serial']),
+  stations: z.number().int(),
+  playback: z.strictObject({
+    logId: z.string(),
+    name: z.string(),
+    positionS: z.number(),
+    durationS: z.number(),
+    timeScale: z.number(),
+    loop: z.boolean(),
+  }).optional(),
+  windClass,
+});
+
+export const solarStateSchema: z.ZodType<SolarState> = z.strictObject({
+  hour: z.number(),
+  dayOfYear: z.number(),
+  elevationDeg: z.number(),
+  azimuthDeg: z.number(),
+  irradianceWm2: z.number(),
+  cloudCover: z.number(),
+});
+
+export const bleLinkSchema: z.ZodType<BleLink> = z.strictObject({
+  fromId: z.number(),
+  toId: z.number(),
+  rssi: z.number(),
+  quality: z.enum(['strong', 'ok', 'weak']),
+});
+
+export const hdcStateSchema: z.ZodType<HdcState> = z.strictObject({
+  melFeatures: numbers,
+  hiddenActivations: numbers,
+  hdVector: numbers,
+  classSimilarities: numbers,
+  predictedClass: z.number(),
+  predictedName: z.string(),
+  confidence: z.number(),
+});
+
+export const robotStateSchema: z.ZodType<RobotState> = z.strictObject({
+  id: z.number(),
+  name: z.string(),
+  sizeClass,
+  phase: robotPhase,
+  position: vec2Schema,
+  velocity: vec2Schema,
+  heading: z.number(),
+  speed: z.number(),
+  targetPosition: vec2Schema.nullable(),
+  batterySoc: z.number(),
+  batteryVoltage: z.number(),
+  batteryCurrentA: z.number(),
+  batteryTempC: z.number(),
+  powerDrawMw: z.number(),
+  solarHarvestMw: z.number(),
+  powerMode,
+  estimatedMinutes: z.number(),
+  localWindClass: windClass,
+  localWindSpeed: z.number(),
+  localWindDirection: z.number(),
+  hdc: hdcStateSchema,
+  isCoordinator: z.boolean(),
+  zoneId: z.number(),
+  bleRangeM: z.number(),
+  parentId: z.number().nullable(),
+  childIds: numbers,
+  isNested: z.boolean(),
+  windHarvestMw: z.number(),
+  regenHarvestMw: z.number(),
+  wptReceiveMw: z.number(),
+  wptOutputMw: z.number(),
+  supercapSoc: z.number(),
+  isOnline: z.boolean(),
+  isJammed: z.boolean(),
+  isByzantine: z.boolean(),
+  tickCount: z.number(),
+});
+
+export const missionTargetSchema: z.ZodType<MissionTargetState> = z.strictObject({
+  id: z.number(),
+  position: vec2Schema,
+  speciesIndex: z.number(),
+  speciesName: z.string(),
+  detectionRadius: z.number(),
+  status: z.enum(['active', 'detected', 'classified', 'expired']),
+  detectedBy: numbers,
+  classifiedBy: numbers,
+  spawnTick: z.number(),
+  expiresAtTick: z.number(),
+  drift: vec2Schema,
+});
+
+export const missionInfoSchema: z.ZodType<MissionInfo> = z.strictObject({
+  active: z.boolean(),
+  type: z.string(),
+  targets: z.array(missionTargetSchema),
+  score: z.number(),
+  totalTargets: z.number(),
+  classified: z.number(),
+  expired: z.number(),
+  startTick: z.number(),
+  endTick: z.number(),
+  timeRemainingMs: z.number(),
+});
+
+export const energyFlowSchema: z.ZodType<EnergyFlowLink> = z.strictObject({
+  fromId: z.number(),
+  toId: z.number(),
+  powerMw: z.number(),
+  type: z.enum(['wpt', 'solar', 'wind']),
+});
+
+export const simClockSchema: z.ZodType<SimClock> = z.strictObject({
+  simTimeMs: z.number(),
+  wallTimeMs: z.number(),
+  speed: z.number(),
+  paused: z.boolean(),
+});
+
+export const swarmEventSchema: z.ZodType<SwarmEvent> = z.strictObject({
+  tick: z.number(),
+  timeMs: z.number(),
+  type: z.enum([
+    'deploy', 'recall', 'formation', 'wind_change', 'low_battery',
+    'consensus', 'jamming', 'node_fail', 'byzantine', 'recovery', 'overrun', 'info',
+  ]),
+  message: z.string(),
+  robotId: z.number().optional(),
+});
+
+const consensusSchema: z.ZodType<SwarmConsensus> = z.strictObject({
+  species: z.string(),
+  speciesIndex: z.number(),
+  confidence: z.number(),
+  voters: z.number(),
+  totalOnline: z.number(),
+});
+
+const hdcStatsSchema: z.ZodType<HdcStats> = z.strictObject({
+  totalInferences: z.number(),
+  correctClassifications: z.number(),
+  runningAccuracy: z.number(),
+  perSpecies: z.array(z.strictObject({ species: z.string(), correct: z.number(), total: z.number() })),
+});
+
+const nestingStatsSchema: z.ZodType<NestingStats> = z.strictObject({
+  deployed: z.number(),
+  nested: z.number(),
+  wptCharging: z.number(),
+});
+
+const schedulerStatsSchema: z.ZodType<SchedulerStats> = z.strictObject({
+  tickRateHz: z.number(),
+  targetHz: z.number(),
+  overruns: z.number(),
+  droppedTicks: z.number(),
+  shedLevel: z.number(),
+  meshIntervalTicks: z.number(),
+});
+
+export const swarmStatsSchema: z.ZodType<SwarmStats> = z.strictObject({
+  totalRobots: z.number(),
+  onlineRobots: z.number(),
+  chargingRobots: z.number(),
+  avgBatterySoc: z.number(),
+  windClass,
+  formation,
+  coordinatorId: z.number(),
+  uptimeSeconds: z.number(),
+  consensus: consensusSchema.optional(),
+  hdcStats: hdcStatsSchema.optional(),
+  nestingStats: nestingStatsSchema.optional(),
+  scheduler: schedulerStatsSchema.optional(),
+});
+
+export const replayStateSchema: z.ZodType<ReplayState> = z.strictObject({
+  playing: z.boolean(),
+  tick: z.number(),
+  fromTick: z.number(),
+  toTick: z.number(),
+  speed: z.number(),
+  loop: z.boolean(),
+});
+
+const pathSchema = z.strictObject({ robotId: z.number(), waypoints: z.array(vec2Schema) });
+
+/** swarm:state */
+export const swarmSnapshotSchema: z.ZodType<SwarmSnapshot> = z.strictObject({
+  tick: z.number(),
+  timeMs: z.number(),
+  formation,
+  robots: z.array(robotStateSchema),
+  wind: windStateSchema,
+  solar: solarStateSchema,
+  bleLinks: z.array(bleLinkSchema),
+  events: z.array(swarmEventSchema),
+  stats: swarmStatsSchema,
+  mission: missionInfoSchema.optional(),
+  paths: z.array(pathSchema).optional(),
+  energyFlows: z.array(energyFlowSchema).optional(),
+  clock: simClockSchema,
+  replay: replayStateSchema.optional(),
+});
+
+export const robotSummarySchema: z.ZodType<RobotSummary> = z.strictObject({
+  id: z.number(),
+  name: z.string(),
+  sizeClass,
+  phase: robotPhase,
+  position: vec2Schema,
+  heading: z.number(),
+  batterySoc: z.number(),
+  powerMode,
+  isOnline: z.boolean(),
+  isJammed: z.boolean(),
+  isByzantine: z.boolean(),
+  isCoordinator: z.boolean(),
+  parentId: z.number().nullable(),
+  hdc: z.strictObject({ predictedClass: z.number(), predictedName: z.string(), confidence: z.number() }),
+});
+
+/** swarm:frame */
+export const streamFrameSchema: z.ZodType<StreamFrame> = z.strictObject({
+  tick: z.number(),
+  timeMs: z.number(),
+  formation,
+  wind: windStateSchema,
+  solar: solarStateSchema,
+  stats: swarmStatsSchema,
+  clock: simClockSchema,
+  robots: z.union([z.array(robotStateSchema), z.array(robotSummarySchema)]).optional(),
+  hdc: z.record(z.string().regex(/^\d+$/), hdcStateSchema).optional(),   // keyed by robot id
+  mission: missionInfoSchema.optional(),
+  energyFlows: z.array(energyFlowSchema).optional(),
+  bleLinks: z.array(bleLinkSchema).optional(),
+  paths: z.array(pathSchema).optional(),
+  events: z.array(swarmEventSchema).optional(),
+  replay: replayStateSchema.optional(),
+});
+
+/** swarm:terrain */
+export const terrainSchema: z.ZodType<TerrainData> = z.strictObject({
+  heightMap: z.array(numbers),
+  rows: z.number(),
+  cols: z.number(),
+  maxHeight: z.number(),
+  obstacles: z.array(z.strictObject({
+    x: z.number(),
+    z: z.number(),
+    width: z.number(),
+    depth: z.number(),
+    height: z.number(),
+    type: z.enum(['building', 'tree', 'rock']),
+  })),
+});
+
+/**
+ * First mismatch between a payload and its schema ("robots.3.newField:
+ * Unrecognized key"), or null when the payload conforms.
+ */
+export function protocolMismatch(schema: z.ZodType, payload: unknown): string | null {
+  const result = schema.safeParse(payload);
+  if (result.success) return null;
+  const issue = result.error.issues[0];
+  const where = issue.path.length ? issue.path.join('.') : '(root)';
+  return `${where}: ${issue.message}`;
+}
@@ -0,0 +1,439 @@
+/**
+ * state-codec.ts — Binary delta encoding for the swarm:state stream
+ *
+ * Deliberately not part of the server's protocol-defs.ts: those
+ * serializers are generated from the serial-link schema and describe
+ * fixed-size frames, while a delta record has a field mask and
+ * variable-length values, and the console needs the decoder too. The
+ * codec keeps their DataView / little-endian conventions, so a field
+ * reads the same on the wire either way. Robots are encoded through
+ * a field-descriptor table; each message carries, per robot, a bitmask of
+ * the fields that changed since the previous message to that client, then
+ * only those values. HDC internals (mel / hidden / HD vector /
+ * similarities) are sent only for robots the client subscribed to.
+ * Everything that is not a robot travels as a JSON tail holding only the
+ * top-level keys that changed.
+ *
+ *   u8  message type (KEYFRAME | DELTA)
+ *   u32 tick
+ *   u16 robot record count, then per record:
+ *       u16 robot index, MASK_BYTES field mask, values of the set fields
+ *   u32 JSON tail length, UTF-8 JSON tail
+ *
+ * A keyframe carries every robot and every key; deltas apply on top of the
+ * decoder's previous snapshot. The server encodes and the console
+ * decodes with this same module.
+ */
+
+import type { SwarmSnapshot, RobotState } from './types';
+
+export const STATE_CODEC_VERSION = 2;
+
+export const MSG_KEYFRAME = 1;
+export const MSG_DELTA = 2;
+
+/** Resync period: a keyframe every N messages bounds the cost of a lost base */
+export const KEYFRAME_INTERVAL = 100;
+
+/* ─── Field table ──────────────────────────────────────────── */
+
+type FieldKind =
+  | 'f32' | 'u8' | 'i8' | 'u32' | 'bool'
+  | 'str'                  // u8 length + UTF-8
+  | 'enum'                 // u8 index into `values`
+  | 'id?'                  // u8, 255 = null
+  | 'vec2?'                // u8 present flag + 2 × f32
+  | 'u8[]'                 // u8 length + bytes
+  | 'f32[]';               // u16 length + f32 values
+
+interface FieldDef {
+  path: string;
+  kind: FieldKind;
+  values?: readonly string[];
+  hdcInternal?: boolean;   // omitted unless the client subscribed to this robot
+}
+
+const SIZE_CLASSES = ['small', 'medium', 'large', 'hub'] as const;
+const PHASES = [
+  'docked', 'deploying', 'patrol', 'returning', 'landed', 'charging',
+  'nested', 'deploying-from-parent', 'returning-to-parent', 'wpt-charging',
+] as const;
+const POWER_MODES = ['FULL', 'NORMAL', 'ECO', 'CRITICAL'] as const;
+const WIND_CLASSES = ['CALM', 'LIGHT', 'MODERATE', 'STRONG'] as const;
+
+/** Append-only: new fields go at the end and bump STATE_CODEC_VERSION */
+export const ROBOT_FIELDS: readonly FieldDef[] = [
+  { path: 'id', kind: 'u8' },
+  { path: 'name', kind: 'str' },
+  { path: 'sizeClass', kind: 'enum', values: SIZE_CLASSES },
+  { path: 'phase', kind: 'enum', values: PHASES },
+  { path: 'position.x', kind: 'f32' },
+  { path: 'position.y', kind: 'f32' },
+  { path: 'velocity.x', kind: 'f32' },
+  { path: 'velocity.y', kind: 'f32' },
+  { path: 'heading', kind: 'f32' },
+  { path: 'speed', kind: 'f32' },
+  { path: 'targetPosition', kind: 'vec2?' },
+  { path: 'batterySoc', kind: 'f32' },
+  { path: 'solarHarvestMw', kind: 'f32' },
+  { path: 'powerMode', kind: 'enum', values: POWER_MODES },
+  { path: 'estimatedMinutes', kind: 'f32' },
+  { path: 'localWindClass', kind: 'enum', values: WIND_CLASSES },
+  { path: 'localWindSpeed', kind: 'f32' },
+  { path: 'localWindDirection', kind: 'f32' },
+  { path: 'isCoordinator', kind: 'bool' },
+  { path: 'zoneId', kind: 'i8' },
+  { path: 'bleRangeM', kind: 'f32' },
+  { path: 'parentId', kind: 'id?' },
+  { path: 'childIds', kind: 'u8[]' },
+  { path: 'isNested', kind: 'bool' },
+  { path: 'windHarvestMw', kind: 'f32' },
+  { path: 'regenHarvestMw', kind: 'f32' },
+  { path: 'wptReceiveMw', kind: 'f32' },
+  { path: 'wptOutputMw', kind: 'f32' },
+  { path: 'supercapSoc', kind: 'f32' },
+  { path: 'isOnline', kind: 'bool' },
+  { path: 'isJammed', kind: 'bool' },
+  { path: 'isByzantine', kind: 'bool' },
+  { path: 'tickCount', kind: 'u32' },
+  { path: 'hdc.predictedClass', kind: 'u8' },
+  { path: 'hdc.predictedName', kind: 'str' },
+  { path: 'hdc.confidence', kind: 'f32' },
+  { path: 'hdc.melFeatures', kind: 'f32[]', hdcInternal: true },
+  { path: 'hdc.hiddenActivations', kind: 'f32[]', hdcInternal: true },
+  { path: 'hdc.hdVector', kind: 'f32[]', hdcInternal: true },
+  { path: 'hdc.classSimilarities', kind: 'f32[]', hdcInternal: true },
+  { path: 'batteryVoltage', kind: 'f32' },
+  { path: 'batteryCurrentA', kind: 'f32' },
+  { path: 'batteryTempC', kind: 'f32' },
+  { path: 'powerDrawMw', kind: 'f32' },
+];
+
+const MASK_BYTES = Math.ceil(ROBOT_FIELDS.length / 8);
+
+/** Top-level snapshot keys carried in the JSON tail */
+const TAIL_KEYS = [
+  'timeMs', 'formation', 'wind', 'bleLinks', 'events', 'stats',
+  'mission', 'paths', 'energyFlows', 'clock', 'replay', 'solar',
+] as const;
+
+type Tail = Partial<Record<(typeof TAIL_KEYS)[number], unknown>>;
+
+/* ─── Byte buffers ─────────────────────────────────────────── */
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class ByteWriter {
+  private buf = new ArrayBuffer(4096);
+  private dv = new DataView(this.buf);
+  private o = 0;
+
+  private ensure(n: number): void {
+    if (this.o + n <= this.buf.byteLength) return;
+    let size = this.buf.byteLength * 2;
+    while (size < this.o + n) size *= 2;
+    const next = new ArrayBuffer(size);
+    new Uint8Array(next).set(new Uint8Array(this.buf, 0, this.o));
+    this.buf = next;
+    this.dv = new DataView(next);
+  }
+
+  u8(v: number): void { this.ensure(1); this.dv.setUint8(this.o, v); this.o += 1; }
+  i8(v: number): void { this.ensure(1); this.dv.setInt8(this.o, v); this.o += 1; }
+  u16(v: number): void { this.ensure(2); this.dv.setUint16(this.o, v, true); this.o += 2; }
+  u32(v: number): void { this.ensure(4); this.dv.setUint32(this.o, v, true); this.o += 4; }
+  f32(v: number): void { this.ensure(4); this.dv.setFloat32(this.o, v, true); this.o += 4; }
+
+  bytes(b: Uint8Array): void {
+    this.ensure(b.length);
+    new Uint8Array(this.buf, this.o, b.length).set(b);
+    this.o += b.length;
+  }
+
+  /** Reserve n bytes and return their offset (counts and masks are known later) */
+  reserve(n: number): number {
+    this.ensure(n);
+    const at = this.o;
+    this.o += n;
+    return at;
+  }
+
+  setU8At(at: number, v: number): void { this.dv.setUint8(at, v); }
+  setU16At(at: number, v: number): void { this.dv.setUint16(at, v, true); }
+
+  finish(): Uint8Array {
+    return new Uint8Array(this.buf.slice(0, this.o));
+  }
+}
+
+class ByteReader {
+  private readonly data: Uint8Array;
+  private readonly dv: DataView;
+  private o = 0;
+
+  constructor(data: Uint8Array) {
+    this.data = data;
+    this.dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  u8(): number { const v = this.dv.getUint8(this.o); this.o += 1; return v; }
+  i8(): number { const v = this.dv.getInt8(this.o); this.o += 1; return v; }
+  u16(): number { const v = this.dv.getUint16(this.o, true); this.o += 2; return v; }
+  u32(): number { const v = this.dv.getUint32(this.o, true); this.o += 4; return v; }
+  f32(): number { const v = this.dv.getFloat32(this.o, true); this.o += 4; return v; }
+
+  bytes(n: number): Uint8Array {
+    const b = this.data.subarray(this.o, this.o + n);
+    this.o += n;
+    return b;
+  }
+}
+
+/* ─── Field access ─────────────────────────────────────────── */
+
+function getPath(obj: unknown, path: string): unknown {
+  let v = obj as Record<string, unknown>;
+  for (const key of path.split('.')) v = v?.[key] as Record<string, unknown>;
+  return v;
+}
+
+function setPath(obj: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let target = obj;
+  for (const key of keys.slice(0, -1)) {
+    if (typeof target[key] !== 'object' || target[key] === null) target[key] = {};
+    target = target[key] as Record<string, unknown>;
+  }
+  target[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Canonical wire value: floats rounded to f32 so a value that does not
+ * change on the wire does not count as a change.
+ */
+function wireValue(field: FieldDef, value: unknown): unknown {
+  switch (field.kind) {
+    case 'f32': return Math.fround(value as number);
+    case 'f32[]': return (value as number[]).map(Math.fround);
+    case 'vec2?': {
+      const v = value as { x: number; y: number } | null;
+      return v ? { x: Math.fround(v.x), y: Math.fround(v.y) } : null;
+    }
+    default: return value;
+  }
+}
+
+function sameValue(field: FieldDef, a: unknown, b: unknown): boolean {
+  switch (field.kind) {
+    case 'u8[]':
+    case 'f32[]': {
+      const x = a as number[];
+      const y = b as number[];
+      return x.length === y.length && x.every((v, i) => v === y[i]);
+    }
+    case 'vec2?': {
+      const x = a as { x: number; y: number } | null;
+      const y = b as { x: number; y: number } | null;
+      return x === y || (!!x && !!y && x.x === y.x && x.y === y.y);
+    }
+    default: return a === b;
+  }
+}
+
+function writeField(w: ByteWriter, field: FieldDef, value: unknown): void {
+  switch (field.kind) {
+    case 'f32': w.f32(value as number); break;
+    case 'u8': w.u8(value as number); break;
+    case 'i8': w.i8(value as number); break;
+    case 'u32': w.u32(value as number); break;
+    case 'bool': w.u8(value ? 1 : 0); break;
+    case 'str': {
+      const b = textEncoder.encode(value as string).subarray(0, 255);
+      w.u8(b.length);
+      w.bytes(b);
+      break;
+    }
+    case 'enum': {
+      const idx = field.values!.indexOf(value as string);
+      if (idx < 0) throw new Error(`state-codec: unknown ${field.path} value "${value}"`);
+      w.u8(idx);
+      break;
+    }
+    case 'id?': w.u8(value === null ? 255 : value as number); break;
+    case 'vec2?': {
+      const v = value as { x: number; y: number } | null;
+      w.u8(v ? 1 : 0);
+      if (v) { w.f32(v.x); w.f32(v.y); }
+      break;
+    }
+    case 'u8[]': {
+      const arr = value as number[];
+      w.u8(arr.length);
+      for (const v of arr) w.u8(v);
+      break;
+    }
+    case 'f32[]': {
+      const arr = value as number[];
+      w.u16(arr.length);
+      for (const v of arr) w.f32(v);
+      break;
+    }
+  }
+}
+
+function readField(r: ByteReader, field: FieldDef): unknown {
+  switch (field.kind) {
+    case 'f32': return r.f32();
+    case 'u8': return r.u8();
+    case 'i8': return r.i8();
+    case 'u32': return r.u32();
+    case 'bool': return r.u8() === 1;
+    case 'str': return textDecoder.decode(r.bytes(r.u8()));
+    case 'enum': return field.values![r.u8()];
+    case 'id?': { const v = r.u8(); return v === 255 ? null : v; }
+    case 'vec2?': return r.u8() ? { x: r.f32(), y: r.f32() } : null;
+    case 'u8[]': { const n = r.u8(); return Array.from({ length: n }, () => r.u8()); }
+    case 'f32[]': { const n = r.u16(); return Array.from({ length: n }, () => r.f32()); }
+  }
+}
+
+/* ─── Encoder (one per client) ─────────────────────────────── */
+
+export class StateEncoder {
+  private prevRobots: unknown[][] = [];         // wire values per robot, in ROBOT_FIELDS order
+  private prevTail = new Map<string, string>(); // JSON per tail key
+  private sinceKeyframe = Infinity;
+  private hdcRobots = new Set<number>();
+
+  /** Robots whose HDC internals this client wants (e.g. the selected robot) */
+  setHdcSubscription(robotIds: number[]): void {
+    this.hdcRobots = new Set(robotIds);
+  }
+
+  getHdcSubscription(): number[] {
+    return [...this.hdcRobots];
+  }
+
+  /** Next message is a keyframe (new client, fleet swap, decoder resync) */
+  requestKeyframe(): void {
+    this.sinceKeyframe = Infinity;
+  }
+
+  encode(snapshot: SwarmSnapshot): Uint8Array {
+    const robots = snapshot.robots;
+    const keyframe = this.sinceKeyframe >= KEYFRAME_INTERVAL || robots.length !== this.prevRobots.length;
+    this.sinceKeyframe = keyframe ? 1 : this.sinceKeyframe + 1;
+
+    const w = new ByteWriter();
+    w.u8(keyframe ? MSG_KEYFRAME : MSG_DELTA);
+    w.u32(snapshot.tick);
+    const countAt = w.reserve(2);
+    let records = 0;
+
+    const nextRobots: unknown[][] = [];
+    robots.forEach((robot, index) => {
+      const withHdc = this.hdcRobots.has(robot.id);
+      const values = ROBOT_FIELDS.map(f =>
+        f.hdcInternal && !withHdc ? [] : wireValue(f, getPath(robot, f.path)));
+      nextRobots.push(values);
+
+      const prev = keyframe ? undefined : this.prevRobots[index];
+      const changed = ROBOT_FIELDS.map((f, i) => !prev || !sameValue(f, prev[i], values[i]));
+      if (!changed.some(Boolean)) return;
+
+      records++;
+      w.u16(index);
+      const maskAt = w.reserve(MASK_BYTES);
+      for (let b = 0; b < MASK_BYTES; b++) {
+        let byte = 0;
+        for (let bit = 0; bit < 8; bit++) {
+          if (changed[b * 8 + bit]) byte |= 1 << bit;
+        }
+        w.setU8At(maskAt + b, byte);
+      }
+      ROBOT_FIELDS.forEach((f, i) => {
+        if (changed[i]) writeField(w, f, values[i]);
+      });
+    });
+    w.setU16At(countAt, records);
+    this.prevRobots = nextRobots;
+
+    // JSON tail: changed keys only; null marks a key that disappeared
+    const tail: Tail = {};
+    for (const key of TAIL_KEYS) {
+      const json = JSON.stringify(snapshot[key] ?? null);
+      if (keyframe || this.prevTail.get(key) !== json) {
+        tail[key] = snapshot[key] ?? null;
+        this.prevTail.set(key, json);
+      }
+    }
+    const tailBytes = textEncoder.encode(JSON.stringify(tail));
+    w.u32(tailBytes.length);
+    w.bytes(tailBytes);
+
+    return w.finish();
+  }
+}
+
+/* ─── Decoder (client side) ───────────────────────────────── */
+
+export class StateDecoder {
+  private prev: SwarmSnapshot | null = null;
+
+  /**
+   * Apply one message. Returns null for a delta without a base snapshot —
+   * the caller should ask the server for a keyframe.
+   */
+  decode(data: ArrayBuffer | Uint8Array): SwarmSnapshot | null {
+    const r = new ByteReader(data instanceof Uint8Array ? data : new Uint8Array(data));
+    const type = r.u8();
+    if (type !== MSG_KEYFRAME && type !== MSG_DELTA) throw new Error(`state-codec: unknown message type ${type}`);
+    if (type === MSG_DELTA && !this.prev) return null;
+
+    const tick = r.u32();
+    const base = type === MSG_DELTA ? this.prev! : null;
+    const robots: RobotState[] = base ? base.robots.slice() : [];
+
+    const records = r.u16();
+    for (let n = 0; n < records; n++) {
+      const index = r.u16();
+      const mask = r.bytes(MASK_BYTES);
+      const robot = base?.robots[index]
+        ? cloneRobot(base.robots[index])
+        : ({ hdc: {} } as unknown as RobotState);
+      ROBOT_FIELDS.forEach((f, i) => {
+        if (mask[i >> 3] & (1 << (i & 7))) {
+          setPath(robot as unknown as Record<string, unknown>, f.path, readField(r, f));
+        }
+      });
+      robots[index] = robot;
+    }
+
+    const tailLength = r.u32();
+    const tail = JSON.parse(textDecoder.decode(r.bytes(tailLength))) as Tail;
+    const snapshot = { ...(base ?? {}), tick, robots } as Record<string, unknown>;
+    for (const key of TAIL_KEYS) {
+      if (!(key in tail)) continue;
+      if (tail[key] === null) delete snapshot[key];
+      else snapshot[key] = tail[key];
+    }
+
+    this.prev = snapshot as unknown as SwarmSnapshot;
+    return this.prev;
+  }
+
+  reset(): void {
+    this.prev = null;
+  }
+}
+
+/** Copy a decoded robot before patching it (React state must not mutate) */
+function cloneRobot(r: RobotState): RobotState {
+  return {
+    ...r,
+    position: { ...r.position },
+    velocity: { ...r.velocity },
+    hdc: { ...r.hdc },
+  };
+}
@@ -0,0 +1,378 @@
+/**
+ * types.ts — Wire types shared by the server and the console
+ *
+ * Everything the server sends over Socket.io / REST and the client
+ * renders. protocol.ts holds the runtime validators for the same shapes;
+ * bump PROTOCOL_VERSION there when a payload changes.
+ */
+
+export type SizeClass = 'small' | 'medium' | 'large' | 'hub';
+export type WindClass = 'CALM' | 'LIGHT' | 'MODERATE' | 'STRONG';
+export type PowerMode = 'FULL' | 'NORMAL' | 'ECO' | 'CRITICAL';
+export type RobotPhase = 'docked' | 'deploying' | 'patrol' | 'returning' | 'landed' | 'charging'
+  | 'nested' | 'deploying-from-parent' | 'returning-to-parent' | 'wpt-charging';
+export type Formation = 'scatter' | 'grid' | 'ring' | 'wedge' | 'cluster';
+
+export interface Vec2 {
+  x: number;
+  y: number;
+}
+
+/** How the wind grid resolves flow around obstacles (see server wind.ts) */
+export type WindSolver = 'wake' | 'potential';
+
+/** What A* minimizes: path length, or energy in the current wind (see server pathfinding.ts) */
+export type PathCost = 'distance' | 'energy';
+
+export interface GustState {
+  id: number;
+  center: Vec2;
+  radius: number;          // m, grows and shrinks with the gust
+  speed: number;           // m/s at the center
+}
+
+/** What sets the base wind: the synthetic drift, an imported log or serial reports */
+export type WindSource = 'synthetic' | 'log' | 'serial';
+
+/** Anemometer log replaying into a session (cmd/wind/play) */
+export interface WindPlayback {
+  logId: string;
+  name: string;
+  positionS: number;       // seconds into the log
+  durationS: number;
+  timeScale: number;       // log seconds per simulated second
+  loop: boolean;
+}
+
+export interface WindState {
+  baseDirection: number;   // radians
+  baseSpeed: number;       // m/s
+  gustActive: boolean;     // gust* fields: the strongest active gust
+  gustCenter: Vec2;
+  gustRadius: number;
+  gustSpeed: number;
+  gusts: GustState[];      // every active gust
+  solver: WindSolver;
+  source: WindSource;
+  stations: number;        // observations driving the base wind (0 when synthetic)
+  playback?: WindPlayback;
+  windClass: WindClass;
+}
+
+/** Site and sky for the day/night cycle (run manifest, session create) */
+export interface SolarSettings {
+  latitudeDeg: number;
+  dayOfYear: number;       // 1-365
+  startHour: number;       // local solar time the run starts at
+  cloudCover: number;      // mean cloud cover 0-1
+}
+
+/** Sun and sky this tick */
+export interface SolarState {
+  hour: number;            // local solar time, 0-24
+  dayOfYear: number;
+  elevationDeg: number;    // below 0 at night
+  azimuthDeg: number;      // clockwise from north (−y on the map)
+  irradianceWm2: number;   // global horizontal, after clouds
+  cloudCover: number;      // 0-1
+}
+
+export interface BleLink {
+  fromId: number;
+  toId: number;
+  rssi: number;   // dBm (-30 to -90)
+  quality: 'strong' | 'ok' | 'weak';
+}
+
+export interface HdcState {
+  melFeatures: number[];        // 32 bins
+  hiddenActivations: number[];  // 64 dims
+  hdVector: number[];           // 64 dims (packed for display)
+  classSimilarities: number[];  // 6 classes
+  predictedClass: number;
+  predictedName: string;
+  confidence: number;
+}
+
+export interface RobotState {
+  id: number;
+  name: string;
+  sizeClass: SizeClass;
+  phase: RobotPhase;
+  position: Vec2;
+  velocity: Vec2;
+  heading: number;         // radians
+  speed: number;           // m/s
+  targetPosition: Vec2 | null;
+
+  // Energy
+  batterySoc: number;      // 0-100%, usable at the pack's temperature
+  batteryVoltage: number;  // terminal V under load
+  batteryCurrentA: number; // + discharging, − charging
+  batteryTempC: number;
+  powerDrawMw: number;     // motors + radio + MCU + HDC + WPT transmitter
+  solarHarvestMw: number;
+  powerMode: PowerMode;
+  estimatedMinutes: number;
+
+  // Wind
+  localWindClass: WindClass;
+  localWindSpeed: number;
+  localWindDirection: number;
+
+  // HDC inference (simulated)
+  hdc: HdcState;
+
+  // Swarm
+  isCoordinator: boolean;
+  zoneId: number;
+  bleRangeM: number;
+
+  // Nesting (套娃 hierarchy)
+  parentId: number | null;
+  childIds: number[];
+  isNested: boolean;
+
+  // Three-source energy
+  windHarvestMw: number;
+  regenHarvestMw: number;
+  wptReceiveMw: number;
+  wptOutputMw: number;
+  supercapSoc: number;       // 0-100, small only
+
+  // Status
+  isOnline: boolean;
+  isJammed: boolean;
+  isByzantine: boolean;
+  tickCount: number;
+}
+
+export interface MissionTargetState {
+  id: number;
+  position: Vec2;
+  speciesIndex: number;
+  speciesName: string;
+  detectionRadius: number;
+  status: 'active' | 'detected' | 'classified' | 'expired';
+  detectedBy: number[];
+  classifiedBy: number[];
+  spawnTick: number;
+  expiresAtTick: number;
+  drift: Vec2;               // movement per tick
+}
+
+export interface MissionInfo {
+  active: boolean;
+  type: string;
+  targets: MissionTargetState[];
+  score: number;
+  totalTargets: number;
+  classified: number;
+  expired: number;
+  startTick: number;
+  endTick: number;
+  timeRemainingMs: number;
+}
+
+export interface EnergyFlowLink {
+  fromId: number;
+  toId: number;
+  powerMw: number;
+  type: 'wpt' | 'solar' | 'wind';
+}
+
+/** Simulation clock: sim time advances per tick, wall time per real second */
+export interface SimClock {
+  simTimeMs: number;       // tick × SIM_STEP_MS — drives mission timers
+  wallTimeMs: number;      // real elapsed time since the run started
+  speed: number;           // playback multiplier (0.25-10)
+  paused: boolean;
+}
+
+export interface SwarmSnapshot {
+  tick: number;
+  timeMs: number;          // sim time (same as clock.simTimeMs)
+  formation: Formation;
+  robots: RobotState[];
+  wind: WindState;
+  solar: SolarState;
+  bleLinks: BleLink[];
+  events: SwarmEvent[];
+  stats: SwarmStats;
+  mission?: MissionInfo;
+  paths?: { robotId: number; waypoints: Vec2[] }[];
+  energyFlows?: EnergyFlowLink[];
+  clock: SimClock;
+  replay?: ReplayState;    // set while the session plays back a recording
+}
+
+export interface SwarmEvent {
+  tick: number;
+  timeMs: number;          // sim time
+  type: 'deploy' | 'recall' | 'formation' | 'wind_change' | 'low_battery'
+      | 'consensus' | 'jamming' | 'node_fail' | 'byzantine' | 'recovery' | 'overrun' | 'info';
+  message: string;
+  robotId?: number;
+}
+
+export interface SwarmConsensus {
+  species: string;
+  speciesIndex: number;
+  confidence: number;
+  voters: number;           // how many robots participated
+  totalOnline: number;
+}
+
+export interface HdcStats {
+  totalInferences: number;
+  correctClassifications: number;
+  runningAccuracy: number;
+  perSpecies: { species: string; correct: number; total: number }[];
+}
+
+export interface NestingStats {
+  deployed: number;
+  nested: number;
+  wptCharging: number;
+}
+
+export interface SwarmStats {
+  totalRobots: number;
+  onlineRobots: number;
+  chargingRobots: number;
+  avgBatterySoc: number;
+  windClass: WindClass;
+  formation: Formation;
+  coordinatorId: number;
+  uptimeSeconds: number;     // sim seconds
+  consensus?: SwarmConsensus;
+  hdcStats?: HdcStats;
+  nestingStats?: NestingStats;
+  scheduler?: SchedulerStats;  // only when driven in real time (SimLoop)
+}
+
+/** Real-time scheduler health, measured on the wall clock */
+export interface SchedulerStats {
+  tickRateHz: number;        // effective ticks per second over the last ticks
+  targetHz: number;          // 1000 / SIM_TICK_MS × speed
+  overruns: number;          // ticks that exceeded their budget, since start
+  droppedTicks: number;      // backlog dropped instead of bursting
+  shedLevel: number;         // 0 = full fidelity; higher = BLE/consensus refreshed less often
+  meshIntervalTicks: number; // BLE mesh refresh interval at this level
+}
+
+/** Server-side replay of a session's recording (the live simulator is paused) */
+export interface ReplayState {
+  playing: boolean;          // false: paused on `tick` (or at the end)
+  tick: number;              // recorded tick being shown
+  fromTick: number;
+  toTick: number;
+  speed: number;             // recorded ticks per SIM_TICK_MS
+  loop: boolean;
+}
+
+/** Reproducibility record for a simulator run */
+export interface RunManifest {
+  runId: string;            // persistence key (see store.ts)
+  seed: number;
+  startedAt: string;        // ISO timestamp (wall clock)
+  robotCount: number;
+  fleetName: string;
+  dtSeconds: number;        // simulated seconds per tick
+  ambientTempC: number;     // air temperature the battery packs see
+  solar: SolarSettings;
+  windSolver: WindSolver;
+  pathCost: PathCost;
+  restoredFrom?: string;    // checkpoint id when the run resumed from a checkpoint
+  forkedFrom?: { runId: string; tick: number };   // run and recorded tick a fork branched from
+}
+
+/** Wall-clock milliseconds between ticks at 1× speed (10 Hz) */
+export const SIM_TICK_MS = 100;
+
+/** Simulated milliseconds per tick — the physics step; every sim clock is tick × SIM_STEP_MS */
+export const SIM_STEP_MS = 150;
+
+/** Allowed simulation speed multipliers */
+export const MIN_SIM_SPEED = 0.25;
+export const MAX_SIM_SPEED = 10;
+
+// Species for HDC simulation
+export const SPECIES_NAMES = [
+  'Ae. aegypti', 'Ae. albopictus', 'An. gambiae',
+  'An. arabiensis', 'C. pipiens', 'C. quinque.'
+];
+
+export const SPECIES_COLORS = [
+  '#58a6ff', '#3fb950', '#f0883e', '#a371f7', '#d29922', '#f47067'
+];
+
+// Terrain types
+export interface TerrainObstacle {
+  x: number;
+  z: number;
+  width: number;
+  depth: number;
+  height: number;
+  type: 'building' | 'tree' | 'rock';
+}
+
+export interface TerrainData {
+  heightMap: number[][];
+  rows: number;
+  cols: number;
+  maxHeight: number;
+  obstacles: TerrainObstacle[];
+}
+
+// ── Socket protocol ─────────────────────────────────────────
+
+/** Compact per-robot view for the robots:summary topic */
+export interface RobotSummary {
+  id: number;
+  name: string;
+  sizeClass: SizeClass;
+  phase: RobotPhase;
+  position: Vec2;
+  heading: number;
+  batterySoc: number;
+  powerMode: PowerMode;
+  isOnline: boolean;
+  isJammed: boolean;
+  isByzantine: boolean;
+  isCoordinator: boolean;
+  parentId: number | null;
+  hdc: Pick<HdcState, 'predictedClass' | 'predictedName' | 'confidence'>;
+}
+
+/** swarm:frame — a snapshot projected onto a socket's subscribed topics */
+export interface StreamFrame {
+  tick: number;
+  timeMs: number;
+  formation: Formation;
+  wind: WindState;
+  solar: SolarState;
+  stats: SwarmStats;
+  clock: SimClock;
+  robots?: RobotState[] | RobotSummary[];
+  hdc?: Record<number, HdcState>;
+  mission?: MissionInfo;
+  energyFlows?: EnergyFlowLink[];
+  bleLinks?: BleLink[];
+  paths?: { robotId: number; waypoints: Vec2[] }[];
+  events?: SwarmEvent[];
+  replay?: ReplayState;
+}
+
+/** stream:subscribe payload */
+export interface StreamSubscription {
+  // robots[:full|:summary], hdc:<id> | hdc:*, mission, energyFlows, bleLinks, paths, events;
+  // set → projected swarm:frame instead of the full snapshot
+  topics?: string[];
+  rateHz?: number | null;    // downsample (wall clock), e.g. 2 for wall displays
+}
+
+/** Acknowledgement of a cmd:* event (same body as the REST command route) */
+export type CommandAck =
+  | ({ ok: true } & Record<string, unknown>)
+  | { ok: false; error: string; details?: unknown };